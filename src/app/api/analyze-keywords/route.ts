@@ -6,10 +6,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Resume, KeywordAnalysis } from '@/lib/parsers/types';
-import { parseLatexResume } from '@/lib/parsers/latex';
+import { ResumeDocument, KeywordAnalysis } from '@/lib/parsers/types';
+import { promoteDocxLinesToResume, docxTextToLines } from '@/lib/parsers/docx-resume';
+import { toResumeDocument } from '@/lib/resume-model';
 import { createKeywordAnalyzer } from '@/lib/optimization/keyword-analyzer';
 import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -26,17 +28,20 @@ export async function POST(request: NextRequest) {
     // Parse request body
     const body = await request.json();
     const {
+      resume: parsedResume,
       resumeContent,
       resumeFormat,
       fileName,
       jobDescription,
       jobField,
+      keywordAliases,
       sessionId,
-      customApiKey
+      customApiKey,
+      llmProvider
     } = body;
 
     // Validate required fields
-    if (!resumeContent) {
+    if (!resumeContent && !parsedResume) {
       return NextResponse.json(
         { error: 'Resume content is required' },
         { status: 400 }
@@ -57,11 +62,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get API key
-    const apiKey = customApiKey || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    // Resolve LLM provider (per-request selection, falls back to env defaults)
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider(llmProvider, customApiKey);
+    } catch (error) {
       return NextResponse.json(
-        { error: 'Gemini API key not configured' },
+        { error: error instanceof Error ? error.message : 'LLM provider not configured' },
         { status: 500 }
       );
     }
@@ -70,38 +77,44 @@ export async function POST(request: NextRequest) {
     const tracker = getTokenTracker();
     tracker.initSession(sessionId);
 
-    // For keyword analysis, we don't need full resume parsing
-    // Just create a simple Resume object with the text content
+    // For keyword analysis, we don't need full resume parsing.
+    // A canonical resume from /api/parse is used as-is; DOCX paragraphs are
+    // promoted so structural lines (names, dates) are skipped; other formats
+    // use a simple line view with the text content
     console.info('[ANALYZE_API] Creating resume object for analysis');
 
-    const resume: Resume = {
-      id: `temp-${Date.now()}`,
-      metadata: {
-        totalLines: resumeContent.split('\n').length,
-        totalPages: 1,
-        format: resumeFormat as 'latex' | 'docx' | 'pdf' | 'markdown',
-        fileName: fileName
-      },
-      lines: resumeContent.split('\n').map((text, index) => ({
-        lineNumber: index + 1,
-        text,
-        pageNumber: 1,
-        isLocked: false,
-        isPlaceholder: false,
-        isEditable: true,
-        isStructural: false,
-        bulletLevel: 0
-      })),
-      sections: [],
-      detectedKeywords: [],
-      format: resumeFormat as 'latex' | 'docx' | 'pdf' | 'markdown'
-    };
+    const resume: ResumeDocument = parsedResume
+      ? toResumeDocument(parsedResume)
+      : resumeFormat === 'docx'
+      ? promoteDocxLinesToResume(docxTextToLines(resumeContent), fileName)
+      : {
+        id: `temp-${Date.now()}`,
+        metadata: {
+          totalLines: resumeContent.split('\n').length,
+          totalPages: 1,
+          format: resumeFormat as 'latex' | 'docx' | 'pdf' | 'markdown',
+          fileName: fileName
+        },
+        lines: resumeContent.split('\n').map((text: string, index: number) => ({
+          lineNumber: index + 1,
+          text,
+          pageNumber: 1,
+          isLocked: false,
+          isPlaceholder: false,
+          isEditable: true,
+          isStructural: false,
+          bulletLevel: 0
+        })),
+        sections: [],
+        detectedKeywords: [],
+        format: resumeFormat as 'latex' | 'docx' | 'pdf' | 'markdown'
+      };
 
     console.info(`[ANALYZE_API] Resume prepared: ${resume.lines.length} lines`);
 
     // Extract keywords
     console.info('[ANALYZE_API] Extracting keywords');
-    const keywordAnalyzer = createKeywordAnalyzer(apiKey, sessionId);
+    const keywordAnalyzer = createKeywordAnalyzer(llm, sessionId, undefined, keywordAliases);
 
     let jdKeywords: string[];
     let resumeKeywords: string[];
@@ -126,8 +139,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Analyze gap
-    const keywordAnalysis = keywordAnalyzer.analyzeKeywordGap(jdKeywords, resumeKeywords);
+    // Weigh JD keywords (required / preferred / bonus) and analyze gap
+    const keywordImportance = keywordAnalyzer.weighJDKeywords(jobDescription, jdKeywords);
+    const keywordAnalysis = keywordAnalyzer.analyzeKeywordGap(jdKeywords, resumeKeywords, keywordImportance);
 
     console.info(`[ANALYZE_API] Coverage: ${keywordAnalysis.coverage}%`);
     console.info(`[ANALYZE_API] Missing keywords: ${keywordAnalysis.missingKeywords.length}`);
@@ -142,7 +156,9 @@ export async function POST(request: NextRequest) {
         resumeKeywords: keywordAnalysis.resumeKeywords,
         missingKeywords: keywordAnalysis.missingKeywords,
         keywordFrequency: Object.fromEntries(keywordAnalysis.keywordFrequency),
-        coverage: keywordAnalysis.coverage
+        coverage: keywordAnalysis.coverage,
+        unweightedCoverage: keywordAnalysis.unweightedCoverage,
+        keywordImportance: keywordAnalysis.keywordImportance
       },
       suggestions: generateSuggestions(keywordAnalysis),
       tokensUsed: tokenUsage?.totalTokens || 0,
@@ -183,6 +199,14 @@ function generateSuggestions(analysis: KeywordAnalysis): string[] {
     suggestions.push('Run full optimization to integrate missing keywords into your bullet points.');
   }
 
+  // Required keywords matter most for ATS filters
+  const missingRequired = (analysis.keywordImportance || [])
+    .filter(item => item.category === 'required' && analysis.missingKeywords.includes(item.keyword))
+    .map(item => item.keyword);
+  if (missingRequired.length > 0) {
+    suggestions.push(`Missing required keywords: ${missingRequired.join(', ')}`);
+  }
+
   // Specific keyword suggestions
   if (analysis.missingKeywords.length > 0) {
     const topMissing = analysis.missingKeywords.slice(0, 3);
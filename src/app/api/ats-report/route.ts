@@ -0,0 +1,97 @@
+/**
+ * ATS Report API
+ *
+ * Parse an exported resume (PDF or DOCX) the way an ATS does and report what
+ * is lost or garbled (see lib/ats). Runs locally, no LLM calls.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runAtsSimulation, AtsSimulationError } from '@/lib/ats';
+import type { KeywordAliasMap } from '@/lib/parsers/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * POST /api/ats-report
+ *
+ * multipart/form-data:
+ * - file: the PDF/DOCX to check
+ * - sourceText (optional): resume text/LaTeX the file was generated from
+ * - keywords (optional): JSON array of JD keywords
+ * - keywordAliases (optional): JSON alias map
+ */
+export async function POST(request: NextRequest) {
+  try {
+    console.info('[ATS_API] Received ATS report request');
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      console.error('[ATS_API] No file provided');
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File is too large (max 10MB)' },
+        { status: 400 }
+      );
+    }
+
+    const sourceText = formData.get('sourceText');
+    let keywords: string[] | undefined;
+    let keywordAliases: KeywordAliasMap | undefined;
+    try {
+      const keywordsField = formData.get('keywords');
+      const aliasesField = formData.get('keywordAliases');
+      keywords = typeof keywordsField === 'string' ? JSON.parse(keywordsField) : undefined;
+      keywordAliases = typeof aliasesField === 'string' ? JSON.parse(aliasesField) : undefined;
+    } catch {
+      return NextResponse.json(
+        { error: 'keywords and keywordAliases must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    console.info(`[ATS_API] Checking file: ${file.name} (${file.size} bytes, ${file.type}), keywords: ${keywords?.length || 0}`);
+
+    const arrayBuffer = await file.arrayBuffer();
+    const report = await runAtsSimulation({
+      buffer: Buffer.from(arrayBuffer),
+      fileName: file.name,
+      mimeType: file.type,
+      sourceText: typeof sourceText === 'string' && sourceText.trim() ? sourceText : undefined,
+      keywords: Array.isArray(keywords) ? keywords.filter(k => typeof k === 'string') : undefined,
+      keywordAliases
+    });
+
+    console.info(`[ATS_API] Report ready: score ${report.score}, ${report.issues.length} issues`);
+
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    if (error instanceof AtsSimulationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[ATS_API] Unexpected error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
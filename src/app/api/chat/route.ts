@@ -1,17 +1,63 @@
 /**
  * Chat API Route - Handles chat with Gemini and tool execution
+ *
+ * Two modes: 'edit' (default) applies doc_edit calls to the document;
+ * 'suggest' swaps doc_edit for doc_propose_edit and returns the proposed
+ * changes as suggestions, leaving the document untouched.
+ *
+ * Besides line edits, edit mode has doc_find_replace, doc_move_block and
+ * doc_batch_edit for changes that would otherwise take many doc_edit calls.
+ *
+ * Tools run in a bounded agent loop (see gemini/agent): tool results go back
+ * to the model as function responses until it answers, so search -> read ->
+ * edit chains finish in one user turn. With `stream: true` the response is
+ * NDJSON: resolved citations, model text as it is generated, tool start and
+ * finish events, one `step` event per agent step, then `result` or `error`.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { initializeGemini, chatWithHistory } from '@/lib/gemini/client';
-import { toolDefinitions, executeDocSearch, executeDocRead, executeDocEdit, executeDocAnalyze } from '@/lib/gemini/tools';
-import { buildSystemPrompt, buildPromptWithContext, formatToolResult } from '@/lib/gemini/prompt';
+import { chatWithHistory } from '@/lib/gemini/client';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
+import {
+  toolDefinitions,
+  suggestToolDefinitions,
+  executeDocSearch,
+  executeDocRead,
+  executeDocEdit,
+  executeDocProposeEdit,
+  executeDocAnalyze,
+  executeDocFindReplace,
+  executeDocMoveBlock,
+  executeDocBatchEdit
+} from '@/lib/gemini/tools';
+import { runAgentLoop, resolveAgentMaxSteps, AgentToolCall, AgentToolOutcome } from '@/lib/gemini/agent';
+import { buildSystemPrompt, buildPromptWithContext, buildSuggestModeInstructions, formatToolResult } from '@/lib/gemini/prompt';
 import { parseCitations } from '@/lib/citations/parser';
 import { resolveCitations, formatCitationsAsContext } from '@/lib/citations/resolver';
-import { Action, Citation, Message } from '@/lib/parsers/types';
+import {
+  Action,
+  ChatEditMode,
+  ChatProgressEvent,
+  ChatStopReason,
+  ChatTurnResult,
+  Citation,
+  Document,
+  EditSuggestion,
+  Message
+} from '@/lib/parsers/types';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
+export const maxDuration = 120; // Several agent steps, each a model call
+
+interface ChatTurnInput {
+  message: string;
+  document: Document;
+  chatHistory: Message[];
+  customPrompt?: string;
+  suggestMode: boolean;
+  maxSteps: number;
+}
 
 /**
  * POST /api/chat - Send a message and get response from Gemini
@@ -22,7 +68,17 @@ export async function POST(request: NextRequest) {
 
     // Get request body
     const body = await request.json();
-    const { message, document, chatHistory = [], customPrompt, customApiKey } = body;
+    const {
+      message,
+      document,
+      chatHistory = [],
+      customPrompt,
+      customApiKey,
+      llmProvider,
+      mode = 'edit',
+      maxSteps,
+      stream = false
+    } = body;
 
     // Validate inputs
     if (!message || message.trim().length === 0) {
@@ -41,350 +97,509 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get API key - use custom key if provided, otherwise use environment variable
-    const apiKey = customApiKey || process.env.GEMINI_API_KEY;
+    if (mode !== 'edit' && mode !== 'suggest') {
+      return NextResponse.json(
+        { error: "mode must be 'edit' or 'suggest'" },
+        { status: 400 }
+      );
+    }
 
-    if (!apiKey) {
-      console.error('[CHAT_API] GEMINI_API_KEY not configured');
+    // Resolve LLM provider - custom key/provider if provided, otherwise environment defaults
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider(llmProvider, customApiKey);
+    } catch (error) {
+      console.error('[CHAT_API] LLM provider not configured:', error);
       return NextResponse.json(
-        { error: 'Gemini API key not configured' },
+        { error: error instanceof Error ? error.message : 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
-    if (customApiKey) {
-      console.info('[CHAT_API] Using custom API key');
-    } else {
-      console.info('[CHAT_API] Using default API key from environment');
+    console.info(`[CHAT_API] Using LLM provider: ${llm.type} (${llm.model})`);
+
+    const input: ChatTurnInput = {
+      message,
+      document,
+      chatHistory,
+      customPrompt,
+      suggestMode: (mode as ChatEditMode) === 'suggest',
+      maxSteps: resolveAgentMaxSteps(maxSteps)
+    };
+
+    if (stream) {
+      return streamChat(request, llm, input);
     }
 
-    console.info('[CHAT_API] Processing message with citations');
+    try {
+      const result = await runChatTurn(llm, input, undefined, request.signal);
+      console.info('[CHAT_API] Successfully generated response');
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error('[CHAT_API] Error in Gemini chat:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to generate response',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      );
+    }
 
-    // Parse citations from message
-    const citations = parseCitations(message);
-    console.info(`[CHAT_API] Found ${citations.length} citations`);
+  } catch (error) {
+    console.error('[CHAT_API] Unexpected error:', error);
 
-    // Resolve citations to actual content
-    const resolvedCitations = resolveCitations(citations, document);
-    const citationContext = formatCitationsAsContext(resolvedCitations);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
 
-    // Build prompt with context
-    const prompt = buildPromptWithContext(message, citationContext, document);
-    console.info('[CHAT_API] Built prompt with context (length:', prompt.length, ')');
+/**
+ * One chat turn: build the context, run the agent loop, write the reply.
+ * onEvent receives the streaming events (all but result and error).
+ */
+async function runChatTurn(
+  llm: LLMProvider,
+  input: ChatTurnInput,
+  onEvent?: (event: ChatProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<ChatTurnResult> {
+  const { message, document, chatHistory, customPrompt, suggestMode, maxSteps } = input;
+
+  // Suggest mode: the model proposes edits instead of making them
+  const tools = suggestMode ? suggestToolDefinitions : toolDefinitions;
+  const resolveToolName = (name: string) => suggestMode && name === 'doc_edit' ? 'doc_propose_edit' : name;
+  // Calls that complete the request (a find/replace preview only reads)
+  const isEditCall = (action: { tool: string; args: any }) =>
+    suggestMode
+      ? action.tool === 'doc_propose_edit'
+      : ['doc_edit', 'doc_move_block', 'doc_batch_edit'].includes(action.tool) ||
+        (action.tool === 'doc_find_replace' && !action.args?.preview);
+
+  console.info('[CHAT_API] Processing message with citations');
+
+  // Parse citations from message
+  const citations = parseCitations(message);
+  console.info(`[CHAT_API] Found ${citations.length} citations`);
+
+  // Resolve citations to actual content
+  const resolvedCitations = resolveCitations(citations, document);
+  const citationContext = formatCitationsAsContext(resolvedCitations);
+  if (resolvedCitations.length > 0) {
+    onEvent?.({ type: 'citations', citations: resolvedCitations });
+  }
 
-    // Initialize Gemini
-    const genAI = initializeGemini(apiKey);
+  // Build prompt with context
+  const prompt = buildPromptWithContext(message, citationContext, document);
+  console.info('[CHAT_API] Built prompt with context (length:', prompt.length, ')');
 
-    // Build conversation context with history
-    let conversationContext = '';
+  // Build conversation context with history
+  let conversationContext = '';
 
-    // Add system prompt if first message
-    if (chatHistory.length === 0) {
-      conversationContext += `${buildSystemPrompt(document)}\n\n`;
-    }
+  // Add system prompt if first message
+  if (chatHistory.length === 0) {
+    conversationContext += `${buildSystemPrompt(document)}\n\n`;
+  }
 
-    // Add custom instructions if provided
-    if (customPrompt && customPrompt.trim().length > 0) {
-      conversationContext += `## User's Custom Instructions\n\n${customPrompt.trim()}\n\n`;
-      console.info('[CHAT_API] Added custom instructions:', customPrompt);
-    }
+  // Add custom instructions if provided
+  if (customPrompt && customPrompt.trim().length > 0) {
+    conversationContext += `## User's Custom Instructions\n\n${customPrompt.trim()}\n\n`;
+    console.info('[CHAT_API] Added custom instructions:', customPrompt);
+  }
+
+  if (suggestMode) {
+    conversationContext += `${buildSuggestModeInstructions()}\n\n`;
+    console.info('[CHAT_API] Suggest mode: edits are returned as suggestions');
+  }
+
+  // Add recent conversation history (last 5 messages for context)
+  const recentHistory = chatHistory.slice(-5);
+  if (recentHistory.length > 0) {
+    conversationContext += 'Recent conversation:\n';
+    recentHistory.forEach((msg: Message) => {
+      conversationContext += `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}\n`;
+    });
+    conversationContext += '\n';
+  }
 
-    // Add recent conversation history (last 5 messages for context)
-    const recentHistory = chatHistory.slice(-5);
-    if (recentHistory.length > 0) {
-      conversationContext += 'Recent conversation:\n';
-      recentHistory.forEach((msg: Message) => {
-        conversationContext += `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}\n`;
+  // Add current prompt
+  conversationContext += `Current user request: ${prompt}`;
+
+  console.info('[CHAT_API] Conversation context length:', conversationContext.length);
+  console.info('[CHAT_API] Is first message (includes system prompt):', chatHistory.length === 0);
+  console.info('[CHAT_API] Recent history messages:', recentHistory.length);
+
+  // Check if citations include locked lines - warn user before editing
+  const lockedLinesInCitations: number[] = [];
+  if (resolvedCitations.length > 0) {
+    resolvedCitations.forEach((citation: Citation) => {
+      // Get the actual Line objects for the cited line numbers
+      const citedLineNumbers = citation.lineNumbers || [];
+      citedLineNumbers.forEach((lineNum: number) => {
+        const line = document.lines.find((l: any) => l.lineNumber === lineNum);
+        if (line && line.isLocked) {
+          lockedLinesInCitations.push(line.lineNumber);
+        }
       });
-      conversationContext += '\n';
-    }
+    });
+  }
 
-    // Add current prompt
-    conversationContext += `Current user request: ${prompt}`;
-
-    console.info('[CHAT_API] Conversation context length:', conversationContext.length);
-    console.info('[CHAT_API] Is first message (includes system prompt):', chatHistory.length === 0);
-    console.info('[CHAT_API] Recent history messages:', recentHistory.length);
-
-    // Check if citations include locked lines - warn user before editing
-    const lockedLinesInCitations: number[] = [];
-    if (resolvedCitations.length > 0) {
-      resolvedCitations.forEach((citation: Citation) => {
-        // Get the actual Line objects for the cited line numbers
-        const citedLineNumbers = citation.lineNumbers || [];
-        citedLineNumbers.forEach((lineNum: number) => {
-          const line = document.lines.find((l: any) => l.lineNumber === lineNum);
-          if (line && line.isLocked) {
-            lockedLinesInCitations.push(line.lineNumber);
-          }
-        });
+  if (lockedLinesInCitations.length > 0) {
+    console.warn('[CHAT_API] Warning: User referenced locked lines:', lockedLinesInCitations);
+    conversationContext += `\n\nIMPORTANT: The user has referenced lines ${lockedLinesInCitations.join(', ')} which are LOCKED and cannot be edited. If the user is trying to edit these lines, politely inform them that these lines are immutable and locked by the user. Suggest that they unlock the lines first if they want to make changes.`;
+  }
+
+  // Execute chat with tools
+  const actions: Action[] = [];
+  const suggestions: EditSuggestion[] = [];
+
+  // doc_propose_edit: record suggestions, leave the document unchanged
+  const proposeEdit = (args: any) => {
+    const result = executeDocProposeEdit(args, document);
+    suggestions.push(...result.suggestions);
+    actions.push({
+      type: 'suggest',
+      success: result.success,
+      details: {
+        operation: args.operation,
+        lines: args.lines,
+        suggested: result.suggestions.length,
+        newText: args.newText
+      },
+      timestamp: new Date()
+    });
+    return result;
+  };
+
+  // Direct edits are refused in suggest mode even if the model calls them
+  const unavailableInSuggestMode = (name: string) => {
+    console.warn(`[CHAT_API] ${name} called in suggest mode`);
+    return { success: false, error: `${name} is not available in suggest mode - use doc_propose_edit` };
+  };
+
+  // doc_find_replace: a preview is recorded as a search, a replace as an edit
+  const findReplace = (args: any) => {
+    if (suggestMode) return unavailableInSuggestMode('doc_find_replace');
+    const result = executeDocFindReplace(args, document);
+    actions.push({
+      type: result.preview ? 'search' : 'edit',
+      success: result.success,
+      details: {
+        operation: 'find_replace',
+        pattern: args.pattern,
+        replacement: args.replacement,
+        ...(result.preview ? { matches: result.matches.length } : { lines: result.modifiedLines, modified: result.modifiedLines.length }),
+        ...(result.lockedLines.length > 0 ? { lockedSkipped: result.lockedLines } : {})
+      },
+      timestamp: new Date()
+    });
+    return result;
+  };
+
+  const moveBlock = (args: any) => {
+    if (suggestMode) return unavailableInSuggestMode('doc_move_block');
+    const result = executeDocMoveBlock(args, document);
+    actions.push({
+      type: 'edit',
+      success: result.success,
+      details: {
+        operation: 'move',
+        block: args.section || `${args.startLine}-${args.endLine ?? args.startLine}`,
+        destination: args.beforeSection ? `before ${args.beforeSection}` : args.afterSection ? `after ${args.afterSection}` : `after line ${args.afterLine}`,
+        lines: result.movedLines,
+        modified: result.movedLines.length
+      },
+      timestamp: new Date()
+    });
+    return result;
+  };
+
+  const batchEdit = (args: any) => {
+    if (suggestMode) return unavailableInSuggestMode('doc_batch_edit');
+    const result = executeDocBatchEdit(args, document);
+    actions.push({
+      type: 'edit',
+      success: result.success,
+      details: {
+        operation: 'batch',
+        edits: args.edits?.length || 0,
+        lines: result.modifiedLines,
+        modified: result.modifiedLines.length
+      },
+      timestamp: new Date()
+    });
+    return result;
+  };
+
+  // Agent step the next tool call belongs to
+  let currentStep = 1;
+
+  // Run one tool call, record its Action and format the result for the model
+  const executeTool = (rawName: string, args: any): AgentToolOutcome => {
+    const name = resolveToolName(rawName);
+    console.info(`[CHAT_API] Executing tool: ${name}`);
+    onEvent?.({ type: 'tool_start', step: currentStep, tool: name, args });
+
+    const actionCount = actions.length;
+    let result: any;
+    let content: string | undefined;
+
+    try {
+      switch (name) {
+        case 'doc_analyze':
+          result = executeDocAnalyze(args.reason, document);
+          actions.push({
+            type: 'read',
+            success: result.success,
+            details: { reason: args.reason, lines: result.totalLines },
+            timestamp: new Date()
+          });
+          break;
+
+        case 'doc_search':
+          result = executeDocSearch(args.query, document, args.limit);
+          actions.push({
+            type: 'search',
+            success: true,
+            details: { query: args.query, results: result.length },
+            timestamp: new Date()
+          });
+          break;
+
+        case 'doc_read':
+          result = executeDocRead(args.lines, document);
+          actions.push({
+            type: 'read',
+            success: result.success,
+            details: { lines: args.lines, found: result.lines?.length || 0 },
+            timestamp: new Date()
+          });
+          break;
+
+        case 'doc_edit':
+          result = executeDocEdit(args, document);
+          actions.push({
+            type: 'edit',
+            success: result.success,
+            details: {
+              operation: args.operation,
+              lines: args.lines,
+              modified: result.modifiedLines?.length || 0,
+              newText: args.newText // Include the new text for context
+            },
+            timestamp: new Date()
+          });
+          break;
+
+        case 'doc_find_replace':
+          result = findReplace(args);
+          break;
+
+        case 'doc_move_block':
+          result = moveBlock(args);
+          break;
+
+        case 'doc_batch_edit':
+          result = batchEdit(args);
+          break;
+
+        case 'doc_propose_edit':
+          result = proposeEdit(args);
+          break;
+
+        default:
+          console.warn(`[CHAT_API] Unknown tool: ${name}`);
+          result = { success: false, error: `Unknown tool: ${name}` };
+      }
+    } catch (error) {
+      console.error(`[CHAT_API] Error executing tool ${name}:`, error);
+      actions.push({
+        type: name.replace('doc_', '') as any,
+        success: false,
+        details: { error: error instanceof Error ? error.message : 'Unknown error' },
+        timestamp: new Date()
       });
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result = { success: false, error: errorMessage };
+      content = `Error executing ${name}: ${errorMessage}`;
     }
 
-    if (lockedLinesInCitations.length > 0) {
-      console.warn('[CHAT_API] Warning: User referenced locked lines:', lockedLinesInCitations);
-      conversationContext += `\n\nIMPORTANT: The user has referenced lines ${lockedLinesInCitations.join(', ')} which are LOCKED and cannot be edited. If the user is trying to edit these lines, politely inform them that these lines are immutable and locked by the user. Suggest that they unlock the lines first if they want to make changes.`;
+    if (content === undefined) {
+      content = formatToolResult(name, result);
     }
+    onEvent?.({
+      type: 'tool_end',
+      step: currentStep,
+      tool: name,
+      success: result?.success !== false,
+      action: actions.length > actionCount ? actions[actions.length - 1] : undefined
+    });
 
-    // Execute chat with tools
-    const actions: Action[] = [];
-    let responseText = '';
+    return {
+      result,
+      content,
+      changedDocument: !suggestMode && isEditCall({ tool: name, args }) && result?.success === true
+    };
+  };
+
+  const onText = (delta: string) => onEvent?.({ type: 'text', delta });
+
+  // Actions already sent in an earlier step event
+  let streamedActions = 0;
+
+  console.info('[CHAT_API] ===== RUNNING AGENT LOOP =====');
+  const loop = await runAgentLoop({
+    llm,
+    prompt: conversationContext,
+    tools: [tools],
+    maxSteps,
+    executeTool,
+    isReadOnly: (name, args) => !isEditCall({ tool: resolveToolName(name), args }),
+    onStep: ({ step }) => {
+      onEvent?.({ type: 'step', step, maxSteps, actions: actions.slice(streamedActions) });
+      streamedActions = actions.length;
+      currentStep = step + 1;
+    },
+    onText,
+    signal
+  });
+  console.info(`[CHAT_API] ===== AGENT LOOP ENDED: ${loop.stopReason} after ${loop.steps} step(s) =====`);
+
+  let responseText: string;
+
+  if (loop.calls.length === 0) {
+    responseText = loop.text || 'I received your message but could not generate a response.';
+  } else if (loop.stopReason === 'done' && loop.text && loop.text.trim().length > 0) {
+    responseText = loop.text;
+  } else {
+    // Stopped early or answered with no text - summarize what was done
+    const calls = loop.calls.map(call => ({ ...call, tool: resolveToolName(call.tool) }));
+    const finalResponse = await chatWithHistory(
+      llm,
+      buildSummaryPrompt(calls, loop.stopReason, maxSteps),
+      undefined,
+      [],
+      signal,
+      onText
+    );
+    responseText = finalResponse.text || 'I\'ve completed the requested operations.';
+  }
 
-    try {
-      console.info('[CHAT_API] ===== CALLING GEMINI WITH TOOLS =====');
-      const response = await chatWithHistory(
-        genAI,
-        conversationContext,
-        [toolDefinitions]
-      );
-      console.info('[CHAT_API] ===== GEMINI RESPONSE RECEIVED =====');
-      console.info('[CHAT_API] Response has functionCalls:', !!response.functionCalls);
-      console.info('[CHAT_API] Response has text:', !!response.text);
-
-      // Handle function calls with multi-turn execution
-      if (response.functionCalls && response.functionCalls.length > 0) {
-        console.info(`[CHAT_API] Processing ${response.functionCalls.length} function calls`);
-
-        const toolResults: string[] = [];
-        const detailedActions: Array<{ tool: string; args: any; result: any }> = [];
-        let needsFollowUp = false;
-
-        for (const functionCall of response.functionCalls) {
-          const { name, args } = functionCall;
-
-          console.info(`[CHAT_API] Executing tool: ${name}`);
-
-          try {
-            let result: any;
-
-            switch (name) {
-              case 'doc_analyze':
-                result = executeDocAnalyze(args.reason, document);
-                actions.push({
-                  type: 'read',
-                  success: result.success,
-                  details: { reason: args.reason, lines: result.totalLines },
-                  timestamp: new Date()
-                });
-                needsFollowUp = true; // Agent needs to continue with doc_edit
-                break;
-
-              case 'doc_search':
-                result = executeDocSearch(args.query, document, args.limit);
-                actions.push({
-                  type: 'search',
-                  success: true,
-                  details: { query: args.query, results: result.length },
-                  timestamp: new Date()
-                });
-                needsFollowUp = true; // Agent needs to continue with doc_edit
-                break;
-
-              case 'doc_read':
-                result = executeDocRead(args.lines, document);
-                actions.push({
-                  type: 'read',
-                  success: result.success,
-                  details: { lines: args.lines, found: result.lines?.length || 0 },
-                  timestamp: new Date()
-                });
-                needsFollowUp = true; // Agent might need to continue with doc_edit
-                break;
-
-              case 'doc_edit':
-                result = executeDocEdit(args, document);
-                actions.push({
-                  type: 'edit',
-                  success: result.success,
-                  details: {
-                    operation: args.operation,
-                    lines: args.lines,
-                    modified: result.modifiedLines?.length || 0,
-                    newText: args.newText // Include the new text for context
-                  },
-                  timestamp: new Date()
-                });
-                // Edit is a terminal action - don't need follow-up
-                break;
-
-              default:
-                console.warn(`[CHAT_API] Unknown tool: ${name}`);
-                result = { error: `Unknown tool: ${name}` };
-            }
-
-            toolResults.push(formatToolResult(name, result));
-            detailedActions.push({ tool: name, args, result });
-
-          } catch (error) {
-            console.error(`[CHAT_API] Error executing tool ${name}:`, error);
-            actions.push({
-              type: name.replace('doc_', '') as any,
-              success: false,
-              details: { error: error instanceof Error ? error.message : 'Unknown error' },
-              timestamp: new Date()
-            });
-            toolResults.push(`Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          }
-        }
+  return {
+    success: true,
+    message: responseText,
+    citations: resolvedCitations.length > 0 ? resolvedCitations : undefined,
+    actions: actions.length > 0 ? actions : undefined,
+    suggestions: suggestions.length > 0 ? suggestions : undefined,
+    document: actions.some(a => a.type === 'edit' && a.success) ? document : undefined,
+    steps: loop.steps,
+    stopReason: loop.stopReason
+  };
+}
 
-        // SERVER-SIDE FALLBACK: If all searches returned 0 results and no doc_analyze was called, force it
-        const allSearches = detailedActions.filter(a => a.tool === 'doc_search');
-        const hasDocAnalyze = detailedActions.some(a => a.tool === 'doc_analyze');
-        const hasDocEdit = detailedActions.some(a => a.tool === 'doc_edit');
-
-        if (allSearches.length > 0 && !hasDocAnalyze && !hasDocEdit) {
-          const allSearchesEmpty = allSearches.every(a => Array.isArray(a.result) && a.result.length === 0);
-
-          if (allSearchesEmpty) {
-            console.warn('[CHAT_API] All searches returned 0 results. Auto-calling doc_analyze as fallback...');
-
-            // Automatically call doc_analyze
-            const analyzeResult = executeDocAnalyze('All searches returned no results - analyzing full document', document);
-            actions.push({
-              type: 'read',
-              success: analyzeResult.success,
-              details: { reason: 'Fallback: all searches empty', lines: analyzeResult.totalLines },
-              timestamp: new Date()
-            });
-
-            toolResults.push(formatToolResult('doc_analyze', analyzeResult));
-            detailedActions.push({
-              tool: 'doc_analyze',
-              args: { reason: 'Fallback: all searches empty' },
-              result: analyzeResult
-            });
-
-            needsFollowUp = true; // Force follow-up to make edits
-            console.info('[CHAT_API] Forced doc_analyze executed. Will continue to doc_edit.');
-          }
+/**
+ * Prompt for the closing reply when the agent did not write one
+ */
+function buildSummaryPrompt(calls: AgentToolCall[], stopReason: ChatStopReason, maxSteps: number): string {
+  // Build detailed context for conversational response
+  const successfulEdits: string[] = [];
+  const failedEdits: string[] = [];
+  const proposedEdits: string[] = [];
+  const searches: string[] = [];
+
+  calls.filter(call => !call.repeated).forEach(action => {
+    if (action.tool === 'doc_analyze') {
+      searches.push(`Analyzed full document (${action.result.totalLines || 0} lines)`);
+    } else if (action.tool === 'doc_search') {
+      const query = action.args.query;
+      const resultCount = action.result.length || 0;
+      searches.push(`Searched for "${query}" - found ${resultCount} result(s)`);
+    } else if (action.tool === 'doc_edit') {
+      const lineNums = Array.isArray(action.args.lines) ? action.args.lines.join(', ') : action.args.lines;
+      if (action.result.success) {
+        // Don't include the full newText - just mention what type of change
+        const operation = action.args.operation;
+        if (operation === 'delete') {
+          successfulEdits.push(`line ${lineNums} (deleted)`);
+        } else {
+          successfulEdits.push(`line ${lineNums}`);
         }
+      } else {
+        const error = action.result.error || 'unknown error';
+        failedEdits.push(`line ${lineNums} (${error})`);
+      }
+    } else if (action.tool === 'doc_find_replace') {
+      const { pattern, replacement } = action.args;
+      if (!action.result.success) {
+        failedEdits.push(`find/replace "${pattern}" (${action.result.error || 'unknown error'})`);
+      } else if (action.result.preview) {
+        searches.push(`Previewed replacing "${pattern}" with "${replacement}" - ${action.result.matches.length} matching line(s)`);
+      } else {
+        successfulEdits.push(`replaced "${pattern}" with "${replacement}" on ${action.result.modifiedLines.length} line(s)`);
+      }
+      if (action.result.lockedLines?.length > 0) {
+        failedEdits.push(`line ${action.result.lockedLines.join(', ')} (locked - left unchanged)`);
+      }
+    } else if (action.tool === 'doc_move_block') {
+      const block = action.args.section ? `the ${action.args.section} section` : `lines ${action.args.startLine}-${action.args.endLine ?? action.args.startLine}`;
+      if (action.result.success) {
+        successfulEdits.push(`moved ${block}`);
+      } else {
+        failedEdits.push(`moving ${block} (${action.result.error || 'unknown error'})`);
+      }
+    } else if (action.tool === 'doc_batch_edit') {
+      if (action.result.success) {
+        successfulEdits.push(`${action.result.applied} batched edits on line ${action.result.modifiedLines.join(', ')}`);
+      } else {
+        failedEdits.push(`batch of ${action.args.edits?.length || 0} edits, none applied (${action.result.error || 'unknown error'})`);
+      }
+    } else if (action.tool === 'doc_propose_edit') {
+      const lineNums = Array.isArray(action.args.lines) ? action.args.lines.join(', ') : action.args.lines;
+      if (action.result.success) {
+        proposedEdits.push(`line ${lineNums} (${action.args.operation})`);
+      } else {
+        failedEdits.push(`line ${lineNums} (${action.result.error || 'unknown error'})`);
+      }
+    }
+  });
 
-        // If agent called doc_analyze/doc_search/doc_read but NOT doc_edit, continue the loop
-        if (needsFollowUp && !detailedActions.some(a => a.tool === 'doc_edit')) {
-          console.info('[CHAT_API] Agent used search/analyze tool but did not edit. Continuing tool loop...');
-
-          // Send tool results back to agent WITH tools enabled so it can continue
-          // Include system context to remind agent of its role
-          let followUpPrompt = `${buildSystemPrompt(document)}\n\n`;
-
-          // Add custom instructions in follow-up if provided
-          if (customPrompt && customPrompt.trim().length > 0) {
-            followUpPrompt += `## User's Custom Instructions\n\n${customPrompt.trim()}\n\n`;
-          }
-
-          followUpPrompt += `CRITICAL INSTRUCTION: You just executed tool calls and now you MUST complete the user's request by calling doc_edit.
-
-Tool execution results:
-${toolResults.join('\n\n')}
-
-The user's original request was: "${message}"
-
-You have the document content above from your tool calls. Now you MUST:
-1. Identify which line numbers need to be edited based on the user's request
-2. Call doc_edit with operation='replace', lines=[...], and newText='...'
-3. DO NOT respond with text - You are a tool-using agent - ONLY make function calls
-
-REMEMBER: You can only communicate through tool calls. Call doc_edit RIGHT NOW to make the changes the user requested. Do not provide text responses - ONLY tool calls.`;
-
-          const followUpResponse = await chatWithHistory(
-            genAI,
-            followUpPrompt,
-            [toolDefinitions] // Keep tools enabled!
-          );
-
-          // Process any additional function calls
-          if (followUpResponse.functionCalls && followUpResponse.functionCalls.length > 0) {
-            console.info(`[CHAT_API] Processing ${followUpResponse.functionCalls.length} follow-up function calls`);
-
-            for (const functionCall of followUpResponse.functionCalls) {
-              const { name, args } = functionCall;
-              console.info(`[CHAT_API] Executing follow-up tool: ${name}`);
-
-              try {
-                let result: any;
-
-                switch (name) {
-                  case 'doc_edit':
-                    result = executeDocEdit(args, document);
-                    actions.push({
-                      type: 'edit',
-                      success: result.success,
-                      details: {
-                        operation: args.operation,
-                        lines: args.lines,
-                        modified: result.modifiedLines?.length || 0,
-                        newText: args.newText
-                      },
-                      timestamp: new Date()
-                    });
-                    break;
-
-                  default:
-                    console.warn(`[CHAT_API] Unexpected follow-up tool: ${name}`);
-                    result = { error: `Unexpected tool: ${name}` };
-                }
-
-                toolResults.push(formatToolResult(name, result));
-                detailedActions.push({ tool: name, args, result });
-
-              } catch (error) {
-                console.error(`[CHAT_API] Error executing follow-up tool ${name}:`, error);
-                toolResults.push(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-              }
-            }
-          }
-        }
+  // Generate final response with tool results
+  let responsePrompt = 'You just executed the following tool calls:\n\n';
 
-        // Build detailed context for conversational response
-        const successfulEdits: string[] = [];
-        const failedEdits: string[] = [];
-        const searches: string[] = [];
-
-        detailedActions.forEach(action => {
-          if (action.tool === 'doc_analyze') {
-            searches.push(`Analyzed full document (${action.result.totalLines || 0} lines)`);
-          } else if (action.tool === 'doc_search') {
-            const query = action.args.query;
-            const resultCount = action.result.length || 0;
-            searches.push(`Searched for "${query}" - found ${resultCount} result(s)`);
-          } else if (action.tool === 'doc_edit') {
-            const lineNums = Array.isArray(action.args.lines) ? action.args.lines.join(', ') : action.args.lines;
-            if (action.result.success) {
-              // Don't include the full newText - just mention what type of change
-              const operation = action.args.operation;
-              if (operation === 'delete') {
-                successfulEdits.push(`line ${lineNums} (deleted)`);
-              } else {
-                successfulEdits.push(`line ${lineNums}`);
-              }
-            } else {
-              const error = action.result.error || 'unknown error';
-              failedEdits.push(`line ${lineNums} (${error})`);
-            }
-          }
-        });
-
-        // Generate final response with tool results
-        let responsePrompt = 'You just executed the following tool calls:\n\n';
-
-        if (searches.length > 0) {
-          responsePrompt += `Searches performed:\n${searches.map(s => `- ${s}`).join('\n')}\n\n`;
-        }
+  if (searches.length > 0) {
+    responsePrompt += `Searches performed:\n${searches.map(s => `- ${s}`).join('\n')}\n\n`;
+  }
 
-        if (successfulEdits.length > 0) {
-          responsePrompt += `Successfully edited: ${successfulEdits.join(', ')}\n`;
-        }
+  if (successfulEdits.length > 0) {
+    responsePrompt += `Successfully edited: ${successfulEdits.join(', ')}\n`;
+  }
 
-        if (failedEdits.length > 0) {
-          responsePrompt += `Failed to edit: ${failedEdits.join(', ')}\n`;
-        }
+  if (proposedEdits.length > 0) {
+    responsePrompt += `Suggested edits (NOT applied - the user will accept or reject each one): ${proposedEdits.join(', ')}\n`;
+  }
+
+  if (failedEdits.length > 0) {
+    responsePrompt += `Failed to edit: ${failedEdits.join(', ')}\n`;
+  }
 
-        responsePrompt += `\nProvide a brief, natural, conversational response (1-2 sentences) summarizing what you did:
+  if (stopReason === 'max_steps') {
+    responsePrompt += `\nYou stopped after the limit of ${maxSteps} tool steps. If the request is not finished, say what is left so the user can ask you to continue.\n`;
+  } else if (stopReason === 'loop') {
+    responsePrompt += '\nYou stopped because you kept repeating the same tool calls. If the request is not finished, say what is left and ask the user for more detail.\n';
+  }
+
+  responsePrompt += `\nProvide a brief, natural, conversational response (1-2 sentences) summarizing what you did:
 
 IMPORTANT:
 - DO NOT repeat the exact text you wrote to each line (that's already shown in the edit details)
 - Instead, describe WHAT you changed (e.g., "investor name", "valuation cap", "company name")
 - If edits failed, acknowledge them and explain why
+- For suggested edits, say what you suggested and that it is waiting for the user's review - never say the document was changed
 - Be concise and friendly
 
 Example good responses:
@@ -397,51 +612,69 @@ BAD responses (don't do this):
 - "I've updated line 17 to set the valuation cap to $5,000,000 USD and changed line 5 to 'Paranoid'." (Too repetitive of the edit itself)
 - Repeating the exact full text that was written to the document`;
 
-        const finalResponse = await chatWithHistory(
-          genAI,
-          responsePrompt
-        );
-
-        responseText = finalResponse.text || 'I\'ve completed the requested operations.';
+  return responsePrompt;
+}
 
-      } else if (response.text) {
-        responseText = response.text;
-      } else {
-        responseText = 'I received your message but could not generate a response.';
+/**
+ * Run the chat turn and stream its progress as NDJSON.
+ * Client disconnect aborts the in-flight model call.
+ */
+function streamChat(
+  request: NextRequest,
+  llm: LLMProvider,
+  input: ChatTurnInput
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal?.addEventListener('abort', () => abortController.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatProgressEvent) => {
+        if (abortController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Stream already closed by the client
+          abortController.abort();
+        }
+      };
+
+      try {
+        const result = await runChatTurn(llm, input, send, abortController.signal);
+        console.info('[CHAT_API] Successfully generated response');
+        send({ type: 'result', result });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.info('[CHAT_API] Chat cancelled by client');
+        } else {
+          console.error('[CHAT_API] Error in Gemini chat:', error);
+          send({
+            type: 'error',
+            error: 'Failed to generate response',
+            details: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
       }
-
-    } catch (error) {
-      console.error('[CHAT_API] Error in Gemini chat:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to generate response',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        { status: 500 }
-      );
+    },
+    cancel() {
+      abortController.abort();
     }
+  });
 
-    console.info('[CHAT_API] Successfully generated response');
-
-    return NextResponse.json({
-      success: true,
-      message: responseText,
-      citations: resolvedCitations.length > 0 ? resolvedCitations : undefined,
-      actions: actions.length > 0 ? actions : undefined,
-      document: actions.some(a => a.type === 'edit' && a.success) ? document : undefined
-    });
-
-  } catch (error) {
-    console.error('[CHAT_API] Unexpected error:', error);
-
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
-  }
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
 }
 
 /**
@@ -453,6 +686,7 @@ export async function GET() {
   return NextResponse.json({
     status: 'ok',
     service: 'chat',
-    gemini_configured: !!apiKey
+    gemini_configured: !!apiKey,
+    llm_provider: process.env.LLM_PROVIDER || 'gemini'
   });
 }
@@ -1,11 +1,18 @@
 /**
  * API Route: Compile LaTeX to PDF
- * Uses LaTeX.Online service to compile LaTeX source
- * Returns PDF as binary response
+ * Uses a local TeX engine (pdflatex/xelatex/tectonic) when available,
+ * LaTeX.Online only when opted in with LATEX_ALLOW_REMOTE=true
+ * Returns PDF as binary response, with log warnings in X-Latex-Warnings
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { smartCompileLatex, validateLatexSource } from '@/lib/api-clients/latex-online-client';
+import { validateLatexSource } from '@/lib/api-clients/latex-online-client';
+import { compileLatex, resolveLatexCompilerConfig } from '@/lib/latex-compiler';
+
+export const runtime = 'nodejs';
+
+// Warnings sent with a successful PDF (in a header, so kept short)
+const MAX_HEADER_WARNINGS = 20;
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,7 +48,7 @@ export async function POST(request: NextRequest) {
 
     // Compile LaTeX
     console.log('[API/COMPILE-LATEX] Compiling LaTeX...');
-    const result = await smartCompileLatex(latexSource);
+    const result = await compileLatex(latexSource);
 
     if (!result.success) {
       console.error('[API/COMPILE-LATEX] Compilation failed:', result.error);
@@ -50,6 +57,8 @@ export async function POST(request: NextRequest) {
           success: false,
           error: result.error,
           log: result.log,
+          diagnostics: result.diagnostics,
+          backend: result.backend,
         },
         { status: 500 }
       );
@@ -61,12 +70,19 @@ export async function POST(request: NextRequest) {
 
       console.log('[API/COMPILE-LATEX] Compilation successful, PDF size:', buffer.byteLength);
 
+      const warnings = (result.diagnostics || [])
+        .filter(d => d.severity === 'warning')
+        .slice(0, MAX_HEADER_WARNINGS)
+        .map(({ context, ...warning }) => warning);
+
       return new Response(buffer, {
         status: 200,
         headers: {
           'Content-Type': 'application/pdf',
           'Content-Disposition': 'inline; filename="resume.pdf"',
           'Content-Length': buffer.byteLength.toString(),
+          'X-Latex-Backend': result.backend || 'unknown',
+          'X-Latex-Warnings': encodeURIComponent(JSON.stringify(warnings)),
         },
       });
     }
@@ -94,10 +110,14 @@ export async function POST(request: NextRequest) {
  * GET: Check API health and test compilation
  */
 export async function GET() {
+  const config = resolveLatexCompilerConfig();
+
   return NextResponse.json({
     status: 'ok',
     endpoint: '/api/compile-latex',
-    service: 'LaTeX.Online',
-    maxSourceSize: '8KB (GET) / 5MB (POST)',
+    backend: config.backend,
+    engine: config.engine,
+    timeoutMs: config.timeoutMs,
+    remoteFallback: config.allowRemoteFallback ? 'LaTeX.Online' : 'disabled',
   });
 }
@@ -0,0 +1,118 @@
+/**
+ * Cover Letter API
+ *
+ * Draft a cover letter tailored to a job description from the parsed resume,
+ * the keyword analysis and the projects/portfolio context files
+ * (see lib/cover-letter). Export happens on the client (lib/export).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { CoverLetterLength, CoverLetterTone } from '@/lib/parsers/types';
+import { createCoverLetterGenerator } from '@/lib/cover-letter';
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const TONES: CoverLetterTone[] = ['professional', 'enthusiastic', 'conversational'];
+const LENGTHS: CoverLetterLength[] = ['short', 'medium', 'long'];
+
+/**
+ * POST /api/cover-letter
+ *
+ * Body: resume (canonical Resume) or resumeContent, jobDescription,
+ * keywordAnalysis?, projects?, portfolio?, options { tone, length,
+ * companyName?, roleTitle?, hiringManager?, customInstructions? },
+ * keywordAliases?, sessionId, customApiKey?, llmProvider?
+ */
+export async function POST(request: NextRequest) {
+  try {
+    console.info('[COVER_LETTER_API] Received cover letter request');
+
+    const body = await request.json();
+    const {
+      resume,
+      resumeContent,
+      jobDescription,
+      keywordAnalysis,
+      projects,
+      portfolio,
+      options,
+      keywordAliases,
+      sessionId,
+      customApiKey,
+      llmProvider
+    } = body;
+
+    if (!resume && !resumeContent) {
+      return NextResponse.json(
+        { error: 'Resume content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!jobDescription) {
+      return NextResponse.json(
+        { error: 'Job description is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!options || !TONES.includes(options.tone) || !LENGTHS.includes(options.length)) {
+      return NextResponse.json(
+        { error: `options.tone must be one of ${TONES.join(', ')} and options.length one of ${LENGTHS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider(llmProvider, customApiKey);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'LLM provider not configured' },
+        { status: 500 }
+      );
+    }
+
+    const tracker = getTokenTracker();
+    tracker.initSession(sessionId);
+
+    const generator = createCoverLetterGenerator(llm, sessionId, request.signal);
+    const coverLetter = await generator.generate({
+      resume,
+      resumeContent,
+      jobDescription,
+      keywordAnalysis,
+      projects,
+      portfolio,
+      options,
+      keywordAliases
+    });
+
+    return NextResponse.json({
+      success: true,
+      coverLetter,
+      tokenUsage: tracker.getSessionUsage(sessionId)
+    });
+
+  } catch (error) {
+    console.error('[COVER_LETTER_API] Unexpected error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to draft cover letter',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { batchDetectPlaceholders } from '@/lib/parsers/llm-placeholder-detector';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -17,7 +18,7 @@ export async function POST(request: NextRequest) {
     console.info('[DETECT_API] Received LLM detection request');
 
     const body = await request.json();
-    const { lines, customApiKey } = body;
+    const { lines, customApiKey, llmProvider } = body;
 
     if (!lines || !Array.isArray(lines)) {
       return NextResponse.json(
@@ -26,27 +27,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get API key - use custom key if provided, otherwise use environment variable
-    const apiKey = customApiKey || process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-      console.error('[DETECT_API] GEMINI_API_KEY not configured');
+    // Resolve LLM provider - custom key/provider if provided, otherwise environment defaults
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider(llmProvider, customApiKey);
+    } catch (error) {
+      console.error('[DETECT_API] LLM provider not configured:', error);
       return NextResponse.json(
-        { error: 'Gemini API key not configured' },
+        { error: error instanceof Error ? error.message : 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
-    if (customApiKey) {
-      console.info('[DETECT_API] Using custom API key');
-    } else {
-      console.info('[DETECT_API] Using default API key from environment');
-    }
+    console.info(`[DETECT_API] Using LLM provider: ${llm.type} (${llm.model})`);
 
     console.info(`[DETECT_API] Processing ${lines.length} lines with LLM detection`);
 
     // Run batch detection
-    const results = await batchDetectPlaceholders(lines, apiKey);
+    const results = await batchDetectPlaceholders(lines, llm);
 
     // Convert Map to object for JSON response
     const resultsObject: Record<number, any> = {};
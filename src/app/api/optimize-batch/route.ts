@@ -0,0 +1,235 @@
+/**
+ * Batch Resume Tailoring API
+ *
+ * Tailor one base resume against up to 30 job descriptions
+ * (see lib/optimization/batch-optimizer):
+ * 1. Parse resume and extract resume keywords once
+ * 2. Per job description: extract JD keywords, analyze gap, optimize bullets
+ *    (shared concurrency limit), re-analyze
+ * 3. Return one tailored variant per posting with a coverage/cost comparison
+ *    (or stream progress as NDJSON)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchJobDescription, BatchProgressEvent } from '@/lib/parsers/types';
+import { OptimizationPipelineError } from '@/lib/optimization/optimization-pipeline';
+import {
+  runBatchOptimization,
+  BatchOptimizationInput,
+  MAX_BATCH_JOBS
+} from '@/lib/optimization/batch-optimizer';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes for long batches
+
+/**
+ * POST /api/optimize-batch
+ *
+ * With `stream: true` the response is NDJSON: one BatchProgressEvent per line
+ * (shared, job, job_complete), ending with a `result` or `error` event.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    console.info('[BATCH_API] Starting batch tailoring');
+
+    const body = await request.json();
+    const {
+      resume: parsedResume,
+      resumeContent,
+      resumeFormat,
+      fileName,
+      jobDescriptions,
+      jobField,
+      projects,
+      portfolio,
+      customInstructions,
+      config,
+      sessionId,
+      customApiKey,
+      llmProvider,
+      stream
+    } = body;
+
+    // Validate required fields
+    if (!resumeContent && !parsedResume) {
+      return NextResponse.json(
+        { error: 'Resume content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(jobDescriptions) || jobDescriptions.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one job description is required' },
+        { status: 400 }
+      );
+    }
+
+    if (jobDescriptions.length > MAX_BATCH_JOBS) {
+      return NextResponse.json(
+        { error: `A batch can hold at most ${MAX_BATCH_JOBS} job descriptions` },
+        { status: 400 }
+      );
+    }
+
+    const jobs: BatchJobDescription[] = jobDescriptions.map(
+      (job: Partial<BatchJobDescription>, index: number) => ({
+        id: job.id || `jd-${index + 1}`,
+        title: job.title?.trim() || `Job ${index + 1}`,
+        content: job.content?.trim() || ''
+      })
+    );
+
+    const emptyJob = jobs.find(job => !job.content);
+    if (emptyJob) {
+      return NextResponse.json(
+        { error: `Job description "${emptyJob.title}" is empty` },
+        { status: 400 }
+      );
+    }
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Resolve LLM provider (per-request selection, falls back to env defaults)
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider(llmProvider, customApiKey);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'LLM provider not configured' },
+        { status: 500 }
+      );
+    }
+
+    console.info(`[BATCH_API] Session: ${sessionId}, jobs: ${jobs.length}`);
+
+    const input: BatchOptimizationInput = {
+      resume: parsedResume,
+      resumeContent,
+      resumeFormat,
+      fileName,
+      jobDescriptions: jobs,
+      jobField,
+      projects,
+      portfolio,
+      customInstructions,
+      config,
+      sessionId
+    };
+
+    if (stream) {
+      return streamBatch(request, llm, input);
+    }
+
+    try {
+      // Closing the connection aborts in-flight model calls
+      const result = await runBatchOptimization(llm, input, { signal: request.signal });
+      return NextResponse.json(result);
+    } catch (error) {
+      if (error instanceof OptimizationPipelineError) {
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('[BATCH_API] Unexpected error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Run the batch and stream progress events as NDJSON.
+ * Client disconnect aborts every job.
+ */
+function streamBatch(
+  request: NextRequest,
+  llm: LLMProvider,
+  input: BatchOptimizationInput
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal?.addEventListener('abort', () => abortController.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: BatchProgressEvent) => {
+        if (abortController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Stream already closed by the client
+          abortController.abort();
+        }
+      };
+
+      try {
+        const result = await runBatchOptimization(llm, input, {
+          onEvent: send,
+          signal: abortController.signal
+        });
+        send({ type: 'result', result });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.info('[BATCH_API] Batch cancelled by client');
+        } else {
+          console.error('[BATCH_API] Streaming batch failed:', error);
+          send({
+            type: 'error',
+            error: error instanceof OptimizationPipelineError ? error.message : 'Internal server error',
+            details: error instanceof OptimizationPipelineError
+              ? error.details
+              : error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+/**
+ * GET /api/optimize-batch
+ * Health check
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: 'ok',
+    service: 'batch-tailoring',
+    llm_provider: process.env.LLM_PROVIDER || 'gemini',
+    maxJobDescriptions: MAX_BATCH_JOBS
+  });
+}
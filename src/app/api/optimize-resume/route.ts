@@ -1,29 +1,32 @@
 /**
  * Resume Optimization API
  *
- * Full workflow:
+ * Full workflow (see lib/optimization/optimization-pipeline):
  * 1. Parse resume (LaTeX/DOCX)
  * 2. Extract keywords from job description
  * 3. Extract keywords from resume
  * 4. Analyze keyword gap
  * 5. Map keywords to bullet points
- * 6. Optimize bullets in parallel
- * 7. Apply changes
- * 8. Return optimized resume with analytics
+ * 6. Build optimization plan
+ * 7. Optimize bullets in parallel
+ * 8. Apply changes
+ * 9. Re-analyze keywords
+ * With config.maxPages, a page-fitting step (LaTeX only) runs between 8 and 9.
+ *
+ * Returns the optimized resume with analytics, or streams progress as NDJSON.
+ * With `review: true` the run ends after step 8: the changes are returned as
+ * proposals and the resume is left unchanged; the client applies only the
+ * accepted ones.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { OptimizationProgressEvent } from '@/lib/parsers/types';
 import {
-  Resume,
-  ResumeOptimizationResult,
-  OptimizationConfig,
-  BulletOptimization,
-  KeywordMapping
-} from '@/lib/parsers/types';
-import { parseLatexResume } from '@/lib/parsers/latex';
-import { createKeywordAnalyzer } from '@/lib/optimization/keyword-analyzer';
-import { createParallelOptimizer, ParallelOptimizer } from '@/lib/optimization/parallel-optimizer';
-import { getTokenTracker } from '@/lib/tracking/token-tracker';
+  runResumeOptimization,
+  OptimizationPipelineError,
+  OptimizationPipelineInput
+} from '@/lib/optimization/optimization-pipeline';
+import { getLLMProvider, LLMProvider } from '@/lib/llm';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -32,17 +35,18 @@ export const maxDuration = 300; // 5 minutes for long optimizations
 /**
  * POST /api/optimize-resume
  *
- * Full resume optimization with job description
+ * Full resume optimization with job description.
+ * With `stream: true` the response is NDJSON: one OptimizationProgressEvent
+ * per line (step, bullet, tokens), ending with a `result` or `error` event.
  */
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
-
   try {
     console.info('[OPTIMIZE_API] Starting resume optimization');
 
     // Parse request body
     const body = await request.json();
     const {
+      resume: parsedResume,
       resumeContent,
       resumeFormat,
       fileName,
@@ -53,11 +57,14 @@ export async function POST(request: NextRequest) {
       customInstructions,
       config,
       sessionId,
-      customApiKey
+      customApiKey,
+      llmProvider,
+      stream,
+      review
     } = body;
 
     // Validate required fields
-    if (!resumeContent) {
+    if (!resumeContent && !parsedResume) {
       return NextResponse.json(
         { error: 'Resume content is required' },
         { status: 400 }
@@ -78,269 +85,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get API key
-    const apiKey = customApiKey || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Gemini API key not configured' },
-        { status: 500 }
-      );
-    }
-
-    // Initialize token tracker session
-    const tracker = getTokenTracker();
-    tracker.initSession(sessionId);
-
-    console.info('[OPTIMIZE_API] Session initialized:', sessionId);
-
-    // Default config if not provided
-    const optimizationConfig: OptimizationConfig = config || {
-      mode: 'targeted',
-      maxConcurrentCalls: 5,
-      preserveLength: true,
-      maintainTone: true,
-      maxKeywordsPerBullet: 2,
-      minConfidenceScore: 0.6
-    };
-
-    // Step 1: Parse resume based on format
-    console.info('[OPTIMIZE_API] Step 1: Parsing resume');
-    let resume: Resume;
-
-    try {
-      if (resumeFormat === 'latex') {
-        resume = await parseLatexResume(resumeContent, fileName);
-      } else {
-        // For now, treat DOCX/PDF as text-based parsing
-        // TODO: Implement proper DOCX parser integration
-        return NextResponse.json(
-          { error: 'Only LaTeX format is currently supported' },
-          { status: 400 }
-        );
-      }
-
-      console.info(`[OPTIMIZE_API] Resume parsed: ${resume.lines.length} lines, ${resume.sections.length} sections`);
-    } catch (error) {
-      console.error('[OPTIMIZE_API] Resume parsing failed:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to parse resume',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        { status: 400 }
-      );
-    }
-
-    // Step 2: Extract keywords from job description
-    console.info('[OPTIMIZE_API] Step 2: Extracting JD keywords');
-    const keywordAnalyzer = createKeywordAnalyzer(apiKey, sessionId);
-
-    let jdKeywords: string[];
-    try {
-      jdKeywords = await keywordAnalyzer.extractJDKeywords(jobDescription, jobField);
-      console.info(`[OPTIMIZE_API] Extracted ${jdKeywords.length} keywords from JD`);
-    } catch (error) {
-      console.error('[OPTIMIZE_API] JD keyword extraction failed:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to extract keywords from job description',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        { status: 500 }
-      );
-    }
-
-    // Step 3: Extract keywords from resume
-    console.info('[OPTIMIZE_API] Step 3: Extracting resume keywords');
-    let resumeKeywords: string[];
+    // Resolve LLM provider (per-request selection, falls back to env defaults)
+    let llm: LLMProvider;
     try {
-      resumeKeywords = await keywordAnalyzer.extractResumeKeywords(resume);
-      console.info(`[OPTIMIZE_API] Extracted ${resumeKeywords.length} keywords from resume`);
+      llm = getLLMProvider(llmProvider, customApiKey);
     } catch (error) {
-      console.error('[OPTIMIZE_API] Resume keyword extraction failed:', error);
       return NextResponse.json(
-        {
-          error: 'Failed to extract keywords from resume',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
+        { error: error instanceof Error ? error.message : 'LLM provider not configured' },
         { status: 500 }
       );
     }
 
-    // Step 4: Analyze keyword gap
-    console.info('[OPTIMIZE_API] Step 4: Analyzing keyword gap');
-    const keywordAnalysis = keywordAnalyzer.analyzeKeywordGap(jdKeywords, resumeKeywords);
-    console.info(`[OPTIMIZE_API] Coverage: ${keywordAnalysis.coverage}%, Missing: ${keywordAnalysis.missingKeywords.length}`);
-
-    // If coverage is already high, return early
-    if (keywordAnalysis.coverage >= 95) {
-      console.info('[OPTIMIZE_API] Coverage already excellent (>=95%), skipping optimization');
-
-      const processingTime = Date.now() - startTime;
-      const tokenUsage = tracker.getSessionUsage(sessionId);
+    console.info('[OPTIMIZE_API] Session:', sessionId);
 
-      const result: ResumeOptimizationResult = {
-        optimizedResume: resume,
-        changes: [],
-        keywordAnalysis,
-        totalTokensUsed: tokenUsage?.totalTokens || 0,
-        processingTimeMs: processingTime,
-        success: true
-      };
+    const input: OptimizationPipelineInput = {
+      resume: parsedResume,
+      resumeContent,
+      resumeFormat,
+      fileName,
+      jobDescription,
+      jobField,
+      projects,
+      portfolio,
+      customInstructions,
+      config,
+      sessionId,
+      review: review === true
+    };
 
-      return NextResponse.json(result);
+    if (stream) {
+      return streamOptimization(request, llm, input);
     }
 
-    // Step 5: Map keywords to bullet points
-    console.info('[OPTIMIZE_API] Step 5: Mapping keywords to bullets');
-    let keywordMappings: KeywordMapping[];
     try {
-      keywordMappings = await keywordAnalyzer.mapKeywordsToBullets(
-        keywordAnalysis.missingKeywords,
-        resume,
-        portfolio,
-        projects
-      );
-      console.info(`[OPTIMIZE_API] Mapped ${keywordMappings.length} keywords to bullets`);
-    } catch (error) {
-      console.error('[OPTIMIZE_API] Keyword mapping failed:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to map keywords to bullet points',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        { status: 500 }
-      );
-    }
-
-    if (keywordMappings.length === 0) {
-      console.info('[OPTIMIZE_API] No keyword mappings generated, skipping optimization');
-
-      const processingTime = Date.now() - startTime;
-      const tokenUsage = tracker.getSessionUsage(sessionId);
-
-      const result: ResumeOptimizationResult = {
-        optimizedResume: resume,
-        changes: [],
-        keywordAnalysis,
-        totalTokensUsed: tokenUsage?.totalTokens || 0,
-        processingTimeMs: processingTime,
-        success: true
-      };
-
+      // Closing the connection aborts in-flight model calls
+      const result = await runResumeOptimization(llm, input, { signal: request.signal });
       return NextResponse.json(result);
-    }
-
-    // Step 6: Build optimization plan
-    console.info('[OPTIMIZE_API] Step 6: Building optimization plan');
-    const optimizationPlan = ParallelOptimizer.buildOptimizationPlan(resume, keywordMappings);
-    console.info(`[OPTIMIZE_API] Plan includes ${optimizationPlan.length} bullets to optimize`);
-
-    // Step 7: Optimize bullets in parallel
-    console.info('[OPTIMIZE_API] Step 7: Optimizing bullets in parallel');
-    const optimizer = createParallelOptimizer(apiKey, sessionId, optimizationConfig);
-
-    let bulletOptimizations: BulletOptimization[];
-    try {
-      bulletOptimizations = await optimizer.optimizeBulletsParallel(
-        optimizationPlan,
-        {
-          resume,
-          projects: projects ? {
-            id: 'projects',
-            type: 'projects',
-            fileName: 'projects.txt',
-            fileSize: projects.length,
-            content: projects,
-            uploadedAt: new Date()
-          } : undefined,
-          portfolio: portfolio ? {
-            id: 'portfolio',
-            type: 'portfolio',
-            fileName: 'portfolio.txt',
-            fileSize: portfolio.length,
-            content: portfolio,
-            uploadedAt: new Date()
-          } : undefined,
-          jobDescription: {
-            id: 'jd',
-            type: 'job_description',
-            fileName: 'job_description.txt',
-            fileSize: jobDescription.length,
-            content: jobDescription,
-            uploadedAt: new Date()
-          },
-          customInstructions
-        }
-      );
-      console.info(`[OPTIMIZE_API] Successfully optimized ${bulletOptimizations.length} bullets`);
     } catch (error) {
-      console.error('[OPTIMIZE_API] Parallel optimization failed:', error);
-      return NextResponse.json(
-        {
-          error: 'Failed to optimize bullet points',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        { status: 500 }
-      );
-    }
-
-    // Step 8: Apply optimizations to resume
-    console.info('[OPTIMIZE_API] Step 8: Applying optimizations to resume');
-    const optimizedResume = { ...resume };
-    optimizedResume.lines = resume.lines.map(line => {
-      const optimization = bulletOptimizations.find(opt => opt.lineNumber === line.lineNumber);
-      if (optimization) {
-        return {
-          ...line,
-          text: optimization.optimizedText,
-          keywords: [...(line.keywords || []), ...optimization.addedKeywords]
-        };
+      if (error instanceof OptimizationPipelineError) {
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: error.status }
+        );
       }
-      return line;
-    });
-
-    // Update sections with optimized lines
-    optimizedResume.sections = resume.sections.map(section => ({
-      ...section,
-      content: section.content.map(line => {
-        const optimization = bulletOptimizations.find(opt => opt.lineNumber === line.lineNumber);
-        if (optimization) {
-          return {
-            ...line,
-            text: optimization.optimizedText,
-            keywords: [...(line.keywords || []), ...optimization.addedKeywords]
-          };
-        }
-        return line;
-      })
-    }));
-
-    // Step 9: Re-analyze keywords after optimization
-    console.info('[OPTIMIZE_API] Step 9: Re-analyzing keywords after optimization');
-    const optimizedResumeKeywords = await keywordAnalyzer.extractResumeKeywords(optimizedResume);
-    const finalAnalysis = keywordAnalyzer.analyzeKeywordGap(jdKeywords, optimizedResumeKeywords);
-    console.info(`[OPTIMIZE_API] Final coverage: ${finalAnalysis.coverage}%`);
-
-    // Get final token usage
-    const tokenUsage = tracker.getSessionUsage(sessionId);
-    const processingTime = Date.now() - startTime;
-
-    console.info(`[OPTIMIZE_API] Optimization complete in ${processingTime}ms`);
-    console.info(`[OPTIMIZE_API] Total tokens used: ${tokenUsage?.totalTokens || 0}`);
-    console.info(`[OPTIMIZE_API] Estimated cost: $${tokenUsage?.estimatedCost.toFixed(4) || 0}`);
-
-    // Build result
-    const result: ResumeOptimizationResult = {
-      optimizedResume,
-      changes: bulletOptimizations,
-      keywordAnalysis: finalAnalysis,
-      totalTokensUsed: tokenUsage?.totalTokens || 0,
-      processingTimeMs: processingTime,
-      success: true
-    };
-
-    return NextResponse.json(result);
+      throw error;
+    }
 
   } catch (error) {
     console.error('[OPTIMIZE_API] Unexpected error:', error);
@@ -356,6 +145,72 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Run the pipeline and stream progress events as NDJSON.
+ * Client disconnect aborts the run (queued bullets dropped, in-flight calls cancelled).
+ */
+function streamOptimization(
+  request: NextRequest,
+  llm: LLMProvider,
+  input: OptimizationPipelineInput
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal?.addEventListener('abort', () => abortController.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: OptimizationProgressEvent) => {
+        if (abortController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Stream already closed by the client
+          abortController.abort();
+        }
+      };
+
+      try {
+        const result = await runResumeOptimization(llm, input, {
+          onEvent: send,
+          signal: abortController.signal
+        });
+        send({ type: 'result', result });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.info('[OPTIMIZE_API] Optimization cancelled by client');
+        } else {
+          console.error('[OPTIMIZE_API] Streaming optimization failed:', error);
+          send({
+            type: 'error',
+            error: error instanceof OptimizationPipelineError ? error.message : 'Internal server error',
+            details: error instanceof OptimizationPipelineError
+              ? error.details
+              : error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
 /**
  * GET /api/optimize-resume
  * Health check
@@ -367,11 +222,15 @@ export async function GET() {
     status: 'ok',
     service: 'resume-optimization',
     gemini_configured: !!apiKey,
+    llm_provider: process.env.LLM_PROVIDER || 'gemini',
     features: [
       'latex_parsing',
+      'docx_parsing',
       'keyword_extraction',
       'parallel_optimization',
-      'token_tracking'
+      'token_tracking',
+      'progress_streaming',
+      'review_mode'
     ]
   });
 }
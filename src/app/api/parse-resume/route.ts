@@ -5,7 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { parseLatexToResume } from '@/lib/parsers/latex-parser-simple';
+import { parseResumeSource } from '@/lib/resume-model/parse';
 import type { ResumeParseResult } from '@/types/resume';
 
 export async function POST(request: NextRequest) {
@@ -52,30 +52,16 @@ export async function POST(request: NextRequest) {
 
     let parseResult: ResumeParseResult;
 
-    // Parse LaTeX
-    if (fileExt === 'tex') {
-      console.log('[API/PARSE-RESUME] Parsing LaTeX file...');
-      const latexContent = await file.text();
-      parseResult = await parseLatexToResume(latexContent, file.name);
-    }
-    // Parse DOCX (Phase 2 - TODO)
-    else if (fileExt === 'docx') {
-      console.log('[API/PARSE-RESUME] DOCX parsing not yet implemented');
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'DOCX support coming soon. Please use LaTeX (.tex) files for now.',
-        },
-        { status: 501 }
-      );
-    } else {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Invalid file format',
-        },
-        { status: 400 }
-      );
+    try {
+      console.log(`[API/PARSE-RESUME] Parsing ${fileExt === 'tex' ? 'LaTeX' : 'DOCX'} file...`);
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const resume = await parseResumeSource(buffer, fileExt === 'tex' ? 'latex' : 'docx', file.name);
+      parseResult = { success: true, resume, warnings: [] };
+    } catch (error) {
+      parseResult = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown parsing error',
+      };
     }
 
     // Return parse result
@@ -118,7 +104,7 @@ export async function GET() {
   return NextResponse.json({
     status: 'ok',
     endpoint: '/api/parse-resume',
-    supportedFormats: ['tex', 'docx (coming soon)'],
+    supportedFormats: ['tex', 'docx'],
     maxFileSize: '5MB',
   });
 }
@@ -53,7 +53,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      document: result.document
+      document: result.document,
+      resume: result.resume
     });
 
   } catch (error) {
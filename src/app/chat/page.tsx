@@ -5,10 +5,10 @@
  * AI-Powered Resume Optimization with LaTeX/DOCX Support
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Image from 'next/image';
-import { Document, Line, Message, Chat, EditHistory, OriginalDocument, KeywordAnalysis, OptimizationConfig, ContextFile, TokenUsage } from '@/lib/parsers/types';
+import { Document, Line, Message, Chat, EditHistory, LineEdit, BulletOptimization, OriginalDocument, KeywordAnalysis, OptimizationConfig, ContextFile, TokenUsage, BatchJobDescription, BatchProgressEvent, BatchVariant, KeywordAliasMap, KeywordImportance, ResumeVersionHistory, EditLog, CoverLetter, CoverLetterOptions, PageFitResult, ChatEditMode, EditSuggestion, ChatLiveTurn } from '@/lib/parsers/types';
 import {
   loadChats,
   saveChats,
@@ -18,9 +18,17 @@ import {
   saveEditHistory,
   loadEditHistory,
   saveOriginalFile,
-  loadOriginalFile
+  loadOriginalFile,
+  saveVersionHistory,
+  loadVersionHistory,
+  saveEditLog,
+  loadEditLog,
+  saveCoverLetter,
+  loadCoverLetter,
+  saveSuggestions,
+  loadSuggestions
 } from '@/lib/storage/chats';
-import { exportDocument, exportDocumentPreserveFormat } from '@/lib/export';
+import { exportDocument, exportDocumentPreserveFormat, exportCoverLetter, CoverLetterExportFormat } from '@/lib/export';
 import DocumentViewer from '@/components/document/DocumentViewer';
 import ChatInterface from '@/components/chat/ChatInterface';
 import InitialSetupModal from '@/components/modals/InitialSetupModal';
@@ -32,12 +40,39 @@ import ResumeUploadModal from '@/components/modals/ResumeUploadModal';
 import TabbedLeftPanel from '@/components/sidebar/TabbedLeftPanel';
 import JobDescriptionPanel from '@/components/resume/JobDescriptionPanel';
 import EnhancedKeywordAnalysis from '@/components/resume/EnhancedKeywordAnalysis';
-import SimplifiedOptimizationControls from '@/components/resume/SimplifiedOptimizationControls';
+import AtsReportPanel from '@/components/resume/AtsReportPanel';
+import SimplifiedOptimizationControls, { OptimizationProgress } from '@/components/resume/SimplifiedOptimizationControls';
+import { streamOptimizeResume, streamOptimizeBatch } from '@/lib/api-clients/optimize-resume-client';
+import { requestCoverLetter } from '@/lib/api-clients/cover-letter-client';
+import { streamChat, applyChatProgressEvent, EMPTY_LIVE_TURN } from '@/lib/api-clients/chat-client';
 import ContextFilesModal from '@/components/modals/ContextFilesModal';
-import { Upload, AlertCircle, Settings, Plus } from 'lucide-react';
+import BatchTailoringModal from '@/components/modals/BatchTailoringModal';
+import VersionsModal from '@/components/modals/VersionsModal';
+import BulletReviewModal from '@/components/modals/BulletReviewModal';
+import CoverLetterModal from '@/components/modals/CoverLetterModal';
+import { Upload, AlertCircle, Settings, Plus, Layers, GitBranch, Mail, Scissors } from 'lucide-react';
+import type { LLMProviderConfig } from '@/lib/llm/types';
 
 // NEW: Resume editor imports
 import { Resume } from '@/types/resume';
+import { syncResumeWithLines } from '@/lib/resume-model';
+import { applyEditsToLatex } from '@/lib/parsers/latex';
+import {
+  saveVersion,
+  updateVersion,
+  branchVersion,
+  renameVersion,
+  deleteVersion,
+  restoreVersion
+} from '@/lib/versioning';
+import {
+  recordTransaction,
+  revertTransaction,
+  undoTransaction,
+  redoTransaction,
+  EditLogResult
+} from '@/lib/edit-log';
+import { acceptSuggestions } from '@/lib/suggestions';
 import ResumeEditorLayout from '@/components/editors/ResumeEditorLayout';
 
 export default function ChatPage() {
@@ -47,6 +82,7 @@ export default function ChatPage() {
   const [chats, setChats] = useState<Chat[]>([]);
   const [currentChat, setCurrentChat] = useState<Chat | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [liveTurn, setLiveTurn] = useState<ChatLiveTurn | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [showSetupModal, setShowSetupModal] = useState(false);
@@ -54,10 +90,10 @@ export default function ChatPage() {
 
   // NEW: Resume editor state
   const [parsedResume, setParsedResume] = useState<Resume | null>(null);
-  const [isParsingResume, setIsParsingResume] = useState(false);
 
   // Edit tracking state
   const [editHistory, setEditHistory] = useState<EditHistory | null>(null);
+  const [editLog, setEditLog] = useState<EditLog | null>(null);
   const [originalFile, setOriginalFile] = useState<OriginalDocument | null>(null);
 
   // Preview modal state
@@ -66,10 +102,22 @@ export default function ChatPage() {
   // Settings modal state
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [customApiKey, setCustomApiKey] = useState<string | null>(null);
+  const [llmSettings, setLLMSettings] = useState<LLMProviderConfig | null>(null);
 
   // Context files modal state
   const [showContextModal, setShowContextModal] = useState(false);
 
+  // Batch tailoring modal state
+  const [showBatchModal, setShowBatchModal] = useState(false);
+
+  // Resume versions state
+  const [showVersionsModal, setShowVersionsModal] = useState(false);
+  const [versionHistory, setVersionHistory] = useState<ResumeVersionHistory | null>(null);
+
+  // Cover letter state
+  const [showCoverLetterModal, setShowCoverLetterModal] = useState(false);
+  const [coverLetter, setCoverLetter] = useState<CoverLetter | null>(null);
+
   // Resume optimization state
   const [contextFiles, setContextFiles] = useState<{
     resume?: ContextFile;
@@ -81,7 +129,15 @@ export default function ChatPage() {
   const [keywordAnalysis, setKeywordAnalysis] = useState<KeywordAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizationProgress, setOptimizationProgress] = useState<OptimizationProgress | null>(null);
+  const optimizationAbortRef = useRef<AbortController | null>(null);
   const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [maxPages, setMaxPages] = useState(0);
+  const [pageFit, setPageFit] = useState<PageFitResult | null>(null);
+  const [chatEditMode, setChatEditMode] = useState<ChatEditMode>('edit');
+  const [suggestions, setSuggestions] = useState<EditSuggestion[]>([]);
+  const [reviewProposals, setReviewProposals] = useState<BulletOptimization[] | null>(null);
   const [sessionId] = useState(`session-${Date.now()}`);
 
   // NEW: Modal and UI state for revamped interface
@@ -102,6 +158,8 @@ export default function ChatPage() {
   const [resumeKeywords, setResumeKeywords] = useState<string[]>([]);
   const [disabledKeywords, setDisabledKeywords] = useState<string[]>([]);
   const [customKeywords, setCustomKeywords] = useState<string[]>([]);
+  const [keywordAliases, setKeywordAliases] = useState<KeywordAliasMap>({});
+  const [keywordImportance, setKeywordImportance] = useState<KeywordImportance[]>([]);
   const [isAnalyzed, setIsAnalyzed] = useState(false);
   const [customInstructions, setCustomInstructions] = useState('');
 
@@ -163,10 +221,24 @@ export default function ChatPage() {
       setCustomApiKey(storedApiKey);
     }
 
+    // Load LLM provider selection if exists
+    const storedProvider = localStorage.getItem('resume-craft-pro-llm-provider');
+    if (storedProvider) {
+      try {
+        setLLMSettings(JSON.parse(storedProvider));
+      } catch (e) {
+        console.error('[STORAGE] Failed to parse LLM provider settings:', e);
+      }
+    }
+
     // Load job field and keywords from localStorage
     const savedJobField = localStorage.getItem('resume-craft-pro-job-field');
     if (savedJobField) setJobField(savedJobField);
 
+    setReviewMode(localStorage.getItem('resume-craft-pro-review-mode') === 'true');
+    setMaxPages(parseInt(localStorage.getItem('resume-craft-pro-max-pages') || '0', 10) || 0);
+    setChatEditMode(localStorage.getItem('resume-craft-pro-chat-mode') === 'suggest' ? 'suggest' : 'edit');
+
     const savedDisabled = localStorage.getItem('resume-craft-pro-disabled-keywords');
     if (savedDisabled) {
       try {
@@ -184,6 +256,15 @@ export default function ChatPage() {
         console.error('[STORAGE] Failed to parse custom keywords:', e);
       }
     }
+
+    const savedAliases = localStorage.getItem('resume-craft-pro-keyword-aliases');
+    if (savedAliases) {
+      try {
+        setKeywordAliases(JSON.parse(savedAliases));
+      } catch (e) {
+        console.error('[STORAGE] Failed to parse keyword aliases:', e);
+      }
+    }
   }, [searchParams]);
 
   // Update hasResumeUploaded when document changes
@@ -196,12 +277,59 @@ export default function ChatPage() {
     }
   }, [document]);
 
+  // Load saved versions, the undo/redo log, the cover letter draft and pending suggestions for the current document
+  useEffect(() => {
+    setVersionHistory(document ? loadVersionHistory(document.id) : null);
+    setEditLog(document ? loadEditLog(document.id) : null);
+    setCoverLetter(document ? loadCoverLetter(document.id) : null);
+    setSuggestions(document ? loadSuggestions(document.id) : []);
+  }, [document?.id]);
+
+  // Keyboard undo/redo of chat edits (text fields keep their own undo)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], .monaco-editor')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndoEdits();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedoEdits();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Persist job field to localStorage
   useEffect(() => {
     if (typeof window === 'undefined') return;
     localStorage.setItem('resume-craft-pro-job-field', jobField);
   }, [jobField]);
 
+  // Persist review mode to localStorage
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('resume-craft-pro-review-mode', String(reviewMode));
+  }, [reviewMode]);
+
+  // Persist page limit to localStorage
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('resume-craft-pro-max-pages', String(maxPages));
+  }, [maxPages]);
+
+  // Persist chat edit mode to localStorage
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('resume-craft-pro-chat-mode', chatEditMode);
+  }, [chatEditMode]);
+
   // Persist disabled keywords to localStorage
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -222,6 +350,12 @@ export default function ChatPage() {
     }
   }, [customKeywords]);
 
+  // Canonical resume with the current document lines (chat edits, applied optimizations)
+  const getCurrentResume = (): Resume | undefined => {
+    if (!parsedResume || !document || document.id !== parsedResume.id) return undefined;
+    return syncResumeWithLines(parsedResume, document.lines);
+  };
+
   // Auto-extract keywords when JD changes (with debounce)
   useEffect(() => {
     if (!jobDescription || !document) return;
@@ -242,13 +376,16 @@ export default function ChatPage() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
+            resume: getCurrentResume(),
             resumeContent,
             resumeFormat: document.metadata.format,
             fileName: document.metadata.fileName || 'resume',
             jobDescription: jobDescription.trim(),
             jobField: jobField,
+            keywordAliases,
             sessionId: sessionId,
-            customApiKey: customApiKey || undefined
+            customApiKey: customApiKey || undefined,
+            llmProvider: llmSettings || undefined
           })
         });
 
@@ -257,6 +394,7 @@ export default function ChatPage() {
         if (response.ok && data.analysis) {
           setJdKeywords(data.analysis.jdKeywords || []);
           setResumeKeywords(data.analysis.resumeKeywords || []);
+          setKeywordImportance(data.analysis.keywordImportance || []);
           setIsAnalyzed(true);
           console.log('[KEYWORDS] Auto-extracted:', data.analysis.jdKeywords?.length, 'JD keywords');
         }
@@ -270,7 +408,7 @@ export default function ChatPage() {
     }, 1000);
 
     return () => clearTimeout(debounce);
-  }, [jobDescription, document, jobField, sessionId, customApiKey]);
+  }, [jobDescription, document, parsedResume, jobField, sessionId, customApiKey, llmSettings]);
 
   // Handle file upload
   const handleFileUpload = async (file: File) => {
@@ -308,35 +446,8 @@ export default function ChatPage() {
       setHasResumeUploaded(true);
       setShowResumeModal(false);
 
-      // NEW: If it's a LaTeX file, also parse it for the editor
-      if (file.name.endsWith('.tex')) {
-        console.log('[UPLOAD] Parsing LaTeX resume for editor...');
-        setIsParsingResume(true);
-
-        const parseFormData = new FormData();
-        parseFormData.append('file', file);
-
-        try {
-          const parseResponse = await fetch('/api/parse-resume', {
-            method: 'POST',
-            body: parseFormData,
-          });
-
-          if (parseResponse.ok) {
-            const parseData = await parseResponse.json();
-            if (parseData.success && parseData.resume) {
-              setParsedResume(parseData.resume);
-              console.log('[UPLOAD] LaTeX resume parsed for editor successfully');
-            }
-          } else {
-            console.warn('[UPLOAD] Failed to parse LaTeX resume for editor');
-          }
-        } catch (parseError) {
-          console.error('[UPLOAD] Error parsing LaTeX for editor:', parseError);
-        } finally {
-          setIsParsingResume(false);
-        }
-      }
+      // Canonical resume (LaTeX/DOCX) - parsed once, reused by the editor and optimizer
+      setParsedResume(data.resume || null);
 
       // Store original file in IndexedDB
       const originalDoc: OriginalDocument = {
@@ -357,6 +468,15 @@ export default function ChatPage() {
       saveEditHistory(history);
       setEditHistory(history);
 
+      // Keep the uploaded resume as the "Base" version
+      const { history: baseHistory } = saveVersion(
+        { documentId: data.document.id, versions: [] },
+        'Base',
+        { document: data.document, rawSource: data.resume?.rawSource }
+      );
+      saveVersionHistory(baseHistory);
+      setVersionHistory(baseHistory);
+
       // Update current chat with document
       if (currentChat && currentChat.messages.length === 0) {
         const renamedChat = {
@@ -513,12 +633,15 @@ export default function ChatPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          resume: getCurrentResume(),
           resumeContent,
           resumeFormat: document.metadata.format,
           fileName: document.metadata.fileName || 'resume',
           jobDescription: jobDescription.trim(),
+          keywordAliases,
           sessionId: sessionId,
-          customApiKey: customApiKey || undefined
+          customApiKey: customApiKey || undefined,
+          llmProvider: llmSettings || undefined
         })
       });
 
@@ -534,6 +657,7 @@ export default function ChatPage() {
       if (data.analysis) {
         setJdKeywords(data.analysis.jdKeywords || []);
         setResumeKeywords(data.analysis.resumeKeywords || []);
+        setKeywordImportance(data.analysis.keywordImportance || []);
         setIsAnalyzed(true);
       }
 
@@ -549,8 +673,73 @@ export default function ChatPage() {
     }
   };
 
+  // Apply optimized bullets to the document and record them for format-preserving export.
+  // optimizedLines is the server's final text (bullet rewrites plus page-fit trims);
+  // resultResume is the server's resume for those lines (it still has the old source)
+  const applyOptimizationChanges = (changes: BulletOptimization[], optimizedLines?: Line[], resultResume?: Resume): Document | undefined => {
+    if (!document) return;
+
+    const lines = optimizedLines || document.lines.map(line => {
+      const change = changes.find(c => c.lineNumber === line.lineNumber);
+      return change ? { ...line, text: change.optimizedText } : line;
+    });
+
+    // Every line whose final text differs, so trimmed bullets reach the source and export too
+    const originalText = new Map(document.lines.map(line => [line.lineNumber, line.text]));
+    const changedLines = lines.filter(line => originalText.has(line.lineNumber) && originalText.get(line.lineNumber) !== line.text);
+    if (changedLines.length === 0) return;
+
+    // Update document with optimized content
+    const optimizedDoc: Document = { ...document, lines };
+    setDocument(optimizedDoc);
+    saveDocument(optimizedDoc);
+
+    // Record the rewritten lines so format-preserving export (DOCX) can write them back
+    const optimizationEdits: LineEdit[] = changedLines.map(line => ({
+      lineNumber: line.lineNumber,
+      originalText: originalText.get(line.lineNumber)!,
+      newText: line.text,
+      timestamp: new Date(),
+      operation: 'replace' as const
+    }));
+    const updatedHistory: EditHistory = {
+      documentId: document.id,
+      edits: [...(editHistory?.edits || []), ...optimizationEdits]
+    };
+    setEditHistory(updatedHistory);
+    saveEditHistory(updatedHistory);
+
+    // Keep the canonical resume in step; LaTeX: write the changed lines into the source as well,
+    // so the editor, compile and .tex export show the optimized resume
+    const resume = resultResume || (parsedResume && parsedResume.id === document.id
+      ? syncResumeWithLines(parsedResume, optimizedDoc.lines)
+      : null);
+    if (resume) {
+      setParsedResume(resume.sourceFormat === 'latex'
+        ? {
+          ...resume,
+          rawSource: applyEditsToLatex(
+            resume.rawSource,
+            changedLines.map(line => ({ lineNumber: line.lineNumber, newText: line.text }))
+          )
+        }
+        : resume);
+    }
+
+    return optimizedDoc;
+  };
+
+  // Apply the proposals accepted in the review queue (rejected ones never touch the resume)
+  const handleApplyReviewedChanges = (accepted: BulletOptimization[]) => {
+    setReviewProposals(null);
+    console.log(`[OPTIMIZATION] Applying ${accepted.length} reviewed changes`);
+    applyOptimizationChanges(accepted);
+  };
+
   // NEW: Handle optimize with keywords
   const handleOptimizeWithKeywords = async () => {
+    const completedChanges: BulletOptimization[] = [];
+
     if (!document || !jobDescription.trim()) {
       setError('Please upload resume and provide job description');
       return;
@@ -565,6 +754,7 @@ export default function ChatPage() {
       console.log('[OPTIMIZATION] Starting optimization with keywords');
       setIsOptimizing(true);
       setError(null);
+      setPageFit(null);
 
       // Get active keywords (excluding disabled ones)
       const activeKeywords = [
@@ -579,10 +769,13 @@ export default function ChatPage() {
         .map(line => line.text)
         .join('\n');
 
-      const response = await fetch('/api/optimize-resume', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const abortController = new AbortController();
+      optimizationAbortRef.current = abortController;
+      setOptimizationProgress({ step: 0, totalSteps: 9, message: 'Starting...', bulletsCompleted: 0, bulletsTotal: 0, bulletsOptimized: 0, tokensUsed: 0 });
+
+      const data = await streamOptimizeResume(
+        {
+          resume: getCurrentResume(),
           resumeContent,
           resumeFormat: document.metadata.format,
           jobDescription: jobDescription.trim(),
@@ -590,33 +783,46 @@ export default function ChatPage() {
           keywords: activeKeywords,
           sessionId: sessionId,
           customApiKey: customApiKey || undefined,
+          llmProvider: llmSettings || undefined,
+          review: reviewMode,
           config: {
             mode: 'targeted',
             maxConcurrentCalls: 5,
             preserveLength: true,
-            maintainTone: true
+            maintainTone: true,
+            keywordAliases,
+            // In review mode the user decides on bullets with unsupported claims
+            factGrounding: reviewMode ? 'flag' : 'reject',
+            ...(maxPages > 0 && document.metadata.format === 'latex' ? { maxPages } : {})
           }
-        })
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || data.error) {
-        throw new Error(data.error || 'Failed to optimize resume');
-      }
+        },
+        (event) => {
+          if (event.type === 'step') {
+            setOptimizationProgress(prev => prev && { ...prev, step: event.step, totalSteps: event.totalSteps, message: event.message });
+          } else if (event.type === 'bullet') {
+            if (event.optimization) completedChanges.push(event.optimization);
+            setOptimizationProgress(prev => prev && {
+              ...prev,
+              bulletsCompleted: event.completed,
+              bulletsTotal: event.total,
+              bulletsOptimized: prev.bulletsOptimized + (event.optimization ? 1 : 0)
+            });
+          } else if (event.type === 'tokens') {
+            setOptimizationProgress(prev => prev && { ...prev, tokensUsed: prev.tokensUsed + event.deltaTokens });
+            setTokenUsage(event.usage);
+          }
+        },
+        abortController.signal
+      );
 
-      // Update document with optimized content
-      if (data.optimizedResume) {
-        const optimizedDoc: Document = {
-          ...document,
-          lines: data.optimizedResume.lines || document.lines
-        };
-        setDocument(optimizedDoc);
-        saveDocument(optimizedDoc);
+      if (data.review) {
+        // Nothing applied yet - open the review queue
+        setReviewProposals(data.changes);
+      } else {
+        applyOptimizationChanges(data.changes, data.optimizedResume?.lines, data.resume);
+        if (data.pageFit) setPageFit(data.pageFit);
       }
 
-      setTokenUsage(data.tokenUsage || null);
-
       // Auto-collapse panels
       setIsJDPanelCollapsed(true);
       setIsOptimizationPanelCollapsed(true);
@@ -625,13 +831,143 @@ export default function ChatPage() {
       console.log('[OPTIMIZATION] Completed successfully');
 
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // Keep the bullets that finished before the cancel
+        console.log(`[OPTIMIZATION] Cancelled by user, keeping ${completedChanges.length} optimized bullets`);
+        if (reviewMode) {
+          if (completedChanges.length > 0) setReviewProposals(completedChanges);
+        } else {
+          applyOptimizationChanges(completedChanges);
+        }
+        return;
+      }
       console.error('[OPTIMIZATION] Error:', error);
       setError(error instanceof Error ? error.message : 'Failed to optimize resume');
     } finally {
+      optimizationAbortRef.current = null;
+      setOptimizationProgress(null);
       setIsOptimizing(false);
     }
   };
 
+  // Cancel a running optimization (server aborts in-flight model calls)
+  const handleCancelOptimization = () => {
+    optimizationAbortRef.current?.abort();
+  };
+
+  // Tailor the current resume to several job descriptions (one variant each)
+  const handleRunBatch = async (
+    jobs: BatchJobDescription[],
+    onEvent: (event: BatchProgressEvent) => void,
+    signal: AbortSignal
+  ) => {
+    if (!document) {
+      throw new Error('Please upload a resume first');
+    }
+
+    console.log(`[BATCH] Tailoring resume for ${jobs.length} job descriptions`);
+
+    const data = await streamOptimizeBatch(
+      {
+        resume: getCurrentResume(),
+        resumeContent: document.lines.map(line => line.text).join('\n'),
+        resumeFormat: document.metadata.format,
+        jobDescriptions: jobs,
+        jobField,
+        sessionId: sessionId,
+        customApiKey: customApiKey || undefined,
+        llmProvider: llmSettings || undefined,
+        config: {
+          mode: 'targeted',
+          maxConcurrentCalls: 5,
+          preserveLength: true,
+          maintainTone: true,
+          keywordAliases
+        }
+      },
+      onEvent,
+      signal
+    );
+
+    console.log(`[BATCH] Completed: ${data.totalTokensUsed} tokens across ${data.variants.length} variants`);
+    return data;
+  };
+
+  // Apply one batch variant to the resume
+  const handleApplyBatchVariant = (variant: BatchVariant) => {
+    if (!variant.result) return;
+
+    console.log(`[BATCH] Applying variant "${variant.summary.title}" (${variant.result.changes.length} bullets)`);
+    applyOptimizationChanges(variant.result.changes, variant.result.optimizedResume?.lines, variant.result.resume);
+  };
+
+  // Persist version history changes (localStorage can run out of quota with many versions)
+  const commitVersionHistory = (history: ResumeVersionHistory) => {
+    setVersionHistory(history);
+    if (!saveVersionHistory(history)) {
+      setError('Failed to save resume versions. Delete old versions to free up storage.');
+    }
+  };
+
+  // Snapshot of the working copy for saving a version
+  const getVersionSnapshot = () => ({
+    document: document!,
+    edits: editHistory?.edits || [],
+    rawSource: getCurrentResume()?.rawSource
+  });
+
+  const handleSaveVersion = (name: string) => {
+    if (!document || !versionHistory) return;
+    commitVersionHistory(saveVersion(versionHistory, name, getVersionSnapshot()).history);
+  };
+
+  const handleUpdateVersion = (versionId: string) => {
+    if (!document || !versionHistory) return;
+    commitVersionHistory(updateVersion(versionHistory, versionId, getVersionSnapshot()));
+  };
+
+  const handleBranchVersion = (versionId: string, name: string) => {
+    if (!versionHistory) return;
+    const { history, version } = branchVersion(versionHistory, versionId, name);
+    commitVersionHistory(history);
+    handleRestoreVersion(version.id, history);
+  };
+
+  const handleRenameVersion = (versionId: string, name: string) => {
+    if (!versionHistory) return;
+    commitVersionHistory(renameVersion(versionHistory, versionId, name));
+  };
+
+  const handleDeleteVersion = (versionId: string) => {
+    if (!versionHistory) return;
+    commitVersionHistory(deleteVersion(versionHistory, versionId));
+  };
+
+  // Load a version into the working copy (document, edit history and LaTeX source)
+  const handleRestoreVersion = (versionId: string, history: ResumeVersionHistory | null = versionHistory) => {
+    const version = history?.versions.find(v => v.id === versionId);
+    if (!document || !history || !version) return;
+
+    const restoredDoc = restoreVersion(version, document);
+    setDocument(restoredDoc);
+    saveDocument(restoredDoc);
+
+    const restoredHistory: EditHistory = { documentId: document.id, edits: version.edits };
+    setEditHistory(restoredHistory);
+    saveEditHistory(restoredHistory);
+
+    if (parsedResume && parsedResume.id === document.id) {
+      setParsedResume({
+        ...syncResumeWithLines(parsedResume, version.lines),
+        rawSource: version.rawSource ?? parsedResume.rawSource
+      });
+    }
+
+    if (history.activeVersionId !== versionId) {
+      commitVersionHistory({ ...history, activeVersionId: versionId });
+    }
+  };
+
   // Handle send message
   const handleSendMessage = async (messageText: string, customPrompt?: string) => {
     if (!document || !currentChat) {
@@ -641,6 +977,7 @@ export default function ChatPage() {
 
     try {
       setIsLoading(true);
+      setLiveTurn(EMPTY_LIVE_TURN);
       setError(null);
 
       // Create user message
@@ -667,33 +1004,66 @@ export default function ChatPage() {
       setChats(updatedChats);
       saveChats(updatedChats);
 
-      // Send to API
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      // Lines before this turn, for the undo transaction
+      const linesBefore = document.lines;
+
+      // Send to API, streaming the reply text and tool activity into the chat
+      const data = await streamChat(
+        {
           message: messageText,
           document,
           chatHistory: currentChat.messages,
           customPrompt: customPrompt || undefined,
-          customApiKey: customApiKey || undefined
-        })
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || data.error) {
-        throw new Error(data.error || 'Failed to get response');
-      }
+          customApiKey: customApiKey || undefined,
+          llmProvider: llmSettings || undefined,
+          mode: chatEditMode
+        },
+        event => setLiveTurn(prev => applyChatProgressEvent(prev || EMPTY_LIVE_TURN, event))
+      );
 
       // Create assistant message
       const assistantMessage: Message = {
         id: `msg-${Date.now()}-assistant`,
         role: 'assistant',
-        content: data.response,
-        timestamp: new Date()
+        content: data.message,
+        timestamp: new Date(),
+        actions: data.actions
       };
 
+      // Queue this turn's proposed edits for review in the document
+      if (data.suggestions && data.suggestions.length > 0) {
+        const proposed: EditSuggestion[] = data.suggestions.map((suggestion: EditSuggestion) => ({
+          ...suggestion,
+          messageId: assistantMessage.id,
+          createdAt: new Date(suggestion.createdAt)
+        }));
+        assistantMessage.suggestionIds = proposed.map(s => s.id);
+
+        const updatedSuggestions = [...suggestions, ...proposed];
+        setSuggestions(updatedSuggestions);
+        saveSuggestions(document.id, updatedSuggestions);
+      }
+
+      // Record this turn's edits as one undoable transaction
+      if (data.document && editLog) {
+        const { log, transaction } = recordTransaction(editLog, {
+          before: linesBefore,
+          after: data.document.lines,
+          description: messageText,
+          messageId: assistantMessage.id
+        });
+        assistantMessage.transactionId = transaction.id;
+        setEditLog(log);
+        saveEditLog(log);
+
+        const updatedHistory: EditHistory = {
+          documentId: document.id,
+          edits: [...(editHistory?.edits || []), ...transaction.edits]
+        };
+        setEditHistory(updatedHistory);
+        saveEditHistory(updatedHistory);
+      }
+
       // Update chat with assistant message
       const finalChat = {
         ...updatedChat,
@@ -720,9 +1090,106 @@ export default function ChatPage() {
       setError(error instanceof Error ? error.message : 'Failed to send message');
     } finally {
       setIsLoading(false);
+      setLiveTurn(null);
     }
   };
 
+  // Apply an undo/redo/revert result to the working copy
+  const applyEditLogResult = (result: EditLogResult, verb: string) => {
+    if (!document) return;
+
+    const updatedDoc = {
+      ...document,
+      lines: result.lines,
+      metadata: { ...document.metadata, totalLines: result.lines.length }
+    };
+    setDocument(updatedDoc);
+    saveDocument(updatedDoc);
+
+    const updatedHistory: EditHistory = {
+      documentId: document.id,
+      edits: [...(editHistory?.edits || []), ...result.edits]
+    };
+    setEditHistory(updatedHistory);
+    saveEditHistory(updatedHistory);
+
+    setEditLog(result.log);
+    saveEditLog(result.log);
+
+    if (result.skipped > 0) {
+      setError(`${result.skipped} change(s) could not be ${verb} because those lines were edited since`);
+    }
+  };
+
+  // Undo the latest chat edit transaction
+  const handleUndoEdits = () => {
+    if (!document || !editLog || isLoading) return;
+    const result = undoTransaction(editLog, document.lines);
+    if (result) applyEditLogResult(result, 'undone');
+  };
+
+  // Redo the latest undone chat edit transaction
+  const handleRedoEdits = () => {
+    if (!document || !editLog || isLoading) return;
+    const result = redoTransaction(editLog, document.lines);
+    if (result) applyEditLogResult(result, 'redone');
+  };
+
+  // Revert the edits of one assistant message (later edits are kept)
+  const handleRevertEdits = (transactionId: string) => {
+    if (!document || !editLog) return;
+    applyEditLogResult(revertTransaction(editLog, transactionId, document.lines), 'reverted');
+  };
+
+  // Accept suggestions into the document as one undoable transaction
+  const handleAcceptSuggestions = (ids: string[]) => {
+    if (!document || isLoading) return;
+
+    const result = acceptSuggestions(document.lines, suggestions, ids);
+
+    if (result.applied.length > 0) {
+      if (editLog) {
+        const { log, transaction } = recordTransaction(editLog, {
+          before: document.lines,
+          after: result.lines,
+          description: `Accepted ${result.applied.length} suggestion(s)`
+        });
+        setEditLog(log);
+        saveEditLog(log);
+
+        const updatedHistory: EditHistory = {
+          documentId: document.id,
+          edits: [...(editHistory?.edits || []), ...transaction.edits]
+        };
+        setEditHistory(updatedHistory);
+        saveEditHistory(updatedHistory);
+      }
+
+      const updatedDoc = {
+        ...document,
+        lines: result.lines,
+        metadata: { ...document.metadata, totalLines: result.lines.length }
+      };
+      setDocument(updatedDoc);
+      saveDocument(updatedDoc);
+    }
+
+    setSuggestions(result.pending);
+    saveSuggestions(document.id, result.pending);
+
+    if (result.skipped > 0) {
+      setError(`${result.skipped} suggestion(s) could not be applied because those lines were edited since`);
+    }
+  };
+
+  // Drop suggestions without applying them
+  const handleRejectSuggestions = (ids: string[]) => {
+    if (!document) return;
+    const remaining = suggestions.filter(s => !ids.includes(s.id));
+    setSuggestions(remaining);
+    saveSuggestions(document.id, remaining);
+  };
+
   // Handle line toggle lock
   const handleLineToggleLock = (lineNumber: number) => {
     if (!document) return;
@@ -810,6 +1277,55 @@ export default function ChatPage() {
     }
   };
 
+  // Draft a cover letter for the current job description
+  const handleGenerateCoverLetter = async (options: CoverLetterOptions) => {
+    if (!document || !jobDescription.trim()) return;
+
+    const { coverLetter: letter, tokenUsage: usage } = await requestCoverLetter({
+      resume: getCurrentResume(),
+      resumeContent: document.lines.map(line => line.text).join('\n'),
+      jobDescription: jobDescription.trim(),
+      keywordAnalysis: keywordAnalysis
+        ? {
+          jdKeywords: keywordAnalysis.jdKeywords,
+          resumeKeywords: keywordAnalysis.resumeKeywords,
+          missingKeywords: keywordAnalysis.missingKeywords,
+          keywordImportance: keywordAnalysis.keywordImportance
+        }
+        : undefined,
+      projects: contextFiles.projects?.content,
+      portfolio: contextFiles.portfolio?.content,
+      options,
+      keywordAliases,
+      sessionId,
+      customApiKey: customApiKey || undefined,
+      llmProvider: llmSettings || undefined
+    });
+
+    const saved = { ...letter, documentId: document.id };
+    setCoverLetter(saved);
+    saveCoverLetter(document.id, saved);
+    if (usage) setTokenUsage(usage);
+  };
+
+  // Persist edits to the cover letter draft
+  const handleCoverLetterChange = (letter: CoverLetter) => {
+    setCoverLetter(letter);
+    if (document) saveCoverLetter(document.id, letter);
+  };
+
+  // Export the cover letter styled like the resume (LaTeX preamble / DOCX package)
+  const handleExportCoverLetter = async (format: CoverLetterExportFormat) => {
+    if (!coverLetter) return;
+
+    const resume = getCurrentResume();
+    await exportCoverLetter(coverLetter, format, {
+      latexSource: resume?.sourceFormat === 'latex' ? resume.rawSource : undefined,
+      docxBuffer: originalFile?.format === 'docx' && originalFile.documentId === document?.id ? originalFile.fileBuffer : undefined,
+      lines: document?.lines
+    });
+  };
+
   // Handle format preserving export
   const handleFormatPreservingExport = () => {
     if (!document || !originalFile) {
@@ -822,10 +1338,10 @@ export default function ChatPage() {
 
   // Handle download from preview
   const handleDownloadFromPreview = async () => {
-    if (!document || !originalFile) return;
+    if (!document || !originalFile || !editHistory) return;
 
     try {
-      await exportDocumentPreserveFormat(document, originalFile);
+      await exportDocumentPreserveFormat(document, originalFile, editHistory);
       setShowPreviewModal(false);
     } catch (error) {
       console.error('Error in format-preserving export:', error);
@@ -864,7 +1380,8 @@ export default function ChatPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           text: document.content,
-          customApiKey: customApiKey || undefined
+          customApiKey: customApiKey || undefined,
+          llmProvider: llmSettings || undefined
         })
       });
 
@@ -901,6 +1418,25 @@ export default function ChatPage() {
     }
   };
 
+  // Save user keyword aliases (used by analysis, optimization and the keyword panel)
+  const handleKeywordAliasesChange = (aliases: KeywordAliasMap) => {
+    setKeywordAliases(aliases);
+    if (typeof window === 'undefined') return;
+    localStorage.setItem('resume-craft-pro-keyword-aliases', JSON.stringify(aliases));
+    console.log('[KEYWORDS] Saved keyword aliases:', Object.keys(aliases).length);
+  };
+
+  // Handle LLM provider change
+  const handleLLMSettingsChange = (settings: LLMProviderConfig | null) => {
+    setLLMSettings(settings);
+    if (typeof window === 'undefined') return;
+    if (settings) {
+      localStorage.setItem('resume-craft-pro-llm-provider', JSON.stringify(settings));
+    } else {
+      localStorage.removeItem('resume-craft-pro-llm-provider');
+    }
+  };
+
   return (
     <div className="h-screen flex flex-col bg-gray-100 dark:bg-gray-950">
       {/* Resume Upload Modal - Shows when ?new=true or no document */}
@@ -970,6 +1506,35 @@ export default function ChatPage() {
                 <Plus className="w-5 h-5" />
                 <span className="font-medium">Add Context</span>
               </button>
+
+              <button
+                onClick={() => setShowBatchModal(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium border-2 border-purple-500/60 text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-all"
+                title="Tailor the resume to several job descriptions and compare the variants"
+              >
+                <Layers className="w-5 h-5" />
+                <span className="font-medium">Batch Tailor</span>
+              </button>
+
+              <button
+                onClick={() => setShowVersionsModal(true)}
+                disabled={!document || !versionHistory}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium border-2 border-purple-500/60 text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Save, branch and compare named versions of the resume"
+              >
+                <GitBranch className="w-5 h-5" />
+                <span className="font-medium">Versions</span>
+              </button>
+
+              <button
+                onClick={() => setShowCoverLetterModal(true)}
+                disabled={!document}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium border-2 border-purple-500/60 text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Draft a cover letter for this job description"
+              >
+                <Mail className="w-5 h-5" />
+                <span className="font-medium">Cover Letter</span>
+              </button>
             </div>
 
             {/* Right - Portfolio Button */}
@@ -1023,6 +1588,40 @@ export default function ChatPage() {
               </button>
             </div>
           )}
+
+          {/* Page Limit Report */}
+          {pageFit && (
+            <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg flex items-start gap-2">
+              <Scissors className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 text-sm text-blue-800 dark:text-blue-200">
+                <p>
+                  {pageFit.skipped
+                    ? `Page limit not applied: ${pageFit.skipped}`
+                    : pageFit.trimmed.length === 0
+                      ? `Resume is ${pageFit.pagesAfter} page${pageFit.pagesAfter === 1 ? '' : 's'}${pageFit.fits ? ', within the limit' : `, over the ${pageFit.targetPages}-page limit with nothing left to condense`}.`
+                      : `Condensed ${pageFit.trimmed.length} bullet${pageFit.trimmed.length === 1 ? '' : 's'}: ${pageFit.pagesBefore} → ${pageFit.pagesAfter} page${pageFit.pagesAfter === 1 ? '' : 's'}${pageFit.fits ? '' : ` (still over the ${pageFit.targetPages}-page limit)`}.`}
+                </p>
+                {pageFit.trimmed.length > 0 && (
+                  <details className="mt-1">
+                    <summary className="cursor-pointer text-xs">What was trimmed</summary>
+                    <ul className="mt-1 space-y-1 text-xs">
+                      {pageFit.trimmed.map(trim => (
+                        <li key={trim.lineNumber}>
+                          <span className="font-medium">Line {trim.lineNumber}</span> ({trim.reason}): {trim.trimmedText}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+              <button
+                onClick={() => setPageFit(null)}
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+              >
+                ×
+              </button>
+            </div>
+          )}
         </header>
       )}
 
@@ -1044,7 +1643,8 @@ export default function ChatPage() {
 
           {/* Center - Document Viewer / Resume Editor */}
           <div className="flex-1">
-            {parsedResume && parsedResume.sourceFormat === 'latex' ? (
+            {/* LaTeX resumes show the line view while suggestions await review */}
+            {parsedResume && parsedResume.sourceFormat === 'latex' && suggestions.length === 0 ? (
               <ResumeEditorLayout
                 resume={parsedResume}
                 onSave={handleResumeSave}
@@ -1065,6 +1665,9 @@ export default function ChatPage() {
                 onLineSelect={setSelectedLine}
                 onRunLLMDetection={() => {}}
                 isRunningLLMDetection={false}
+                suggestions={suggestions}
+                onAcceptSuggestions={handleAcceptSuggestions}
+                onRejectSuggestions={handleRejectSuggestions}
               />
             )}
           </div>
@@ -1092,6 +1695,8 @@ export default function ChatPage() {
                   resumeKeywords={resumeKeywords}
                   disabledKeywords={disabledKeywords}
                   customKeywords={customKeywords}
+                  keywordAliases={keywordAliases}
+                  keywordImportance={keywordImportance}
                   onToggleKeyword={handleToggleKeyword}
                   onAddCustomKeyword={handleAddCustomKeyword}
                   onRemoveCustomKeyword={handleRemoveCustomKeyword}
@@ -1099,6 +1704,18 @@ export default function ChatPage() {
               </div>
             )}
 
+            {/* ATS Parse Check */}
+            {!isKeywordPanelCollapsed && (document || parsedResume) && (
+              <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+                <AtsReportPanel
+                  document={document}
+                  latexSource={parsedResume?.sourceFormat === 'latex' ? parsedResume.rawSource : undefined}
+                  keywords={[...jdKeywords, ...customKeywords].filter(k => !disabledKeywords.includes(k))}
+                  keywordAliases={keywordAliases}
+                />
+              </div>
+            )}
+
             {/* Simplified Optimization Controls */}
             {!isOptimizationPanelCollapsed && (
               <div className="p-4 border-b border-gray-200 dark:border-gray-700">
@@ -1106,8 +1723,14 @@ export default function ChatPage() {
                   onOptimize={handleOptimizeWithKeywords}
                   disabled={!jobDescription}
                   isOptimizing={isOptimizing}
+                  progress={optimizationProgress}
+                  onCancel={handleCancelOptimization}
                   customInstructions={customInstructions}
                   onCustomInstructionsChange={setCustomInstructions}
+                  reviewMode={reviewMode}
+                  onReviewModeChange={setReviewMode}
+                  maxPages={maxPages}
+                  onMaxPagesChange={document?.metadata.format === 'latex' ? setMaxPages : undefined}
                 />
               </div>
             )}
@@ -1126,6 +1749,12 @@ export default function ChatPage() {
                 onSendMessage={handleSendMessage}
                 isLoading={isLoading}
                 selectedLine={selectedLine}
+                revertibleTransactionIds={editLog?.transactions.map(t => t.id)}
+                onRevertEdits={handleRevertEdits}
+                editMode={chatEditMode}
+                onEditModeChange={setChatEditMode}
+                pendingSuggestionIds={suggestions.map(s => s.id)}
+                liveTurn={liveTurn}
               />
             </div>
           </div>
@@ -1139,10 +1768,12 @@ export default function ChatPage() {
       />
 
       {/* Format Preserve Preview Modal */}
-      {showPreviewModal && document && originalFile && (
+      {showPreviewModal && document && originalFile && editHistory && (
         <FormatPreservePreview
+          isOpen={showPreviewModal}
           document={document}
           originalFile={originalFile}
+          editHistory={editHistory}
           onClose={() => setShowPreviewModal(false)}
           onDownload={handleDownloadFromPreview}
         />
@@ -1156,6 +1787,10 @@ export default function ChatPage() {
         customApiKey={customApiKey}
         onApiKeyChange={handleApiKeyChange}
         onClearApiKey={handleClearApiKey}
+        llmSettings={llmSettings}
+        onLLMSettingsChange={handleLLMSettingsChange}
+        keywordAliases={keywordAliases}
+        onKeywordAliasesChange={handleKeywordAliasesChange}
       />
 
       {/* Context Files Modal */}
@@ -1166,6 +1801,59 @@ export default function ChatPage() {
         onSave={handleSaveContextFiles}
       />
 
+      {/* Batch Tailoring Modal */}
+      {showBatchModal && (
+        <BatchTailoringModal
+          isOpen={showBatchModal}
+          onClose={() => setShowBatchModal(false)}
+          initialJobDescription={jobDescription}
+          onRunBatch={handleRunBatch}
+          onApplyVariant={handleApplyBatchVariant}
+        />
+      )}
+
+      {/* Optimization Review Modal */}
+      {reviewProposals && (
+        <BulletReviewModal
+          isOpen={!!reviewProposals}
+          onClose={() => setReviewProposals(null)}
+          proposals={reviewProposals}
+          onApply={handleApplyReviewedChanges}
+        />
+      )}
+
+      {/* Resume Versions Modal */}
+      {showVersionsModal && document && versionHistory && (
+        <VersionsModal
+          isOpen={showVersionsModal}
+          onClose={() => setShowVersionsModal(false)}
+          history={versionHistory}
+          workingLines={document.lines}
+          onSave={handleSaveVersion}
+          onUpdate={handleUpdateVersion}
+          onBranch={handleBranchVersion}
+          onRestore={handleRestoreVersion}
+          onRename={handleRenameVersion}
+          onDelete={handleDeleteVersion}
+        />
+      )}
+
+      {/* Cover Letter Modal */}
+      {showCoverLetterModal && document && (
+        <CoverLetterModal
+          isOpen={showCoverLetterModal}
+          onClose={() => setShowCoverLetterModal(false)}
+          letter={coverLetter}
+          canGenerate={!!jobDescription.trim()}
+          exportFormats={parsedResume?.sourceFormat === 'latex' && parsedResume.id === document.id
+            ? ['pdf', 'latex', 'docx', 'markdown']
+            : ['docx', 'pdf', 'markdown', 'latex']}
+          onGenerate={handleGenerateCoverLetter}
+          onChange={handleCoverLetterChange}
+          onExport={handleExportCoverLetter}
+        />
+      )}
+
       {/* Status Bar */}
       <StatusBar
         document={document}
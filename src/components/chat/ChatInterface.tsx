@@ -5,20 +5,33 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { Message } from '@/lib/parsers/types';
-import { Send, Bot, User, Loader2, Plus, X, Check } from 'lucide-react';
+import { Message, ChatEditMode, ChatLiveTurn } from '@/lib/parsers/types';
+import { Send, Bot, User, Loader2, Plus, X, Check, Undo2, PenLine, MessageSquareDiff } from 'lucide-react';
 import MessageContent from './MessageContent';
+import ToolActivity from './ToolActivity';
 
 interface ChatInterfaceProps {
   messages: Message[];
   onSendMessage: (message: string, customPrompt?: string) => Promise<void>;
   isLoading?: boolean;
+  revertibleTransactionIds?: string[];
+  onRevertEdits?: (transactionId: string) => void;
+  editMode?: ChatEditMode;
+  onEditModeChange?: (mode: ChatEditMode) => void;
+  pendingSuggestionIds?: string[];
+  liveTurn?: ChatLiveTurn | null;  // Reply being streamed
 }
 
 export default function ChatInterface({
   messages,
   onSendMessage,
-  isLoading = false
+  isLoading = false,
+  revertibleTransactionIds = [],
+  onRevertEdits,
+  editMode = 'edit',
+  onEditModeChange,
+  pendingSuggestionIds = [],
+  liveTurn = null
 }: ChatInterfaceProps) {
   const [input, setInput] = useState('');
   const [showCitationHelp, setShowCitationHelp] = useState(false);
@@ -31,7 +44,7 @@ export default function ChatInterface({
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, liveTurn]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -122,6 +135,26 @@ export default function ChatInterface({
                   {' or '}
                   <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@p3</code>
                 </div>
+                <div>
+                  <strong className="text-gray-800 block mb-1">Section:</strong>
+                  <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@section:experience</code>
+                  {' or '}
+                  <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@section:"Open Source"</code>
+                </div>
+                <div>
+                  <strong className="text-gray-800 block mb-1">Role / Item:</strong>
+                  <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@item:2</code>
+                  {' or '}
+                  <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@item:projects:2</code>
+                </div>
+                <div>
+                  <strong className="text-gray-800 block mb-1">Section Bullets:</strong>
+                  <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@bullets:projects</code>
+                </div>
+                <div>
+                  <strong className="text-gray-800 block mb-1">Keyword:</strong>
+                  <code className="bg-white px-2 py-1 rounded border border-gray-300 text-gray-800">@kw:Kubernetes</code>
+                </div>
                 <div>
                   <strong className="text-gray-800 block mb-1">Example:</strong>
                   <span className="text-gray-700 text-xs">
@@ -237,6 +270,32 @@ export default function ChatInterface({
                           </span>
                         </div>
                       ))}
+                      {message.transactionId && onRevertEdits && (
+                        revertibleTransactionIds.includes(message.transactionId) ? (
+                          <button
+                            onClick={() => onRevertEdits(message.transactionId!)}
+                            disabled={isLoading}
+                            className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                            title="Revert the edits made by this message"
+                          >
+                            <Undo2 className="w-3 h-3" />
+                            Revert edits
+                          </button>
+                        ) : (
+                          <p className="mt-1 text-xs italic opacity-70">Edits reverted</p>
+                        )
+                      )}
+                      {message.suggestionIds && message.suggestionIds.length > 0 && (() => {
+                        const pending = message.suggestionIds.filter(id => pendingSuggestionIds.includes(id)).length;
+                        return pending > 0 ? (
+                          <p className="mt-1 flex items-center gap-1 text-xs text-green-700">
+                            <MessageSquareDiff className="w-3 h-3" />
+                            {pending} suggestion{pending !== 1 ? 's' : ''} pending review in the document
+                          </p>
+                        ) : (
+                          <p className="mt-1 text-xs italic opacity-70">Suggestions resolved</p>
+                        );
+                      })()}
                     </div>
                   )}
 
@@ -257,7 +316,7 @@ export default function ChatInterface({
               </div>
             ))}
 
-            {/* Loading Indicator */}
+            {/* Loading Indicator - the streamed reply and tool activity so far */}
             {isLoading && (
               <div className="flex gap-3 justify-start">
                 <div className="flex-shrink-0">
@@ -266,10 +325,29 @@ export default function ChatInterface({
                   </div>
                 </div>
                 <div className="max-w-[70%] rounded-lg px-4 py-2 bg-gray-100">
-                  <div className="flex items-center gap-2">
-                    <Loader2 className="w-4 h-4 animate-spin text-gray-600" />
-                    <span className="text-sm text-gray-600">Thinking...</span>
-                  </div>
+                  {liveTurn?.citations && liveTurn.citations.length > 0 && (
+                    <p className="mb-1 text-xs text-gray-500">
+                      Using {liveTurn.citations.map(c => c.reference).join(', ')}
+                    </p>
+                  )}
+                  {liveTurn?.text ? (
+                    <MessageContent
+                      content={liveTurn.text}
+                      role="assistant"
+                      className="text-gray-900"
+                      streaming
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin text-gray-600" />
+                      <span className="text-sm text-gray-600">
+                        {liveTurn && liveTurn.activity.length > 0 && liveTurn.maxSteps
+                          ? `Working... step ${liveTurn.step} of up to ${liveTurn.maxSteps}`
+                          : 'Thinking...'}
+                      </span>
+                    </div>
+                  )}
+                  {liveTurn && <ToolActivity activity={liveTurn.activity} />}
                 </div>
               </div>
             )}
@@ -281,6 +359,37 @@ export default function ChatInterface({
 
       {/* Input */}
       <div className="flex-shrink-0 border-t border-gray-200 p-4">
+        {onEditModeChange && (
+          <div className="mb-2 flex items-center gap-2">
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs">
+              <button
+                type="button"
+                onClick={() => onEditModeChange('edit')}
+                className={`flex items-center gap-1 px-2 py-1 transition-colors ${
+                  editMode === 'edit' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+                title="The assistant edits the document directly"
+              >
+                <PenLine className="w-3 h-3" />
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => onEditModeChange('suggest')}
+                className={`flex items-center gap-1 px-2 py-1 border-l border-gray-300 transition-colors ${
+                  editMode === 'suggest' ? 'bg-green-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+                title="The assistant proposes edits for you to accept or reject"
+              >
+                <MessageSquareDiff className="w-3 h-3" />
+                Suggest
+              </button>
+            </div>
+            {editMode === 'suggest' && (
+              <span className="text-xs text-gray-500">Edits are proposed, not applied</span>
+            )}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex gap-2">
           <textarea
             ref={inputRef}
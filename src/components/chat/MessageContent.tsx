@@ -5,29 +5,32 @@
  */
 
 import { useMemo } from 'react';
-import { renderMarkdownSafe } from '@/lib/markdown/renderer';
+import { renderMarkdownSafe, closePartialMarkdown } from '@/lib/markdown/renderer';
+import { highlightCitations } from '@/lib/citations/parser';
 
 interface MessageContentProps {
   content: string;
   role: 'user' | 'assistant';
   className?: string;
+  streaming?: boolean;        // Content is still arriving - close open markdown before rendering
 }
 
-export default function MessageContent({ content, role, className = '' }: MessageContentProps) {
-  // Only render markdown for assistant messages
+export default function MessageContent({ content, role, className = '', streaming = false }: MessageContentProps) {
+  // Markdown for assistant messages, escaped text with citation chips for user messages
   const htmlContent = useMemo(() => {
     if (role === 'assistant') {
-      return renderMarkdownSafe(content);
+      return renderMarkdownSafe(streaming ? closePartialMarkdown(content) : content);
     }
-    return null;
-  }, [content, role]);
+    return highlightCitations(content);
+  }, [content, role, streaming]);
 
   if (role === 'user') {
-    // User messages: plain text with line breaks
+    // User messages: plain text with line breaks, citations as chips
     return (
-      <p className={`text-sm whitespace-pre-wrap break-words ${className}`}>
-        {content}
-      </p>
+      <p
+        className={`text-sm whitespace-pre-wrap break-words ${className}`}
+        dangerouslySetInnerHTML={{ __html: htmlContent || '' }}
+      />
     );
   }
 
@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * ToolActivity Component - Live list of the assistant's tool calls while a
+ * streamed reply is running ("Searching “Python”… Reading lines 12–18…")
+ */
+
+import { ChatToolActivity } from '@/lib/parsers/types';
+import { Loader2, Check, X } from 'lucide-react';
+
+interface ToolActivityProps {
+  activity: ChatToolActivity[];
+}
+
+/**
+ * "line 14" or "lines 12–18, 20"
+ */
+function formatLines(lines: unknown): string {
+  const numbers = (Array.isArray(lines) ? lines : [lines])
+    .map(Number)
+    .filter(n => Number.isFinite(n));
+  const sorted = Array.from(new Set(numbers)).sort((a, b) => a - b);
+  if (sorted.length === 0) return 'lines';
+
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let end = sorted[0];
+  sorted.slice(1).concat(NaN).forEach(n => {
+    if (n === end + 1) {
+      end = n;
+      return;
+    }
+    ranges.push(start === end ? `${start}` : `${start}–${end}`);
+    start = n;
+    end = n;
+  });
+
+  return `${sorted.length === 1 ? 'line' : 'lines'} ${ranges.join(', ')}`;
+}
+
+function describeToolCall(tool: string, args: any): string {
+  switch (tool) {
+    case 'doc_search':
+      return `Searching “${args?.query ?? ''}”`;
+    case 'doc_read':
+      return `Reading ${formatLines(args?.lines)}`;
+    case 'doc_analyze':
+      return 'Reading the whole document';
+    case 'doc_edit':
+      if (args?.operation === 'delete') return `Deleting ${formatLines(args?.lines)}`;
+      if (args?.operation === 'insert') return `Inserting after ${formatLines(args?.lines)}`;
+      return `Editing ${formatLines(args?.lines)}`;
+    case 'doc_propose_edit':
+      return `Suggesting a change to ${formatLines(args?.lines)}`;
+    case 'doc_find_replace':
+      return `${args?.preview ? 'Previewing' : 'Replacing'} “${args?.pattern ?? ''}” → “${args?.replacement ?? ''}”`;
+    case 'doc_move_block':
+      if (args?.section) return `Moving the ${args.section} section`;
+      return args?.endLine && args.endLine !== args.startLine
+        ? `Moving lines ${args.startLine}–${args.endLine}`
+        : `Moving line ${args?.startLine}`;
+    case 'doc_batch_edit':
+      return `Applying ${args?.edits?.length || 0} edits`;
+    default:
+      return tool;
+  }
+}
+
+export default function ToolActivity({ activity }: ToolActivityProps) {
+  if (activity.length === 0) return null;
+
+  return (
+    <ul className="mt-2 pt-2 border-t border-gray-300 space-y-1">
+      {activity.map(item => (
+        <li key={item.id} className="text-xs flex items-center gap-2 text-gray-700">
+          {item.status === 'running' ? (
+            <Loader2 className="w-3 h-3 flex-shrink-0 animate-spin text-gray-500" />
+          ) : item.status === 'done' ? (
+            <Check className="w-3 h-3 flex-shrink-0 text-green-600" />
+          ) : (
+            <X className="w-3 h-3 flex-shrink-0 text-red-600" />
+          )}
+          <span className="flex-1 break-words">
+            {describeToolCall(item.tool, item.args)}
+            {item.status === 'running' && '…'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
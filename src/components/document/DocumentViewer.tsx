@@ -5,10 +5,12 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Document, Line } from '@/lib/parsers/types';
+import { Document, Line, EditSuggestion } from '@/lib/parsers/types';
+import { getSuggestionConflict } from '@/lib/suggestions';
 import LineItem from './LineItem';
+import SuggestionItem from './SuggestionItem';
 import Toast from '../ui/Toast';
-import { FileText, Download, Eye, Edit3, Upload } from 'lucide-react';
+import { FileText, Download, Eye, Edit3, Upload, Check, X } from 'lucide-react';
 
 interface DocumentViewerProps {
   document: Document | null;
@@ -22,6 +24,9 @@ interface DocumentViewerProps {
   onLineSelect?: (line: Line | null) => void;
   onRunLLMDetection?: () => void;
   isRunningLLMDetection?: boolean;
+  suggestions?: EditSuggestion[]; // Pending suggest-mode edits, shown under their lines
+  onAcceptSuggestions?: (ids: string[]) => void;
+  onRejectSuggestions?: (ids: string[]) => void;
 }
 
 // Placeholder Badge Component with hover interaction
@@ -110,7 +115,10 @@ export default function DocumentViewer({
   selectedLine = null,
   onLineSelect,
   onRunLLMDetection,
-  isRunningLLMDetection = false
+  isRunningLLMDetection = false,
+  suggestions = [],
+  onAcceptSuggestions,
+  onRejectSuggestions
 }: DocumentViewerProps) {
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
@@ -143,6 +151,15 @@ export default function DocumentViewer({
   // Count placeholders
   const placeholderCount = document?.lines.filter(l => l.isPlaceholder).length || 0;
 
+  // Pending suggestions by line, with conflicts against the current text
+  const suggestionsByLine = new Map<number, EditSuggestion[]>();
+  suggestions.forEach(suggestion => {
+    suggestionsByLine.set(suggestion.lineNumber, [...(suggestionsByLine.get(suggestion.lineNumber) || []), suggestion]);
+  });
+  const applicableSuggestionIds = document
+    ? suggestions.filter(s => !getSuggestionConflict(s, document.lines)).map(s => s.id)
+    : [];
+
   // Group lines by page for preview mode
   const groupLinesByPage = () => {
     const pages: { [key: number]: Line[] } = {};
@@ -221,6 +238,33 @@ export default function DocumentViewer({
                 {document.metadata.totalLines} lines • {document.metadata.totalPages} pages • {document.metadata.format.toUpperCase()}
               </p>
             </div>
+            {/* Suggestions Badge */}
+            {suggestions.length > 0 && (
+              <div className="flex items-center gap-1 px-2 py-1 bg-green-50 border border-green-300 rounded-md text-xs font-medium text-green-800">
+                <span>{suggestions.length} suggestion{suggestions.length !== 1 ? 's' : ''}</span>
+                {onAcceptSuggestions && (
+                  <button
+                    onClick={() => onAcceptSuggestions(applicableSuggestionIds)}
+                    disabled={applicableSuggestionIds.length === 0}
+                    className="flex items-center gap-0.5 px-1.5 py-0.5 rounded hover:bg-green-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+                    title="Accept all suggestions that still apply"
+                  >
+                    <Check className="w-3 h-3" />
+                    Accept all
+                  </button>
+                )}
+                {onRejectSuggestions && (
+                  <button
+                    onClick={() => onRejectSuggestions(suggestions.map(s => s.id))}
+                    className="flex items-center gap-0.5 px-1.5 py-0.5 rounded text-red-700 hover:bg-red-50"
+                    title="Reject all suggestions"
+                  >
+                    <X className="w-3 h-3" />
+                    Reject all
+                  </button>
+                )}
+              </div>
+            )}
             {/* Placeholder Badge */}
             {placeholderCount > 0 && (
               <PlaceholderBadge
@@ -397,6 +441,15 @@ export default function DocumentViewer({
                     onToggleLock={onLineToggleLock}
                     onCopyLine={handleCopyLine}
                   />
+                  {suggestionsByLine.get(line.lineNumber)?.map(suggestion => (
+                    <SuggestionItem
+                      key={suggestion.id}
+                      suggestion={suggestion}
+                      conflict={getSuggestionConflict(suggestion, document.lines)}
+                      onAccept={onAcceptSuggestions ? id => onAcceptSuggestions([id]) : undefined}
+                      onReject={onRejectSuggestions ? id => onRejectSuggestions([id]) : undefined}
+                    />
+                  ))}
                 </div>
               );
             })}
@@ -0,0 +1,102 @@
+'use client';
+
+/**
+ * SuggestionItem Component - A pending chat suggestion shown under its line
+ */
+
+import { EditSuggestion } from '@/lib/parsers/types';
+import { diffWords } from '@/lib/versioning';
+import { Check, X, AlertTriangle } from 'lucide-react';
+
+interface SuggestionItemProps {
+  suggestion: EditSuggestion;
+  conflict?: string | null;   // Why it can no longer be applied
+  onAccept?: (id: string) => void;
+  onReject?: (id: string) => void;
+}
+
+const OPERATION_LABELS: Record<EditSuggestion['operation'], string> = {
+  replace: 'Replace',
+  insert: 'Insert after',
+  delete: 'Delete'
+};
+
+export default function SuggestionItem({
+  suggestion,
+  conflict = null,
+  onAccept,
+  onReject
+}: SuggestionItemProps) {
+  const renderText = () => {
+    switch (suggestion.operation) {
+      case 'delete':
+        return (
+          <span className="bg-red-100 line-through text-red-700">{suggestion.originalText || ' '}</span>
+        );
+
+      case 'insert':
+        return (
+          <span className="bg-green-100 text-green-900">{suggestion.newText || ' '}</span>
+        );
+
+      case 'replace':
+        return diffWords(suggestion.originalText, suggestion.newText || '').map((segment, i) =>
+          segment.type === 'removed' ? (
+            <span key={i} className="bg-red-100 line-through text-red-700">{segment.text}</span>
+          ) : (
+            <span key={i} className={segment.type === 'added' ? 'bg-green-100 text-green-900' : ''}>
+              {segment.text}
+            </span>
+          )
+        );
+    }
+  };
+
+  return (
+    <div
+      className={`flex items-start gap-2 px-2 py-1.5 ml-14 mr-2 mb-1 border-l-[3px] rounded-r bg-green-50/60 ${
+        conflict ? 'border-l-amber-400' : 'border-l-green-500'
+      }`}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium text-gray-600">
+          Suggested: {OPERATION_LABELS[suggestion.operation]}
+          {suggestion.reason && <span className="font-normal text-gray-500"> · {suggestion.reason}</span>}
+        </p>
+        <p className="text-sm font-mono whitespace-pre-wrap break-words text-gray-900">
+          {renderText()}
+        </p>
+        {conflict && (
+          <p className="mt-0.5 flex items-center gap-1 text-xs text-amber-700">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+            {conflict}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-shrink-0 flex items-center gap-1">
+        {onAccept && (
+          <button
+            onClick={() => onAccept(suggestion.id)}
+            disabled={!!conflict}
+            className="p-1 rounded text-green-700 hover:bg-green-100 disabled:text-gray-300 disabled:cursor-not-allowed"
+            title={conflict ? 'Cannot apply: the line changed' : 'Accept suggestion'}
+            aria-label="Accept suggestion"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+        )}
+        {onReject && (
+          <button
+            onClick={() => onReject(suggestion.id)}
+            className="p-1 rounded text-red-600 hover:bg-red-100"
+            title="Reject suggestion"
+            aria-label="Reject suggestion"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
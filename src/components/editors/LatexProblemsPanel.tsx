@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * LaTeX Problems Panel
+ * Lists compile errors and warnings; clicking one jumps to its line in the editor
+ */
+
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import type { LatexDiagnostic } from '@/types/resume';
+
+interface LatexProblemsPanelProps {
+  diagnostics: LatexDiagnostic[];
+  onSelect: (diagnostic: LatexDiagnostic) => void;
+}
+
+export default function LatexProblemsPanel({ diagnostics, onSelect }: LatexProblemsPanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="border-t dark:border-gray-700 bg-gray-900 text-gray-200 text-sm">
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center gap-3 px-4 py-2 bg-gray-800 hover:bg-gray-700 transition-colors"
+      >
+        <span className="font-semibold uppercase tracking-wide text-xs">Problems</span>
+        <span className="flex items-center gap-1 text-red-400">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {errorCount}
+        </span>
+        <span className="flex items-center gap-1 text-yellow-400">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {warningCount}
+        </span>
+        <span className="ml-auto">
+          {isCollapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {!isCollapsed && (
+        <ul className="max-h-48 overflow-y-auto">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={`${diagnostic.line}-${index}`}>
+              <button
+                onClick={() => onSelect(diagnostic)}
+                disabled={diagnostic.line === undefined}
+                className="w-full flex items-start gap-2 px-4 py-1.5 text-left hover:bg-gray-800 disabled:cursor-default disabled:hover:bg-transparent"
+              >
+                {diagnostic.severity === 'error' ? (
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5 text-red-400" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5 text-yellow-400" />
+                )}
+                <span className="flex-1">
+                  {diagnostic.message}
+                  {diagnostic.token && (
+                    <code className="ml-2 px-1 bg-gray-800 rounded text-xs text-gray-300">{diagnostic.token}</code>
+                  )}
+                </span>
+                {diagnostic.line !== undefined && (
+                  <span className="flex-shrink-0 text-xs text-gray-500">
+                    {diagnostic.file && diagnostic.file !== 'resume.tex' ? `${diagnostic.file}:` : 'Ln '}
+                    {diagnostic.line}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,15 @@
 /**
  * Monaco LaTeX Editor Component
  * Full-featured LaTeX editor with syntax highlighting
+ * and compile diagnostics shown as markers (squiggles)
  */
 
-import { useEffect, useRef } from 'react';
-import Editor, { BeforeMount } from '@monaco-editor/react';
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import Editor, { BeforeMount, OnMount, Monaco } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
+import type { LatexDiagnostic } from '@/types/resume';
+
+const MARKER_OWNER = 'latex-compiler';
 
 interface MonacoLatexEditorProps {
   value: string;
@@ -15,16 +19,47 @@ interface MonacoLatexEditorProps {
   readOnly?: boolean;
   height?: string;
   theme?: 'vs-dark' | 'light';
+  diagnostics?: LatexDiagnostic[];
+}
+
+/**
+ * Imperative API for parents (e.g. jumping to a problem)
+ */
+export interface MonacoLatexEditorHandle {
+  revealLine: (line: number, column?: number) => void;
 }
 
-export default function MonacoLatexEditor({
+const MonacoLatexEditor = forwardRef<MonacoLatexEditorHandle, MonacoLatexEditorProps>(function MonacoLatexEditor({
   value,
   onChange,
   readOnly = false,
   height = '100%',
   theme = 'vs-dark',
-}: MonacoLatexEditorProps) {
+  diagnostics = [],
+}, ref) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    revealLine: (line: number, column: number = 1) => {
+      const editorInstance = editorRef.current;
+      if (!editorInstance) return;
+
+      editorInstance.revealLineInCenter(line);
+      editorInstance.setPosition({ lineNumber: line, column });
+      editorInstance.focus();
+    },
+  }), []);
+
+  // Push diagnostics into the model as markers when a compile reports them; Monaco
+  // moves the markers along with later edits, so typing must not re-apply them
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, toMarkers(model, monaco, diagnostics));
+  }, [diagnostics]);
 
   const handleEditorWillMount: BeforeMount = (monaco) => {
     // Register LaTeX language
@@ -155,8 +190,14 @@ export default function MonacoLatexEditor({
     });
   };
 
-  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor) => {
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+
+    const model = editor.getModel();
+    if (model) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, toMarkers(model, monaco, diagnostics));
+    }
 
     // Focus editor on mount
     editor.focus();
@@ -214,6 +255,42 @@ export default function MonacoLatexEditor({
       }
     />
   );
+});
+
+export default MonacoLatexEditor;
+
+/**
+ * Convert compile diagnostics to Monaco markers.
+ * The offending token is underlined when it can be found on the line,
+ * otherwise the whole line is marked.
+ */
+function toMarkers(
+  model: editor.ITextModel,
+  monaco: Monaco,
+  diagnostics: LatexDiagnostic[]
+): editor.IMarkerData[] {
+  const lineCount = model.getLineCount();
+
+  return diagnostics
+    .filter(d => d.line !== undefined)
+    .map(d => {
+      const lineNumber = Math.min(Math.max(d.line!, 1), lineCount);
+      const content = model.getLineContent(lineNumber);
+      const tokenIndex = d.token ? content.lastIndexOf(d.token) : -1;
+
+      const startColumn = tokenIndex >= 0 ? tokenIndex + 1 : model.getLineFirstNonWhitespaceColumn(lineNumber) || 1;
+      const endColumn = tokenIndex >= 0 ? tokenIndex + 1 + d.token!.length : model.getLineMaxColumn(lineNumber);
+
+      return {
+        severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+        message: d.token ? `${d.message} (${d.token})` : d.message,
+        source: 'LaTeX',
+        startLineNumber: lineNumber,
+        startColumn,
+        endLineNumber: lineNumber,
+        endColumn,
+      };
+    });
 }
 
 /**
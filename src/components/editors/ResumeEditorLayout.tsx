@@ -5,10 +5,11 @@
  * Split view: LaTeX Editor (left) | PDF Preview (right)
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import MonacoLatexEditor, { EditorToolbar } from './MonacoLatexEditor';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import MonacoLatexEditor, { EditorToolbar, MonacoLatexEditorHandle } from './MonacoLatexEditor';
 import PdfPreview from './PdfPreview';
-import type { Resume } from '@/types/resume';
+import LatexProblemsPanel from './LatexProblemsPanel';
+import type { Resume, LatexDiagnostic } from '@/types/resume';
 import { reconstructLatex } from '@/lib/parsers/latex-parser';
 import { FileDown, AlertCircle } from 'lucide-react';
 
@@ -28,6 +29,8 @@ export default function ResumeEditorLayout({
   const [isCompiling, setIsCompiling] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [compilationError, setCompilationError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<LatexDiagnostic[]>([]);
+  const editorHandleRef = useRef<MonacoLatexEditorHandle>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
 
@@ -60,9 +63,23 @@ export default function ResumeEditorLayout({
 
       if (!response.ok) {
         const errorData = await response.json();
+
+        // Structured log diagnostics, or plain validation errors (no line info)
+        const nextDiagnostics: LatexDiagnostic[] = errorData.diagnostics
+          || (errorData.errors || []).map((message: string) => ({ severity: 'error' as const, message }));
+        setDiagnostics(nextDiagnostics);
+
+        const firstWithLine = nextDiagnostics.find(d => d.severity === 'error' && d.line !== undefined);
+        if (firstWithLine) {
+          editorHandleRef.current?.revealLine(firstWithLine.line!);
+        }
+
         throw new Error(errorData.error || 'Compilation failed');
       }
 
+      // Keep the log's warnings (overfull boxes etc.); the errors are gone
+      setDiagnostics(parseWarningsHeader(response.headers.get('X-Latex-Warnings')));
+
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
 
@@ -219,11 +236,21 @@ export default function ResumeEditorLayout({
         <div className={`${showPreview ? 'w-1/2 border-r dark:border-gray-700' : 'w-full'} flex flex-col`}>
           <div className="flex-1">
             <MonacoLatexEditor
+              ref={editorHandleRef}
               value={latexSource}
               onChange={setLatexSource}
               theme="vs-dark"
+              diagnostics={diagnostics}
             />
           </div>
+          <LatexProblemsPanel
+            diagnostics={diagnostics}
+            onSelect={(diagnostic) => {
+              if (diagnostic.line !== undefined) {
+                editorHandleRef.current?.revealLine(diagnostic.line);
+              }
+            }}
+          />
         </div>
 
         {/* PDF Preview (only when toggled) */}
@@ -294,3 +321,16 @@ function showNotification(message: string, type: 'success' | 'error' | 'warning'
     notification.remove();
   }, 3000);
 }
+
+/**
+ * Warnings the compile route sends with a successful PDF
+ */
+function parseWarningsHeader(header: string | null): LatexDiagnostic[] {
+  if (!header) return [];
+  try {
+    const warnings = JSON.parse(decodeURIComponent(header));
+    return Array.isArray(warnings) ? warnings : [];
+  } catch {
+    return [];
+  }
+}
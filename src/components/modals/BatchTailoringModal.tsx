@@ -0,0 +1,368 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { X, Plus, Trash2, Layers, Loader2, Play, Square, Check, AlertCircle } from 'lucide-react'
+import {
+  BatchJobDescription,
+  BatchJobSummary,
+  BatchVariant,
+  BatchOptimizationResult,
+  BatchProgressEvent
+} from '@/lib/parsers/types'
+
+const MAX_JOBS = 30
+
+interface BatchTailoringModalProps {
+  isOpen: boolean
+  onClose: () => void
+  initialJobDescription?: string
+  onRunBatch: (
+    jobs: BatchJobDescription[],
+    onEvent: (event: BatchProgressEvent) => void,
+    signal: AbortSignal
+  ) => Promise<BatchOptimizationResult>
+  onApplyVariant: (variant: BatchVariant) => void
+}
+
+interface JobProgress {
+  message: string
+  bulletsCompleted: number
+  bulletsTotal: number
+  tokensUsed: number
+  summary?: BatchJobSummary
+}
+
+let nextJobId = 1
+const newJob = (content = ''): BatchJobDescription => ({
+  id: `jd-${Date.now()}-${nextJobId++}`,
+  title: '',
+  content
+})
+
+export default function BatchTailoringModal({
+  isOpen,
+  onClose,
+  initialJobDescription,
+  onRunBatch,
+  onApplyVariant
+}: BatchTailoringModalProps) {
+  const [jobs, setJobs] = useState<BatchJobDescription[]>(() => [newJob(initialJobDescription || '')])
+  const [isRunning, setIsRunning] = useState(false)
+  const [sharedMessage, setSharedMessage] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Record<string, JobProgress>>({})
+  const [result, setResult] = useState<BatchOptimizationResult | null>(null)
+  const [appliedJobId, setAppliedJobId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const updateJob = (index: number, updates: Partial<BatchJobDescription>) => {
+    setJobs(prev => prev.map((job, i) => (i === index ? { ...job, ...updates } : job)))
+  }
+
+  const removeJob = (index: number) => {
+    setJobs(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const titleOf = (job: BatchJobDescription, index: number) => job.title.trim() || `Job ${index + 1}`
+
+  const handleEvent = (event: BatchProgressEvent) => {
+    if (event.type === 'shared') {
+      setSharedMessage(event.message)
+    } else if (event.type === 'job') {
+      const jobEvent = event.event
+      setSharedMessage(null)
+      setProgress(prev => {
+        const current = prev[event.jobId] || { message: 'Starting...', bulletsCompleted: 0, bulletsTotal: 0, tokensUsed: 0 }
+        if (jobEvent.type === 'step') {
+          return { ...prev, [event.jobId]: { ...current, message: jobEvent.message } }
+        }
+        if (jobEvent.type === 'bullet') {
+          return { ...prev, [event.jobId]: { ...current, bulletsCompleted: jobEvent.completed, bulletsTotal: jobEvent.total } }
+        }
+        if (jobEvent.type === 'tokens') {
+          return { ...prev, [event.jobId]: { ...current, tokensUsed: current.tokensUsed + jobEvent.deltaTokens } }
+        }
+        return prev
+      })
+    } else if (event.type === 'job_complete') {
+      setProgress(prev => ({
+        ...prev,
+        [event.summary.jobId]: {
+          ...(prev[event.summary.jobId] || { bulletsCompleted: 0, bulletsTotal: 0 }),
+          message: event.summary.status,
+          tokensUsed: event.summary.tokensUsed,
+          summary: event.summary
+        }
+      }))
+    }
+  }
+
+  const handleRun = async () => {
+    const batch = jobs
+      .map((job, index) => ({ ...job, title: titleOf(job, index), content: job.content.trim() }))
+      .filter(job => job.content)
+    if (batch.length === 0) return
+
+    const abortController = new AbortController()
+    abortRef.current = abortController
+    setIsRunning(true)
+    setError(null)
+    setResult(null)
+    setAppliedJobId(null)
+    setProgress({})
+
+    try {
+      setResult(await onRunBatch(batch, handleEvent, abortController.signal))
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        console.log('[BATCH] Cancelled by user')
+        return
+      }
+      setError(err instanceof Error ? err.message : 'Batch tailoring failed')
+    } finally {
+      abortRef.current = null
+      setSharedMessage(null)
+      setIsRunning(false)
+    }
+  }
+
+  const handleApply = (variant: BatchVariant) => {
+    onApplyVariant(variant)
+    setAppliedJobId(variant.summary.jobId)
+  }
+
+  const handleClose = () => {
+    abortRef.current?.abort()
+    onClose()
+  }
+
+  const formatCoverage = (value?: number) => (value === undefined ? '—' : `${Math.round(value)}%`)
+  const formatCost = (value: number) => `$${value.toFixed(4)}`
+
+  if (!isOpen) return null
+
+  const filledJobs = jobs.filter(job => job.content.trim()).length
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="relative w-full max-w-5xl max-h-[90vh] mx-4 bg-white dark:bg-gray-900 rounded-2xl shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Batch Tailoring
+              </h2>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Tailor your resume to several postings at once and compare coverage and cost per variant
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {!result && (
+            <>
+              <div className="space-y-3">
+                {jobs.map((job, index) => {
+                  const jobProgress = progress[job.id]
+                  return (
+                    <div
+                      key={job.id}
+                      className="border-2 rounded-lg p-4 border-purple-200 dark:border-purple-800 bg-purple-50/50 dark:bg-purple-900/10"
+                    >
+                      <div className="flex items-center gap-2 mb-3">
+                        <Layers className="w-4 h-4 text-gray-500" />
+                        <input
+                          type="text"
+                          value={job.title}
+                          onChange={e => updateJob(index, { title: e.target.value })}
+                          placeholder={`Job ${index + 1} title (e.g. "Acme – Backend Engineer")`}
+                          disabled={isRunning}
+                          className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+                        />
+                        {jobProgress && (
+                          <span className="text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                            {jobProgress.message}
+                            {jobProgress.bulletsTotal > 0 && ` · ${jobProgress.bulletsCompleted}/${jobProgress.bulletsTotal} bullets`}
+                            {jobProgress.tokensUsed > 0 && ` · ${jobProgress.tokensUsed.toLocaleString()} tokens`}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => removeJob(index)}
+                          disabled={isRunning || jobs.length === 1}
+                          className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <textarea
+                        value={job.content}
+                        onChange={e => updateJob(index, { content: e.target.value })}
+                        placeholder="Paste the job description here..."
+                        rows={4}
+                        disabled={isRunning}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-500 resize-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+
+              <button
+                onClick={() => setJobs(prev => [...prev, newJob()])}
+                disabled={isRunning || jobs.length >= MAX_JOBS}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded-lg hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-4 h-4" />
+                <span className="text-sm font-medium">Add Job Description ({jobs.length}/{MAX_JOBS})</span>
+              </button>
+            </>
+          )}
+
+          {sharedMessage && (
+            <div className="flex items-center gap-2 text-sm text-blue-700 dark:text-blue-300">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {sharedMessage}...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {/* Comparison Table */}
+          {result && (
+            <div className="space-y-3">
+              {result.cancelled && (
+                <p className="text-sm text-amber-700 dark:text-amber-300">
+                  Batch was cancelled; finished variants are shown below.
+                </p>
+              )}
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Posting</th>
+                      <th className="px-3 py-2 text-right font-medium">Coverage</th>
+                      <th className="px-3 py-2 text-right font-medium">Bullets</th>
+                      <th className="px-3 py-2 text-right font-medium">Tokens</th>
+                      <th className="px-3 py-2 text-right font-medium">Cost</th>
+                      <th className="px-3 py-2 text-right font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-800 dark:text-gray-200">
+                    {result.variants.map(variant => {
+                      const { summary } = variant
+                      return (
+                        <tr key={summary.jobId}>
+                          <td className="px-3 py-2">
+                            <div className="font-medium">{summary.title}</div>
+                            {summary.status !== 'completed' && (
+                              <div className={`text-xs ${summary.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                                {summary.status === 'failed' ? summary.error || 'Failed' : 'Cancelled'}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            {formatCoverage(summary.coverageBefore)} → {formatCoverage(summary.coverageAfter)}
+                          </td>
+                          <td className="px-3 py-2 text-right">{summary.bulletsOptimized}</td>
+                          <td className="px-3 py-2 text-right">{summary.tokensUsed.toLocaleString()}</td>
+                          <td className="px-3 py-2 text-right">{formatCost(summary.estimatedCost)}</td>
+                          <td className="px-3 py-2 text-right">
+                            {variant.result && (
+                              appliedJobId === summary.jobId ? (
+                                <span className="inline-flex items-center gap-1 text-green-600 dark:text-green-400 text-xs font-medium">
+                                  <Check className="w-4 h-4" />
+                                  Applied
+                                </span>
+                              ) : (
+                                <button
+                                  onClick={() => handleApply(variant)}
+                                  disabled={appliedJobId !== null}
+                                  className="px-3 py-1 text-xs font-medium bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded transition-colors"
+                                  title={appliedJobId !== null ? 'Variants are tailored from the same base resume; only one can be applied' : 'Apply this variant to the resume'}
+                                >
+                                  Apply
+                                </button>
+                              )
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                  <tfoot className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <td className="px-3 py-2" colSpan={3}>Shared resume analysis</td>
+                      <td className="px-3 py-2 text-right">{result.sharedTokensUsed.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right">{formatCost(result.sharedCost)}</td>
+                      <td></td>
+                    </tr>
+                    <tr className="font-medium text-gray-900 dark:text-white">
+                      <td className="px-3 py-2" colSpan={3}>
+                        Total ({(result.processingTimeMs / 1000).toFixed(1)}s)
+                      </td>
+                      <td className="px-3 py-2 text-right">{result.totalTokensUsed.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right">{formatCost(result.totalCost)}</td>
+                      <td></td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3 flex-shrink-0">
+          {result ? (
+            <button
+              onClick={() => setResult(null)}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Edit Job Descriptions
+            </button>
+          ) : (
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Close
+            </button>
+          )}
+          {isRunning ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-2 px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors font-medium"
+            >
+              <Square className="w-4 h-4" />
+              Cancel
+            </button>
+          ) : !result && (
+            <button
+              onClick={handleRun}
+              disabled={filledJobs === 0}
+              className="flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-700 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              <Play className="w-4 h-4" />
+              Tailor {filledJobs} {filledJobs === 1 ? 'Variant' : 'Variants'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { X, Check, Pencil, RotateCcw, ListChecks, AlertTriangle } from 'lucide-react'
+import { BulletOptimization } from '@/lib/parsers/types'
+import { diffWords } from '@/lib/versioning'
+
+type ReviewStatus = 'pending' | 'accepted' | 'rejected'
+
+interface ReviewItem {
+  optimization: BulletOptimization
+  status: ReviewStatus
+  editedText?: string
+}
+
+interface BulletReviewModalProps {
+  isOpen: boolean
+  onClose: () => void
+  proposals: BulletOptimization[]
+  onApply: (accepted: BulletOptimization[]) => void
+}
+
+const HIGH_CONFIDENCE = 0.8
+
+function confidenceClass(confidence: number) {
+  if (confidence >= HIGH_CONFIDENCE) return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+  if (confidence >= 0.6) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+  return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+}
+
+/**
+ * Split text around keyword and unsupported-claim matches so they can be highlighted
+ */
+function highlightTerms(text: string, keywords: string[], claims: string[], keyPrefix: string) {
+  const escape = (term: string) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const terms = [...claims, ...keywords].filter(Boolean).map(escape)
+  if (terms.length === 0) return text
+
+  const claimSet = new Set(claims.map(claim => claim.toLowerCase()))
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi')
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark
+        key={`${keyPrefix}-${i}`}
+        className={`text-inherit rounded px-0.5 ${
+          claimSet.has(part.toLowerCase())
+            ? 'bg-orange-200 dark:bg-orange-700/60 underline decoration-wavy decoration-orange-600'
+            : 'bg-purple-200 dark:bg-purple-700/60'
+        }`}
+      >
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  )
+}
+
+export default function BulletReviewModal({
+  isOpen,
+  onClose,
+  proposals,
+  onApply
+}: BulletReviewModalProps) {
+  const [items, setItems] = useState<ReviewItem[]>(() =>
+    [...proposals]
+      .sort((a, b) => a.lineNumber - b.lineNumber)
+      .map(optimization => ({ optimization, status: 'pending' }))
+  )
+  const [editingLine, setEditingLine] = useState<number | null>(null)
+  const [draft, setDraft] = useState('')
+
+  const counts = useMemo(() => ({
+    pending: items.filter(item => item.status === 'pending').length,
+    accepted: items.filter(item => item.status === 'accepted').length,
+    rejected: items.filter(item => item.status === 'rejected').length
+  }), [items])
+
+  if (!isOpen) return null
+
+  const setStatus = (lineNumber: number, status: ReviewStatus, editedText?: string) => {
+    setItems(prev => prev.map(item =>
+      item.optimization.lineNumber === lineNumber
+        ? { ...item, status, editedText: editedText ?? item.editedText }
+        : item
+    ))
+  }
+
+  const startEditing = (item: ReviewItem) => {
+    setEditingLine(item.optimization.lineNumber)
+    setDraft(item.editedText ?? item.optimization.optimizedText)
+  }
+
+  const acceptEdit = (lineNumber: number) => {
+    if (!draft.trim()) return
+    setStatus(lineNumber, 'accepted', draft.trim())
+    setEditingLine(null)
+  }
+
+  const decidePending = (status: ReviewStatus, minConfidence = 0) => {
+    setItems(prev => prev.map(item =>
+      item.status === 'pending' && item.optimization.confidence >= minConfidence ? { ...item, status } : item
+    ))
+  }
+
+  const handleApply = () => {
+    const accepted = items
+      .filter(item => item.status === 'accepted')
+      .map(item => ({ ...item.optimization, optimizedText: item.editedText ?? item.optimization.optimizedText }))
+    onApply(accepted)
+  }
+
+  const handleClose = () => {
+    if (counts.accepted > 0 && !window.confirm('Discard the review? No changes will be applied.')) return
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="relative w-full max-w-5xl max-h-[90vh] mx-4 bg-white dark:bg-gray-900 rounded-2xl shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Review Optimizations
+              </h2>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Accept, reject or edit each rewritten bullet. Only accepted changes are written to the resume.
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-600 dark:text-gray-400">
+              {counts.pending} pending · {counts.accepted} accepted · {counts.rejected} rejected
+            </span>
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={() => decidePending('accepted', HIGH_CONFIDENCE)}
+                disabled={counts.pending === 0}
+                className="px-3 py-1.5 text-xs border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Accept pending ≥ {Math.round(HIGH_CONFIDENCE * 100)}%
+              </button>
+              <button
+                onClick={() => decidePending('accepted')}
+                disabled={counts.pending === 0}
+                className="px-3 py-1.5 text-xs border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Accept all pending
+              </button>
+              <button
+                onClick={() => decidePending('rejected')}
+                disabled={counts.pending === 0}
+                className="px-3 py-1.5 text-xs border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reject all pending
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Proposals */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {items.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              No bullets were rewritten.
+            </p>
+          ) : (
+            items.map(item => {
+              const { optimization, status } = item
+              const finalText = item.editedText ?? optimization.optimizedText
+              const isEditing = editingLine === optimization.lineNumber
+              const claims = (optimization.unsupportedClaims || [])
+                .map(claim => claim.text)
+                .filter(claim => finalText.toLowerCase().includes(claim.toLowerCase()))
+
+              return (
+                <div
+                  key={optimization.lineNumber}
+                  className={`p-4 rounded-lg border ${
+                    status === 'accepted'
+                      ? 'border-green-300 dark:border-green-800 bg-green-50/50 dark:bg-green-900/10'
+                      : status === 'rejected'
+                      ? 'border-gray-200 dark:border-gray-700 opacity-60'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                    <span className="font-semibold text-gray-700 dark:text-gray-300">Line {optimization.lineNumber}</span>
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${confidenceClass(optimization.confidence)}`}>
+                      {Math.round(optimization.confidence * 100)}% confidence
+                    </span>
+                    {optimization.addedKeywords.map(keyword => (
+                      <span key={keyword} className="px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300">
+                        +{keyword}
+                      </span>
+                    ))}
+                    {item.editedText !== undefined && (
+                      <span className="text-gray-500 dark:text-gray-400 italic">edited</span>
+                    )}
+                    {status !== 'pending' && (
+                      <span className={`ml-auto font-semibold uppercase ${status === 'accepted' ? 'text-green-700 dark:text-green-400' : 'text-gray-500'}`}>
+                        {status}
+                      </span>
+                    )}
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <p className="text-sm text-gray-500 dark:text-gray-400 line-through">{optimization.originalText}</p>
+                      <textarea
+                        autoFocus
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={3}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-1 text-sm">
+                      <p className="text-gray-500 dark:text-gray-400">
+                        <span className="select-none mr-2 text-red-500">-</span>
+                        {optimization.originalText}
+                      </p>
+                      <p className="text-gray-900 dark:text-gray-100">
+                        <span className="select-none mr-2 text-green-600">+</span>
+                        {diffWords(optimization.originalText, finalText).map((segment, i) =>
+                          segment.type === 'removed' ? (
+                            <span key={i} className="bg-red-100 dark:bg-red-900/40 line-through text-red-700 dark:text-red-300">
+                              {segment.text}
+                            </span>
+                          ) : (
+                            <span key={i} className={segment.type === 'added' ? 'bg-green-100 dark:bg-green-900/40' : ''}>
+                              {highlightTerms(segment.text, optimization.addedKeywords, claims, `${i}`)}
+                            </span>
+                          )
+                        )}
+                      </p>
+                    </div>
+                  )}
+
+                  {claims.length > 0 && (
+                    <p className="mt-2 flex items-start gap-1.5 text-xs text-orange-700 dark:text-orange-400">
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                      Not found in your resume or context files: {claims.join(', ')}. Edit or reject unless it is true.
+                    </p>
+                  )}
+
+                  <div className="mt-3 flex justify-end gap-2">
+                    {isEditing ? (
+                      <>
+                        <button
+                          onClick={() => setEditingLine(null)}
+                          className="px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => acceptEdit(optimization.lineNumber)}
+                          disabled={!draft.trim()}
+                          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-green-600 hover:bg-green-700 text-white rounded-lg disabled:opacity-50"
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          Accept edited
+                        </button>
+                      </>
+                    ) : status === 'pending' ? (
+                      <>
+                        <button
+                          onClick={() => setStatus(optimization.lineNumber, 'rejected')}
+                          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => startEditing(item)}
+                          className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setStatus(optimization.lineNumber, 'accepted')}
+                          className="flex items-center gap-1 px-3 py-1.5 text-xs bg-green-600 hover:bg-green-700 text-white rounded-lg"
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          Accept
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setStatus(optimization.lineNumber, 'pending')}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Undo decision
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0 flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {counts.pending > 0 ? 'Pending bullets are left unchanged.' : 'All proposals reviewed.'}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={counts.accepted === 0}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ListChecks className="w-4 h-4" />
+              Apply {counts.accepted} accepted {counts.accepted === 1 ? 'change' : 'changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
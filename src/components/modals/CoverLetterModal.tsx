@@ -0,0 +1,292 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Loader2, Sparkles, Download, Mail } from 'lucide-react'
+import { CoverLetter, CoverLetterLength, CoverLetterOptions, CoverLetterTone } from '@/lib/parsers/types'
+import type { CoverLetterExportFormat } from '@/lib/export'
+
+interface CoverLetterModalProps {
+  isOpen: boolean
+  onClose: () => void
+  letter: CoverLetter | null
+  canGenerate: boolean                // Resume and job description are available
+  exportFormats: CoverLetterExportFormat[]
+  onGenerate: (options: CoverLetterOptions) => Promise<void>
+  onChange: (letter: CoverLetter) => void
+  onExport: (format: CoverLetterExportFormat) => Promise<void>
+}
+
+const TONE_LABELS: Record<CoverLetterTone, string> = {
+  professional: 'Professional',
+  enthusiastic: 'Enthusiastic',
+  conversational: 'Conversational'
+}
+
+const LENGTH_LABELS: Record<CoverLetterLength, string> = {
+  short: 'Short (~180 words)',
+  medium: 'Medium (~280 words)',
+  long: 'Long (~420 words)'
+}
+
+const FORMAT_LABELS: Record<CoverLetterExportFormat, string> = {
+  docx: 'DOCX',
+  pdf: 'PDF',
+  markdown: 'Markdown',
+  latex: 'LaTeX'
+}
+
+export default function CoverLetterModal({
+  isOpen,
+  onClose,
+  letter,
+  canGenerate,
+  exportFormats,
+  onGenerate,
+  onChange,
+  onExport
+}: CoverLetterModalProps) {
+  const [options, setOptions] = useState<CoverLetterOptions>(() => ({
+    tone: letter?.tone || 'professional',
+    length: letter?.length || 'medium',
+    companyName: letter?.companyName || '',
+    roleTitle: letter?.roleTitle || ''
+  }))
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [exporting, setExporting] = useState<CoverLetterExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const updateLetter = (updates: Partial<CoverLetter>) => {
+    if (!letter) return
+    onChange({ ...letter, ...updates, updatedAt: new Date() })
+  }
+
+  const handleGenerate = async () => {
+    if (letter && !window.confirm('Replace the current draft with a new one?')) return
+    try {
+      setIsGenerating(true)
+      setError(null)
+      await onGenerate(options)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft cover letter')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleExport = async (format: CoverLetterExportFormat) => {
+    try {
+      setExporting(format)
+      setError(null)
+      await onExport(format)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export cover letter')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const wordCount = letter ? (letter.paragraphs.join(' ').match(/\S+/g) || []).length : 0
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500'
+  const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="relative w-full max-w-4xl max-h-[90vh] mx-4 bg-white dark:bg-gray-900 rounded-2xl shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+              <Mail className="w-6 h-6" />
+              Cover Letter
+            </h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Drafted from your resume, the job description and your context files. Exports match the resume&apos;s formatting.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* Options */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Tone</label>
+              <select
+                value={options.tone}
+                onChange={(e) => setOptions(prev => ({ ...prev, tone: e.target.value as CoverLetterTone }))}
+                className={inputClass}
+              >
+                {(Object.keys(TONE_LABELS) as CoverLetterTone[]).map(tone => (
+                  <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Length</label>
+              <select
+                value={options.length}
+                onChange={(e) => setOptions(prev => ({ ...prev, length: e.target.value as CoverLetterLength }))}
+                className={inputClass}
+              >
+                {(Object.keys(LENGTH_LABELS) as CoverLetterLength[]).map(length => (
+                  <option key={length} value={length}>{LENGTH_LABELS[length]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Company (optional, detected from the JD)</label>
+              <input
+                value={options.companyName || ''}
+                onChange={(e) => setOptions(prev => ({ ...prev, companyName: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Role (optional)</label>
+              <input
+                value={options.roleTitle || ''}
+                onChange={(e) => setOptions(prev => ({ ...prev, roleTitle: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Hiring manager (optional)</label>
+              <input
+                value={options.hiringManager || ''}
+                onChange={(e) => setOptions(prev => ({ ...prev, hiringManager: e.target.value }))}
+                placeholder="Hiring Manager"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Extra instructions (optional)</label>
+              <input
+                value={options.customInstructions || ''}
+                onChange={(e) => setOptions(prev => ({ ...prev, customInstructions: e.target.value }))}
+                placeholder="e.g. mention relocation to Berlin"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleGenerate}
+              disabled={!canGenerate || isGenerating}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              {isGenerating ? 'Drafting...' : letter ? 'Redraft' : 'Draft Cover Letter'}
+            </button>
+            {!canGenerate && (
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Upload a resume and add a job description first.
+              </span>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {/* Editable draft */}
+          {letter && (
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-5">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Recipient (one line each)</label>
+                  <textarea
+                    value={letter.recipient.join('\n')}
+                    onChange={(e) => updateLetter({ recipient: e.target.value.split('\n') })}
+                    rows={2}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Date</label>
+                  <input
+                    value={letter.date}
+                    onChange={(e) => updateLetter({ date: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Salutation</label>
+                <input
+                  value={letter.salutation}
+                  onChange={(e) => updateLetter({ salutation: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Body (blank line between paragraphs) · {wordCount} words</label>
+                <textarea
+                  value={letter.paragraphs.join('\n\n')}
+                  onChange={(e) => updateLetter({ paragraphs: e.target.value.split(/\n\s*\n/) })}
+                  rows={14}
+                  className={`${inputClass} leading-relaxed`}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Closing</label>
+                  <input
+                    value={letter.closing}
+                    onChange={(e) => updateLetter({ closing: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Signature</label>
+                  <input
+                    value={letter.senderName}
+                    onChange={(e) => updateLetter({ senderName: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {letter.keywordsUsed.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                  <span className="text-gray-600 dark:text-gray-400">JD keywords mentioned:</span>
+                  {letter.keywordsUsed.map(keyword => (
+                    <span key={keyword} className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">
+                      {keyword}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {letter && (
+          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0 flex items-center justify-end gap-2">
+            <span className="mr-auto text-sm text-gray-600 dark:text-gray-400">Export as</span>
+            {exportFormats.map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exporting === format ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
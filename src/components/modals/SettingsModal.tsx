@@ -4,9 +4,10 @@
  * Settings Modal - User settings, chat history, and API key configuration
  */
 
-import { useState } from 'react';
-import { X, Info, Key, Database, Shield, AlertCircle } from 'lucide-react';
-import { Chat } from '@/lib/parsers/types';
+import { useState, useEffect } from 'react';
+import { X, Info, Key, Database, Shield, AlertCircle, Cpu, Tags } from 'lucide-react';
+import { Chat, KeywordAliasMap } from '@/lib/parsers/types';
+import type { LLMProviderConfig, LLMProviderType } from '@/lib/llm/types';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -15,19 +16,64 @@ interface SettingsModalProps {
   customApiKey: string | null;
   onApiKeyChange: (apiKey: string) => void;
   onClearApiKey: () => void;
+  llmSettings?: LLMProviderConfig | null;
+  onLLMSettingsChange?: (settings: LLMProviderConfig | null) => void;
+  keywordAliases?: KeywordAliasMap;
+  onKeywordAliasesChange?: (aliases: KeywordAliasMap) => void;
 }
 
+const PROVIDER_OPTIONS: Array<{ value: LLMProviderType; label: string; description: string }> = [
+  { value: 'gemini', label: 'Google Gemini', description: 'Default. Resume data is sent to Google.' },
+  { value: 'openai', label: 'OpenAI-compatible', description: 'OpenAI, Azure proxies, vLLM, LM Studio or any /v1/chat/completions endpoint.' },
+  { value: 'ollama', label: 'Ollama (local)', description: 'Runs against a local Ollama server. Resume data stays on your machine.' },
+  { value: 'fake', label: 'Offline (deterministic)', description: 'Rule-based responses for testing the pipeline without any model.' }
+];
+
+// Alias text format: one "Keyword: alias, alias" group per line
+const formatAliases = (aliases: KeywordAliasMap): string =>
+  Object.entries(aliases)
+    .map(([keyword, variants]) => `${keyword}: ${variants.join(', ')}`)
+    .join('\n');
+
+const parseAliases = (text: string): KeywordAliasMap => {
+  const aliases: KeywordAliasMap = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const keyword = line.slice(0, separator).trim();
+    const variants = line.slice(separator + 1).split(',').map(v => v.trim()).filter(v => v);
+    if (keyword && variants.length > 0) {
+      aliases[keyword] = variants;
+    }
+  });
+  return aliases;
+};
+
 export default function SettingsModal({
   isOpen,
   onClose,
   chats,
   customApiKey,
   onApiKeyChange,
-  onClearApiKey
+  onClearApiKey,
+  llmSettings,
+  onLLMSettingsChange,
+  keywordAliases,
+  onKeywordAliasesChange
 }: SettingsModalProps) {
   const [apiKeyInput, setApiKeyInput] = useState(customApiKey || '');
   const [showApiKey, setShowApiKey] = useState(false);
   const [showPrivacyInfo, setShowPrivacyInfo] = useState(false);
+  const [providerType, setProviderType] = useState<LLMProviderType>(llmSettings?.type || 'gemini');
+  const [providerModel, setProviderModel] = useState(llmSettings?.model || '');
+  const [providerBaseUrl, setProviderBaseUrl] = useState(llmSettings?.baseUrl || '');
+  const [providerApiKey, setProviderApiKey] = useState(llmSettings?.apiKey || '');
+  const [aliasesInput, setAliasesInput] = useState(formatAliases(keywordAliases || {}));
+
+  // Aliases are loaded from localStorage after mount - refresh when reopened
+  useEffect(() => {
+    if (isOpen) setAliasesInput(formatAliases(keywordAliases || {}));
+  }, [isOpen, keywordAliases]);
 
   if (!isOpen) return null;
 
@@ -42,6 +88,32 @@ export default function SettingsModal({
     onClearApiKey();
   };
 
+  const handleSaveProvider = () => {
+    if (!onLLMSettingsChange) return;
+
+    // Gemini with no overrides is the default - no need to store anything
+    if (providerType === 'gemini' && !providerModel.trim()) {
+      onLLMSettingsChange(null);
+      return;
+    }
+
+    onLLMSettingsChange({
+      type: providerType,
+      model: providerModel.trim() || undefined,
+      baseUrl: providerBaseUrl.trim() || undefined,
+      apiKey: providerType === 'openai' ? providerApiKey.trim() || undefined : undefined
+    });
+  };
+
+  const handleSaveAliases = () => {
+    if (!onKeywordAliasesChange) return;
+    const aliases = parseAliases(aliasesInput);
+    onKeywordAliasesChange(aliases);
+    setAliasesInput(formatAliases(aliases));
+  };
+
+  const selectedProvider = PROVIDER_OPTIONS.find(option => option.value === providerType);
+
   // Calculate storage stats
   const totalMessages = chats.reduce((sum, chat) => sum + chat.messages.length, 0);
   const storageSize = new Blob([JSON.stringify(chats)]).size;
@@ -85,6 +157,94 @@ export default function SettingsModal({
             </div>
           </div>
 
+          {/* AI Provider Section */}
+          {onLLMSettingsChange && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <Cpu className="w-5 h-5 text-purple-600" />
+                AI Provider
+              </h3>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Provider
+                  </label>
+                  <select
+                    value={providerType}
+                    onChange={(e) => setProviderType(e.target.value as LLMProviderType)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {PROVIDER_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedProvider && (
+                    <p className="mt-2 text-xs text-gray-600">{selectedProvider.description}</p>
+                  )}
+                </div>
+
+                {providerType !== 'fake' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Model (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={providerModel}
+                      onChange={(e) => setProviderModel(e.target.value)}
+                      placeholder={providerType === 'gemini' ? 'gemini-2.0-flash-exp' : providerType === 'openai' ? 'gpt-4o-mini' : 'llama3.1'}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+
+                {(providerType === 'openai' || providerType === 'ollama') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Base URL (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={providerBaseUrl}
+                      onChange={(e) => setProviderBaseUrl(e.target.value)}
+                      placeholder={providerType === 'openai' ? 'https://api.openai.com/v1' : 'http://localhost:11434'}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {providerType === 'openai'
+                        ? 'A custom URL needs your own API key below, unless the server allows it'
+                        : 'Only URLs allowed by the server (OLLAMA_BASE_URL or LLM_ALLOWED_BASE_URLS)'}
+                    </p>
+                  </div>
+                )}
+
+                {providerType === 'openai' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      API Key
+                    </label>
+                    <input
+                      type="password"
+                      value={providerApiKey}
+                      onChange={(e) => setProviderApiKey(e.target.value)}
+                      placeholder="Leave empty to use the server's OPENAI_API_KEY"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+
+                <button
+                  onClick={handleSaveProvider}
+                  className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+                >
+                  Save Provider
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* API Key Section */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
@@ -195,6 +355,36 @@ export default function SettingsModal({
             </div>
           </div>
 
+          {/* Keyword Aliases Section */}
+          {onKeywordAliasesChange && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <Tags className="w-5 h-5 text-amber-600" />
+                Keyword Aliases
+              </h3>
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Alternative spellings that count as the same keyword. Common forms
+                  (JS/JavaScript, k8s/Kubernetes, Postgres/PostgreSQL) are built in.
+                </p>
+                <textarea
+                  value={aliasesInput}
+                  onChange={(e) => setAliasesInput(e.target.value)}
+                  placeholder={'Terraform: TF, HCL\nRuby on Rails: Rails, RoR'}
+                  rows={4}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500">One keyword per line: <code>Keyword: alias, alias</code></p>
+                <button
+                  onClick={handleSaveAliases}
+                  className="w-full px-4 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors"
+                >
+                  Save Aliases
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Recent Chat History */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900 mb-3">
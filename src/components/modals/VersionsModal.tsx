@@ -0,0 +1,372 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { X, GitBranch, Save, RotateCcw, Pencil, Trash2, Check } from 'lucide-react'
+import { Line, ResumeVersionHistory, LineDiff } from '@/lib/parsers/types'
+import { diffVersionLines, hasUnsavedChanges, orderVersionTree } from '@/lib/versioning'
+
+const WORKING_COPY = 'working-copy'
+
+interface VersionsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  history: ResumeVersionHistory
+  workingLines: Line[]
+  onSave: (name: string) => void
+  onUpdate: (versionId: string) => void
+  onBranch: (versionId: string, name: string) => void
+  onRestore: (versionId: string) => void
+  onRename: (versionId: string, name: string) => void
+  onDelete: (versionId: string) => void
+}
+
+export default function VersionsModal({
+  isOpen,
+  onClose,
+  history,
+  workingLines,
+  onSave,
+  onUpdate,
+  onBranch,
+  onRestore,
+  onRename,
+  onDelete
+}: VersionsModalProps) {
+  const [newName, setNewName] = useState('')
+  const [branchingFrom, setBranchingFrom] = useState<string | null>(null)
+  const [branchName, setBranchName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [compareFrom, setCompareFrom] = useState<string>(() => history.activeVersionId || history.versions[0]?.id || WORKING_COPY)
+  const [compareTo, setCompareTo] = useState<string>(WORKING_COPY)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  const activeVersion = history.versions.find(v => v.id === history.activeVersionId)
+  const isDirty = hasUnsavedChanges(activeVersion, { lines: workingLines })
+  const tree = useMemo(() => orderVersionTree(history.versions), [history.versions])
+
+  const linesOf = (id: string): Line[] =>
+    id === WORKING_COPY ? workingLines : history.versions.find(v => v.id === id)?.lines || []
+  const nameOf = (id: string) =>
+    id === WORKING_COPY ? 'Working copy' : history.versions.find(v => v.id === id)?.name || 'Unknown'
+
+  const diff = useMemo(
+    () => diffVersionLines(linesOf(compareFrom), linesOf(compareTo)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [compareFrom, compareTo, history.versions, workingLines]
+  )
+
+  if (!isOpen) return null
+
+  const handleSave = () => {
+    if (!newName.trim()) return
+    onSave(newName.trim())
+    setNewName('')
+  }
+
+  const handleBranch = (versionId: string) => {
+    if (!branchName.trim()) return
+    if (isDirty && !window.confirm('The working copy has unsaved changes. Switch to the new branch anyway?')) return
+    onBranch(versionId, branchName.trim())
+    setBranchingFrom(null)
+    setBranchName('')
+  }
+
+  const handleRename = (versionId: string) => {
+    if (renameValue.trim()) onRename(versionId, renameValue.trim())
+    setRenamingId(null)
+  }
+
+  const handleRestore = (versionId: string) => {
+    if (isDirty && !window.confirm('The working copy has unsaved changes. Restore this version anyway?')) return
+    onRestore(versionId)
+  }
+
+  const handleDelete = (versionId: string) => {
+    if (!window.confirm(`Delete version "${nameOf(versionId)}"? Its branches are kept.`)) return
+    if (compareFrom === versionId) setCompareFrom(WORKING_COPY)
+    if (compareTo === versionId) setCompareTo(WORKING_COPY)
+    onDelete(versionId)
+  }
+
+  const renderDiffLine = (line: LineDiff, index: number) => {
+    if (line.type === 'unchanged') {
+      return (
+        <div key={index} className="flex gap-2 px-2 py-0.5 text-gray-500 dark:text-gray-400">
+          <span className="w-6 text-right flex-shrink-0 select-none">{line.newLineNumber}</span>
+          <span className="w-3 flex-shrink-0 select-none"> </span>
+          <span className="whitespace-pre-wrap break-words">{line.newText}</span>
+        </div>
+      )
+    }
+
+    if (line.type === 'modified') {
+      return (
+        <div key={index} className="flex gap-2 px-2 py-0.5 bg-yellow-50 dark:bg-yellow-900/20">
+          <span className="w-6 text-right flex-shrink-0 select-none text-gray-500">{line.newLineNumber}</span>
+          <span className="w-3 flex-shrink-0 select-none text-yellow-700 dark:text-yellow-400">~</span>
+          <span className="whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100">
+            {line.words?.map((segment, i) => (
+              <span
+                key={i}
+                className={
+                  segment.type === 'added'
+                    ? 'bg-green-200 dark:bg-green-800/60'
+                    : segment.type === 'removed'
+                    ? 'bg-red-200 dark:bg-red-800/60 line-through'
+                    : ''
+                }
+              >
+                {segment.text}
+              </span>
+            ))}
+          </span>
+        </div>
+      )
+    }
+
+    const isAdded = line.type === 'added'
+    return (
+      <div
+        key={index}
+        className={`flex gap-2 px-2 py-0.5 ${isAdded ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'}`}
+      >
+        <span className="w-6 text-right flex-shrink-0 select-none text-gray-500">
+          {isAdded ? line.newLineNumber : line.oldLineNumber}
+        </span>
+        <span className="w-3 flex-shrink-0 select-none">{isAdded ? '+' : '-'}</span>
+        <span className="whitespace-pre-wrap break-words">{isAdded ? line.newText : line.oldText}</span>
+      </div>
+    )
+  }
+
+  const visibleLines = showUnchanged ? diff.lines : diff.lines.filter(line => line.type !== 'unchanged')
+  const compareOptions = [
+    { id: WORKING_COPY, label: 'Working copy' },
+    ...tree.map(({ version, depth }) => ({ id: version.id, label: `${'— '.repeat(depth)}${version.name}` }))
+  ]
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="relative w-full max-w-6xl max-h-[90vh] mx-4 bg-white dark:bg-gray-900 rounded-2xl shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Resume Versions
+              </h2>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Save named versions, branch tailored variants and compare any two
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          {/* Version tree */}
+          <div className="w-80 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 overflow-y-auto p-4 space-y-4">
+            <div className="space-y-2">
+              <div className="text-xs text-gray-600 dark:text-gray-400">
+                Working copy {activeVersion ? <>based on <span className="font-semibold">{activeVersion.name}</span></> : 'not saved yet'}
+                {activeVersion && isDirty && ' (unsaved changes)'}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  placeholder={history.versions.length === 0 ? 'Base' : 'e.g. Stripe SRE'}
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={!newName.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Save the working copy as a new version"
+                >
+                  <Save className="w-4 h-4" />
+                  Save
+                </button>
+              </div>
+              {activeVersion && isDirty && (
+                <button
+                  onClick={() => onUpdate(activeVersion.id)}
+                  className="w-full px-3 py-1.5 text-sm border border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors"
+                >
+                  Update &quot;{activeVersion.name}&quot;
+                </button>
+              )}
+            </div>
+
+            {tree.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No versions yet. Save the working copy to start.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {tree.map(({ version, depth }) => {
+                  const isActive = version.id === history.activeVersionId
+                  return (
+                    <li key={version.id} style={{ marginLeft: depth * 16 }}>
+                      <div className={`p-2 rounded-lg border ${isActive ? 'border-purple-400 bg-purple-50 dark:bg-purple-900/20' : 'border-gray-200 dark:border-gray-700'}`}>
+                        {renamingId === version.id ? (
+                          <input
+                            autoFocus
+                            type="text"
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onBlur={() => handleRename(version.id)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename(version.id)
+                              if (e.key === 'Escape') setRenamingId(null)
+                            }}
+                            className="w-full px-2 py-0.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                          />
+                        ) : (
+                          <div className="flex items-center gap-1">
+                            {depth > 0 && <GitBranch className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                            <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{version.name}</span>
+                            {isActive && (
+                              <span className="ml-auto px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded bg-purple-600 text-white">
+                                active
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(version.updatedAt).toLocaleString()}
+                        </div>
+                        <div className="flex items-center gap-1 mt-1">
+                          <button
+                            onClick={() => handleRestore(version.id)}
+                            className="p-1 text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded"
+                            title="Restore into the working copy"
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              setBranchingFrom(branchingFrom === version.id ? null : version.id)
+                              setBranchName('')
+                            }}
+                            className="p-1 text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded"
+                            title="Branch a new version from this one"
+                          >
+                            <GitBranch className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              setRenamingId(version.id)
+                              setRenameValue(version.name)
+                            }}
+                            className="p-1 text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded"
+                            title="Rename"
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(version.id)}
+                            className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              setCompareFrom(version.id)
+                              setCompareTo(WORKING_COPY)
+                            }}
+                            className="ml-auto text-xs text-purple-600 dark:text-purple-400 hover:underline"
+                          >
+                            Compare
+                          </button>
+                        </div>
+                        {branchingFrom === version.id && (
+                          <div className="flex gap-1 mt-2">
+                            <input
+                              autoFocus
+                              type="text"
+                              value={branchName}
+                              onChange={(e) => setBranchName(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && handleBranch(version.id)}
+                              placeholder="Branch name"
+                              className="flex-1 min-w-0 px-2 py-0.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                            />
+                            <button
+                              onClick={() => handleBranch(version.id)}
+                              disabled={!branchName.trim()}
+                              className="p-1 text-white bg-purple-600 hover:bg-purple-700 rounded disabled:opacity-50"
+                              title="Create branch"
+                            >
+                              <Check className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm">
+              <select
+                value={compareFrom}
+                onChange={(e) => setCompareFrom(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {compareOptions.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">→</span>
+              <select
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {compareOptions.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-600 dark:text-gray-400">
+                <span className="text-green-600 dark:text-green-400">+{diff.stats.added}</span>{' '}
+                <span className="text-red-600 dark:text-red-400">-{diff.stats.removed}</span>{' '}
+                <span className="text-yellow-600 dark:text-yellow-400">~{diff.stats.modified}</span>
+              </span>
+              <label className="ml-auto flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                />
+                Show unchanged lines
+              </label>
+            </div>
+            <div className="flex-1 overflow-y-auto py-2 font-mono text-xs">
+              {visibleLines.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400 font-sans">
+                  {nameOf(compareFrom)} and {nameOf(compareTo)} are identical
+                </p>
+              ) : (
+                visibleLines.map(renderDiffLine)
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { FileSearch, Upload, Loader2, CheckCircle, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import { Document, KeywordAliasMap } from '@/lib/parsers/types'
+import type { AtsReport, AtsIssueSeverity } from '@/lib/ats/types'
+import { exportToPdf, exportToDocx } from '@/lib/export'
+import { requestAtsReport } from '@/lib/api-clients/ats-report-client'
+
+const SEVERITY_STYLES: Record<AtsIssueSeverity, string> = {
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  low: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300'
+}
+
+interface AtsReportPanelProps {
+  document: Document | null
+  latexSource?: string          // LaTeX resumes are compiled to PDF before the check
+  keywords: string[]
+  keywordAliases?: KeywordAliasMap
+}
+
+export default function AtsReportPanel({
+  document,
+  latexSource,
+  keywords,
+  keywordAliases
+}: AtsReportPanelProps) {
+  const [report, setReport] = useState<AtsReport | null>(null)
+  const [checkedFile, setCheckedFile] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showExtractedText, setShowExtractedText] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const sourceText = latexSource || document?.lines.map(line => line.text).join('\n')
+
+  const runCheck = async (buildFile: () => Promise<{ file: Blob; fileName: string }>) => {
+    try {
+      setIsChecking(true)
+      setError(null)
+      const { file, fileName } = await buildFile()
+      const nextReport = await requestAtsReport({ file, fileName, sourceText, keywords, keywordAliases })
+      setReport(nextReport)
+      setCheckedFile(fileName)
+      console.log('[ATS] Report score:', nextReport.score, 'issues:', nextReport.issues.length)
+    } catch (err) {
+      console.error('[ATS] Check failed:', err)
+      setError(err instanceof Error ? err.message : 'Failed to run ATS check')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  // Check the resume as it would be exported right now
+  const handleCheckCurrent = (format: 'pdf' | 'docx') => runCheck(async () => {
+    if (latexSource) {
+      const response = await fetch('/api/compile-latex', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ latexSource, validate: true })
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'LaTeX compilation failed')
+      }
+      return { file: await response.blob(), fileName: 'resume.pdf' }
+    }
+
+    if (!document) {
+      throw new Error('No resume loaded')
+    }
+    return format === 'pdf'
+      ? { file: exportToPdf(document), fileName: 'resume.pdf' }
+      : { file: await exportToDocx(document), fileName: 'resume.docx' }
+  })
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) {
+      runCheck(async () => ({ file, fileName: file.name }))
+    }
+  }
+
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return 'text-green-600 dark:text-green-400'
+    if (score >= 60) return 'text-yellow-600 dark:text-yellow-400'
+    return 'text-red-600 dark:text-red-400'
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <FileSearch className="w-5 h-5" />
+          ATS Parse Check
+        </h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isChecking}
+          className="p-2 text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors disabled:opacity-50"
+          title="Check an exported PDF or DOCX"
+        >
+          <Upload className="w-5 h-5" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pdf,.docx"
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </div>
+
+      {/* Check current resume */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleCheckCurrent('pdf')}
+          disabled={isChecking || (!latexSource && !document)}
+          className="flex-1 px-3 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {latexSource ? 'Check compiled PDF' : 'Check as PDF'}
+        </button>
+        {!latexSource && (
+          <button
+            onClick={() => handleCheckCurrent('docx')}
+            disabled={isChecking || !document}
+            className="flex-1 px-3 py-2 text-sm border border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Check as DOCX
+          </button>
+        )}
+      </div>
+
+      {isChecking && (
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Extracting text like an ATS...
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {report && !isChecking && (
+        <div className="space-y-3">
+          {/* Score */}
+          <div className="p-4 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-lg border border-purple-200 dark:border-purple-800">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Parse Score
+              </span>
+              <span className={`text-2xl font-bold ${getScoreColor(report.score)}`}>
+                {report.score}
+              </span>
+            </div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              {checkedFile} · {report.format.toUpperCase()} · {report.pages} page{report.pages === 1 ? '' : 's'} · {report.wordCount} words extracted
+            </div>
+            {report.keywordsChecked > 0 && (
+              <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                {report.keywordsChecked - report.keywordsLost.length} of {report.keywordsChecked} resume keywords survive extraction
+              </div>
+            )}
+          </div>
+
+          {/* Sections found */}
+          {report.sectionsFound.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {report.sectionsFound.map(section => (
+                <span
+                  key={section}
+                  className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+                >
+                  {section}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Issues */}
+          {report.issues.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+              <CheckCircle className="w-4 h-4" />
+              No parse problems found
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {report.issues.map((issue, index) => (
+                <li
+                  key={`${issue.type}-${index}`}
+                  className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
+                  <div className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                    <div className="flex-1 min-w-0">
+                      <span className={`inline-block px-1.5 py-0.5 mb-1 text-[10px] font-semibold uppercase rounded ${SEVERITY_STYLES[issue.severity]}`}>
+                        {issue.severity}
+                      </span>
+                      <p className="text-sm text-gray-800 dark:text-gray-200">
+                        {issue.message}
+                      </p>
+                      {issue.examples && issue.examples.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {issue.examples.map((example, i) => (
+                            <li
+                              key={i}
+                              className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate"
+                              title={example}
+                            >
+                              {example}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Extracted text */}
+          <button
+            onClick={() => setShowExtractedText(!showExtractedText)}
+            className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          >
+            {showExtractedText ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            What the ATS sees
+          </button>
+          {showExtractedText && (
+            <pre className="p-3 max-h-64 overflow-auto text-xs whitespace-pre-wrap bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg border border-gray-200 dark:border-gray-700">
+              {report.extractedText}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,28 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { Plus, X, Check } from 'lucide-react'
+import { KeywordAliasMap, KeywordCategory, KeywordImportance } from '@/lib/parsers/types'
+import { createKeywordNormalizer } from '@/lib/optimization/keyword-normalizer'
+
+type KeywordGroup = KeywordCategory | 'custom'
+
+const GROUP_ORDER: KeywordGroup[] = ['required', 'custom', 'preferred', 'bonus']
+const GROUP_LABELS: Record<KeywordGroup, string> = {
+  required: 'Required',
+  custom: 'Custom',
+  preferred: 'Preferred',
+  bonus: 'Bonus / mentioned'
+}
+const CUSTOM_KEYWORD_WEIGHT = 3 // Keywords the user added count like required ones
 
 interface EnhancedKeywordAnalysisProps {
   jdKeywords: string[]
   resumeKeywords: string[]
   disabledKeywords?: string[]
   customKeywords?: string[]
+  keywordAliases?: KeywordAliasMap
+  keywordImportance?: KeywordImportance[]
   onToggleKeyword: (keyword: string) => void
   onAddCustomKeyword: (keyword: string) => void
   onRemoveCustomKeyword: (keyword: string) => void
@@ -18,6 +33,8 @@ export default function EnhancedKeywordAnalysis({
   resumeKeywords,
   disabledKeywords = [],
   customKeywords = [],
+  keywordAliases,
+  keywordImportance = [],
   onToggleKeyword,
   onAddCustomKeyword,
   onRemoveCustomKeyword
@@ -25,34 +42,59 @@ export default function EnhancedKeywordAnalysis({
   const [isAddingKeyword, setIsAddingKeyword] = useState(false)
   const [newKeywords, setNewKeywords] = useState('')
 
+  // Same alias/synonym matching as the server-side gap analysis
+  const normalizer = useMemo(() => createKeywordNormalizer(keywordAliases), [keywordAliases])
+  const isPresent = (keyword: string) => normalizer.findMatch(keyword, resumeKeywords) !== undefined
+
   // Calculate keyword stats - separate JD and custom keywords
-  const presentJDKeywords = jdKeywords.filter(k =>
-    resumeKeywords.some(rk => rk.toLowerCase() === k.toLowerCase())
-  )
-  const missingJDKeywords = jdKeywords.filter(k =>
-    !resumeKeywords.some(rk => rk.toLowerCase() === k.toLowerCase())
-  )
+  const presentJDKeywords = jdKeywords.filter(isPresent)
+  const missingJDKeywords = jdKeywords.filter(k => !isPresent(k))
 
   // Classify custom keywords as present or missing
-  const presentCustomKeywords = customKeywords.filter(k =>
-    resumeKeywords.some(rk => rk.toLowerCase() === k.toLowerCase())
-  )
-  const missingCustomKeywords = customKeywords.filter(k =>
-    !resumeKeywords.some(rk => rk.toLowerCase() === k.toLowerCase())
-  )
+  const presentCustomKeywords = customKeywords.filter(isPresent)
+  const missingCustomKeywords = customKeywords.filter(k => !isPresent(k))
 
   // Combine all present and missing keywords
   const presentKeywords = [...presentJDKeywords, ...presentCustomKeywords]
   const missingKeywords = [...missingJDKeywords, ...missingCustomKeywords]
 
+  // Importance from the analysis (required / preferred / bonus); without it every keyword weighs 1
+  const hasImportance = keywordImportance.length > 0
+  const importanceOf = (keyword: string) => keywordImportance.find(item => item.keyword === keyword)
+  const groupOf = (keyword: string): KeywordGroup =>
+    customKeywords.includes(keyword) ? 'custom' : importanceOf(keyword)?.category || 'bonus'
+  const weightOf = (keyword: string) => {
+    if (!hasImportance) return 1
+    return customKeywords.includes(keyword) ? CUSTOM_KEYWORD_WEIGHT : importanceOf(keyword)?.weight ?? 1
+  }
+
+  // Group by importance, heaviest first within each group
+  const groupKeywords = (keywords: string[]): Array<{ group: KeywordGroup; label?: string; keywords: string[] }> => {
+    const sorted = [...keywords].sort((a, b) => weightOf(b) - weightOf(a))
+    if (!hasImportance) return [{ group: 'bonus', keywords: sorted }]
+    return GROUP_ORDER
+      .map(group => ({ group, label: GROUP_LABELS[group], keywords: sorted.filter(k => groupOf(k) === group) }))
+      .filter(entry => entry.keywords.length > 0)
+  }
+
+  const keywordTitle = (keyword: string, isDisabled: boolean) => {
+    const importance = importanceOf(keyword)
+    const action = isDisabled ? 'Click to enable' : 'Click to disable'
+    return importance?.sourceSentence
+      ? `${action}\n${GROUP_LABELS[importance.category]} (mentioned ${importance.frequency}x): "${importance.sourceSentence}"`
+      : action
+  }
+
   // Calculate active (non-disabled) keywords
   const activePresentKeywords = presentKeywords.filter(k => !disabledKeywords.includes(k))
   const activeMissingKeywords = missingKeywords.filter(k => !disabledKeywords.includes(k))
   const totalActiveKeywords = activePresentKeywords.length + activeMissingKeywords.length
 
-  // Calculate coverage based on active keywords only
-  const coverage = totalActiveKeywords > 0
-    ? Math.round((activePresentKeywords.length / totalActiveKeywords) * 100)
+  // Calculate coverage based on active keywords only, weighted by importance
+  const presentWeight = activePresentKeywords.reduce((sum, k) => sum + weightOf(k), 0)
+  const totalWeight = presentWeight + activeMissingKeywords.reduce((sum, k) => sum + weightOf(k), 0)
+  const coverage = totalWeight > 0
+    ? Math.round((presentWeight / totalWeight) * 100)
     : 0
 
   const handleAddKeywords = () => {
@@ -105,7 +147,7 @@ export default function EnhancedKeywordAnalysis({
         <div className="p-4 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-lg border border-purple-200 dark:border-purple-800">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-              Keyword Coverage
+              {hasImportance ? 'Weighted Keyword Coverage' : 'Keyword Coverage'}
             </span>
             <span className={`text-2xl font-bold ${getCoverageColor(coverage)}`}>
               {coverage}%
@@ -188,39 +230,48 @@ export default function EnhancedKeywordAnalysis({
           <h4 className="text-sm font-semibold text-red-700 dark:text-red-400">
             Missing Keywords ({activeMissingKeywords.length})
           </h4>
-          <div className="flex flex-wrap gap-2">
-            {missingKeywords.map((keyword) => {
-              const isDisabled = disabledKeywords.includes(keyword)
-              const isCustom = customKeywords.includes(keyword)
-              return (
-                <div
-                  key={keyword}
-                  className={`group relative flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
-                    isDisabled
-                      ? 'border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 line-through'
-                      : 'border-red-500 dark:border-red-600 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30'
-                  }`}
-                >
-                  <button
-                    onClick={() => onToggleKeyword(keyword)}
-                    className="flex-1"
-                    title={isDisabled ? 'Click to enable' : 'Click to disable'}
-                  >
-                    {keyword}
-                  </button>
-                  {isCustom && (
-                    <button
-                      onClick={() => onRemoveCustomKeyword(keyword)}
-                      className="ml-1 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
-                      title="Remove custom keyword"
+          {groupKeywords(missingKeywords).map(group => (
+            <div key={group.group} className="space-y-1">
+              {group.label && (
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  {group.label}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {group.keywords.map((keyword) => {
+                  const isDisabled = disabledKeywords.includes(keyword)
+                  const isCustom = customKeywords.includes(keyword)
+                  return (
+                    <div
+                      key={keyword}
+                      className={`group relative flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                        isDisabled
+                          ? 'border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 line-through'
+                          : 'border-red-500 dark:border-red-600 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30'
+                      }`}
                     >
-                      <X className="w-3 h-3" />
-                    </button>
-                  )}
-                </div>
-              )
-            })}
-          </div>
+                      <button
+                        onClick={() => onToggleKeyword(keyword)}
+                        className="flex-1"
+                        title={keywordTitle(keyword, isDisabled)}
+                      >
+                        {keyword}
+                      </button>
+                      {isCustom && (
+                        <button
+                          onClick={() => onRemoveCustomKeyword(keyword)}
+                          className="ml-1 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+                          title="Remove custom keyword"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
         </div>
       )}
 
@@ -230,40 +281,49 @@ export default function EnhancedKeywordAnalysis({
           <h4 className="text-sm font-semibold text-green-700 dark:text-green-400">
             Present Keywords ({activePresentKeywords.length})
           </h4>
-          <div className="flex flex-wrap gap-2">
-            {presentKeywords.map((keyword) => {
-              const isDisabled = disabledKeywords.includes(keyword)
-              const isCustom = customKeywords.includes(keyword)
-              return (
-                <div
-                  key={keyword}
-                  className={`group relative flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
-                    isDisabled
-                      ? 'border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 line-through'
-                      : 'border-green-500 dark:border-green-600 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30'
-                  }`}
-                >
-                  <button
-                    onClick={() => onToggleKeyword(keyword)}
-                    className="flex-1 flex items-center gap-1"
-                    title={isDisabled ? 'Click to enable' : 'Click to disable'}
-                  >
-                    {keyword}
-                    <Check className="w-3 h-3" />
-                  </button>
-                  {isCustom && (
-                    <button
-                      onClick={() => onRemoveCustomKeyword(keyword)}
-                      className="ml-1 text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300"
-                      title="Remove custom keyword"
+          {groupKeywords(presentKeywords).map(group => (
+            <div key={group.group} className="space-y-1">
+              {group.label && (
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  {group.label}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {group.keywords.map((keyword) => {
+                  const isDisabled = disabledKeywords.includes(keyword)
+                  const isCustom = customKeywords.includes(keyword)
+                  return (
+                    <div
+                      key={keyword}
+                      className={`group relative flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                        isDisabled
+                          ? 'border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600 line-through'
+                          : 'border-green-500 dark:border-green-600 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30'
+                      }`}
                     >
-                      <X className="w-3 h-3" />
-                    </button>
-                  )}
-                </div>
-              )
-            })}
-          </div>
+                      <button
+                        onClick={() => onToggleKeyword(keyword)}
+                        className="flex-1 flex items-center gap-1"
+                        title={keywordTitle(keyword, isDisabled)}
+                      >
+                        {keyword}
+                        <Check className="w-3 h-3" />
+                      </button>
+                      {isCustom && (
+                        <button
+                          onClick={() => onRemoveCustomKeyword(keyword)}
+                          className="ml-1 text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300"
+                          title="Remove custom keyword"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
         </div>
       )}
 
@@ -1,22 +1,44 @@
 'use client'
 
 import { useState } from 'react'
-import { Sparkles, FileText, X } from 'lucide-react'
+import { Sparkles, FileText, X, Square } from 'lucide-react'
+
+export interface OptimizationProgress {
+  step: number
+  totalSteps: number
+  message: string
+  bulletsCompleted: number
+  bulletsTotal: number
+  bulletsOptimized: number
+  tokensUsed: number
+}
 
 interface SimplifiedOptimizationControlsProps {
   onOptimize: () => void
   disabled?: boolean
   isOptimizing?: boolean
+  progress?: OptimizationProgress | null
+  onCancel?: () => void
   customInstructions?: string
   onCustomInstructionsChange?: (instructions: string) => void
+  reviewMode?: boolean
+  onReviewModeChange?: (reviewMode: boolean) => void
+  maxPages?: number                   // 0 = no page limit
+  onMaxPagesChange?: (maxPages: number) => void
 }
 
 export default function SimplifiedOptimizationControls({
   onOptimize,
   disabled = false,
   isOptimizing = false,
+  progress = null,
+  onCancel,
   customInstructions = '',
-  onCustomInstructionsChange
+  onCustomInstructionsChange,
+  reviewMode = false,
+  onReviewModeChange,
+  maxPages = 0,
+  onMaxPagesChange
 }: SimplifiedOptimizationControlsProps) {
   const [showCustomInstructions, setShowCustomInstructions] = useState(false)
 
@@ -56,8 +78,84 @@ export default function SimplifiedOptimizationControls({
             </>
           )}
         </button>
+
+        {/* Cancel Button */}
+        {isOptimizing && onCancel && (
+          <button
+            onClick={onCancel}
+            className="flex-shrink-0 flex items-center justify-center gap-2 px-4 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium text-sm shadow-md hover:shadow-lg transition-all"
+            title="Cancel optimization"
+          >
+            <Square className="w-4 h-4" />
+            <span className="hidden sm:inline">Cancel</span>
+          </button>
+        )}
       </div>
 
+      {/* Review Mode Toggle */}
+      {onReviewModeChange && (
+        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={reviewMode}
+            onChange={(e) => onReviewModeChange(e.target.checked)}
+            disabled={isOptimizing}
+            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Review each change before applying
+        </label>
+      )}
+
+      {/* Page Limit (LaTeX only - fitting needs a compiled PDF) */}
+      {onMaxPagesChange && (
+        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+          Page limit
+          <select
+            value={maxPages}
+            onChange={(e) => onMaxPagesChange(parseInt(e.target.value, 10))}
+            disabled={isOptimizing || reviewMode}
+            className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            title={reviewMode ? 'Not available in review mode' : 'Condense low-value bullets until the compiled resume fits'}
+          >
+            <option value={0}>None</option>
+            <option value={1}>Fit to 1 page</option>
+            <option value={2}>Fit to 2 pages</option>
+          </select>
+        </label>
+      )}
+
+      {/* Live Progress */}
+      {isOptimizing && progress && (
+        <div className="p-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg space-y-2">
+          <div className="flex items-center justify-between text-xs text-purple-900 dark:text-purple-300">
+            <span className="font-medium">
+              {progress.step > 0 ? `Step ${progress.step}/${progress.totalSteps}: ` : ''}{progress.message}
+            </span>
+            <span>{progress.tokensUsed.toLocaleString()} tokens</span>
+          </div>
+          <div className="w-full h-1.5 bg-purple-200 dark:bg-purple-900/40 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-purple-600 transition-all"
+              style={{ width: `${(progress.step / progress.totalSteps) * 100}%` }}
+            />
+          </div>
+          {progress.bulletsTotal > 0 && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-purple-800 dark:text-purple-300">
+                <span>Bullets: {progress.bulletsCompleted}/{progress.bulletsTotal}</span>
+                <span>{progress.bulletsOptimized} optimized</span>
+              </div>
+              <div className="w-full h-1.5 bg-blue-200 dark:bg-blue-900/40 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${(progress.bulletsCompleted / progress.bulletsTotal) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Custom Instructions Input */}
       {showCustomInstructions && (
         <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg space-y-3">
@@ -0,0 +1,44 @@
+/**
+ * ATS Report API Client
+ * Uploads an exported resume to /api/ats-report and returns the parse report
+ */
+
+import type { AtsReport } from '@/lib/ats/types';
+import type { KeywordAliasMap } from '@/lib/parsers/types';
+
+export interface AtsReportRequest {
+  file: Blob;
+  fileName: string;
+  sourceText?: string;
+  keywords?: string[];
+  keywordAliases?: KeywordAliasMap;
+}
+
+/**
+ * Run the ATS simulation on a PDF/DOCX
+ */
+export async function requestAtsReport(request: AtsReportRequest): Promise<AtsReport> {
+  const formData = new FormData();
+  formData.append('file', request.file, request.fileName);
+  if (request.sourceText) {
+    formData.append('sourceText', request.sourceText);
+  }
+  if (request.keywords && request.keywords.length > 0) {
+    formData.append('keywords', JSON.stringify(request.keywords));
+  }
+  if (request.keywordAliases && Object.keys(request.keywordAliases).length > 0) {
+    formData.append('keywordAliases', JSON.stringify(request.keywordAliases));
+  }
+
+  const response = await fetch('/api/ats-report', {
+    method: 'POST',
+    body: formData
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.report) {
+    throw new Error(data.error || 'Failed to run ATS check');
+  }
+
+  return data.report as AtsReport;
+}
@@ -0,0 +1,68 @@
+/**
+ * Chat API Client
+ * Calls /api/chat in streaming mode and folds its events into the live view
+ * of the reply (text so far, tool activity, cited lines)
+ */
+
+import type { ChatLiveTurn, ChatProgressEvent, ChatTurnResult } from '@/lib/parsers/types';
+import { streamNdjson } from './ndjson';
+
+/**
+ * Run one chat turn (body as documented on /api/chat). Resolves with the
+ * turn result; rejects on an `error` event, a non-OK response, or when
+ * `signal` aborts (AbortError).
+ */
+export async function streamChat(
+  body: Record<string, unknown>,
+  onEvent: (event: ChatProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<ChatTurnResult> {
+  return streamNdjson<ChatProgressEvent, ChatTurnResult>(
+    '/api/chat',
+    body,
+    onEvent,
+    signal,
+    'Failed to get response'
+  );
+}
+
+export const EMPTY_LIVE_TURN: ChatLiveTurn = { text: '', activity: [], step: 1 };
+
+/**
+ * Next live state after a streamed event
+ */
+export function applyChatProgressEvent(turn: ChatLiveTurn, event: ChatProgressEvent): ChatLiveTurn {
+  switch (event.type) {
+    case 'citations':
+      return { ...turn, citations: event.citations };
+
+    case 'text':
+      return { ...turn, text: turn.text + event.delta };
+
+    case 'tool_start':
+      // Text before a tool call is the model thinking aloud - the activity replaces it
+      return {
+        ...turn,
+        text: '',
+        step: event.step,
+        activity: [
+          ...turn.activity,
+          { id: `${event.step}-${turn.activity.length}`, step: event.step, tool: event.tool, args: event.args, status: 'running' }
+        ]
+      };
+
+    case 'tool_end': {
+      const index = turn.activity.map(item => item.status === 'running' && item.tool === event.tool).lastIndexOf(true);
+      if (index === -1) return turn;
+      const activity = [...turn.activity];
+      activity[index] = { ...activity[index], status: event.success ? 'done' : 'failed' };
+      return { ...turn, activity };
+    }
+
+    case 'step':
+      return { ...turn, step: Math.min(event.step + 1, event.maxSteps), maxSteps: event.maxSteps };
+
+    default:
+      return turn;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Cover Letter API Client
+ * Calls /api/cover-letter and restores dates on the returned letter
+ */
+
+import type { CoverLetter, TokenUsage } from '@/lib/parsers/types';
+
+/**
+ * Draft a cover letter (body as documented on /api/cover-letter)
+ */
+export async function requestCoverLetter(
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<{ coverLetter: CoverLetter; tokenUsage?: TokenUsage }> {
+  const response = await fetch('/api/cover-letter', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.coverLetter) {
+    throw new Error(data.details || data.error || 'Failed to draft cover letter');
+  }
+
+  return {
+    coverLetter: {
+      ...data.coverLetter,
+      createdAt: new Date(data.coverLetter.createdAt),
+      updatedAt: new Date(data.coverLetter.updatedAt)
+    },
+    tokenUsage: data.tokenUsage
+  };
+}
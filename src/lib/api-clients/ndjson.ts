@@ -0,0 +1,67 @@
+/**
+ * NDJSON streaming helper shared by the API clients
+ * Routes answer `stream: true` requests with one JSON event per line, ending
+ * with a `result` or `error` event
+ */
+
+/**
+ * POST with `stream: true` and read NDJSON events until the `result` event
+ */
+export async function streamNdjson<
+  E extends { type: string },
+  R
+>(
+  url: string,
+  body: Record<string, unknown>,
+  onEvent: (event: E) => void,
+  signal: AbortSignal | undefined,
+  fallbackError: string
+): Promise<R> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  });
+
+  // Validation errors are returned as plain JSON before streaming starts
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || fallbackError);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: R | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+
+    const event = JSON.parse(line) as E & { error?: string; details?: string; result?: R };
+    if (event.type === 'error') {
+      throw new Error(event.details ? `${event.error}: ${event.details}` : event.error);
+    }
+    if (event.type === 'result') {
+      result = event.result as R;
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+
+  if (!result) {
+    throw new Error(`${fallbackError}: the stream ended without a result`);
+  }
+
+  return result;
+}
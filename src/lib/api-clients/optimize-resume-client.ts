@@ -0,0 +1,49 @@
+/**
+ * Optimize Resume API Client
+ * Calls /api/optimize-resume and /api/optimize-batch in streaming mode and
+ * dispatches NDJSON progress events
+ */
+
+import type {
+  OptimizationProgressEvent,
+  ResumeOptimizationResult,
+  BatchProgressEvent,
+  BatchOptimizationResult
+} from '@/lib/parsers/types';
+import { streamNdjson } from './ndjson';
+
+/**
+ * Run a streaming optimization. Resolves with the final result; rejects on an
+ * `error` event, a non-OK response, or when `signal` aborts (AbortError).
+ */
+export async function streamOptimizeResume(
+  body: Record<string, unknown>,
+  onEvent: (event: OptimizationProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<ResumeOptimizationResult> {
+  return streamNdjson<OptimizationProgressEvent, ResumeOptimizationResult>(
+    '/api/optimize-resume',
+    body,
+    onEvent,
+    signal,
+    'Failed to optimize resume'
+  );
+}
+
+/**
+ * Run a streaming batch (one variant per job description). Same error and
+ * abort behaviour as streamOptimizeResume.
+ */
+export async function streamOptimizeBatch(
+  body: Record<string, unknown>,
+  onEvent: (event: BatchProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<BatchOptimizationResult> {
+  return streamNdjson<BatchProgressEvent, BatchOptimizationResult>(
+    '/api/optimize-batch',
+    body,
+    onEvent,
+    signal,
+    'Failed to run batch tailoring'
+  );
+}
@@ -0,0 +1,404 @@
+/**
+ * ATS Parse Checks - Problems an ATS runs into when reading extracted text
+ *
+ * Each check looks at the extraction (and optionally the source text the file
+ * was generated from) and returns zero or more issues.
+ */
+
+import { AtsExtraction, AtsIssue, AtsTextItem } from './types';
+import { KeywordNormalizer } from '@/lib/optimization/keyword-normalizer';
+
+const MAX_EXAMPLES = 5;
+
+// Column detection (PDF points)
+const ROW_TOLERANCE = 2;          // Runs within this vertical distance share a row
+const COLUMN_GAP_RATIO = 0.05;    // Horizontal gap (fraction of page width) that splits a row
+const COLUMN_ALIGN_TOLERANCE = 4; // Right-column runs start within this distance of each other
+const MIN_COLUMN_ROWS = 4;
+
+export const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+export const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}/;
+
+// Private use area (icon fonts), symbols, dingbats, emoji, replacement character
+const ICON_PATTERN = /[\uE000-\uF8FF\u2600-\u27BF\uFFFD]|[\u{F0000}-\u{FFFFD}\u{1F300}-\u{1FAFF}]/u;
+
+const DATE_PROBLEMS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /[A-Za-z]{3,9}\.?\s*['’‘]\d{2}\b/g, reason: 'two-digit year' },
+  {
+    pattern: /\b(?:19|20)\d{2}\s*[^\x00-\x7F\u2013\u2014\s]\s*(?:(?:19|20)\d{2}|present|current|now)\b/gi,
+    reason: 'range separator lost'
+  },
+  { pattern: /\b(?:19|20)\d{2}\s+(?:(?:19|20)\d{2}|present|current|now)\b/gi, reason: 'range without separator' },
+  { pattern: /[A-Za-z](?:19|20)\d{2}\b|\b(?:19|20)\d{2}[A-Za-z]{3,}/g, reason: 'date glued to text' }
+];
+
+const STANDARD_SECTIONS: Array<{ name: string; pattern: RegExp; required: boolean }> = [
+  {
+    name: 'Experience',
+    pattern: /^(?:work |professional |relevant )?(?:experience|employment(?: history)?|work history|career history)$/i,
+    required: true
+  },
+  {
+    name: 'Education',
+    pattern: /^(?:education|academic background)(?: (?:and|&) \w+)?$/i,
+    required: true
+  },
+  {
+    name: 'Skills',
+    pattern: /^(?:(?:technical|core|key) )?(?:skills|competencies|technologies)(?: (?:and|&) \w+)?$/i,
+    required: true
+  },
+  { name: 'Projects', pattern: /^(?:personal |selected |academic )?projects$/i, required: false },
+  { name: 'Summary', pattern: /^(?:professional )?(?:summary|profile|objective)$/i, required: false },
+  { name: 'Certifications', pattern: /^certifications?(?: (?:and|&) \w+)?$/i, required: false }
+];
+
+/**
+ * Nothing extractable (scanned image, text converted to outlines)
+ */
+export function checkTextPresent(extraction: AtsExtraction): AtsIssue[] {
+  if (extraction.text.trim().length >= 50) return [];
+  return [{
+    type: 'no_text',
+    severity: 'high',
+    message: 'Almost no text could be extracted. The file is probably an image or uses outlined fonts, so an ATS sees an empty resume.'
+  }];
+}
+
+/**
+ * Ligature glyphs ("ﬁ" as one character) and ligatures dropped entirely
+ * ("efficient" extracted as "ecient")
+ */
+export function checkLigatures(extraction: AtsExtraction, sourceText?: string): AtsIssue[] {
+  const issues: AtsIssue[] = [];
+
+  const glyphWords = unique(
+    (extraction.text.match(/\S*[\uFB00-\uFB06]\S*/g) || []).map(word => word.replace(/[^\p{L}\uFB00-\uFB06]/gu, ''))
+  );
+  if (glyphWords.length > 0) {
+    issues.push({
+      type: 'ligatures',
+      severity: 'medium',
+      message: `${glyphWords.length} word(s) contain ligature characters (ﬁ, ﬂ, ﬀ). Keyword search for these words fails unless the ATS normalizes them.`,
+      examples: glyphWords.slice(0, MAX_EXAMPLES)
+    });
+  }
+
+  const broken = sourceText ? findDroppedLigatures(sourceText, extraction.text) : [];
+  if (broken.length > 0) {
+    issues.push({
+      type: 'ligatures',
+      severity: 'high',
+      message: `${broken.length} word(s) lost their ligature letters during extraction.`,
+      examples: broken.slice(0, MAX_EXAMPLES).map(({ word, extracted }) => `${word} → ${extracted}`)
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Multi-column pages: a column boundary shared by many rows. Reading order
+ * is scrambled when the content stream alternates between the columns.
+ */
+export function checkColumns(extraction: AtsExtraction): AtsIssue[] {
+  if (extraction.format === 'docx') {
+    const { columns = 1, textBoxes = 0, tables = 0 } = extraction.layout;
+    const issues: AtsIssue[] = [];
+    if (columns > 1) {
+      issues.push({
+        type: 'multi_column',
+        severity: 'medium',
+        message: `The document uses a ${columns}-column section layout. Many ATS parsers read straight across the page and mix the columns.`
+      });
+    }
+    if (textBoxes > 0) {
+      issues.push({
+        type: 'multi_column',
+        severity: 'high',
+        message: `${textBoxes} text box(es) found. Text boxes are often skipped or appended out of order by ATS parsers.`
+      });
+    }
+    if (tables > 0) {
+      issues.push({
+        type: 'multi_column',
+        severity: 'low',
+        message: `${tables} table(s) found. Cells may be read row by row, merging unrelated text.`
+      });
+    }
+    return issues;
+  }
+
+  const issues: AtsIssue[] = [];
+  for (let page = 1; page <= extraction.pages; page++) {
+    const pageItems = extraction.items.filter(item => item.page === page);
+    const pageWidth = extraction.pageWidths[page - 1] || 612;
+    const boundary = findColumnBoundary(pageItems, pageWidth);
+    if (boundary === null) continue;
+
+    // Walk the runs in stream order and count jumps between columns;
+    // full-width runs (headers spanning the boundary) are ignored
+    let switches = 0;
+    let lastSide: 'left' | 'right' | null = null;
+    for (const item of pageItems) {
+      if (item.x < boundary && item.x + item.width > boundary + COLUMN_ALIGN_TOLERANCE) continue;
+      const side = item.x >= boundary - COLUMN_ALIGN_TOLERANCE ? 'right' : 'left';
+      if (lastSide && side !== lastSide) switches++;
+      lastSide = side;
+    }
+
+    if (switches >= MIN_COLUMN_ROWS) {
+      const merged = groupRows(pageItems)
+        .filter(row => row.some(i => i.x < boundary - COLUMN_ALIGN_TOLERANCE) &&
+          row.some(i => i.x >= boundary - COLUMN_ALIGN_TOLERANCE))
+        .map(row => row.map(i => i.text).join('').trim());
+      issues.push({
+        type: 'multi_column',
+        severity: 'high',
+        message: `Page ${page} has two columns and the text is read across them, so lines from both columns are merged.`,
+        examples: merged.slice(0, MAX_EXAMPLES),
+        page
+      });
+    } else {
+      issues.push({
+        type: 'multi_column',
+        severity: 'medium',
+        message: `Page ${page} has a two-column layout. This file reads column by column, but parsers that read straight across the page will mix the columns.`,
+        page
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Icon glyphs in place of readable text, and contact details an ATS cannot find
+ */
+export function checkContactInfo(extraction: AtsExtraction, sourceText?: string): AtsIssue[] {
+  const issues: AtsIssue[] = [];
+  const text = extraction.text;
+
+  const icons = Array.from(text.matchAll(new RegExp(ICON_PATTERN.source, 'gu')));
+  if (icons.length > 0) {
+    issues.push({
+      type: 'icons',
+      severity: 'medium',
+      message: `${icons.length} icon glyph(s) come out as unreadable characters. Label contact details with words ("Email:", "Phone:") instead of icons.`,
+      examples: unique(icons.map(match => excerpt(text, match.index || 0, match[0].length))).slice(0, MAX_EXAMPLES)
+    });
+  }
+
+  const headerText = extraction.layout.headerText || '';
+  const fields: Array<{ label: string; pattern: RegExp }> = [
+    { label: 'email address', pattern: EMAIL_PATTERN },
+    { label: 'phone number', pattern: PHONE_PATTERN }
+  ];
+
+  for (const { label, pattern } of fields) {
+    if (pattern.test(text)) continue;
+
+    if (pattern.test(headerText)) {
+      issues.push({
+        type: 'contact_info',
+        severity: 'medium',
+        message: `The ${label} is in the page header/footer. Many ATS parsers skip headers and footers.`,
+        examples: [headerText.match(pattern)![0]]
+      });
+    } else if (sourceText && pattern.test(sourceText)) {
+      issues.push({
+        type: 'contact_info',
+        severity: 'high',
+        message: `The ${label} in the resume is missing from the extracted text (rendered as an icon or link only?).`,
+        examples: [sourceText.match(pattern)![0]]
+      });
+    } else {
+      issues.push({
+        type: 'contact_info',
+        severity: label === 'email address' ? 'high' : 'low',
+        message: `No ${label} found in the extracted text.`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Dates an ATS cannot turn into employment periods
+ */
+export function checkDates(extraction: AtsExtraction): AtsIssue[] {
+  const examples: string[] = [];
+  const reasons = new Set<string>();
+
+  for (const { pattern, reason } of DATE_PROBLEMS) {
+    for (const match of Array.from(extraction.text.matchAll(pattern))) {
+      reasons.add(reason);
+      examples.push(excerpt(extraction.text, match.index || 0, match[0].length));
+    }
+  }
+
+  if (examples.length === 0) return [];
+  return [{
+    type: 'dates',
+    severity: 'medium',
+    message: `${examples.length} date(s) may not parse (${Array.from(reasons).join(', ')}). Use "Jan 2020 – Present" or "01/2020 – 03/2022".`,
+    examples: unique(examples).slice(0, MAX_EXAMPLES)
+  }];
+}
+
+/**
+ * Standard section headers ATS parsers use to split the resume
+ */
+export function checkSectionHeaders(extraction: AtsExtraction): { issues: AtsIssue[]; sectionsFound: string[] } {
+  const issues: AtsIssue[] = [];
+  const found = new Set<string>();
+  const spaced: string[] = [];
+
+  for (const rawLine of extraction.text.split('\n')) {
+    const line = rawLine.trim().replace(/:$/, '').replace(/\s+/g, ' ');
+    if (!line || line.length > 60) continue;
+
+    // "E X P E R I E N C E" (letter-spaced headings)
+    const isSpaced = /^(?:\p{L} ){2,}\p{L}$/u.test(line);
+    const heading = isSpaced ? line.replace(/ /g, '') : line;
+
+    const section = STANDARD_SECTIONS.find(s => s.pattern.test(heading));
+    if (!section) continue;
+    found.add(section.name);
+    if (isSpaced) spaced.push(line);
+  }
+
+  const missing = STANDARD_SECTIONS.filter(s => s.required && !found.has(s.name)).map(s => s.name);
+  if (missing.length > 0) {
+    issues.push({
+      type: 'section_headers',
+      severity: missing.includes('Experience') ? 'high' : 'medium',
+      message: `No standard ${missing.map(name => `"${name}"`).join(', ')} section header found. ATS parsers rely on conventional headers to split the resume into sections.`
+    });
+  }
+
+  if (spaced.length > 0) {
+    issues.push({
+      type: 'section_headers',
+      severity: 'low',
+      message: 'Letter-spaced headers are extracted with a space between every letter.',
+      examples: spaced.slice(0, MAX_EXAMPLES)
+    });
+  }
+
+  return { issues, sectionsFound: Array.from(found) };
+}
+
+/**
+ * Keywords visible in the source but absent from the extracted text
+ */
+export function checkLostKeywords(
+  extraction: AtsExtraction,
+  sourceText: string,
+  keywords: string[],
+  normalizer: KeywordNormalizer
+): { issues: AtsIssue[]; checked: number; lost: string[] } {
+  const present = keywords.filter(keyword => normalizer.containsKeyword(sourceText, keyword));
+  const lost = present.filter(keyword => !normalizer.containsKeyword(extraction.text, keyword));
+
+  const issues: AtsIssue[] = lost.length > 0
+    ? [{
+      type: 'lost_keywords',
+      severity: 'high',
+      message: `${lost.length} of ${present.length} keyword(s) in the resume cannot be found in the extracted text.`,
+      examples: lost.slice(0, MAX_EXAMPLES * 2)
+    }]
+    : [];
+
+  return { issues, checked: present.length, lost };
+}
+
+/**
+ * Words of the source that do not survive extraction at all
+ */
+export function checkLostText(extraction: AtsExtraction, sourceText: string): AtsIssue[] {
+  const extractedWords = new Set(wordsOf(extraction.text.normalize('NFKC')));
+  const dropped = new Set(findDroppedLigatures(sourceText, extraction.text).map(({ word }) => word));
+  const sourceWords = unique(wordsOf(sourceText));
+  if (sourceWords.length === 0) return [];
+
+  const missing = sourceWords.filter(word => !extractedWords.has(word) && !dropped.has(word));
+  if (missing.length < 5 || missing.length / sourceWords.length < 0.08) return [];
+
+  return [{
+    type: 'lost_text',
+    severity: 'medium',
+    message: `${missing.length} of ${sourceWords.length} distinct words in the resume are missing from the extracted text.`,
+    examples: missing.slice(0, MAX_EXAMPLES * 2)
+  }];
+}
+
+/**
+ * Rows of runs sharing a baseline, each sorted left to right
+ */
+function groupRows(items: AtsTextItem[]): AtsTextItem[][] {
+  const rows: Array<{ y: number; items: AtsTextItem[] }> = [];
+  for (const item of items) {
+    if (!item.text.trim()) continue;
+    const row = rows.find(r => Math.abs(r.y - item.y) <= ROW_TOLERANCE);
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y: item.y, items: [item] });
+    }
+  }
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map(row => row.items.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * X position of a second column: many rows split by a wide gap whose right
+ * part starts at the same x. Right-aligned dates and locations start at
+ * varying x, so they do not form a boundary.
+ */
+function findColumnBoundary(items: AtsTextItem[], pageWidth: number): number | null {
+  const starts: number[] = [];
+
+  for (const row of groupRows(items)) {
+    for (let i = 1; i < row.length; i++) {
+      const gap = row[i].x - (row[i - 1].x + row[i - 1].width);
+      if (gap > pageWidth * COLUMN_GAP_RATIO && row[i].x > pageWidth * 0.25 && row[i].x < pageWidth * 0.75) {
+        starts.push(row[i].x);
+        break;
+      }
+    }
+  }
+  if (starts.length < MIN_COLUMN_ROWS) return null;
+
+  const sorted = [...starts].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const aligned = starts.filter(x => Math.abs(x - median) <= COLUMN_ALIGN_TOLERANCE);
+  return aligned.length >= MIN_COLUMN_ROWS ? Math.min(...aligned) : null;
+}
+
+/**
+ * Source words with ff/fi/fl whose extracted form lost those letters
+ */
+function findDroppedLigatures(sourceText: string, extractedText: string): Array<{ word: string; extracted: string }> {
+  const extractedWords = new Set(wordsOf(extractedText, 2));
+  return unique(wordsOf(sourceText))
+    .filter(word => /f[fil]/.test(word) && !extractedWords.has(word))
+    .map(word => ({ word, extracted: word.replace(/ff[il]|f[fil]/g, '') }))
+    .filter(({ extracted }) => extracted.length >= 2 && extractedWords.has(extracted));
+}
+
+function wordsOf(text: string, minLength = 4): string[] {
+  return text.toLowerCase().match(new RegExp(`[a-z]{${minLength},}`, 'g')) || [];
+}
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 15);
+  const end = Math.min(text.length, index + length + 15);
+  return text.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,137 @@
+/**
+ * ATS Simulation Module - Parse an exported resume the way an ATS does
+ *
+ * Extracts plain text from the PDF/DOCX with a naive parser (no layout
+ * analysis) and reports what gets lost or garbled: ligatures, column
+ * reading order, icon glyphs, contact details, dates, section headers and
+ * keywords that are visible in the source but missing from the extraction.
+ */
+
+import { AtsIssue, AtsReport, AtsSimulationInput, AtsIssueSeverity } from './types';
+import { detectAtsFormat, extractForAts } from './extract';
+import {
+  checkTextPresent,
+  checkLigatures,
+  checkColumns,
+  checkContactInfo,
+  checkDates,
+  checkSectionHeaders,
+  checkLostKeywords,
+  checkLostText,
+  EMAIL_PATTERN,
+  PHONE_PATTERN
+} from './checks';
+import { stripLatex } from '@/lib/resume-model';
+import { createKeywordNormalizer } from '@/lib/optimization/keyword-normalizer';
+
+export * from './types';
+export { detectAtsFormat, extractForAts } from './extract';
+
+const SEVERITY_PENALTY: Record<AtsIssueSeverity, number> = {
+  high: 20,
+  medium: 10,
+  low: 5
+};
+
+const SEVERITY_ORDER: AtsIssueSeverity[] = ['high', 'medium', 'low'];
+
+export class AtsSimulationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AtsSimulationError';
+  }
+}
+
+/**
+ * Run the simulation and build the report
+ */
+export async function runAtsSimulation(input: AtsSimulationInput): Promise<AtsReport> {
+  const format = detectAtsFormat(input.fileName, input.mimeType);
+  if (!format) {
+    throw new AtsSimulationError('Unsupported file type. Upload a PDF or DOCX file.');
+  }
+
+  console.info(`[ATS_SIMULATOR] Extracting ${format.toUpperCase()} text from ${input.fileName}`);
+
+  let extraction;
+  try {
+    extraction = await extractForAts(input.buffer, format);
+  } catch (error) {
+    console.error('[ATS_SIMULATOR] Extraction failed:', error);
+    throw new AtsSimulationError(
+      `Could not read the ${format.toUpperCase()} file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      422
+    );
+  }
+
+  const sourceText = input.sourceText ? toPlainSource(input.sourceText) : undefined;
+  const keywords = input.keywords || [];
+  const normalizer = createKeywordNormalizer(input.keywordAliases);
+
+  const issues: AtsIssue[] = [...checkTextPresent(extraction)];
+  let sectionsFound: string[] = [];
+  let keywordsChecked = 0;
+  let keywordsLost: string[] = [];
+
+  if (issues.length === 0) {
+    issues.push(...checkLigatures(extraction, sourceText));
+    issues.push(...checkColumns(extraction));
+    issues.push(...checkContactInfo(extraction, sourceText));
+    issues.push(...checkDates(extraction));
+
+    const sections = checkSectionHeaders(extraction);
+    issues.push(...sections.issues);
+    sectionsFound = sections.sectionsFound;
+
+    if (sourceText) {
+      if (keywords.length > 0) {
+        const keywordCheck = checkLostKeywords(extraction, sourceText, keywords, normalizer);
+        issues.push(...keywordCheck.issues);
+        keywordsChecked = keywordCheck.checked;
+        keywordsLost = keywordCheck.lost;
+      }
+      issues.push(...checkLostText(extraction, sourceText));
+    }
+  }
+
+  issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const score = Math.max(0, 100 - issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0));
+
+  console.info(`[ATS_SIMULATOR] Score ${score}: ${issues.length} issues (${issues.filter(i => i.severity === 'high').length} high)`);
+
+  return {
+    score,
+    format,
+    pages: extraction.pages,
+    wordCount: (extraction.text.match(/\S+/g) || []).length,
+    extractedText: extraction.text,
+    issues,
+    sectionsFound,
+    contact: {
+      email: extraction.text.match(EMAIL_PATTERN)?.[0],
+      phone: extraction.text.match(PHONE_PATTERN)?.[0]
+    },
+    keywordsChecked,
+    keywordsLost,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Visible text of the source: LaTeX documents are reduced to the body with
+ * comments and markup removed, plain text is returned as is
+ */
+function toPlainSource(sourceText: string): string {
+  if (!/\\(?:documentclass|begin\{document\}|section|textbf|item)\b/.test(sourceText)) {
+    return sourceText;
+  }
+
+  const body = sourceText.match(/\\begin\{document\}([\s\S]*?)(?:\\end\{document\}|$)/)?.[1] ?? sourceText;
+  return body
+    .split('\n')
+    .map(line => line.replace(/(^|[^\\])%.*$/, '$1'))
+    .map(line => line.replace(/\\(?:begin|end|vspace|hspace|label|setlength|addtolength)\*?(?:\[[^\]]*\])?\{[^{}]*\}/g, ' '))
+    .map(stripLatex)
+    .filter(line => line.length > 0)
+    .join('\n');
+}
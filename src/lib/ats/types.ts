@@ -0,0 +1,82 @@
+/**
+ * ATS Simulation Types - Extraction result and parse report
+ */
+
+import type { KeywordAliasMap } from '@/lib/parsers/types';
+
+export type AtsFileFormat = 'pdf' | 'docx';
+
+export type AtsIssueSeverity = 'high' | 'medium' | 'low';
+
+export type AtsIssueType =
+  | 'no_text'
+  | 'ligatures'
+  | 'multi_column'
+  | 'icons'
+  | 'contact_info'
+  | 'dates'
+  | 'section_headers'
+  | 'lost_keywords'
+  | 'lost_text';
+
+/**
+ * Positioned text run from a PDF content stream (PDF points, origin bottom-left)
+ */
+export interface AtsTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  page: number;
+}
+
+/**
+ * What an ATS "sees" after plain text extraction
+ */
+export interface AtsExtraction {
+  format: AtsFileFormat;
+  text: string;              // Extracted text in reading (content-stream) order
+  pages: number;
+  items: AtsTextItem[];      // PDF only, in content-stream order
+  pageWidths: number[];      // PDF only, indexed by page - 1
+  layout: {                  // DOCX only: structures ATS parsers commonly flatten or skip
+    columns?: number;
+    textBoxes?: number;
+    tables?: number;
+    headerText?: string;     // Text placed in page headers/footers
+  };
+}
+
+export interface AtsIssue {
+  type: AtsIssueType;
+  severity: AtsIssueSeverity;
+  message: string;
+  examples?: string[];       // Short excerpts of the extracted text showing the problem
+  page?: number;
+}
+
+export interface AtsReport {
+  score: number;             // 0-100, 100 = nothing found
+  format: AtsFileFormat;
+  pages: number;
+  wordCount: number;
+  extractedText: string;
+  issues: AtsIssue[];
+  sectionsFound: string[];
+  contact: {
+    email?: string;
+    phone?: string;
+  };
+  keywordsChecked: number;
+  keywordsLost: string[];
+  generatedAt: string;
+}
+
+export interface AtsSimulationInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+  sourceText?: string;       // Resume text before export (plain or LaTeX) to compare against
+  keywords?: string[];       // JD keywords expected to survive extraction
+  keywordAliases?: KeywordAliasMap;
+}
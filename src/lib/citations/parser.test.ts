@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseCitations } from './parser';
+
+describe('parseCitations', () => {
+  it('parses line, range and page citations', () => {
+    const citations = parseCitations('Rewrite @l3, @line5-7 and everything on @p2');
+    expect(citations.map(c => [c.type, c.reference, c.lineNumbers])).toEqual([
+      ['range', '@line5-7', [5, 6, 7]],
+      ['line', '@l3', [3]],
+      ['page', '@p2', []]
+    ]);
+  });
+
+  it('skips lines inside a cited range and duplicate citations', () => {
+    const citations = parseCitations('@l2-4 @l3 @l3 @l9 @line9');
+    expect(citations.map(c => c.reference)).toEqual(['@l2-4', '@l9']);
+  });
+
+  it('ignores reversed ranges', () => {
+    expect(parseCitations('@l7-5').filter(c => c.type === 'range')).toEqual([]);
+  });
+
+  it('parses structural citations with bare and quoted targets', () => {
+    const citations = parseCitations('Tighten @section:experience and @bullets:"Open Source", then add @kw:"CI/CD" and @kw:Kubernetes.');
+    expect(citations.map(c => [c.type, c.target])).toEqual([
+      ['section', 'experience'],
+      ['bullets', 'Open Source'],
+      ['keyword', 'CI/CD'],
+      ['keyword', 'Kubernetes']
+    ]);
+  });
+
+  it('ties a bare @item to the section cited before it', () => {
+    const citations = parseCitations('In @section:projects, shorten @item:2 and @item:3; also @item:education:1');
+    expect(citations.filter(c => c.type === 'item').map(c => [c.target, c.itemIndex])).toEqual([
+      ['projects', 2],
+      ['projects', 3],
+      ['education', 1]
+    ]);
+  });
+
+  it('returns nothing for messages without citations', () => {
+    expect(parseCitations('Email me at jane@example.com')).toEqual([]);
+  });
+});
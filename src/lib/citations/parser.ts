@@ -1,16 +1,42 @@
 /**
- * Citation Parser - Extracts @line, @page, and @range citations from text
+ * Citation Parser - Extracts @line, @page, and @range citations from text,
+ * plus structural citations (@section, @item, @bullets, @kw) that the
+ * resolver expands against the document's sections
  */
 
 import { Citation } from '../parsers/types';
 
-// Citation patterns
+// Citation patterns (section names and keywords may be quoted)
 const CITATION_PATTERNS = {
   line: /@(?:line|l)(\d+)/gi,           // @line10 or @l10
   range: /@(?:line|l)(\d+)-(\d+)/gi,    // @l5-10 or @line5-10
-  page: /@(?:page|p)(\d+)/gi            // @page3 or @p3
+  page: /@(?:page|p)(\d+)/gi,           // @page3 or @p3
+  section: /@section:(?:"([^"]+)"|([\w&/+-]+))/gi,                  // @section:experience or @section:"Open Source"
+  item: /@item:(?:(?:"([^"]+)"|([A-Za-z][\w&/+-]*)):)?(\d+)/gi,     // @item:2 or @item:projects:2
+  bullets: /@bullets:(?:"([^"]+)"|([\w&/+-]+))/gi,                  // @bullets:projects
+  keyword: /@kw:(?:"([^"]+)"|([^\s,;!?()"]*[^\s,;!?()".:]))/gi      // @kw:Kubernetes or @kw:"CI/CD"
+};
+
+// Order for matching several kinds at once (ranges before single lines)
+const CITATION_TYPES: Array<Citation['type']> = ['range', 'line', 'page', 'section', 'item', 'bullets', 'keyword'];
+
+const CITATION_LABELS: Record<Citation['type'], string> = {
+  line: 'Line',
+  range: 'Line range',
+  page: 'Page',
+  section: 'Section',
+  item: 'Item of a section',
+  bullets: 'Bullets of a section',
+  keyword: 'Lines mentioning a keyword'
 };
 
+/**
+ * Quoted or bare target of a structural citation (a bare one loses trailing punctuation)
+ */
+function citationTarget(quoted: string | undefined, bare: string | undefined): string {
+  return quoted !== undefined ? quoted.trim() : (bare || '').replace(/[.:]+$/, '');
+}
+
 /**
  * Parses citations from a message
  */
@@ -100,6 +126,54 @@ export function parseCitations(message: string): Citation[] {
       }
     }
 
+    // Parse structural citations - the resolver fills in their lines
+    const structural: Array<{ index: number; citation: Citation }> = [];
+
+    (['section', 'bullets', 'keyword'] as const).forEach(type => {
+      const pattern = new RegExp(CITATION_PATTERNS[type]);
+      let structuralMatch;
+
+      while ((structuralMatch = pattern.exec(message)) !== null) {
+        const target = citationTarget(structuralMatch[1], structuralMatch[2]);
+        const key = `${type}:${target.toLowerCase()}`;
+        if (target && !processed.has(key)) {
+          structural.push({
+            index: structuralMatch.index,
+            citation: { type, reference: structuralMatch[0], target, lineNumbers: [], resolvedContent: '' }
+          });
+          processed.add(key);
+          console.info(`[CITATION_PARSER] Found ${type} citation: ${structuralMatch[0]}`);
+        }
+      }
+    });
+
+    const itemPattern = new RegExp(CITATION_PATTERNS.item);
+
+    while ((match = itemPattern.exec(message)) !== null) {
+      const itemIndex = parseInt(match[3], 10);
+      const position = match.index;
+
+      // "@item:2" belongs to the section cited before it (the resolver defaults to Experience)
+      const named = match[1] !== undefined || match[2] !== undefined
+        ? citationTarget(match[1], match[2])
+        : undefined;
+      const target = named ?? structural
+        .filter(s => s.index < position && s.citation.type !== 'keyword')
+        .sort((a, b) => b.index - a.index)[0]?.citation.target;
+
+      const key = `item:${(target || '').toLowerCase()}:${itemIndex}`;
+      if (itemIndex > 0 && !processed.has(key)) {
+        structural.push({
+          index: position,
+          citation: { type: 'item', reference: match[0], target, itemIndex, lineNumbers: [], resolvedContent: '' }
+        });
+        processed.add(key);
+        console.info(`[CITATION_PARSER] Found item citation: ${match[0]}`);
+      }
+    }
+
+    citations.push(...structural.sort((a, b) => a.index - b.index).map(s => s.citation));
+
     console.info(`[CITATION_PARSER] Parsed ${citations.length} citations`);
 
     return citations;
@@ -152,34 +226,47 @@ export function hasCitations(message: string): boolean {
 }
 
 /**
- * Highlights citations in text for display (wraps in special markers)
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Highlights citations in text for display: the text is HTML-escaped and
+ * each citation becomes a <cite class="citation-chip"> chip
  */
 export function highlightCitations(message: string): string {
   try {
-    let highlighted = message;
-
-    // Highlight ranges
-    highlighted = highlighted.replace(
-      CITATION_PATTERNS.range,
-      '<cite>$&</cite>'
+    const combined = new RegExp(
+      CITATION_TYPES.map(type => `(?:${CITATION_PATTERNS[type].source})`).join('|'),
+      'gi'
     );
 
-    // Highlight single lines
-    highlighted = highlighted.replace(
-      CITATION_PATTERNS.line,
-      '<cite>$&</cite>'
-    );
+    let highlighted = '';
+    let lastIndex = 0;
+    let match;
 
-    // Highlight pages
-    highlighted = highlighted.replace(
-      CITATION_PATTERNS.page,
-      '<cite>$&</cite>'
-    );
+    while ((match = combined.exec(message)) !== null) {
+      const reference = match[0];
+      const type = CITATION_TYPES.find(t =>
+        new RegExp(`^(?:${CITATION_PATTERNS[t].source})$`, 'i').test(reference)
+      ) || 'line';
+
+      highlighted += escapeHtml(message.slice(lastIndex, match.index));
+      highlighted += `<cite class="citation-chip citation-${type}" title="${CITATION_LABELS[type]}">${escapeHtml(reference)}</cite>`;
+      lastIndex = match.index + reference.length;
+    }
 
-    return highlighted;
+    return highlighted + escapeHtml(message.slice(lastIndex));
 
   } catch (error) {
     console.error('[CITATION_PARSER] Error highlighting citations:', error);
-    return message;
+    return escapeHtml(message);
   }
 }
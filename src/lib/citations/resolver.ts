@@ -1,13 +1,50 @@
 /**
  * Citation Resolver - Resolves citations to actual document content
+ *
+ * Structural citations are expanded against the document outline
+ * (parsers/structure), so they keep pointing at the right lines after edits
+ * shift the line numbers.
  */
 
-import { Citation, Document, Line } from '../parsers/types';
+import { Citation, Document, DocumentOutlineSection, Line } from '../parsers/types';
+import { getDocumentOutline, matchSection } from '../parsers/structure';
+
+const STRUCTURAL_TYPES: Array<Citation['type']> = ['section', 'item', 'bullets'];
+
+/**
+ * "Line N: text" per line
+ */
+function formatLines(lines: Line[]): string {
+  return lines.map(l => `Line ${l.lineNumber}: ${l.text}`).join('\n');
+}
+
+/**
+ * Section a structural citation names, with a not-found message listing the sections
+ */
+function resolveSection(
+  name: string | undefined,
+  outline: DocumentOutlineSection[]
+): { section: DocumentOutlineSection | null; missing: string } {
+  // @item without a section means the work history
+  const section = name
+    ? matchSection(outline, name)
+    : matchSection(outline, 'experience') ?? outline.find(s => s.items.length > 0) ?? null;
+
+  const available = outline.length > 0 ? outline.map(s => s.title).join(', ') : 'none found';
+  return {
+    section,
+    missing: `Section "${name || 'experience'}": [Not found] (sections: ${available})`
+  };
+}
 
 /**
  * Resolves a single citation to document content
  */
-function resolveSingleCitation(citation: Citation, document: Document): Citation {
+function resolveSingleCitation(
+  citation: Citation,
+  document: Document,
+  outline: DocumentOutlineSection[]
+): Citation {
   try {
     const resolvedCitation = { ...citation };
 
@@ -76,6 +113,83 @@ function resolveSingleCitation(citation: Citation, document: Document): Citation
         break;
       }
 
+      case 'section': {
+        const { section, missing } = resolveSection(citation.target, outline);
+        if (!section) {
+          resolvedCitation.resolvedContent = missing;
+          console.warn(`[CITATION_RESOLVER] Section "${citation.target}" not found in document`);
+          break;
+        }
+
+        const lines = document.lines.filter(l => l.lineNumber >= section.startLine && l.lineNumber <= section.endLine);
+        resolvedCitation.lineNumbers = lines.map(l => l.lineNumber);
+        resolvedCitation.resolvedContent = `Section "${section.title}" (lines ${section.startLine}-${section.endLine}):\n${formatLines(lines)}`;
+        console.info(`[CITATION_RESOLVER] Resolved section "${section.title}" (${lines.length} lines)`);
+        break;
+      }
+
+      case 'item': {
+        const { section, missing } = resolveSection(citation.target, outline);
+        if (!section) {
+          resolvedCitation.resolvedContent = missing;
+          console.warn(`[CITATION_RESOLVER] Section "${citation.target}" not found for ${citation.reference}`);
+          break;
+        }
+
+        const itemIndex = citation.itemIndex || 1;
+        const item = section.items[itemIndex - 1];
+        if (!item) {
+          resolvedCitation.resolvedContent = `Item ${itemIndex} of "${section.title}": [Not found] (the section has ${section.items.length} item(s))`;
+          console.warn(`[CITATION_RESOLVER] Item ${itemIndex} not found in "${section.title}"`);
+          break;
+        }
+
+        const lines = document.lines.filter(l => l.lineNumber >= item.startLine && l.lineNumber <= item.endLine);
+        resolvedCitation.lineNumbers = lines.map(l => l.lineNumber);
+        resolvedCitation.resolvedContent = `Item ${itemIndex} of "${section.title}" (lines ${item.startLine}-${item.endLine}):\n${formatLines(lines)}`;
+        console.info(`[CITATION_RESOLVER] Resolved item ${itemIndex} of "${section.title}" (${lines.length} lines)`);
+        break;
+      }
+
+      case 'bullets': {
+        const { section, missing } = resolveSection(citation.target, outline);
+        if (!section) {
+          resolvedCitation.resolvedContent = missing;
+          console.warn(`[CITATION_RESOLVER] Section "${citation.target}" not found in document`);
+          break;
+        }
+
+        const bulletLines = new Set(section.items.flatMap(item => item.bulletLines));
+        const lines = document.lines.filter(l => bulletLines.has(l.lineNumber));
+        if (lines.length === 0) {
+          resolvedCitation.resolvedContent = `Bullets of "${section.title}": [No bullets found]`;
+          console.warn(`[CITATION_RESOLVER] No bullets in "${section.title}"`);
+          break;
+        }
+
+        resolvedCitation.lineNumbers = lines.map(l => l.lineNumber);
+        resolvedCitation.resolvedContent = `Bullets of "${section.title}":\n${formatLines(lines)}`;
+        console.info(`[CITATION_RESOLVER] Resolved ${lines.length} bullets of "${section.title}"`);
+        break;
+      }
+
+      case 'keyword': {
+        const keyword = citation.target || '';
+        const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const pattern = new RegExp(`(^|[^A-Za-z0-9])${escaped}($|[^A-Za-z0-9])`, 'i');
+        const lines = keyword ? document.lines.filter(l => pattern.test(l.text)) : [];
+
+        if (lines.length > 0) {
+          resolvedCitation.lineNumbers = lines.map(l => l.lineNumber);
+          resolvedCitation.resolvedContent = `Lines mentioning "${keyword}":\n${formatLines(lines)}`;
+          console.info(`[CITATION_RESOLVER] Resolved keyword "${keyword}" (${lines.length} lines)`);
+        } else {
+          resolvedCitation.resolvedContent = `Lines mentioning "${keyword}": [Not found]`;
+          console.warn(`[CITATION_RESOLVER] Keyword "${keyword}" not found in document`);
+        }
+        break;
+      }
+
       default:
         resolvedCitation.resolvedContent = '[Unknown citation type]';
         console.error(`[CITATION_RESOLVER] Unknown citation type: ${citation.type}`);
@@ -110,8 +224,13 @@ export function resolveCitations(
       }));
     }
 
+    // Build the outline only when a citation needs it
+    const outline = citations.some(c => STRUCTURAL_TYPES.includes(c.type))
+      ? getDocumentOutline(document)
+      : [];
+
     const resolved = citations.map(citation =>
-      resolveSingleCitation(citation, document)
+      resolveSingleCitation(citation, document, outline)
     );
 
     console.info('[CITATION_RESOLVER] All citations resolved');
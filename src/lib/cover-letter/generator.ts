@@ -0,0 +1,287 @@
+/**
+ * Cover Letter Generator
+ *
+ * Drafts a cover letter from the parsed resume, the job description, its
+ * keyword analysis and the projects/portfolio context files:
+ * - the model writes the body paragraphs only (one call)
+ * - sender, date, recipient, salutation and closing are assembled locally
+ *   from the resume header and the chosen options
+ * - JD keywords the resume already covers are preferred; missing keywords are
+ *   only mentioned when the context backs them
+ */
+
+import {
+  CoverLetter,
+  CoverLetterLength,
+  CoverLetterOptions,
+  CoverLetterTone,
+  KeywordAnalysis,
+  KeywordAliasMap
+} from '@/lib/parsers/types';
+import type { Resume } from '@/types/resume';
+import { stripLatex } from '@/lib/resume-model';
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { LLMProvider, isAbortError } from '@/lib/llm';
+import { createKeywordNormalizer } from '@/lib/optimization/keyword-normalizer';
+
+export interface CoverLetterInput {
+  resume?: Resume;
+  resumeContent?: string;     // Plain text when no parsed resume is available
+  jobDescription: string;
+  keywordAnalysis?: Pick<KeywordAnalysis, 'jdKeywords' | 'resumeKeywords' | 'missingKeywords' | 'keywordImportance'>;
+  projects?: string;
+  portfolio?: string;
+  options: CoverLetterOptions;
+  keywordAliases?: KeywordAliasMap;
+}
+
+const LENGTH_TARGETS: Record<CoverLetterLength, { words: string; paragraphs: number }> = {
+  short: { words: '150-200', paragraphs: 3 },
+  medium: { words: '250-320', paragraphs: 4 },
+  long: { words: '380-450', paragraphs: 5 }
+};
+
+const TONE_GUIDES: Record<CoverLetterTone, string> = {
+  professional: 'Formal and measured. Confident, no exclamation marks, no slang.',
+  enthusiastic: 'Energetic and warm. Show genuine excitement about the company and role without sounding exaggerated.',
+  conversational: 'Plain-spoken and personable, as if writing to a colleague. Short sentences, still polished.'
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/;
+
+/**
+ * Cover Letter Generator class
+ */
+export class CoverLetterGenerator {
+  private llm: LLMProvider;
+  private sessionId: string;
+  private signal?: AbortSignal;
+
+  constructor(llm: LLMProvider, sessionId: string, signal?: AbortSignal) {
+    this.llm = llm;
+    this.sessionId = sessionId;
+    this.signal = signal;
+  }
+
+  /**
+   * Draft a cover letter
+   */
+  async generate(input: CoverLetterInput): Promise<CoverLetter> {
+    const { options } = input;
+    console.info(`[COVER_LETTER] Drafting ${options.length} ${options.tone} cover letter`);
+
+    const resumeText = this.getResumeText(input);
+    if (!resumeText.trim()) {
+      throw new Error('Resume content is required');
+    }
+
+    const startTime = Date.now();
+    const tracker = getTokenTracker();
+    const prompt = this.buildPrompt(input, resumeText);
+
+    let text: string;
+    try {
+      text = await this.llm.generate(prompt, { signal: this.signal, temperature: 0.7 });
+
+      tracker.recordLLMCall(
+        this.sessionId,
+        'cover_letter',
+        this.llm.model,
+        this.llm.countTokens(prompt),
+        this.llm.countTokens(text),
+        Date.now() - startTime,
+        true
+      );
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.info('[COVER_LETTER] cover_letter aborted');
+        tracker.recordAbortedLLMCall(this.sessionId, 'cover_letter', this.llm.model, this.llm.countTokens(prompt), Date.now() - startTime);
+        throw error;
+      }
+
+      console.error('[COVER_LETTER] Error drafting cover letter:', error);
+
+      tracker.recordLLMCall(
+        this.sessionId,
+        'cover_letter',
+        this.llm.model,
+        0,
+        0,
+        Date.now() - startTime,
+        false,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+
+      throw new Error(`Failed to draft cover letter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const draft = this.parseDraft(text);
+    const companyName = options.companyName?.trim() || draft.companyName;
+    const roleTitle = options.roleTitle?.trim() || draft.roleTitle;
+    const hiringManager = options.hiringManager?.trim();
+    const sender = this.getSender(input, resumeText);
+
+    const normalizer = createKeywordNormalizer(input.keywordAliases);
+    const body = draft.paragraphs.join('\n');
+    const keywordsUsed = (input.keywordAnalysis?.jdKeywords || [])
+      .filter(keyword => normalizer.containsKeyword(body, keyword));
+
+    const now = new Date();
+    const letter: CoverLetter = {
+      id: `cover-letter-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      documentId: input.resume?.id,
+      tone: options.tone,
+      length: options.length,
+      companyName,
+      roleTitle,
+      senderName: sender.name,
+      senderContact: sender.contact,
+      date: now.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+      recipient: [hiringManager || 'Hiring Manager', companyName].filter((line): line is string => !!line),
+      salutation: `Dear ${hiringManager || 'Hiring Manager'},`,
+      paragraphs: draft.paragraphs,
+      closing: options.tone === 'conversational' ? 'Best regards,' : 'Sincerely,',
+      keywordsUsed,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    console.info(`[COVER_LETTER] Drafted ${letter.paragraphs.length} paragraphs, ${keywordsUsed.length} JD keywords`);
+
+    return letter;
+  }
+
+  private buildPrompt(input: CoverLetterInput, resumeText: string): string {
+    const { options, keywordAnalysis } = input;
+    const target = LENGTH_TARGETS[options.length];
+
+    const required = keywordAnalysis?.keywordImportance
+      ?.filter(k => k.category === 'required')
+      .map(k => k.keyword) || [];
+    const missing = new Set((keywordAnalysis?.missingKeywords || []).map(k => k.toLowerCase()));
+    const covered = (keywordAnalysis?.jdKeywords || []).filter(k => !missing.has(k.toLowerCase()));
+
+    const keywordSection = keywordAnalysis
+      ? `KEYWORDS:
+- Already on the resume (weave the most relevant ones in naturally): ${covered.join(', ') || 'none'}
+- Required by the job: ${required.join(', ') || 'not classified'}
+- Missing from the resume (mention ONLY if the context files show real experience with them): ${keywordAnalysis.missingKeywords.join(', ') || 'none'}
+`
+      : '';
+
+    const contextSection = [
+      input.projects ? `PROJECTS:\n${input.projects}` : '',
+      input.portfolio ? `PORTFOLIO:\n${input.portfolio}` : ''
+    ].filter(Boolean).join('\n\n');
+
+    return `You are an expert career writer. Write the body of a cover letter for the candidate below, tailored to the job description.
+
+TONE: ${TONE_GUIDES[options.tone]}
+LENGTH: ${target.paragraphs} paragraphs, ${target.words} words in total.
+${options.companyName ? `COMPANY: ${options.companyName}\n` : ''}${options.roleTitle ? `ROLE: ${options.roleTitle}\n` : ''}
+${keywordSection}
+RULES:
+1. Paragraph 1: the role, the company and one specific reason the candidate fits.
+2. Middle paragraphs: 2-3 concrete achievements from the resume or context that match the job's main requirements.
+3. Last paragraph: short closing with a call to action.
+4. Only use facts from the resume and context: never invent employers, metrics, tools or credentials.
+5. Do not copy resume bullets verbatim; do not include the salutation, sign-off, addresses or placeholders like [Company].
+${options.customInstructions ? `6. ${options.customInstructions}\n` : ''}
+Return ONLY JSON in this format:
+{
+  "companyName": "Company from the job description, or empty",
+  "roleTitle": "Role title from the job description, or empty",
+  "paragraphs": ["First paragraph", "Second paragraph"]
+}
+
+RESUME:
+${resumeText}
+
+${contextSection ? `${contextSection}\n\n` : ''}JOB DESCRIPTION:
+${input.jobDescription}
+
+JSON:`;
+  }
+
+  /**
+   * Read the model's JSON; plain text falls back to blank-line separated paragraphs
+   */
+  private parseDraft(text: string): { companyName?: string; roleTitle?: string; paragraphs: string[] } {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        const parsed = JSON.parse(jsonMatch[0]);
+        const paragraphs = Array.isArray(parsed.paragraphs)
+          ? parsed.paragraphs.filter((p: unknown): p is string => typeof p === 'string' && p.trim().length > 0).map((p: string) => p.trim())
+          : [];
+        if (paragraphs.length > 0) {
+          return {
+            companyName: typeof parsed.companyName === 'string' && parsed.companyName.trim() ? parsed.companyName.trim() : undefined,
+            roleTitle: typeof parsed.roleTitle === 'string' && parsed.roleTitle.trim() ? parsed.roleTitle.trim() : undefined,
+            paragraphs
+          };
+        }
+      } catch {
+        console.warn('[COVER_LETTER] Response was not valid JSON, using plain text');
+      }
+    }
+
+    const paragraphs = text
+      .replace(/```[a-z]*\n?/g, '')
+      .split(/\n\s*\n/)
+      .map(p => p.replace(/\s+/g, ' ').trim())
+      .filter(p => p.length > 0 && !/^(dear\b|sincerely|best regards)/i.test(p));
+
+    if (paragraphs.length === 0) {
+      throw new Error('Empty cover letter response from LLM');
+    }
+
+    return { paragraphs };
+  }
+
+  private getResumeText(input: CoverLetterInput): string {
+    if (!input.resume) {
+      return input.resumeContent || '';
+    }
+
+    const { resume } = input;
+    return resume.lines
+      .map(line => resume.sourceFormat === 'latex' ? stripLatex(line.text) : line.text.trim())
+      .filter(text => text.length > 0)
+      .join('\n');
+  }
+
+  /**
+   * Name and contact lines from the resume header (first line / regexes as fallback)
+   */
+  private getSender(input: CoverLetterInput, resumeText: string): { name: string; contact: string[] } {
+    const metadata = input.resume?.metadata;
+    const clean = (text?: string) => (text && input.resume?.sourceFormat === 'latex' ? stripLatex(text) : text?.trim()) || '';
+    const firstLine = resumeText.split('\n').find(line => line.trim().length > 0)?.trim() || '';
+    const name = clean(metadata?.name) || (firstLine.length <= 60 ? firstLine : '');
+
+    const contact = metadata
+      ? [
+        [metadata.city, metadata.state].filter(Boolean).join(', '),
+        metadata.email,
+        metadata.phone,
+        metadata.linkedin,
+        metadata.github,
+        metadata.website
+      ]
+      : [resumeText.match(EMAIL_PATTERN)?.[0], resumeText.match(PHONE_PATTERN)?.[0]];
+
+    return {
+      name,
+      contact: contact.map(clean).filter(item => item.length > 0)
+    };
+  }
+}
+
+/**
+ * Create cover letter generator instance
+ */
+export function createCoverLetterGenerator(llm: LLMProvider, sessionId: string, signal?: AbortSignal): CoverLetterGenerator {
+  return new CoverLetterGenerator(llm, sessionId, signal);
+}
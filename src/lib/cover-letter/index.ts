@@ -0,0 +1,6 @@
+/**
+ * Cover Letter Module - Tailored cover letters drafted from the resume
+ */
+
+export { CoverLetterGenerator, createCoverLetterGenerator } from './generator';
+export type { CoverLetterInput } from './generator';
@@ -0,0 +1,13 @@
+/**
+ * Edit Log Module - Undo/redo of chat-driven edits
+ */
+
+export {
+  createEditLog,
+  recordTransaction,
+  revertTransaction,
+  undoTransaction,
+  redoTransaction,
+  linesToEdits
+} from './transactions';
+export type { EditLogResult } from './transactions';
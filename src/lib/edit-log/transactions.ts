@@ -0,0 +1,253 @@
+/**
+ * Edit Log - Undoable transactions of chat-driven edits
+ *
+ * Each assistant turn that edits the document is recorded as one transaction
+ * (lines before and after the turn). Undo reverts the latest transaction,
+ * redo re-applies the latest reverted one, and any older transaction can be
+ * reverted on its own. Reverting is a three-way merge: only hunks whose lines
+ * are still unchanged in the current document are rolled back, so later
+ * edits survive.
+ */
+
+import { EditLog, EditTransaction, Line, LineEdit } from '../parsers/types';
+import { diffSequences } from '../versioning/diff';
+
+// Oldest transactions are dropped beyond this (each stores two copies of the lines)
+const MAX_TRANSACTIONS = 50;
+
+export interface EditLogResult {
+  log: EditLog;
+  lines: Line[];
+  edits: LineEdit[];          // Line-level changes made to the current document
+  skipped: number;            // Hunks left alone because their lines changed since
+}
+
+interface Hunk {
+  fromStart: number;
+  fromEnd: number;
+  toStart: number;
+  toEnd: number;
+}
+
+/**
+ * Empty log for a document
+ */
+export function createEditLog(documentId: string): EditLog {
+  return { documentId, transactions: [], redoStack: [] };
+}
+
+/**
+ * Record one assistant turn's edits as a transaction (clears the redo stack)
+ */
+export function recordTransaction(
+  log: EditLog,
+  change: { before: Line[]; after: Line[]; description: string; messageId?: string }
+): { log: EditLog; transaction: EditTransaction } {
+  const transaction: EditTransaction = {
+    id: `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    messageId: change.messageId,
+    description: change.description,
+    before: change.before,
+    after: change.after,
+    edits: linesToEdits(change.before, change.after),
+    timestamp: new Date()
+  };
+
+  console.info(`[EDIT_LOG] Recorded transaction ${transaction.id} (${transaction.edits.length} line changes)`);
+
+  return {
+    log: {
+      ...log,
+      transactions: [...log.transactions, transaction].slice(-MAX_TRANSACTIONS),
+      redoStack: []
+    },
+    transaction
+  };
+}
+
+/**
+ * Revert one transaction against the current lines; it moves to the redo stack
+ */
+export function revertTransaction(log: EditLog, transactionId: string, currentLines: Line[]): EditLogResult {
+  const transaction = log.transactions.find(t => t.id === transactionId);
+  if (!transaction) {
+    throw new Error(`Transaction not found: ${transactionId}`);
+  }
+
+  const { lines, skipped } = applyChange(transaction.after, transaction.before, currentLines);
+
+  console.info(`[EDIT_LOG] Reverted transaction ${transactionId}${skipped > 0 ? ` (${skipped} hunks skipped)` : ''}`);
+
+  return {
+    log: {
+      ...log,
+      transactions: log.transactions.filter(t => t.id !== transactionId),
+      redoStack: [...log.redoStack, transaction]
+    },
+    lines,
+    edits: linesToEdits(currentLines, lines),
+    skipped
+  };
+}
+
+/**
+ * Revert the latest transaction (null when there is nothing to undo)
+ */
+export function undoTransaction(log: EditLog, currentLines: Line[]): EditLogResult | null {
+  const latest = log.transactions[log.transactions.length - 1];
+  return latest ? revertTransaction(log, latest.id, currentLines) : null;
+}
+
+/**
+ * Re-apply the latest reverted transaction (null when there is nothing to redo)
+ */
+export function redoTransaction(log: EditLog, currentLines: Line[]): EditLogResult | null {
+  const transaction = log.redoStack[log.redoStack.length - 1];
+  if (!transaction) return null;
+
+  const { lines, skipped } = applyChange(transaction.before, transaction.after, currentLines);
+
+  console.info(`[EDIT_LOG] Re-applied transaction ${transaction.id}${skipped > 0 ? ` (${skipped} hunks skipped)` : ''}`);
+
+  return {
+    log: {
+      ...log,
+      transactions: [...log.transactions, transaction],
+      redoStack: log.redoStack.slice(0, -1)
+    },
+    lines,
+    edits: linesToEdits(currentLines, lines),
+    skipped
+  };
+}
+
+/**
+ * Line edits (for format-preserving export) turning oldLines into newLines.
+ * Within a changed hunk, lines are paired in order as replacements and the
+ * rest are deletions or insertions. Each insertion is anchored to the line
+ * it follows in newLines (an original line, a replaced line's new text or
+ * the previous inserted line), so moved and added lines can be placed.
+ */
+export function linesToEdits(oldLines: Line[], newLines: Line[]): LineEdit[] {
+  const timestamp = new Date();
+  const edits: LineEdit[] = [];
+
+  getHunks(oldLines, newLines).forEach(hunk => {
+    const removed = hunk.fromEnd - hunk.fromStart;
+    const added = hunk.toEnd - hunk.toStart;
+    for (let k = 0; k < Math.max(removed, added); k++) {
+      const oldLine = k < removed ? oldLines[hunk.fromStart + k] : undefined;
+      const newLine = k < added ? newLines[hunk.toStart + k] : undefined;
+      if (oldLine && newLine) {
+        edits.push({ lineNumber: oldLine.lineNumber, originalText: oldLine.text, newText: newLine.text, timestamp, operation: 'replace' });
+      } else if (oldLine) {
+        edits.push({ lineNumber: oldLine.lineNumber, originalText: oldLine.text, newText: '', timestamp, operation: 'delete' });
+      } else if (newLine) {
+        const previous = newLines[hunk.toStart + k - 1];
+        const anchorLineNumber = !previous
+          ? 0
+          : k <= removed ? oldLines[hunk.fromStart + k - 1].lineNumber : previous.lineNumber;
+        edits.push({
+          lineNumber: newLine.lineNumber,
+          originalText: '',
+          newText: newLine.text,
+          timestamp,
+          operation: 'insert',
+          anchorLineNumber,
+          anchorText: previous?.text ?? ''
+        });
+      }
+    }
+  });
+
+  return edits;
+}
+
+/**
+ * Apply the change from -> to onto current, hunk by hunk. A hunk applies when
+ * its "from" lines are still present, unchanged and adjacent in current
+ * (insertions need an unchanged neighbour to anchor to).
+ */
+function applyChange(from: Line[], to: Line[], current: Line[]): { lines: Line[]; skipped: number } {
+  // Index in current of each unchanged line of from (-1 when edited since)
+  const positions = new Array<number>(from.length).fill(-1);
+  diffSequences(from.map(l => l.text), current.map(l => l.text)).forEach(op => {
+    if (op.type === 'unchanged') positions[op.oldIndex!] = op.newIndex!;
+  });
+
+  const splices: Array<{ start: number; deleteCount: number; insert: Line[] }> = [];
+  let skipped = 0;
+
+  getHunks(from, to).forEach(hunk => {
+    let start: number;
+    if (hunk.fromEnd > hunk.fromStart) {
+      start = positions[hunk.fromStart];
+      const contiguous = start !== -1 && Array.from(
+        { length: hunk.fromEnd - hunk.fromStart },
+        (_, k) => positions[hunk.fromStart + k] === start + k
+      ).every(Boolean);
+      if (!contiguous) {
+        skipped++;
+        return;
+      }
+    } else if (hunk.fromStart > 0 && positions[hunk.fromStart - 1] !== -1) {
+      start = positions[hunk.fromStart - 1] + 1;
+    } else if (hunk.fromStart < from.length && positions[hunk.fromStart] !== -1) {
+      start = positions[hunk.fromStart];
+    } else if (from.length === 0) {
+      start = 0;
+    } else {
+      skipped++;
+      return;
+    }
+
+    splices.push({
+      start,
+      deleteCount: hunk.fromEnd - hunk.fromStart,
+      insert: to.slice(hunk.toStart, hunk.toEnd).map(line => ({ ...line }))
+    });
+  });
+
+  // Apply bottom-up so earlier positions stay valid
+  const lines = current.map(line => ({ ...line }));
+  splices
+    .sort((a, b) => b.start - a.start)
+    .forEach(({ start, deleteCount, insert }) => lines.splice(start, deleteCount, ...insert));
+  lines.forEach((line, index) => {
+    line.lineNumber = index + 1;
+  });
+
+  return { lines, skipped };
+}
+
+/**
+ * Runs of removed/added lines between two line lists (by text)
+ */
+function getHunks(from: Line[], to: Line[]): Hunk[] {
+  const ops = diffSequences(from.map(l => l.text), to.map(l => l.text));
+  const hunks: Hunk[] = [];
+  let fromIndex = 0;
+  let toIndex = 0;
+  let current: Hunk | null = null;
+
+  ops.forEach(op => {
+    if (op.type === 'unchanged') {
+      if (current) hunks.push(current);
+      current = null;
+      fromIndex = op.oldIndex! + 1;
+      toIndex = op.newIndex! + 1;
+      return;
+    }
+    if (!current) {
+      current = { fromStart: fromIndex, fromEnd: fromIndex, toStart: toIndex, toEnd: toIndex };
+    }
+    if (op.type === 'removed') {
+      current.fromEnd = ++fromIndex;
+    } else {
+      current.toEnd = ++toIndex;
+    }
+  });
+  if (current) hunks.push(current);
+
+  return hunks;
+}
@@ -0,0 +1,358 @@
+/**
+ * Cover Letter Export
+ *
+ * Export a drafted cover letter so it visually matches the resume:
+ * - LaTeX: the resume's preamble (document class, packages, fonts, margins)
+ *   with a plain letter body
+ * - DOCX: the original resume package (styles, theme, fonts, page setup) with
+ *   the body replaced; the name and text runs copy the resume's run formatting
+ * - PDF: the LaTeX letter compiled like the resume, otherwise jsPDF in the
+ *   resume's font family
+ * - Markdown: plain text with the letter layout
+ */
+
+import PizZip from 'pizzip';
+import { CoverLetter, Document, Line, LineFormatting } from '../parsers/types';
+import { exportToDocx, downloadDocx } from './docx';
+import { exportToPdf, downloadPdf } from './pdf';
+import { downloadMarkdown } from './markdown';
+import { downloadLaTeX } from './latex';
+
+export type CoverLetterExportFormat = 'docx' | 'pdf' | 'markdown' | 'latex';
+
+/**
+ * Resume the letter should look like (any subset)
+ */
+export interface CoverLetterStyleSource {
+  latexSource?: string;       // Resume LaTeX (its preamble is reused)
+  docxBuffer?: ArrayBuffer;   // Original resume DOCX (its styles are reused)
+  lines?: Line[];             // Resume lines (font family for jsPDF/docx fallback)
+}
+
+const DEFAULT_LATEX_PREAMBLE = `\\documentclass[11pt,letterpaper]{article}
+\\usepackage[margin=1in]{geometry}
+\\pagestyle{empty}
+`;
+
+const SERIF_FONTS = /times|georgia|garamond|cambria|palatino|book antiqua|baskerville|charter|serif/i;
+
+/**
+ * Export and download a cover letter
+ */
+export async function exportCoverLetter(
+  letter: CoverLetter,
+  format: CoverLetterExportFormat,
+  source: CoverLetterStyleSource = {},
+  fileName?: string
+): Promise<void> {
+  try {
+    console.info(`[COVER_LETTER_EXPORT] Exporting cover letter to ${format.toUpperCase()}`);
+
+    const baseFileName = fileName || coverLetterFileName(letter);
+
+    switch (format) {
+      case 'docx':
+        downloadDocx(await exportCoverLetterToDocx(letter, source), baseFileName);
+        break;
+
+      case 'pdf':
+        downloadPdf(await exportCoverLetterToPdf(letter, source), baseFileName);
+        break;
+
+      case 'markdown':
+        downloadMarkdown(exportCoverLetterToMarkdown(letter), baseFileName);
+        break;
+
+      case 'latex':
+        downloadLaTeX(exportCoverLetterToLatex(letter, source.latexSource), baseFileName);
+        break;
+
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    console.info(`[COVER_LETTER_EXPORT] Successfully exported and downloaded ${format.toUpperCase()}`);
+
+  } catch (error) {
+    console.error(`[COVER_LETTER_EXPORT] Error exporting to ${format}:`, error);
+    throw new Error(`Failed to export cover letter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * LaTeX letter using the resume's preamble
+ */
+export function exportCoverLetterToLatex(letter: CoverLetter, resumeLatex?: string): Blob {
+  return new Blob([coverLetterToLatex(letter, resumeLatex)], { type: 'application/x-latex' });
+}
+
+/**
+ * LaTeX source of the letter (also compiled for PDF export)
+ */
+export function coverLetterToLatex(letter: CoverLetter, resumeLatex?: string): string {
+  const beginIndex = resumeLatex?.indexOf('\\begin{document}') ?? -1;
+  const preamble = resumeLatex && beginIndex > 0
+    ? resumeLatex.substring(0, beginIndex).trimEnd() + '\n'
+    : DEFAULT_LATEX_PREAMBLE;
+
+  const contact = letter.senderContact.map(escapeLatex).join(' $|$ ');
+  const recipient = nonEmpty(letter.recipient).map(escapeLatex).join(' \\\\\n');
+
+  return `${preamble}
+\\begin{document}
+\\setlength{\\parindent}{0pt}
+\\setlength{\\parskip}{10pt}
+
+\\begin{center}
+{\\Large \\textbf{${escapeLatex(letter.senderName)}}}${contact ? ` \\\\[2pt]\n${contact}` : ''}
+\\end{center}
+
+${escapeLatex(letter.date)}
+
+${recipient}
+
+${escapeLatex(letter.salutation)}
+
+${nonEmpty(letter.paragraphs).map(escapeLatex).join('\n\n')}
+
+${escapeLatex(letter.closing)} \\\\[18pt]
+${escapeLatex(letter.senderName)}
+
+\\end{document}
+`;
+}
+
+/**
+ * DOCX letter: inside the original resume package when available
+ */
+export async function exportCoverLetterToDocx(letter: CoverLetter, source: CoverLetterStyleSource = {}): Promise<Blob> {
+  if (source.docxBuffer) {
+    try {
+      return buildDocxFromResumePackage(letter, source.docxBuffer);
+    } catch (error) {
+      console.warn('[COVER_LETTER_EXPORT] Could not reuse resume DOCX styles, using default layout:', error);
+    }
+  }
+
+  return exportToDocx(coverLetterToDocument(letter, dominantFontFamily(source.lines)));
+}
+
+/**
+ * PDF letter: LaTeX compiled by /api/compile-latex for LaTeX resumes, jsPDF otherwise
+ */
+export async function exportCoverLetterToPdf(letter: CoverLetter, source: CoverLetterStyleSource = {}): Promise<Blob> {
+  if (source.latexSource) {
+    try {
+      const response = await fetch('/api/compile-latex', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ latexSource: coverLetterToLatex(letter, source.latexSource), validate: true })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'LaTeX compilation failed');
+      }
+      return await response.blob();
+    } catch (error) {
+      console.warn('[COVER_LETTER_EXPORT] LaTeX compilation failed, using jsPDF:', error);
+    }
+  }
+
+  const fontFamily = dominantFontFamily(source.lines);
+  const pdfFont = fontFamily && SERIF_FONTS.test(fontFamily) ? 'times' : 'helvetica';
+  return exportToPdf(coverLetterToDocument(letter, pdfFont), { pageNumbers: false });
+}
+
+/**
+ * Markdown letter
+ */
+export function exportCoverLetterToMarkdown(letter: CoverLetter): Blob {
+  const blocks = [
+    `# ${letter.senderName}`,
+    letter.senderContact.join(' | '),
+    letter.date,
+    nonEmpty(letter.recipient).join('  \n'),
+    letter.salutation,
+    ...nonEmpty(letter.paragraphs),
+    `${letter.closing}  \n${letter.senderName}`
+  ].filter(block => block.trim().length > 0);
+
+  return new Blob([blocks.join('\n\n') + '\n'], { type: 'text/markdown' });
+}
+
+/**
+ * Letter as document lines (for the line-based DOCX/PDF exporters)
+ */
+export function coverLetterToDocument(letter: CoverLetter, fontFamily?: string): Document {
+  const rows: Array<{ text: string; formatting?: LineFormatting }> = [
+    { text: letter.senderName, formatting: { bold: true, fontSize: 16, alignment: 'center' } },
+    { text: letter.senderContact.join(' | '), formatting: { fontSize: 10, alignment: 'center' } },
+    { text: '' },
+    { text: letter.date },
+    { text: '' },
+    ...nonEmpty(letter.recipient).map(text => ({ text })),
+    { text: '' },
+    { text: letter.salutation },
+    { text: '' },
+    ...nonEmpty(letter.paragraphs).flatMap(text => [{ text, formatting: { alignment: 'justify' as const } }, { text: '' }]),
+    { text: letter.closing },
+    { text: '' },
+    { text: letter.senderName }
+  ];
+
+  const lines: Line[] = rows.map((row, index) => ({
+    lineNumber: index + 1,
+    text: row.text,
+    pageNumber: 1,
+    isLocked: false,
+    isPlaceholder: false,
+    formatting: { fontSize: 11, ...row.formatting, fontFamily }
+  }));
+
+  return {
+    id: letter.id,
+    lines,
+    metadata: {
+      totalLines: lines.length,
+      totalPages: 1,
+      format: 'docx',
+      fileName: coverLetterFileName(letter)
+    }
+  };
+}
+
+/**
+ * Default file name: "Jane Doe - Acme Cover Letter"
+ */
+export function coverLetterFileName(letter: CoverLetter): string {
+  const name = [letter.senderName, letter.companyName].filter(Boolean).join(' - ') + ' Cover Letter';
+  return name.replace(/[.\\/:*?"<>|]/g, '').trim();
+}
+
+/**
+ * Replace the body of the resume's document.xml with the letter, keeping the
+ * section properties (page size, margins, headers) and every other package part
+ */
+function buildDocxFromResumePackage(letter: CoverLetter, docxBuffer: ArrayBuffer): Blob {
+  const zip = new PizZip(docxBuffer);
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) {
+    throw new Error('word/document.xml not found in DOCX package');
+  }
+
+  const xml = documentFile.asText();
+  const bodyMatch = xml.match(/<w:body>([\s\S]*)<\/w:body>/);
+  if (!bodyMatch) {
+    throw new Error('Document body not found');
+  }
+
+  const body = bodyMatch[1];
+  const sectPr = body.match(/<w:sectPr(?:\s[^>]*)?>[\s\S]*?<\/w:sectPr>\s*$/)?.[0] || '';
+
+  // Name = first paragraph with text, contact = second, body text = longest
+  const paragraphs = Array.from(body.matchAll(/<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g))
+    .map(match => ({ xml: match[0], text: paragraphText(match[0]) }))
+    .filter(paragraph => paragraph.text.trim().length > 0);
+  if (paragraphs.length === 0) {
+    throw new Error('Resume has no text paragraphs');
+  }
+
+  const nameParagraph = paragraphs[0];
+  const contactParagraph = paragraphs[1] || nameParagraph;
+  const bodyParagraph = paragraphs.reduce((longest, p) => (p.text.length > longest.text.length ? p : longest));
+
+  const bodyRun = runProperties(bodyParagraph.xml);
+  const recipient = nonEmpty(letter.recipient);
+  const bodyPPr = '<w:pPr><w:spacing w:after="160"/><w:jc w:val="both"/></w:pPr>';
+  const plainPPr = '<w:pPr><w:spacing w:after="160"/></w:pPr>';
+
+  const letterXml = [
+    buildParagraph(letter.senderName, paragraphProperties(nameParagraph.xml), runProperties(nameParagraph.xml)),
+    letter.senderContact.length > 0
+      ? buildParagraph(letter.senderContact.join(' | '), paragraphProperties(contactParagraph.xml), runProperties(contactParagraph.xml))
+      : '',
+    buildParagraph(letter.date, plainPPr, bodyRun),
+    ...recipient.map((line, index) =>
+      buildParagraph(line, index === recipient.length - 1 ? plainPPr : '<w:pPr><w:spacing w:after="0"/></w:pPr>', bodyRun)
+    ),
+    buildParagraph(letter.salutation, plainPPr, bodyRun),
+    ...nonEmpty(letter.paragraphs).map(text => buildParagraph(text, bodyPPr, bodyRun)),
+    buildParagraph(letter.closing, '<w:pPr><w:spacing w:after="480"/></w:pPr>', bodyRun),
+    buildParagraph(letter.senderName, plainPPr, bodyRun)
+  ].join('');
+
+  zip.file('word/document.xml', xml.replace(bodyMatch[0], `<w:body>${letterXml}${sectPr}</w:body>`));
+
+  const content = zip.generate({ type: 'arraybuffer', compression: 'DEFLATE' });
+  return new Blob([content], {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  });
+}
+
+/**
+ * Paragraph properties without list numbering (keeps style, alignment, borders)
+ */
+function paragraphProperties(paragraphXml: string): string {
+  const pPr = paragraphXml.match(/<w:pPr>[\s\S]*?<\/w:pPr>/)?.[0] || '';
+  return pPr.replace(/<w:numPr>[\s\S]*?<\/w:numPr>/, '');
+}
+
+/**
+ * Run properties of the first text run
+ */
+function runProperties(paragraphXml: string): string {
+  const run = Array.from(paragraphXml.matchAll(/<w:r(?:\s[^>]*)?>[\s\S]*?<\/w:r>/g))
+    .map(match => match[0])
+    .find(r => /<w:t(?:\s[^>]*)?>/.test(r));
+  return run?.match(/<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0] || '';
+}
+
+function buildParagraph(text: string, pPr: string, rPr: string): string {
+  return `<w:p>${pPr}<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+function paragraphText(paragraphXml: string): string {
+  return Array.from(paragraphXml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>/g))
+    .map(match => match[1])
+    .join('');
+}
+
+/**
+ * Most used font family across the resume lines
+ */
+function dominantFontFamily(lines?: Line[]): string | undefined {
+  const counts = new Map<string, number>();
+  (lines || []).forEach(line => {
+    const family = line.formatting?.fontFamily;
+    if (family) counts.set(family, (counts.get(family) || 0) + 1);
+  });
+
+  let best: string | undefined;
+  counts.forEach((count, family) => {
+    if (!best || count > counts.get(best)!) best = family;
+  });
+  return best;
+}
+
+/**
+ * Lines/paragraphs with text (the editor leaves blanks while typing)
+ */
+function nonEmpty(items: string[]): string[] {
+  return items.map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function escapeLatex(text: string): string {
+  return text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/\\textbackslash\\\{\\\}/g, '\\textbackslash{}')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
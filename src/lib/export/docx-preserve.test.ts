@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Document as DocxDocument, Packer, Paragraph, Table, TableCell, TableRow, TextRun } from 'docx';
+import PizZip from 'pizzip';
+import { exportDocxWithFormatPreservation } from './docx-preserve';
+import { linesToEdits } from '../edit-log/transactions';
+import { Document, Line } from '../parsers/types';
+
+const ORIGINAL = ['John Doe', 'Experience', 'Built APIs for billing', 'Skills', 'Python', 'Go'];
+
+function toLines(texts: string[]): Line[] {
+  return texts.map((text, i) => ({ lineNumber: i + 1, text, pageNumber: 1, isLocked: false, isPlaceholder: false }));
+}
+
+async function buildDocx(texts: string[]): Promise<ArrayBuffer> {
+  const docx = new DocxDocument({
+    sections: [{
+      children: texts.map(text => new Paragraph({
+        children: [new TextRun({ text, bold: text.startsWith('Built') })]
+      }))
+    }]
+  });
+  const buffer = await Packer.toBuffer(docx);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+async function paragraphXml(blob: Blob): Promise<string[]> {
+  const xml = new PizZip(await blob.arrayBuffer()).file('word/document.xml')!.asText();
+  return xml.match(/<w:p(?:\s[^>]*[^/])?>[\s\S]*?<\/w:p>/g) || [];
+}
+
+function paragraphText(xml: string): string {
+  return (xml.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join('');
+}
+
+// 'Alpha' ends a section (its pPr holds the sectPr) and 'Cell' is the only paragraph of a table cell
+async function buildSectionAndTableDocx(): Promise<ArrayBuffer> {
+  const docx = new DocxDocument({
+    sections: [{
+      children: [
+        new Paragraph({ children: [new TextRun('Alpha')] }),
+        new Table({ rows: [new TableRow({ children: [new TableCell({ children: [new Paragraph({ children: [new TextRun('Cell')] })] })] })] }),
+        new Paragraph({ children: [new TextRun('Omega')] })
+      ]
+    }]
+  });
+  const zip = new PizZip(await Packer.toBuffer(docx));
+  const xml = zip.file('word/document.xml')!.asText();
+  const sectPr = xml.match(/<w:sectPr>[\s\S]*?<\/w:sectPr>/)![0];
+  zip.file('word/document.xml', xml.replace('<w:p><w:r>', `<w:p><w:pPr>${sectPr}</w:pPr><w:r>`));
+  return zip.generate({ type: 'arraybuffer' });
+}
+
+// Edit the lines turn by turn, export the whole history, and read the paragraphs back
+async function exportTurns(original: string[], turns: string[][], source?: ArrayBuffer): Promise<string[]> {
+  const edits = turns.flatMap((texts, i) => linesToEdits(toLines(i === 0 ? original : turns[i - 1]), toLines(texts)));
+  const lines = toLines(turns[turns.length - 1]);
+  const document: Document = {
+    id: 'doc-1',
+    lines,
+    metadata: { format: 'docx', totalLines: lines.length, totalPages: 1 }
+  };
+  const blob = await exportDocxWithFormatPreservation(source ?? await buildDocx(original), document, { documentId: 'doc-1', edits });
+  return paragraphXml(blob);
+}
+
+function roundTrip(newTexts: string[]): Promise<string[]> {
+  return exportTurns(ORIGINAL, [newTexts]);
+}
+
+describe('linesToEdits -> exportDocxWithFormatPreservation', () => {
+  it('applies replacements, insertions and deletions in place', async () => {
+    const expected = ['John Doe', 'Experience', 'Built REST APIs for billing', 'Led a team of 4', 'Skills', 'Go'];
+    const paragraphs = await roundTrip(expected);
+    expect(paragraphs.map(paragraphText)).toEqual(expected);
+  });
+
+  it('clones the formatting of the paragraph an inserted line follows', async () => {
+    const paragraphs = await roundTrip([...ORIGINAL.slice(0, 3), 'Led a team of 4', ...ORIGINAL.slice(3)]);
+    const inserted = paragraphs.find(p => paragraphText(p) === 'Led a team of 4');
+    expect(inserted).toContain('<w:b/>');
+  });
+
+  it('places chained insertions in order', async () => {
+    const expected = [...ORIGINAL.slice(0, 3), 'First', 'Second', 'Third', ...ORIGINAL.slice(3)];
+    const paragraphs = await roundTrip(expected);
+    expect(paragraphs.map(paragraphText)).toEqual(expected);
+  });
+
+  it('inserts at the top of the document', async () => {
+    const expected = ['Resume', ...ORIGINAL];
+    const paragraphs = await roundTrip(expected);
+    expect(paragraphs.map(paragraphText)).toEqual(expected);
+  });
+
+  it('moves a line', async () => {
+    const expected = ['John Doe', 'Skills', 'Python', 'Go', 'Experience', 'Built APIs for billing'];
+    const paragraphs = await roundTrip(expected);
+    expect(paragraphs.map(paragraphText)).toEqual(expected);
+  });
+
+  it('keeps edits of different turns on the same line number apart', async () => {
+    const original = ['Alpha', 'Bravo', 'Charlie', 'Delta'];
+    const turns = [
+      ['Alpha', 'Xray line', 'Charlie', 'Delta'],
+      ['Alpha', 'Xray line', 'Bravo two', 'Charlie', 'Delta'],
+      ['Alpha', 'Xray two', 'Bravo two', 'Charlie']
+    ];
+    const paragraphs = await exportTurns(original, turns);
+    expect(paragraphs.map(paragraphText)).toEqual(turns[2]);
+  });
+
+  it('chains repeated edits of one line', async () => {
+    const original = ['Alpha', 'Bravo', 'Charlie'];
+    const turns = [
+      ['Alpha', 'Bravo one', 'Charlie'],
+      ['Alpha', 'Bravo two', 'Charlie'],
+      ['Alpha', 'Charlie']
+    ];
+    const paragraphs = await exportTurns(original, turns);
+    expect(paragraphs.map(paragraphText)).toEqual(turns[2]);
+  });
+
+  it('edits lines inserted in an earlier turn', async () => {
+    const original = ['Alpha', 'Bravo', 'Charlie'];
+    const turns = [
+      ['Alpha', 'New line', 'Bravo', 'Charlie'],
+      ['Alpha', 'Newer line', 'Bravo', 'Extra', 'Charlie'],
+      ['Alpha', 'Newer line', 'Bravo', 'Charlie']
+    ];
+    const paragraphs = await exportTurns(original, turns);
+    expect(paragraphs.map(paragraphText)).toEqual(turns[2]);
+  });
+
+  it('empties instead of removing a table cell\'s last paragraph or a section break', async () => {
+    const original = ['Alpha', 'Cell', 'Omega'];
+    const paragraphs = await exportTurns(original, [['Omega']], await buildSectionAndTableDocx());
+    expect(paragraphs.map(paragraphText)).toEqual(['', '', 'Omega']);
+    expect(paragraphs[0]).toContain('<w:sectPr>');
+    expect(paragraphs[1]).not.toContain('<w:r>');
+  });
+
+  it('does not copy a section break into inserted lines', async () => {
+    const original = ['Alpha', 'Cell', 'Omega'];
+    const paragraphs = await exportTurns(original, [['Alpha', 'Beta', 'Cell', 'Omega']], await buildSectionAndTableDocx());
+    expect(paragraphs.map(paragraphText)).toEqual(['Alpha', 'Beta', 'Cell', 'Omega']);
+    expect(paragraphs[1]).not.toContain('<w:sectPr>');
+  });
+});
@@ -2,11 +2,13 @@
  * Format-Preserving DOCX Export
  * Applies edits to original DOCX file while preserving all formatting
  *
- * Primary Method: Direct text replacement in DOCX XML
+ * Primary Method: Run-level rewriting of word/document.xml (PizZip) - every
+ *   other part of the package (styles, numbering, headers, media) is untouched
  * Fallback Method: Paragraph-level replacement with style preservation
  */
 
 import mammoth from 'mammoth';
+import PizZip from 'pizzip';
 import { Document as DocxDocument, Packer, Paragraph, TextRun, AlignmentType, ParagraphChild } from 'docx';
 import { Document, EditHistory, LineEdit } from '../parsers/types';
 
@@ -61,60 +63,357 @@ async function applyEditsPrimaryMethod(
   document: Document,
   editHistory: EditHistory
 ): Promise<Blob> {
-  console.info('[DOCX_PRESERVE] Using primary method: Direct XML text replacement');
+  console.info('[DOCX_PRESERVE] Using primary method: Run-level XML rewriting');
 
-  // Convert ArrayBuffer to Buffer for processing
-  const buffer = Buffer.from(originalBuffer);
+  const zip = new PizZip(originalBuffer);
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) {
+    throw new Error('word/document.xml not found in DOCX package');
+  }
+
+  const xml = documentFile.asText();
+  const paragraphs = extractXmlParagraphs(xml);
+
+  console.info(`[DOCX_PRESERVE] Found ${paragraphs.length} paragraphs in document.xml`);
+
+  // Applied in order: an edit of a line edited before matches its current text
+  const edits = editHistory.edits;
+  const replacements = new Map<number, string>();                 // paragraph index -> new paragraph XML
+  const insertions = new Map<number, InsertedParagraph[]>();      // paragraph index -> paragraphs to add after it (-1: before line 1)
+  let appliedCount = 0;
+
+  edits.forEach(edit => {
+    if (edit.operation === 'insert') {
+      if (placeInsertion(paragraphs, insertions, edit)) {
+        appliedCount++;
+      } else {
+        console.warn(`[DOCX_PRESERVE] Could not place inserted line ${edit.lineNumber} after line ${edit.anchorLineNumber ?? edit.lineNumber - 1}: "${edit.anchorText ?? ''}"`);
+      }
+      return;
+    }
+
+    // Lines added by earlier inserts are edited where they were placed
+    if (editInsertion(insertions, edit)) {
+      appliedCount++;
+      return;
+    }
+
+    const index = locateParagraph(paragraphs, edit.lineNumber, edit.originalText);
+    if (index === -1) {
+      console.warn(`[DOCX_PRESERVE] Could not locate paragraph for line ${edit.lineNumber}: "${edit.originalText}"`);
+      return;
+    }
+
+    const paragraph = paragraphs[index];
+
+    if (edit.operation === 'delete') {
+      // A cell's last paragraph or a section break paragraph must stay: keep it without runs
+      replacements.set(index, mustKeepParagraph(paragraphs, replacements, index)
+        ? emptyParagraph(replacements.get(index) ?? paragraph.xml)
+        : '');
+      paragraph.text = '';   // Gone: later edits and anchors refer to other paragraphs
+    } else {
+      console.info(`[DOCX_PRESERVE] Replacing line ${edit.lineNumber}: "${edit.originalText}" -> "${edit.newText}"`);
+      replacements.set(index, replaceParagraphText(replacements.get(index) ?? paragraph.xml, edit.newText));
+      // Later edits and insert anchors refer to the new text
+      paragraph.text = normalizeText(decodeEntities(edit.newText));
+    }
 
-  // Parse DOCX to extract paragraphs with formatting
-  const result = await mammoth.convertToHtml({ buffer }, {
-    styleMap: [
-      "p[style-name='Heading 1'] => h1:fresh",
-      "p[style-name='Heading 2'] => h2:fresh",
-      "p[style-name='Heading 3'] => h3:fresh"
-    ]
+    appliedCount++;
   });
 
-  const htmlContent = result.value;
+  if (edits.length > 0 && appliedCount === 0) {
+    throw new Error('None of the edits could be matched to paragraphs in document.xml');
+  }
 
-  // Split into paragraphs (matching original parse logic)
-  const paragraphs = htmlContent
-    .split(/<\/?(?:p|div|h[1-6]|li)[^>]*>/gi)
-    .filter(line => line.trim().length > 0);
+  console.info(`[DOCX_PRESERVE] Applied ${appliedCount}/${edits.length} edits at run level`);
 
-  console.info(`[DOCX_PRESERVE] Extracted ${paragraphs.length} paragraphs from original`);
+  // Reassemble document.xml, only touching matched paragraphs
+  let output = '';
+  let cursor = 0;
+  paragraphs.forEach((paragraph, index) => {
+    output += xml.slice(cursor, paragraph.start);
+    if (paragraph.ordinal === 1) {
+      output += (insertions.get(-1) || []).map(inserted => inserted.xml).join('');
+    }
+    output += replacements.has(index) ? replacements.get(index)! : paragraph.xml;
+    output += (insertions.get(index) || []).map(inserted => inserted.xml).join('');
+    cursor = paragraph.end;
+  });
+  output += xml.slice(cursor);
 
-  // Build edit map: lineNumber -> newText
-  const editMap = new Map<number, string>();
-  editHistory.edits.forEach(edit => {
-    if (edit.operation === 'replace') {
-      editMap.set(edit.lineNumber, edit.newText);
+  zip.file('word/document.xml', output);
+
+  const content = zip.generate({ type: 'arraybuffer', compression: 'DEFLATE' });
+  return new Blob([content], {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  });
+}
+
+interface XmlParagraph {
+  start: number;
+  end: number;
+  xml: string;
+  text: string;           // Normalized visible text after the edits applied so far
+  ordinal: number;        // 1-based position among non-empty paragraphs (0 if empty)
+  cell: number;           // Offset of the enclosing <w:tc> (-1 outside tables)
+  editable: boolean;      // False for paragraphs wrapping nested content (text boxes)
+}
+
+interface InsertedParagraph {
+  text: string;           // Normalized visible text
+  xml: string;
+}
+
+// Opening <w:p> tag; a self-closing <w:p .../> is an empty paragraph, not an opener
+const PARAGRAPH_OPEN = /<w:p(?:\s[^>]*[^/])?>/;
+
+/**
+ * Find all <w:p> elements in document.xml with their visible text
+ */
+function extractXmlParagraphs(xml: string): XmlParagraph[] {
+  const paragraphs: XmlParagraph[] = [];
+  const paragraphRegex = new RegExp(`${PARAGRAPH_OPEN.source}[\\s\\S]*?<\\/w:p>`, 'g');
+  let ordinal = 0;
+  let match: RegExpExecArray | null;
+
+  // Open table cells (innermost last) as the scan reaches each paragraph
+  const cellTags = Array.from(xml.matchAll(/<w:tc(?:\s[^>]*)?>|<\/w:tc>/g));
+  const openCells: number[] = [];
+  let cellTag = 0;
+
+  while ((match = paragraphRegex.exec(xml)) !== null) {
+    const paragraphXml = match[0];
+    for (; cellTag < cellTags.length && cellTags[cellTag].index! < match.index; cellTag++) {
+      if (cellTags[cellTag][0] === '</w:tc>') {
+        openCells.pop();
+      } else {
+        openCells.push(cellTags[cellTag].index!);
+      }
+    }
+    const inner = paragraphXml.slice(paragraphXml.indexOf('>') + 1);
+    const text = normalizeText(extractParagraphText(paragraphXml));
+
+    if (text.length > 0) {
+      ordinal++;
+    }
+
+    paragraphs.push({
+      start: match.index,
+      end: match.index + paragraphXml.length,
+      xml: paragraphXml,
+      text,
+      ordinal: text.length > 0 ? ordinal : 0,
+      cell: openCells.length > 0 ? openCells[openCells.length - 1] : -1,
+      editable: !PARAGRAPH_OPEN.test(inner)
+    });
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Concatenate the text of all runs in a paragraph
+ */
+function extractParagraphText(paragraphXml: string): string {
+  let text = '';
+  const tokenRegex = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(paragraphXml)) !== null) {
+    text += match[1] !== undefined ? decodeEntities(match[1]) : '\t';
+  }
+
+  return text;
+}
+
+/**
+ * Replace or delete a line that an earlier edit inserted (the latest one with
+ * its text); false when no inserted paragraph has the edit's original text
+ */
+function editInsertion(insertions: Map<number, InsertedParagraph[]>, edit: LineEdit): boolean {
+  const target = normalizeText(decodeEntities(edit.originalText));
+  if (!target) return false;
+
+  for (const inserted of Array.from(insertions.values())) {
+    const position = inserted.map(p => p.text).lastIndexOf(target);
+    if (position === -1) continue;
+
+    if (edit.operation === 'delete') {
+      inserted.splice(position, 1);
+    } else {
+      inserted[position] = {
+        text: normalizeText(decodeEntities(edit.newText)),
+        xml: replaceParagraphText(inserted[position].xml, edit.newText)
+      };
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Locate the paragraph for an edited line: prefer the paragraph at the same
+ * position whose text matches, otherwise the nearest paragraph with that text
+ */
+function locateParagraph(paragraphs: XmlParagraph[], lineNumber: number, originalText: string): number {
+  const target = normalizeText(decodeEntities(originalText));
+  if (!target) return -1;
+
+  let bestIndex = -1;
+  let bestDistance = Infinity;
+
+  paragraphs.forEach((paragraph, index) => {
+    if (!paragraph.editable || paragraph.text !== target) return;
+
+    const distance = Math.abs(paragraph.ordinal - lineNumber);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
     }
   });
 
-  // Apply replacements to paragraphs
-  const modifiedParagraphs = paragraphs.map((htmlLine, index) => {
-    const lineNumber = index + 1;
-    const originalText = htmlLine.replace(/<[^>]*>/g, '').trim();
+  return bestIndex;
+}
 
-    // Check if this line was edited
-    if (editMap.has(lineNumber)) {
-      const newText = editMap.get(lineNumber)!;
-      console.info(`[DOCX_PRESERVE] Replacing line ${lineNumber}: "${originalText}" -> "${newText}"`);
+/**
+ * Place an inserted line directly after the paragraph of the line before it
+ * (its anchor), as a copy of that paragraph so it keeps its paragraph and run
+ * properties. An anchor that was itself inserted (earlier in the history, or
+ * the previous line of a multi-line insert) is found among the inserted
+ * paragraphs; anchor 0 means before line 1. Edits recorded without an anchor
+ * use the line before them by position.
+ */
+function placeInsertion(
+  paragraphs: XmlParagraph[],
+  insertions: Map<number, InsertedParagraph[]>,
+  edit: LineEdit
+): boolean {
+  const anchorLine = edit.anchorLineNumber ?? edit.lineNumber - 1;
+  const anchorText = normalizeText(decodeEntities(edit.anchorText ?? ''));
+  const add = (index: number, position: number, template: string) => {
+    const inserted = insertions.get(index) || [];
+    inserted.splice(position, 0, {
+      text: normalizeText(decodeEntities(edit.newText)),
+      xml: cloneParagraph(template, edit.newText)
+    });
+    insertions.set(index, inserted);
+  };
+
+  if (anchorLine <= 0) {
+    const first = paragraphs.find(p => p.ordinal === 1);
+    if (!first) return false;
+    add(-1, 0, first.xml);
+    return true;
+  }
 
-      // Replace text while preserving HTML formatting tags
-      return htmlLine.replace(originalText, newText);
+  // Inserted paragraphs are newer than the original ones (a moved line is
+  // deleted from the original and inserted where it now is), so check them first
+  if (anchorText) {
+    for (const [key, inserted] of Array.from(insertions.entries())) {
+      const position = inserted.map(p => p.text).lastIndexOf(anchorText);
+      if (position !== -1) {
+        add(key, position + 1, inserted[position].xml);
+        return true;
+      }
     }
+  }
+
+  const index = anchorText
+    ? locateParagraph(paragraphs, anchorLine, anchorText)
+    : paragraphs.findIndex(p => p.editable && p.ordinal === anchorLine);
+  if (index === -1) {
+    return false;
+  }
+
+  add(index, 0, paragraphs[index].xml);
+  return true;
+}
+
+/**
+ * Copy of a paragraph with new text; Word's unique paragraph IDs and any
+ * section break it carries are dropped
+ */
+function cloneParagraph(paragraphXml: string, newText: string): string {
+  return replaceParagraphText(paragraphXml, newText)
+    .replace(/\s(?:w14:paraId|w14:textId)="[^"]*"/g, '')
+    .replace(/<w:sectPr[\s>][\s\S]*?<\/w:sectPr>|<w:sectPr\/>/g, '');
+}
 
-    return htmlLine;
+/**
+ * Whether a deleted paragraph has to stay in the XML: it carries the
+ * section properties (page size, margins) or is the last paragraph left in
+ * a table cell (a <w:tc> without a <w:p> is invalid)
+ */
+function mustKeepParagraph(paragraphs: XmlParagraph[], replacements: Map<number, string>, index: number): boolean {
+  const paragraph = paragraphs[index];
+  if (/<w:sectPr[\s>/]/.test(paragraph.xml)) {
+    return true;
+  }
+  return paragraph.cell !== -1 && !paragraphs.some(
+    (other, i) => i !== index && other.cell === paragraph.cell && replacements.get(i) !== ''
+  );
+}
+
+/**
+ * Paragraph without its runs (properties kept)
+ */
+function emptyParagraph(paragraphXml: string): string {
+  return paragraphXml.replace(/<w:r(?:\s[^>]*)?>[\s\S]*?<\/w:r>/g, '');
+}
+
+/**
+ * Replace a paragraph's text across split <w:r> runs.
+ * The first text run keeps its <w:rPr>; the remaining text runs are removed.
+ * Non-text runs (drawings, field chars) and paragraph properties are kept.
+ */
+function replaceParagraphText(paragraphXml: string, newText: string): string {
+  const runRegex = /<w:r(?:\s[^>]*)?>[\s\S]*?<\/w:r>/g;
+  const escaped = escapeXml(decodeEntities(newText));
+  let replaced = false;
+
+  const result = paragraphXml.replace(runRegex, run => {
+    if (!/<w:t(?:\s[^>]*)?>|<w:tab\/>/.test(run)) {
+      return run;
+    }
+
+    if (replaced) {
+      return '';
+    }
+    replaced = true;
+
+    const openTag = run.match(/^<w:r(?:\s[^>]*)?>/)![0];
+    const rPr = run.match(/<w:rPr>[\s\S]*?<\/w:rPr>|<w:rPr\/>/)?.[0] || '';
+    return `${openTag}${rPr}<w:t xml:space="preserve">${escaped}</w:t></w:r>`;
   });
 
-  // Reconstruct HTML
-  const modifiedHtml = modifiedParagraphs.map(p => `<p>${p}</p>`).join('\n');
+  if (replaced) {
+    return result;
+  }
+
+  // Paragraph had no text runs - append one before the closing tag
+  return paragraphXml.replace(/<\/w:p>$/, `<w:r><w:t xml:space="preserve">${escaped}</w:t></w:r></w:p>`);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
 
-  // Convert back to DOCX using mammoth's reverse operation (if available)
-  // Since mammoth doesn't support HTML -> DOCX, we use docx library as fallback
-  return await convertHtmlToDocx(modifiedHtml, paragraphs);
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
 }
 
 /**
@@ -212,15 +511,6 @@ function extractParagraphsWithFormatting(htmlContent: string): DocxParagraph[] {
   return paragraphs;
 }
 
-/**
- * Convert HTML to DOCX (used in primary method fallback)
- */
-async function convertHtmlToDocx(html: string, originalParagraphs: string[]): Promise<Blob> {
-  // Extract paragraphs with formatting
-  const paragraphs = extractParagraphsWithFormatting(html);
-  return await reconstructDocx(paragraphs);
-}
-
 /**
  * Reconstruct DOCX document from paragraphs with formatting
  */
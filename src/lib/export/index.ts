@@ -126,3 +126,14 @@ export { exportToDocx, downloadDocx } from './docx';
 export { exportToPdf, downloadPdf } from './pdf';
 export { exportToMarkdown, downloadMarkdown } from './markdown';
 export { exportDocxWithFormatPreservation, exportSimpleFormat } from './docx-preserve';
+export {
+  exportCoverLetter,
+  exportCoverLetterToDocx,
+  exportCoverLetterToPdf,
+  exportCoverLetterToMarkdown,
+  exportCoverLetterToLatex,
+  coverLetterToLatex,
+  coverLetterToDocument,
+  coverLetterFileName
+} from './cover-letter';
+export type { CoverLetterExportFormat, CoverLetterStyleSource } from './cover-letter';
@@ -4,13 +4,13 @@
  * Export resumes to LaTeX format with format preservation
  */
 
-import { Resume } from '../parsers/types';
+import { ResumeDocument } from '../parsers/types';
 import { exportToLatex, applyEditsToLatex } from '../parsers/latex';
 
 /**
  * Export resume to LaTeX (.tex file)
  */
-export function exportToLaTeX(resume: Resume): Blob {
+export function exportToLaTeX(resume: ResumeDocument): Blob {
   console.info('[LATEX_EXPORT] Exporting resume to LaTeX');
 
   // Use the LaTeX parser's export function
@@ -46,7 +46,7 @@ export function downloadLaTeX(blob: Blob, fileName: string): void {
  */
 export function exportToLaTeXPreserveFormat(
   originalLatex: string,
-  resume: Resume
+  resume: ResumeDocument
 ): Blob {
   console.info('[LATEX_EXPORT] Exporting with format preservation');
 
@@ -49,8 +49,9 @@ function applyLineFormatting(doc: jsPDF, line: Line): void {
 
 /**
  * Export document to PDF format
+ * (`pageNumbers: false` leaves out the "Page i of n" footer, e.g. for letters)
  */
-export function exportToPdf(document: Document): Blob {
+export function exportToPdf(document: Document, options: { pageNumbers?: boolean } = {}): Blob {
   try {
     console.info('[PDF_EXPORT] Starting PDF export');
 
@@ -110,7 +111,7 @@ export function exportToPdf(document: Document): Blob {
 
     // Add page numbers
     const totalPages = pageNumber;
-    for (let i = 1; i <= totalPages; i++) {
+    for (let i = 1; options.pageNumbers !== false && i <= totalPages; i++) {
       doc.setPage(i);
       doc.setFontSize(9);
       doc.setTextColor(128, 128, 128);
@@ -0,0 +1,155 @@
+/**
+ * Chat Agent Loop - Bounded multi-step function calling
+ *
+ * Each step sends the prompt plus every earlier call/response pair to the
+ * model. The model either calls more tools (executed, then fed back as
+ * function responses) or answers with text, which ends the loop. The loop
+ * also stops after maxSteps steps, or when the model keeps repeating calls
+ * it already made: a repeated call is not executed again, its response tells
+ * the model so, and the second step made only of repeats stops the loop.
+ * Read-only calls may repeat after the document changed.
+ */
+
+import { LLMProvider, LLMFunctionCall, LLMToolSet, LLMToolTurn } from '@/lib/llm';
+import { ChatStopReason } from '../parsers/types';
+import { chatWithHistory } from './client';
+
+export const DEFAULT_AGENT_MAX_STEPS = 6;
+export const MAX_AGENT_STEPS = 12;
+const MAX_REPEATED_STEPS = 2;
+
+export interface AgentToolCall {
+  tool: string;
+  args: any;
+  result: any;
+  repeated?: boolean;         // Identical to an earlier call - not executed again
+}
+
+export interface AgentToolOutcome {
+  result: any;
+  content: string;            // Text sent back to the model as the function response
+  changedDocument: boolean;
+}
+
+export interface AgentStep {
+  step: number;
+  calls: AgentToolCall[];
+}
+
+export interface AgentLoopOptions {
+  llm: LLMProvider;
+  prompt: string;
+  tools: LLMToolSet[];
+  maxSteps?: number;
+  executeTool: (name: string, args: any) => AgentToolOutcome;
+  isReadOnly: (name: string, args: any) => boolean;
+  onStep?: (step: AgentStep) => void;
+  onText?: (delta: string) => void;   // Model text as it streams in (any step)
+  signal?: AbortSignal;
+}
+
+export interface AgentLoopResult {
+  text?: string;              // Model's closing answer (absent unless stopReason is 'done')
+  calls: AgentToolCall[];     // Every call in order, repeats included
+  steps: number;
+  stopReason: ChatStopReason;
+}
+
+/**
+ * Clamp a requested step budget to 1..MAX_AGENT_STEPS
+ */
+export function resolveAgentMaxSteps(requested?: unknown): number {
+  const steps = typeof requested === 'number' && Number.isFinite(requested)
+    ? Math.floor(requested)
+    : DEFAULT_AGENT_MAX_STEPS;
+  return Math.min(Math.max(steps, 1), MAX_AGENT_STEPS);
+}
+
+/**
+ * Stable key for a call (argument order does not matter)
+ */
+function callSignature(call: LLMFunctionCall): string {
+  const sortKeys = (value: any): any => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((sorted: any, key) => {
+        sorted[key] = sortKeys(value[key]);
+        return sorted;
+      }, {});
+    }
+    return value;
+  };
+  return `${call.name}:${JSON.stringify(sortKeys(call.args ?? {}))}`;
+}
+
+/**
+ * Run the agent until it answers, runs out of steps or loops
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+  const maxSteps = resolveAgentMaxSteps(options.maxSteps);
+  const turns: LLMToolTurn[] = [];
+  const calls: AgentToolCall[] = [];
+  const seen = new Set<string>();
+  let documentVersion = 0;
+  let repeatedSteps = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const response = await chatWithHistory(options.llm, options.prompt, options.tools, turns, options.signal, options.onText);
+
+    if (!response.functionCalls || response.functionCalls.length === 0) {
+      console.info(`[AGENT] Finished after ${step - 1} tool step(s)`);
+      return { text: response.text, calls, steps: step - 1, stopReason: 'done' };
+    }
+
+    console.info(`[AGENT] Step ${step}/${maxSteps}: ${response.functionCalls.map(c => c.name).join(', ')}`);
+
+    const stepCalls: AgentToolCall[] = [];
+    const turn: LLMToolTurn = { functionCalls: response.functionCalls, responses: [] };
+
+    for (const call of response.functionCalls) {
+      // Reads are keyed to the document version so they may repeat after an edit
+      const key = options.isReadOnly(call.name, call.args)
+        ? `${callSignature(call)}@${documentVersion}`
+        : callSignature(call);
+
+      if (seen.has(key)) {
+        console.warn(`[AGENT] Repeated call skipped: ${call.name}`);
+        stepCalls.push({ tool: call.name, args: call.args, result: null, repeated: true });
+        turn.responses.push({
+          name: call.name,
+          response: {
+            success: false,
+            content: `You already called ${call.name} with these arguments and the result has not changed. Use the earlier result, try something different, or answer the user.`
+          }
+        });
+        continue;
+      }
+      seen.add(key);
+
+      const outcome = options.executeTool(call.name, call.args);
+      if (outcome.changedDocument) {
+        documentVersion++;
+      }
+      stepCalls.push({ tool: call.name, args: call.args, result: outcome.result });
+      turn.responses.push({
+        name: call.name,
+        response: { success: outcome.result?.success !== false, content: outcome.content }
+      });
+    }
+
+    turns.push(turn);
+    calls.push(...stepCalls);
+    options.onStep?.({ step, calls: stepCalls });
+
+    if (stepCalls.every(call => call.repeated)) {
+      repeatedSteps++;
+      if (repeatedSteps >= MAX_REPEATED_STEPS) {
+        console.warn(`[AGENT] Loop detected after ${step} steps - stopping`);
+        return { calls, steps: step, stopReason: 'loop' };
+      }
+    }
+  }
+
+  console.warn(`[AGENT] Reached the ${maxSteps}-step limit`);
+  return { calls, steps: maxSteps, stopReason: 'max_steps' };
+}
@@ -3,10 +3,11 @@
  * Uses the @google/generative-ai library
  */
 
-import { GoogleGenerativeAI, FunctionDeclarationSchemaType } from '@google/generative-ai';
+import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
+import { LLMProvider, LLMToolResponse, LLMToolSet, LLMToolTurn, isAbortError } from '@/lib/llm';
 
 // Export Type for use in tool definitions
-export { FunctionDeclarationSchemaType as Type };
+export { SchemaType as Type };
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // ms
@@ -79,65 +80,46 @@ export async function generateWithRetry(
 
 /**
  * Chat with conversation history and function calling support
+ * Works with any LLM provider (Gemini, OpenAI-compatible, Ollama, fake)
+ * onText receives the response text as it streams in
  */
 export async function chatWithHistory(
-  client: GoogleGenerativeAI,
+  llm: LLMProvider,
   prompt: string,
-  tools?: any[],
-  modelName: string = DEFAULT_MODEL
-): Promise<{ text?: string; functionCalls?: any[] }> {
+  tools?: LLMToolSet[],
+  turns: LLMToolTurn[] = [],
+  signal?: AbortSignal,
+  onText?: (delta: string) => void
+): Promise<LLMToolResponse> {
   try {
-    console.info('[GEMINI_CLIENT] Starting chat with tools');
+    console.info(`[GEMINI_CLIENT] Starting chat with tools (provider: ${llm.type}, model: ${llm.model})`);
     console.info('[GEMINI_CLIENT] Tools provided:', tools ? 'YES' : 'NO');
     console.info('[GEMINI_CLIENT] Number of tools:', tools?.length || 0);
 
-    // Configure model with tools if provided
-    const modelConfig: any = { model: modelName };
-    if (tools && tools.length > 0) {
-      modelConfig.tools = tools;
-      console.info('[GEMINI_CLIENT] Model configured with tools');
-      console.info('[GEMINI_CLIENT] Tools structure:', JSON.stringify(tools, null, 2));
-    }
-
-    // Get the generative model
-    const model = client.getGenerativeModel(modelConfig);
-
-    console.info('[GEMINI_CLIENT] Sending request to Gemini...');
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-
-    // Debug: Log the full response structure
-    console.info('[GEMINI_CLIENT] ===== RAW RESPONSE =====');
-    console.info('[GEMINI_CLIENT] Response received');
-    console.info('[GEMINI_CLIENT] =======================');
-
-    // Check for function calls in the response candidates
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      const firstCandidate = candidates[0];
-      if (firstCandidate.content && firstCandidate.content.parts) {
-        const functionCalls = firstCandidate.content.parts
-          .filter((part: any) => part.functionCall)
-          .map((part: any) => part.functionCall);
-
-        if (functionCalls.length > 0) {
-          console.info(`[GEMINI_CLIENT] ✓ Received ${functionCalls.length} function calls`);
-          functionCalls.forEach((call, idx) => {
-            console.info(`[GEMINI_CLIENT] Function call ${idx + 1}:`, JSON.stringify(call, null, 2));
-          });
-          return { functionCalls };
-        }
-      }
+    console.info('[GEMINI_CLIENT] Sending request to provider...');
+    const response = turns.length > 0
+      ? await llm.generateWithToolTurns(prompt, turns, tools, { signal, onText })
+      : await llm.generateWithTools(prompt, tools, { signal, onText });
+
+    if (response.functionCalls && response.functionCalls.length > 0) {
+      console.info(`[GEMINI_CLIENT] ✓ Received ${response.functionCalls.length} function calls`);
+      response.functionCalls.forEach((call, idx) => {
+        console.info(`[GEMINI_CLIENT] Function call ${idx + 1}:`, JSON.stringify(call, null, 2));
+      });
+      return { functionCalls: response.functionCalls };
     }
 
     // Otherwise return text response
-    const text = response.text();
+    const text = response.text;
     console.info('[GEMINI_CLIENT] ✓ Received text response (length:', text?.length || 0, ')');
     console.info('[GEMINI_CLIENT] Text preview:', text?.substring(0, 200));
 
     return { text };
 
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('[GEMINI_CLIENT] ✗ Error in chat:', error);
     throw new Error(`Chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
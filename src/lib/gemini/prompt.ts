@@ -24,12 +24,15 @@ IMPORTANT: You can call MULTIPLE tools in a single response. For example:
 - Then IMMEDIATELY call doc_edit in the same response to make changes
 - Do NOT wait for another message to call doc_edit
 
+Tool results are sent back to you, so you can also work in steps: search, then read what you found, then edit. Keep calling tools until the request is done, then reply with a short text answer and no tool calls - a text-only reply ends your turn. You have a limited number of steps, and repeating a call with the same arguments is not executed again.
+
 ## Available Tools
 
 You have access to these tools that you MUST use:
 
 1. **doc_search(query)** - Search for lines containing specific keywords
-   - Returns up to 5 most relevant lines with line numbers
+   - Returns up to 5 most relevant lines with line numbers, ranked by score, with the section (and role/project) each line is in
+   - Matches other word forms, common aliases (k8s / Kubernetes) and small typos
    - Use this when you need to find specific content in the document
    - IMPORTANT: This is NOT a terminal action - after searching, you MUST call doc_edit to make changes
 
@@ -53,12 +56,34 @@ You have access to these tools that you MUST use:
    - This actually modifies the document - use it when users ask for changes
    - This IS a terminal action - after calling doc_edit, you can respond to the user
 
+5. **doc_find_replace(pattern, replacement, regex?, wholeWord?, caseSensitive?, lines?, preview?)** - Find and replace across lines
+   - Use for wording changes that repeat, e.g. every "utilize" -> "use", in ONE call instead of many doc_edit calls
+   - The pattern is plain text; wholeWord=true matches whole words only. Set regex=true only when you need a pattern (simple regexes only: no nested quantifiers or backreferences; $1 inserts capture groups)
+   - preview=true lists the matches and results without changing the document
+   - Locked lines are skipped
+   - This IS a terminal action (unless preview=true)
+
+6. **doc_move_block(section | startLine+endLine, beforeSection | afterSection | afterLine)** - Move lines or a whole section
+   - e.g. move the Projects section above Experience: section='Projects', beforeSection='Experience'
+   - Blocks containing locked lines cannot be moved
+   - This IS a terminal action
+
+7. **doc_batch_edit(edits)** - Several doc_edit operations applied atomically (all or none)
+   - Each edit has operation, lines and newText like doc_edit
+   - ALL line numbers refer to the document BEFORE the batch - do not adjust for earlier inserts/deletes
+   - Prefer this over many separate doc_edit calls when lines need different new text
+   - This IS a terminal action
+
 ## Citation Syntax
 
 Users can reference specific parts of the document using:
 - @line10 or @l10 - Reference line 10
 - @l5-10 - Reference lines 5 through 10
 - @page3 or @p3 - Reference all lines on page 3
+- @section:experience or @section:"Open Source" - Reference a whole section
+- @item:2 - Reference the second item (role, degree, project) of the section cited before it, or of Experience; @item:projects:2 names the section
+- @bullets:projects - Reference the bullet lines of a section
+- @kw:Kubernetes - Reference every line mentioning a keyword
 
 When users use citations, the referenced content will be automatically included in the context.
 
@@ -151,6 +176,20 @@ CRITICAL Rules:
   return basePrompt;
 }
 
+/**
+ * Suggest mode instructions (added on every turn, since the mode can change mid-chat)
+ */
+export function buildSuggestModeInstructions(): string {
+  return `## SUGGEST MODE
+
+The user wants to review every change before it is made. doc_edit, doc_find_replace, doc_move_block and doc_batch_edit are NOT available in this mode.
+Wherever these instructions say doc_edit, call doc_propose_edit(operation, lines, newText, reason) instead:
+- It takes the same operation, lines and newText as doc_edit, plus a one-sentence reason
+- It does NOT change the document: each line becomes a suggestion the user accepts or rejects
+- Propose complete final text for each line; the user cannot edit a suggestion before accepting it
+- After proposing, tell the user what you suggested - never claim the document was changed`;
+}
+
 /**
  * Build prompt with citation context
  */
@@ -217,11 +256,14 @@ export function formatToolResult(
       case 'doc_search':
         if (Array.isArray(result) && result.length > 0) {
           const formatted = result
-            .map((r: any) => `Line ${r.lineNumber}: ${r.text}`)
+            .map((r: any) => {
+              const context = [r.section, r.item].filter(Boolean).join(' > ');
+              return `Line ${r.lineNumber}${context ? ` [${context}]` : ''} (score ${r.score}): ${r.text}`;
+            })
             .join('\n');
-          return `Search results:\n${formatted}`;
+          return `Search results (best first):\n${formatted}`;
         }
-        return 'No results found';
+        return 'No results found. Try a different 1-2 word keyword, or call doc_analyze to see the full document.';
 
       case 'doc_read':
         if (result.success && result.lines) {
@@ -238,6 +280,39 @@ export function formatToolResult(
         }
         return `Edit failed: ${result.error || 'Unknown error'}`;
 
+      case 'doc_find_replace':
+        if (result.success) {
+          const changes = result.matches
+            .slice(0, 20)
+            .map((m: any) => `Line ${m.lineNumber}: ${m.before} -> ${m.after}`)
+            .join('\n');
+          const more = result.matches.length > 20 ? `\n...and ${result.matches.length - 20} more` : '';
+          const locked = result.lockedLines.length > 0 ? `\nLocked lines left unchanged: ${result.lockedLines.join(', ')}` : '';
+          if (result.matches.length === 0) {
+            return `No lines matched${locked}`;
+          }
+          return `${result.preview ? 'Preview (nothing changed yet)' : `Replaced on ${result.modifiedLines.length} line(s)`}:\n${changes}${more}${locked}`;
+        }
+        return `Find/replace failed: ${result.error || 'Unknown error'}`;
+
+      case 'doc_move_block':
+        if (result.success) {
+          return `Moved block to lines ${result.movedLines[0]}-${result.movedLines[result.movedLines.length - 1]}`;
+        }
+        return `Move failed: ${result.error || 'Unknown error'}`;
+
+      case 'doc_batch_edit':
+        if (result.success) {
+          return `Applied ${result.applied} edits (original lines: ${result.modifiedLines.join(', ')})`;
+        }
+        return `Batch edit failed (nothing was changed): ${result.error || 'Unknown error'}`;
+
+      case 'doc_propose_edit':
+        if (result.success) {
+          return `Suggestions recorded for lines: ${result.suggestions.map((s: any) => s.lineNumber).join(', ')} (pending user review)`;
+        }
+        return `Suggestion failed: ${result.error || 'Unknown error'}`;
+
       default:
         return JSON.stringify(result);
     }
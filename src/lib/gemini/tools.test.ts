@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { executeDocFindReplace } from './tools';
+import { Document } from '../parsers/types';
+
+function makeDocument(texts: string[]): Document {
+  return {
+    id: 'doc-1',
+    lines: texts.map((text, i) => ({ lineNumber: i + 1, text, pageNumber: 1, isLocked: false, isPlaceholder: false })),
+    metadata: { format: 'docx', totalLines: texts.length, totalPages: 1 }
+  };
+}
+
+describe('executeDocFindReplace', () => {
+  it('matches plain text by default', () => {
+    const document = makeDocument(['Used C++ (daily)', 'Used C (rarely)']);
+    const result = executeDocFindReplace({ pattern: 'C++ (daily)', replacement: 'Rust' }, document);
+    expect(result.modifiedLines).toEqual([1]);
+    expect(document.lines[0].text).toBe('Used Rust');
+  });
+
+  it('replaces with capture groups in regex mode', () => {
+    const document = makeDocument(['Utilized Python', 'utilizing Go']);
+    executeDocFindReplace({ pattern: '\\butiliz(ed|ing)\\b', replacement: 'us$1', regex: true }, document);
+    expect(document.lines.map(l => l.text)).toEqual(['used Python', 'using Go']);
+  });
+
+  it('rejects nested quantifiers and backreferences', () => {
+    const document = makeDocument(['aaaa']);
+    expect(executeDocFindReplace({ pattern: '(a+)+$', replacement: '', regex: true }, document).error).toMatch(/Nested quantifiers/);
+    expect(executeDocFindReplace({ pattern: '(a)\\1', replacement: '', regex: true }, document).error).toMatch(/Backreferences/);
+  });
+
+  it('stops a pathological pattern instead of blocking', () => {
+    const document = makeDocument(['a'.repeat(1000)]);
+    const started = Date.now();
+    const result = executeDocFindReplace({ pattern: '.*.*.*z', replacement: '', regex: true }, document);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/took over/);
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(document.lines[0].text).toBe('a'.repeat(1000));
+  });
+});
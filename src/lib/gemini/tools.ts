@@ -2,8 +2,26 @@
  * Gemini Tools - Function definitions for document operations
  */
 
+import { runInNewContext } from 'vm';
 import { Type } from './client';
-import { Document, SearchResult, Line, EditParams, EditResult } from '../parsers/types';
+import {
+  Document,
+  SearchResult,
+  Line,
+  EditParams,
+  EditResult,
+  ProposeEditResult,
+  FindReplaceParams,
+  FindReplaceMatch,
+  FindReplaceResult,
+  MoveBlockParams,
+  MoveBlockResult,
+  BatchEditParams,
+  BatchEditResult
+} from '../parsers/types';
+import { createSuggestions } from '../suggestions';
+import { findSection } from '../parsers/structure';
+import { getDocumentSearchIndex } from '../search';
 
 /**
  * Tool definitions for Gemini function calling
@@ -27,7 +45,7 @@ export const toolDefinitions = {
     },
     {
       name: 'doc_search',
-      description: 'Search for WHERE to edit by finding lines with specific field names. Use 1-2 WORD keywords ONLY - just the field name you\'re looking for (e.g., "investor", "purchase", "date", "company"). Do NOT include values (NOT "investor Sebastian Grol", NOT "date Oct 30"). You\'re searching for the LOCATION to edit, not the VALUE to set. Returns up to 5 most relevant lines with their line numbers.',
+      description: 'Search for WHERE to edit by finding lines with specific field names. Use 1-2 WORD keywords ONLY - just the field name you\'re looking for (e.g., "investor", "purchase", "date", "company"). Do NOT include values (NOT "investor Sebastian Grol", NOT "date Oct 30"). You\'re searching for the LOCATION to edit, not the VALUE to set. Results are ranked: word forms ("managed" / "management"), common aliases ("k8s" / "Kubernetes") and typos still match, and lines in a section named in the query rank higher ("python experience"). Returns up to 5 most relevant lines with their line numbers, score and section.',
       parameters: {
         type: Type.OBJECT,
         properties: {
@@ -81,6 +99,154 @@ export const toolDefinitions = {
         },
         required: ['operation', 'lines']
       }
+    },
+    {
+      name: 'doc_find_replace',
+      description: 'Find and replace text across the document (or specific lines) in ONE call - e.g. replace every "utilize" with "use". The pattern is plain text (wholeWord=true to skip matches inside longer words); with regex=true it is a simple JavaScript regular expression (no nested quantifiers or backreferences) and the replacement may use $1, $2 for capture groups. Set preview=true first to see every match without changing anything. Locked lines are never changed.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          pattern: {
+            type: Type.STRING,
+            description: 'Text to find, e.g. "utilize" (or with regex=true a regular expression, e.g. "\\butiliz(e|es|ed|ing)\\b")'
+          },
+          replacement: {
+            type: Type.STRING,
+            description: 'Replacement text; with regex=true, $1, $2... insert capture groups'
+          },
+          regex: {
+            type: Type.BOOLEAN,
+            description: 'Treat the pattern as a regular expression instead of plain text (default: false)'
+          },
+          wholeWord: {
+            type: Type.BOOLEAN,
+            description: 'Plain text only: match whole words, so "use" does not match "user" (default: false)'
+          },
+          caseSensitive: {
+            type: Type.BOOLEAN,
+            description: 'Match case exactly (default: false)'
+          },
+          lines: {
+            type: Type.ARRAY,
+            items: { type: Type.NUMBER },
+            description: 'Only search these line numbers (default: the whole document)'
+          },
+          preview: {
+            type: Type.BOOLEAN,
+            description: 'List the matching lines and what they would become, without editing (default: false)'
+          }
+        },
+        required: ['pattern', 'replacement']
+      }
+    },
+    {
+      name: 'doc_move_block',
+      description: 'Move a block of lines - a line range or a whole section such as "Projects" - to another position in ONE call, e.g. move the Projects section above Experience. Give the block as section OR startLine/endLine, and the destination as beforeSection, afterSection OR afterLine. Blocks containing locked lines cannot be moved.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          section: {
+            type: Type.STRING,
+            description: 'Heading of the section to move, heading line included (e.g. "Projects")'
+          },
+          startLine: {
+            type: Type.NUMBER,
+            description: 'First line of the block to move (instead of section)'
+          },
+          endLine: {
+            type: Type.NUMBER,
+            description: 'Last line of the block to move (default: startLine)'
+          },
+          beforeSection: {
+            type: Type.STRING,
+            description: 'Move the block just before this section\'s heading'
+          },
+          afterSection: {
+            type: Type.STRING,
+            description: 'Move the block just after the last line of this section'
+          },
+          afterLine: {
+            type: Type.NUMBER,
+            description: 'Move the block after this line number (0 = top of the document)'
+          }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'doc_batch_edit',
+      description: 'Apply several doc_edit operations at once, atomically: either every edit is applied or none is. ALL line numbers refer to the document as it is BEFORE the batch, so you do not need to account for lines shifted by earlier inserts or deletes in the same batch. Use this instead of many doc_edit calls when changing several lines with different text. Fails if any edit touches a locked line.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          edits: {
+            type: Type.ARRAY,
+            description: 'The edits to apply, each with the same fields as doc_edit',
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                operation: {
+                  type: Type.STRING,
+                  enum: ['replace', 'insert', 'delete'],
+                  description: '"replace", "insert" (after the line) or "delete"'
+                },
+                lines: {
+                  type: Type.ARRAY,
+                  items: { type: Type.NUMBER },
+                  description: 'Line numbers in the document before the batch'
+                },
+                newText: {
+                  type: Type.STRING,
+                  description: 'New text (required for replace and insert)'
+                }
+              },
+              required: ['operation', 'lines']
+            }
+          }
+        },
+        required: ['edits']
+      }
+    }
+  ]
+};
+
+// Tools that change the document (not offered in suggest mode)
+const DIRECT_EDIT_TOOLS = ['doc_edit', 'doc_find_replace', 'doc_move_block', 'doc_batch_edit'];
+
+/**
+ * Suggest mode: doc_edit is replaced by doc_propose_edit, which records the
+ * change as pending suggestions for the user to accept or reject
+ */
+export const suggestToolDefinitions = {
+  functionDeclarations: [
+    ...toolDefinitions.functionDeclarations.filter(declaration => !DIRECT_EDIT_TOOLS.includes(declaration.name)),
+    {
+      name: 'doc_propose_edit',
+      description: 'PROPOSE an edit to lines in the document. The document is NOT changed: each line becomes a suggestion that the user accepts or rejects. Use this whenever the user asks to change, update, add, or delete content. Operations: replace (change existing line text), insert (add a new line after a line), delete (remove lines). Cannot propose edits to locked lines.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          operation: {
+            type: Type.STRING,
+            enum: ['replace', 'insert', 'delete'],
+            description: 'The proposed operation: "replace" to change line text, "insert" to add a new line after the specified line numbers, "delete" to remove lines'
+          },
+          lines: {
+            type: Type.ARRAY,
+            items: { type: Type.NUMBER },
+            description: 'Line numbers the suggestion applies to. For replace: lines to change. For insert: lines after which to insert. For delete: lines to remove.'
+          },
+          newText: {
+            type: Type.STRING,
+            description: 'Proposed text (required for replace and insert). For replace, this replaces the entire line. For insert, this is the new line.'
+          },
+          reason: {
+            type: Type.STRING,
+            description: 'One short sentence explaining the suggestion, shown to the user next to it'
+          }
+        },
+        required: ['operation', 'lines']
+      }
     }
   ]
 };
@@ -150,31 +316,11 @@ export function executeDocSearch(
       return [];
     }
 
-    const queryLower = query.toLowerCase();
-    const results: SearchResult[] = [];
-
-    // Search through all lines
-    for (const line of document.lines) {
-      if (line.text.toLowerCase().includes(queryLower)) {
-        // Simple scoring based on exact match vs partial
-        const exactMatch = line.text.toLowerCase() === queryLower;
-        const score = exactMatch ? 1.0 : 0.5;
-
-        results.push({
-          lineNumber: line.lineNumber,
-          text: line.text,
-          score
-        });
-      }
-    }
-
-    // Sort by score and limit results
-    results.sort((a, b) => b.score - a.score);
-    const limitedResults = results.slice(0, Math.min(limit, 20));
+    const results = getDocumentSearchIndex(document).search(query, limit);
 
-    console.info(`[TOOLS] Found ${results.length} results, returning top ${limitedResults.length}`);
+    console.info(`[TOOLS] Found ${results.length} results`);
 
-    return limitedResults;
+    return results;
 
   } catch (error) {
     console.error('[TOOLS] Error in doc_search:', error);
@@ -238,6 +384,56 @@ export function executeDocRead(
   }
 }
 
+/**
+ * Execute doc_propose_edit tool - validates like doc_edit but leaves the document unchanged
+ */
+export function executeDocProposeEdit(
+  params: EditParams & { reason?: string },
+  document: Document
+): ProposeEditResult {
+  try {
+    console.info(`[TOOLS] Executing doc_propose_edit: ${params.operation} on lines ${params.lines?.join(', ')}`);
+
+    if (!params.lines || params.lines.length === 0) {
+      return { success: false, suggestions: [], error: 'No line numbers provided' };
+    }
+
+    if (!['replace', 'insert', 'delete'].includes(params.operation)) {
+      return { success: false, suggestions: [], error: `Unknown operation: ${params.operation}` };
+    }
+
+    if ((params.operation === 'replace' || params.operation === 'insert') && !params.newText) {
+      return { success: false, suggestions: [], error: `New text is required for ${params.operation} operation` };
+    }
+
+    const missingLines = params.lines.filter(lineNum => !document.lines.some(l => l.lineNumber === lineNum));
+    if (missingLines.length > 0) {
+      return { success: false, suggestions: [], error: `Lines not found: ${missingLines.join(', ')}` };
+    }
+
+    const lockedLines = params.operation === 'insert'
+      ? []
+      : params.lines.filter(lineNum => document.lines.find(l => l.lineNumber === lineNum)?.isLocked);
+    if (lockedLines.length > 0) {
+      console.warn(`[TOOLS] Cannot propose edits to locked lines: ${lockedLines.join(', ')}`);
+      return { success: false, suggestions: [], error: `Cannot edit locked lines: ${lockedLines.join(', ')}` };
+    }
+
+    const suggestions = createSuggestions(params, document.lines);
+    console.info(`[TOOLS] Proposed ${suggestions.length} suggestions`);
+
+    return { success: true, suggestions };
+
+  } catch (error) {
+    console.error('[TOOLS] Error in doc_propose_edit:', error);
+    return {
+      success: false,
+      suggestions: [],
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
 /**
  * Execute doc_edit tool
  */
@@ -370,3 +566,422 @@ export function executeDocEdit(
     };
   }
 }
+
+// Limits for model-written regexes; they run synchronously in the API route
+const MAX_REGEX_PATTERN_LENGTH = 100;
+const MAX_REGEX_LINE_LENGTH = 1000;
+const REGEX_TIME_LIMIT_MS = 250;  // All lines of one call; catches what checkRegexSafety misses (.*.*.*z)
+
+/**
+ * Why a model-written regex may backtrack catastrophically (null if it is
+ * safe to run): too long, backreferences, or a repeated group that itself
+ * contains a quantifier or alternation, e.g. (a+)+ or (a|ab)*
+ */
+function checkRegexSafety(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    return `Regular expressions are limited to ${MAX_REGEX_PATTERN_LENGTH} characters`;
+  }
+  if (/\\(?:[1-9]|k<)/.test(pattern)) {
+    return 'Backreferences are not allowed in regular expressions';
+  }
+
+  // Per open group: whether its body has a quantifier or alternation
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    let riskyGroup = false;
+
+    if (char === '(') {
+      groups.push(false);
+      continue;
+    }
+    if (char === '|') {
+      markGroup();
+      continue;
+    }
+
+    if (char === ')') {
+      riskyGroup = groups.pop() ?? false;
+      if (riskyGroup) markGroup();
+    } else if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    }
+
+    // Quantifier after this element
+    const next = pattern[i + 1];
+    if (next && /[*+?{]/.test(next)) {
+      if (riskyGroup && next !== '?') {
+        return 'Nested quantifiers are not allowed in regular expressions (e.g. (a+)+ or (a|b)*)';
+      }
+      markGroup();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the find regex (always global so every match on a line is replaced).
+ * Plain text by default; regex mode only for patterns that pass checkRegexSafety.
+ */
+function buildFindRegex(params: FindReplaceParams): RegExp {
+  const flags = params.caseSensitive ? 'g' : 'gi';
+
+  if (!params.regex) {
+    const escaped = params.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(params.wholeWord ? `(?<![\\w])${escaped}(?![\\w])` : escaped, flags);
+  }
+
+  const unsafe = checkRegexSafety(params.pattern);
+  if (unsafe) {
+    throw new Error(`${unsafe}; use plain text (regex=false) instead`);
+  }
+  return new RegExp(params.pattern, flags);
+}
+
+/**
+ * Match count and replaced text of each line. Regex mode runs in a VM
+ * context with a time limit, so a pattern that backtracks polynomially or
+ * exponentially fails the call instead of blocking the event loop.
+ */
+function findAndReplace(texts: string[], regex: RegExp, params: FindReplaceParams): Array<{ count: number; after: string }> {
+  const replaceLine = (text: string, replace: (text: string) => string) => {
+    const count = (text.match(regex) || []).filter(match => match.length > 0).length;
+    return { count, after: count > 0 ? replace(text) : text };
+  };
+
+  if (!params.regex) {
+    return texts.map(text => replaceLine(text, t => t.replace(regex, () => params.replacement)));
+  }
+
+  try {
+    return runInNewContext(
+      'texts.map(text => replaceLine(text, t => t.replace(regex, replacement)))',
+      { texts, regex, replacement: params.replacement, replaceLine },
+      { timeout: REGEX_TIME_LIMIT_MS }
+    );
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(`Regular expression took over ${REGEX_TIME_LIMIT_MS}ms; use plain text (regex=false) or a simpler pattern`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Execute doc_find_replace tool
+ */
+export function executeDocFindReplace(
+  params: FindReplaceParams,
+  document: Document
+): FindReplaceResult {
+  const preview = !!params.preview;
+
+  try {
+    console.info(`[TOOLS] Executing doc_find_replace: /${params.pattern}/ -> "${params.replacement}"${preview ? ' (preview)' : ''}`);
+
+    if (!params.pattern) {
+      return { success: false, preview, matches: [], modifiedLines: [], lockedLines: [], error: 'Pattern is required' };
+    }
+
+    if (typeof params.replacement !== 'string') {
+      return { success: false, preview, matches: [], modifiedLines: [], lockedLines: [], error: 'Replacement is required (use "" to remove matches)' };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = buildFindRegex(params);
+    } catch (error) {
+      return {
+        success: false,
+        preview,
+        matches: [],
+        modifiedLines: [],
+        lockedLines: [],
+        error: `Invalid regular expression: ${error instanceof Error ? error.message : params.pattern}`
+      };
+    }
+
+    // Regex mode only runs on lines of bounded length
+    const skippedLongLines: number[] = [];
+
+    const scope = params.lines && params.lines.length > 0 ? new Set(params.lines) : null;
+    const matches: FindReplaceMatch[] = [];
+    const lockedLines: number[] = [];
+
+    const candidates = document.lines.filter(line => {
+      if (scope && !scope.has(line.lineNumber)) return false;
+      if (params.regex && line.text.length > MAX_REGEX_LINE_LENGTH) {
+        skippedLongLines.push(line.lineNumber);
+        return false;
+      }
+      return true;
+    });
+
+    const results = findAndReplace(candidates.map(line => line.text), regex, params);
+
+    candidates.forEach((line, i) => {
+      const { count, after } = results[i];
+      if (count === 0) return;
+
+      // Locked lines are reported but never passed back with their content
+      if (line.isLocked) {
+        lockedLines.push(line.lineNumber);
+        return;
+      }
+
+      if (after !== line.text) {
+        matches.push({ lineNumber: line.lineNumber, before: line.text, after, count });
+      }
+    });
+
+    if (lockedLines.length > 0) {
+      console.warn(`[TOOLS] Skipping locked lines with matches: ${lockedLines.join(', ')}`);
+    }
+    if (skippedLongLines.length > 0) {
+      console.warn(`[TOOLS] Regex not run on lines over ${MAX_REGEX_LINE_LENGTH} characters: ${skippedLongLines.join(', ')}`);
+    }
+
+    if (preview) {
+      console.info(`[TOOLS] Preview: ${matches.length} lines would change`);
+      return { success: true, preview, matches, modifiedLines: [], lockedLines };
+    }
+
+    matches.forEach(match => {
+      const line = document.lines.find(l => l.lineNumber === match.lineNumber);
+      if (line) line.text = match.after;
+    });
+
+    console.info(`[TOOLS] Replaced matches on ${matches.length} lines`);
+
+    return {
+      success: true,
+      preview,
+      matches,
+      modifiedLines: matches.map(match => match.lineNumber),
+      lockedLines
+    };
+
+  } catch (error) {
+    console.error('[TOOLS] Error in doc_find_replace:', error);
+    return {
+      success: false,
+      preview,
+      matches: [],
+      modifiedLines: [],
+      lockedLines: [],
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Execute doc_move_block tool
+ */
+export function executeDocMoveBlock(
+  params: MoveBlockParams,
+  document: Document
+): MoveBlockResult {
+  try {
+    console.info(`[TOOLS] Executing doc_move_block: ${JSON.stringify(params)}`);
+
+    // Resolve the block
+    let startLine: number;
+    let endLine: number;
+
+    if (params.section) {
+      const section = findSection(document, params.section);
+      if (!section) {
+        return { success: false, movedLines: [], error: `Section not found: ${params.section}` };
+      }
+      startLine = section.startLine;
+      endLine = section.endLine;
+    } else if (params.startLine !== undefined) {
+      startLine = params.startLine;
+      endLine = params.endLine ?? params.startLine;
+    } else {
+      return { success: false, movedLines: [], error: 'Provide section or startLine/endLine for the block to move' };
+    }
+
+    const lastLine = document.lines.length;
+    if (startLine < 1 || endLine > lastLine || startLine > endLine) {
+      return { success: false, movedLines: [], error: `Invalid line range: ${startLine}-${endLine} (document has ${lastLine} lines)` };
+    }
+
+    // Resolve the destination (the line the block goes after, in current numbering)
+    let afterLine: number;
+
+    if (params.beforeSection || params.afterSection) {
+      const target = findSection(document, (params.beforeSection || params.afterSection)!);
+      if (!target) {
+        return { success: false, movedLines: [], error: `Section not found: ${params.beforeSection || params.afterSection}` };
+      }
+      afterLine = params.beforeSection ? target.startLine - 1 : target.endLine;
+    } else if (params.afterLine !== undefined) {
+      afterLine = params.afterLine;
+    } else {
+      return { success: false, movedLines: [], error: 'Provide beforeSection, afterSection or afterLine as the destination' };
+    }
+
+    if (afterLine < 0 || afterLine > lastLine) {
+      return { success: false, movedLines: [], error: `Invalid destination line: ${afterLine}` };
+    }
+
+    if (afterLine >= startLine && afterLine < endLine) {
+      return { success: false, movedLines: [], error: 'The destination is inside the block being moved' };
+    }
+
+    if (afterLine === startLine - 1 || afterLine === endLine) {
+      return { success: false, movedLines: [], error: 'The block is already at that position' };
+    }
+
+    const block = document.lines.filter(l => l.lineNumber >= startLine && l.lineNumber <= endLine);
+    const lockedLines = block.filter(l => l.isLocked).map(l => l.lineNumber);
+    if (lockedLines.length > 0) {
+      console.warn(`[TOOLS] Cannot move locked lines: ${lockedLines.join(', ')}`);
+      return { success: false, movedLines: [], error: `Cannot move locked lines: ${lockedLines.join(', ')}` };
+    }
+
+    const remaining = document.lines.filter(l => l.lineNumber < startLine || l.lineNumber > endLine);
+    const insertIndex = remaining.filter(l => l.lineNumber <= afterLine).length;
+    const pageNumber = remaining[Math.max(insertIndex - 1, 0)]?.pageNumber ?? block[0].pageNumber;
+
+    block.forEach(line => {
+      line.pageNumber = pageNumber;
+    });
+    remaining.splice(insertIndex, 0, ...block);
+
+    // Renumber all lines
+    remaining.forEach((line, index) => {
+      line.lineNumber = index + 1;
+    });
+    document.lines = remaining;
+
+    const movedLines = block.map(line => line.lineNumber);
+    console.info(`[TOOLS] Moved lines ${startLine}-${endLine} to ${movedLines[0]}-${movedLines[movedLines.length - 1]}`);
+
+    return { success: true, movedLines };
+
+  } catch (error) {
+    console.error('[TOOLS] Error in doc_move_block:', error);
+    return {
+      success: false,
+      movedLines: [],
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Execute doc_batch_edit tool - validates every edit first, then applies
+ * them all against the original line numbers
+ */
+export function executeDocBatchEdit(
+  params: BatchEditParams,
+  document: Document
+): BatchEditResult {
+  try {
+    const edits = params.edits || [];
+    console.info(`[TOOLS] Executing doc_batch_edit with ${edits.length} edits`);
+
+    if (edits.length === 0) {
+      return { success: false, applied: 0, modifiedLines: [], error: 'No edits provided' };
+    }
+
+    const replacements = new Map<number, string>();
+    const deletions = new Set<number>();
+    const inserts = new Map<number, string[]>();
+
+    // Validate everything before touching the document
+    for (const [index, edit] of edits.entries()) {
+      const label = `Edit ${index + 1} (${edit.operation})`;
+
+      if (!['replace', 'insert', 'delete'].includes(edit.operation)) {
+        return { success: false, applied: 0, modifiedLines: [], error: `${label}: unknown operation` };
+      }
+      if (!edit.lines || edit.lines.length === 0) {
+        return { success: false, applied: 0, modifiedLines: [], error: `${label}: no line numbers provided` };
+      }
+      if ((edit.operation === 'replace' || edit.operation === 'insert') && !edit.newText) {
+        return { success: false, applied: 0, modifiedLines: [], error: `${label}: new text is required` };
+      }
+
+      for (const lineNum of edit.lines) {
+        const line = document.lines.find(l => l.lineNumber === lineNum);
+        if (!line) {
+          return { success: false, applied: 0, modifiedLines: [], error: `${label}: line ${lineNum} not found` };
+        }
+        if (line.isLocked && edit.operation !== 'insert') {
+          console.warn(`[TOOLS] Batch edit touches locked line ${lineNum}`);
+          return { success: false, applied: 0, modifiedLines: [], error: `${label}: cannot edit locked line ${lineNum}` };
+        }
+        if (edit.operation !== 'insert' && (replacements.has(lineNum) || deletions.has(lineNum))) {
+          return { success: false, applied: 0, modifiedLines: [], error: `${label}: line ${lineNum} is changed by more than one edit` };
+        }
+
+        if (edit.operation === 'replace') {
+          replacements.set(lineNum, edit.newText!);
+        } else if (edit.operation === 'delete') {
+          deletions.add(lineNum);
+        } else {
+          inserts.set(lineNum, [...(inserts.get(lineNum) || []), edit.newText!]);
+        }
+      }
+    }
+
+    // Rebuild the lines in original order, inserts following their anchor line
+    const lines: Line[] = [];
+    document.lines.forEach(line => {
+      if (!deletions.has(line.lineNumber)) {
+        lines.push(replacements.has(line.lineNumber)
+          ? { ...line, text: replacements.get(line.lineNumber)! }
+          : line);
+      }
+
+      (inserts.get(line.lineNumber) || []).forEach(text => {
+        lines.push({
+          lineNumber: 0,
+          text,
+          pageNumber: line.pageNumber,
+          isLocked: false,
+          isPlaceholder: false
+        });
+      });
+    });
+
+    // Renumber all lines
+    lines.forEach((line, index) => {
+      line.lineNumber = index + 1;
+    });
+    document.lines = lines;
+    document.metadata.totalLines = lines.length;
+
+    const modifiedLines = Array.from(new Set([
+      ...Array.from(replacements.keys()),
+      ...Array.from(deletions),
+      ...Array.from(inserts.keys())
+    ])).sort((a, b) => a - b);
+
+    console.info(`[TOOLS] Applied ${edits.length} batched edits touching ${modifiedLines.length} lines`);
+
+    return { success: true, applied: edits.length, modifiedLines };
+
+  } catch (error) {
+    console.error('[TOOLS] Error in doc_batch_edit:', error);
+    return {
+      success: false,
+      applied: 0,
+      modifiedLines: [],
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * LaTeX Compiler Module - Backend selection and compilation entry point
+ *
+ * Resumes are compiled locally when a TeX engine is installed; LaTeX.Online
+ * is only used when LATEX_ALLOW_REMOTE=true opts in to sending the source to
+ * a third party.
+ */
+
+import type { LatexCompilationResult } from '@/types/resume';
+import { LatexCompilerConfig, LatexBackendMode, LatexEngine, LatexCompilerBackend } from './types';
+import { LocalLatexCompiler } from './local-compiler';
+import { RemoteLatexCompiler } from './remote-compiler';
+
+export * from './types';
+export { LocalLatexCompiler } from './local-compiler';
+export { RemoteLatexCompiler } from './remote-compiler';
+export { parseLatexDiagnostics } from './log-parser';
+
+const BACKEND_MODES: LatexBackendMode[] = ['local', 'remote', 'auto'];
+const ENGINES: LatexEngine[] = ['pdflatex', 'xelatex', 'tectonic'];
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Read compiler settings from env vars
+ */
+export function resolveLatexCompilerConfig(): LatexCompilerConfig {
+  const backend = process.env.LATEX_COMPILER as LatexBackendMode | undefined;
+  const engine = process.env.LATEX_ENGINE as LatexEngine | undefined;
+  const timeoutMs = parseInt(process.env.LATEX_TIMEOUT_MS || '', 10);
+
+  return {
+    backend: backend && BACKEND_MODES.includes(backend) ? backend : 'auto',
+    engine: engine && ENGINES.includes(engine) ? engine : 'pdflatex',
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    allowRemoteFallback: process.env.LATEX_ALLOW_REMOTE === 'true'
+  };
+}
+
+/**
+ * Pick the backend to use for this config (null = nothing allowed is available)
+ */
+export async function selectLatexCompiler(
+  config: LatexCompilerConfig = resolveLatexCompilerConfig()
+): Promise<LatexCompilerBackend | null> {
+  if (config.backend === 'remote') {
+    return config.allowRemoteFallback ? new RemoteLatexCompiler() : null;
+  }
+
+  const local = new LocalLatexCompiler(config.engine, config.timeoutMs);
+  if (await local.isAvailable()) {
+    return local;
+  }
+
+  console.warn(`[LATEX-COMPILER] ${config.engine} is not installed`);
+
+  if (config.backend === 'auto' && config.allowRemoteFallback) {
+    console.warn('[LATEX-COMPILER] Falling back to LaTeX.Online');
+    return new RemoteLatexCompiler();
+  }
+
+  return null;
+}
+
+/**
+ * Compile LaTeX source with the configured backend
+ */
+export async function compileLatex(
+  latexSource: string,
+  config: LatexCompilerConfig = resolveLatexCompilerConfig()
+): Promise<LatexCompilationResult> {
+  const compiler = await selectLatexCompiler(config);
+
+  if (!compiler) {
+    return {
+      success: false,
+      error: config.backend === 'remote'
+        ? 'Remote LaTeX compilation is disabled; set LATEX_ALLOW_REMOTE=true to send resumes to LaTeX.Online'
+        : `No local LaTeX engine found (${config.engine}). Install it, or set LATEX_ALLOW_REMOTE=true to compile with LaTeX.Online`
+    };
+  }
+
+  console.log(`[LATEX-COMPILER] Compiling with ${compiler.name}`);
+  return compiler.compile(latexSource);
+}
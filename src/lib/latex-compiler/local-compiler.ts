@@ -0,0 +1,165 @@
+/**
+ * Local LaTeX Compiler - pdflatex / xelatex / tectonic on this machine
+ *
+ * Each compilation runs in a fresh temp directory that is removed afterwards:
+ * - shell escape disabled (no \write18)
+ * - TeX file access restricted to the working directory (openin/openout "paranoid")
+ * - hard timeout; the process is killed when it expires
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { LatexCompilationResult } from '@/types/resume';
+import { LatexCompilerBackend, LatexEngine } from './types';
+import { parseLatexDiagnostics } from './log-parser';
+
+const MAIN_FILE = 'resume.tex';
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+// `<engine> --version` result per engine, checked once per server process
+// (installing an engine takes a restart to be picked up)
+const availability = new Map<LatexEngine, Promise<boolean>>();
+
+interface ProcessResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+export class LocalLatexCompiler implements LatexCompilerBackend {
+  readonly name: string;
+  private engine: LatexEngine;
+  private timeoutMs: number;
+
+  constructor(engine: LatexEngine, timeoutMs: number) {
+    this.engine = engine;
+    this.timeoutMs = timeoutMs;
+    this.name = `local:${engine}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    let available = availability.get(this.engine);
+    if (!available) {
+      available = runProcess(this.engine, ['--version'], tmpdir(), 5000)
+        .then(result => result.exitCode === 0);
+      availability.set(this.engine, available);
+    }
+    return available;
+  }
+
+  async compile(latexSource: string): Promise<LatexCompilationResult> {
+    const workDir = await mkdtemp(path.join(tmpdir(), 'resume-latex-'));
+    console.log(`[LATEX-LOCAL] Compiling with ${this.engine} in ${workDir}`);
+
+    try {
+      await writeFile(path.join(workDir, MAIN_FILE), latexSource, 'utf8');
+
+      const startTime = Date.now();
+      const result = await runProcess(this.engine, this.buildArgs(), workDir, this.timeoutMs);
+      console.log(`[LATEX-LOCAL] ${this.engine} exited with ${result.exitCode} in ${Date.now() - startTime}ms`);
+
+      const log = await readFile(path.join(workDir, 'resume.log'), 'utf8')
+        .catch(() => `${result.stdout}\n${result.stderr}`);
+      const diagnostics = parseLatexDiagnostics(log);
+
+      if (result.timedOut) {
+        return {
+          success: false,
+          error: `LaTeX compilation timed out after ${this.timeoutMs}ms`,
+          log,
+          diagnostics,
+          backend: this.name
+        };
+      }
+
+      const pdf = await readFile(path.join(workDir, 'resume.pdf')).catch(() => null);
+      if (result.exitCode !== 0 || !pdf) {
+        const firstError = diagnostics.find(d => d.severity === 'error');
+        return {
+          success: false,
+          error: firstError
+            ? `LaTeX compilation failed${firstError.line ? ` (line ${firstError.line})` : ''}: ${firstError.message}`
+            : 'LaTeX compilation failed. Check your LaTeX syntax.',
+          log,
+          diagnostics,
+          backend: this.name
+        };
+      }
+
+      console.log('[LATEX-LOCAL] PDF generated successfully, size:', pdf.length, 'bytes');
+
+      return {
+        success: true,
+        pdfBlob: new Blob([new Uint8Array(pdf)], { type: 'application/pdf' }),
+        log,
+        diagnostics,
+        backend: this.name
+      };
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(error => {
+        console.warn('[LATEX-LOCAL] Failed to remove temp directory:', error);
+      });
+    }
+  }
+
+  private buildArgs(): string[] {
+    if (this.engine === 'tectonic') {
+      // --untrusted disables shell escape and other insecure features
+      return ['--untrusted', '--keep-logs', '--outdir', '.', MAIN_FILE];
+    }
+
+    return [
+      '-interaction=nonstopmode',
+      '-halt-on-error',
+      '-file-line-error',
+      '-no-shell-escape',
+      MAIN_FILE
+    ];
+  }
+}
+
+/**
+ * Run a process with a timeout; never rejects
+ */
+function runProcess(
+  command: string,
+  args: string[],
+  cwd: string,
+  timeoutMs: number
+): Promise<ProcessResult> {
+  // Minimal environment; HOME kept for the TeX/tectonic caches
+  const env = {
+    PATH: process.env.PATH,
+    HOME: process.env.HOME || cwd,
+    openin_any: 'p',
+    openout_any: 'p',
+    shell_escape: 'f'
+  } as unknown as NodeJS.ProcessEnv;
+
+  return new Promise(resolve => {
+    execFile(
+      command,
+      args,
+      {
+        cwd,
+        env,
+        timeout: timeoutMs,
+        killSignal: 'SIGKILL',
+        maxBuffer: MAX_OUTPUT_BYTES,
+        encoding: 'utf8'
+      },
+      (error, stdout, stderr) => {
+        const execError = error as (NodeJS.ErrnoException & { killed?: boolean; code?: number | string }) | null;
+        resolve({
+          exitCode: execError ? (typeof execError.code === 'number' ? execError.code : null) : 0,
+          stdout: String(stdout),
+          stderr: String(stderr),
+          timedOut: !!execError?.killed
+        });
+      }
+    );
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * LaTeX Log Parser - Turn a TeX .log into structured diagnostics
+ *
+ * Handles both log styles:
+ * - classic:          "! Undefined control sequence." followed by "l.42 ..."
+ * - file-line-error:  "./resume.tex:42: Undefined control sequence."
+ * plus LaTeX/package warnings ("... on input line 42.") and over/underfull boxes.
+ */
+
+import type { LatexDiagnostic } from '@/types/resume';
+
+const MAX_DIAGNOSTICS = 100;
+
+/**
+ * Parse a LaTeX log into errors and warnings (errors first, in log order)
+ */
+export function parseLatexDiagnostics(log: string): LatexDiagnostic[] {
+  const errors: LatexDiagnostic[] = [];
+  const warnings: LatexDiagnostic[] = [];
+  const lines = log.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // file-line-error style: ./resume.tex:42: message
+    const fileLineMatch = line.match(/^(?:\.\/)?([^:\s]+\.tex):(\d+):\s*(.*)$/);
+    if (fileLineMatch) {
+      const { context } = findContextLine(lines, i + 1);
+      errors.push({
+        severity: 'error',
+        message: cleanMessage(fileLineMatch[3]),
+        file: fileLineMatch[1],
+        line: parseInt(fileLineMatch[2], 10),
+        context,
+        token: extractErrorToken(context)
+      });
+      continue;
+    }
+
+    // Classic error style: "! message" then "l.<n> context" a few lines below
+    if (line.startsWith('!')) {
+      const { lineNumber, context } = findContextLine(lines, i + 1);
+      errors.push({
+        severity: 'error',
+        message: cleanMessage(line.substring(1)),
+        line: lineNumber,
+        context,
+        token: extractErrorToken(context)
+      });
+      continue;
+    }
+
+    // LaTeX / package warnings, possibly wrapped onto continuation lines
+    const warningMatch = line.match(/^(?:LaTeX|Package [\w-]+|Class [\w-]+) Warning:\s*(.*)$/);
+    if (warningMatch) {
+      let message = warningMatch[1];
+      while (i + 1 < lines.length && /^\([\w-]+\)\s+/.test(lines[i + 1])) {
+        message += ' ' + lines[++i].replace(/^\([\w-]+\)\s+/, '');
+      }
+      const inputLineMatch = message.match(/on input line (\d+)/);
+      const quotedMatch = message.match(/`([^']+)'/);
+      warnings.push({
+        severity: 'warning',
+        message: cleanMessage(message),
+        line: inputLineMatch ? parseInt(inputLineMatch[1], 10) : undefined,
+        token: quotedMatch ? quotedMatch[1] : undefined
+      });
+      continue;
+    }
+
+    // Overfull / underfull boxes: "... in paragraph at lines 12--14"
+    const boxMatch = line.match(/^((?:Overfull|Underfull) \\[hv]box .*?)(?: in paragraph| in alignment| detected)? at lines? (\d+)/);
+    if (boxMatch) {
+      warnings.push({
+        severity: 'warning',
+        message: cleanMessage(boxMatch[1]),
+        line: parseInt(boxMatch[2], 10)
+      });
+    }
+  }
+
+  return [...errors, ...warnings].slice(0, MAX_DIAGNOSTICS);
+}
+
+/**
+ * Look ahead for the "l.<n> <context>" line TeX prints after an error
+ */
+function findContextLine(lines: string[], start: number): { lineNumber?: number; context?: string } {
+  for (let j = start; j < Math.min(start + 8, lines.length); j++) {
+    const contextMatch = lines[j].match(/^l\.(\d+)\s?(.*)$/);
+    if (contextMatch) {
+      return {
+        lineNumber: parseInt(contextMatch[1], 10),
+        context: contextMatch[2].trim() || undefined
+      };
+    }
+    if (lines[j].startsWith('!')) break;
+  }
+  return {};
+}
+
+/**
+ * TeX cuts the "l.<n>" context right after the token it choked on
+ */
+function extractErrorToken(context?: string): string | undefined {
+  if (!context) return undefined;
+  const tokenMatch = context.match(/(\\[A-Za-z@]+\*?|\\.|\S)\s*$/);
+  return tokenMatch ? tokenMatch[1] : undefined;
+}
+
+function cleanMessage(message: string): string {
+  return message.replace(/\s+/g, ' ').trim().replace(/\.$/, '');
+}
@@ -0,0 +1,26 @@
+/**
+ * Remote LaTeX Compiler - LaTeX.Online (source leaves the machine)
+ */
+
+import type { LatexCompilationResult } from '@/types/resume';
+import { smartCompileLatex } from '@/lib/api-clients/latex-online-client';
+import { LatexCompilerBackend } from './types';
+import { parseLatexDiagnostics } from './log-parser';
+
+export class RemoteLatexCompiler implements LatexCompilerBackend {
+  readonly name = 'latexonline';
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async compile(latexSource: string): Promise<LatexCompilationResult> {
+    const result = await smartCompileLatex(latexSource);
+
+    return {
+      ...result,
+      diagnostics: result.log ? parseLatexDiagnostics(result.log) : undefined,
+      backend: this.name
+    };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * LaTeX Compiler Types - Shared contract for compilation backends
+ */
+
+import type { LatexCompilationResult } from '@/types/resume';
+
+export type LatexEngine = 'pdflatex' | 'xelatex' | 'tectonic';
+
+/**
+ * local  = only compile on this machine
+ * remote = only use LaTeX.Online
+ * auto   = local when an engine is installed, otherwise remote (if opted in)
+ */
+export type LatexBackendMode = 'local' | 'remote' | 'auto';
+
+export interface LatexCompilerConfig {
+  backend: LatexBackendMode;
+  engine: LatexEngine;
+  timeoutMs: number;
+  allowRemoteFallback: boolean; // Send the source to LaTeX.Online (LATEX_ALLOW_REMOTE=true; off by default)
+}
+
+/**
+ * Common interface implemented by every backend
+ */
+export interface LatexCompilerBackend {
+  readonly name: string;
+
+  /** Whether the backend can run here (binary installed, network allowed, ...) */
+  isAvailable(): Promise<boolean>;
+
+  compile(latexSource: string): Promise<LatexCompilationResult>;
+}
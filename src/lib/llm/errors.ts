@@ -0,0 +1,19 @@
+/**
+ * LLM Request Errors - HTTP failures from any provider carry the status code
+ * so callers can tell transient failures (rate limits, server errors) apart
+ */
+
+export class LLMRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * 429 and 5xx responses are worth retrying with backoff
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
@@ -0,0 +1,163 @@
+/**
+ * Fake Provider - Deterministic offline backend
+ *
+ * Recognizes the prompts used by the optimization pipeline (JD/resume keyword
+ * extraction, keyword mapping, bullet rewriting) and answers them with
+ * rule-based output, so the whole flow can run without network access.
+ * Custom responders can override any answer.
+ */
+
+import {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMToolSet,
+  LLMToolResponse,
+  LLMToolTurn
+} from './types';
+import { throwIfAborted } from './abort';
+
+export type FakeResponder = (prompt: string) => string | undefined;
+export type FakeToolResponder = (prompt: string, tools?: LLMToolSet[], turns?: LLMToolTurn[]) => LLMToolResponse | undefined;
+
+export interface FakeProviderOptions {
+  responder?: FakeResponder;
+  toolResponder?: FakeToolResponder;
+}
+
+const FAKE_TECH_TERMS = [
+  'Python', 'JavaScript', 'TypeScript', 'Java', 'C++', 'Go', 'Rust', 'Ruby', 'PHP', 'Swift', 'Kotlin', 'Scala',
+  'React', 'Vue', 'Angular', 'Next.js', 'Node.js', 'Express', 'Django', 'Flask', 'FastAPI', 'Spring',
+  'TensorFlow', 'PyTorch', 'Pandas', 'NumPy', 'scikit-learn',
+  'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch', 'DynamoDB', 'Cassandra',
+  'AWS', 'Azure', 'GCP', 'Lambda', 'S3', 'EC2',
+  'Docker', 'Kubernetes', 'Terraform', 'Ansible', 'Jenkins', 'GitHub Actions', 'CI/CD',
+  'Kafka', 'Spark', 'Airflow', 'Hadoop',
+  'GraphQL', 'REST APIs', 'Microservices', 'gRPC', 'WebSockets',
+  'Git', 'Jira', 'Jest', 'Pytest', 'Cypress', 'Selenium',
+  'Machine Learning', 'NLP', 'Computer Vision', 'Agile', 'Scrum', 'OAuth', 'JWT'
+];
+
+/**
+ * Find known technical terms in text (case-insensitive, whole-word)
+ */
+export function findFakeTechTerms(text: string): string[] {
+  return FAKE_TECH_TERMS.filter(term => {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^A-Za-z0-9])${escaped}($|[^A-Za-z0-9])`, 'i').test(text);
+  });
+}
+
+/**
+ * Rule-based answers for the prompts used across the app
+ */
+function defaultFakeResponse(prompt: string): string {
+  // KeywordAnalyzer.extractJDKeywords
+  const jdMatch = prompt.match(/Job Description:\n([\s\S]*)\n\nTechnical Keywords:\s*$/);
+  if (jdMatch) {
+    return findFakeTechTerms(jdMatch[1]).join(', ');
+  }
+
+  // KeywordAnalyzer.extractResumeKeywords
+  const resumeMatch = prompt.match(/Resume Content:\n([\s\S]*)\n\nKeywords:\s*$/);
+  if (resumeMatch) {
+    return findFakeTechTerms(resumeMatch[1]).join(', ');
+  }
+
+  // KeywordAnalyzer.mapKeywordsToBullets - distribute keywords round-robin
+  const missingMatch = prompt.match(/MISSING KEYWORDS \(need to add\):\n(.*)\n/);
+  if (missingMatch) {
+    const keywords = missingMatch[1].split(',').map(k => k.trim()).filter(Boolean);
+    const lineNumbers = Array.from(prompt.matchAll(/\[Line (\d+)\]/g)).map(m => parseInt(m[1], 10));
+    if (lineNumbers.length === 0) {
+      return '[]';
+    }
+    return JSON.stringify(keywords.map((keyword, index) => ({
+      keyword,
+      targetLines: [lineNumbers[index % lineNumbers.length]],
+      reason: 'Deterministic fake mapping'
+    })));
+  }
+
+  // ParallelOptimizer.optimizeSingleBullet - append keywords to the bullet
+  const bulletMatch = prompt.match(/ORIGINAL BULLET:\n([\s\S]*?)\n\nKEYWORDS TO INTEGRATE:\n(.*)\n/);
+  if (bulletMatch) {
+    const bullet = bulletMatch[1].replace(/^\s*\\item\s*/, '').trim();
+    const keywords = bulletMatch[2].split(',').map(k => k.trim()).filter(Boolean);
+    const trailingPeriod = bullet.endsWith('.');
+    const base = trailingPeriod ? bullet.slice(0, -1) : bullet;
+    return `${base} using ${keywords.join(' and ')}${trailingPeriod ? '.' : ''}`;
+  }
+
+  // PageFitter.condenseBullet - keep the first MAX WORDS words
+  const condenseMatch = prompt.match(/BULLET TO CONDENSE:\n([\s\S]*?)\n\nMAX WORDS: (\d+)/);
+  if (condenseMatch) {
+    const words = condenseMatch[1].trim().split(/\s+/);
+    return words.slice(0, parseInt(condenseMatch[2], 10)).join(' ');
+  }
+
+  // CoverLetterGenerator.generate - one paragraph per requested paragraph
+  const letterMatch = prompt.match(/LENGTH: (\d+) paragraphs[\s\S]*\nRESUME:\n([\s\S]*?)\n\n/);
+  if (letterMatch) {
+    const terms = findFakeTechTerms(letterMatch[2]);
+    const paragraphs = Array.from({ length: parseInt(letterMatch[1], 10) }, (_, index) =>
+      index === 0
+        ? 'I am writing to apply for this role, where my experience is a close match for the team.'
+        : `In my recent work I have used ${terms.slice(index - 1, index + 1).join(' and ') || 'a broad set of tools'} to deliver reliable software.`
+    );
+    return JSON.stringify({ companyName: '', roleTitle: '', paragraphs });
+  }
+
+  return 'OK';
+}
+
+export class FakeProvider implements LLMProvider {
+  readonly type = 'fake' as const;
+  readonly model: string;
+  readonly calls: Array<{ prompt: string; tools?: LLMToolSet[]; turns?: LLMToolTurn[] }> = [];
+  private options: FakeProviderOptions;
+
+  constructor(options: FakeProviderOptions = {}, model: string = 'fake-deterministic') {
+    this.options = options;
+    this.model = model;
+  }
+
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    throwIfAborted(options?.signal);
+    this.calls.push({ prompt });
+    const custom = this.options.responder?.(prompt);
+    return custom !== undefined ? custom : defaultFakeResponse(prompt);
+  }
+
+  async generateWithTools(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    return this.generateWithToolTurns(prompt, [], tools, options);
+  }
+
+  async generateWithToolTurns(
+    prompt: string,
+    turns: LLMToolTurn[],
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    throwIfAborted(options?.signal);
+    this.calls.push({ prompt, tools, ...(turns.length > 0 ? { turns } : {}) });
+    const custom = this.options.toolResponder?.(prompt, tools, turns);
+    const response = custom !== undefined
+      ? custom
+      : { text: this.options.responder?.(prompt) ?? defaultFakeResponse(prompt) };
+
+    // Stream the text word by word
+    if (options?.onText && response.text) {
+      (response.text.match(/\S+\s*/g) || []).forEach(word => options.onText!(word));
+    }
+    return response;
+  }
+
+  countTokens(text: string): number {
+    // Deterministic approximation (1 token ≈ 4 characters)
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Gemini Provider - Google Generative AI backend
+ */
+
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMToolSet,
+  LLMToolResponse,
+  LLMToolTurn
+} from './types';
+import { createAbortError } from './abort';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.0-flash-exp';
+
+export class GeminiProvider implements LLMProvider {
+  readonly type = 'gemini' as const;
+  readonly model: string;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model: string = GEMINI_DEFAULT_MODEL) {
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    const { signal, temperature, maxOutputTokens } = options || {};
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: { temperature, maxOutputTokens }
+    });
+
+    const result = await this.generateContent(model, prompt, signal);
+    return result.response.text().trim();
+  }
+
+  async generateWithTools(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    return this.generateWithToolTurns(prompt, [], tools, options);
+  }
+
+  async generateWithToolTurns(
+    prompt: string,
+    turns: LLMToolTurn[],
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    const { signal, onText, temperature, maxOutputTokens } = options || {};
+    const modelConfig: any = { model: this.model, generationConfig: { temperature, maxOutputTokens } };
+    if (tools && tools.length > 0) {
+      modelConfig.tools = tools;
+    }
+
+    const model = this.genAI.getGenerativeModel(modelConfig);
+
+    // Earlier rounds become model functionCall / function functionResponse contents
+    const request: any = turns.length === 0
+      ? prompt
+      : {
+        contents: [
+          { role: 'user', parts: [{ text: prompt }] },
+          ...turns.flatMap(turn => [
+            { role: 'model', parts: turn.functionCalls.map(call => ({ functionCall: { name: call.name, args: call.args } })) },
+            { role: 'function', parts: turn.responses.map(r => ({ functionResponse: { name: r.name, response: r.response } })) }
+          ])
+        ]
+      };
+
+    const response = onText
+      ? await this.streamContent(model, request, onText, signal)
+      : (await this.generateContent(model, request, signal)).response;
+
+    // Check for function calls in the response candidates
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    const functionCalls = parts
+      .filter((part: any) => part.functionCall)
+      .map((part: any) => ({
+        name: part.functionCall.name,
+        args: part.functionCall.args || {}
+      }));
+
+    if (functionCalls.length > 0) {
+      return { functionCalls };
+    }
+
+    return { text: response.text() };
+  }
+
+  countTokens(text: string): number {
+    return getTokenTracker().estimateTokens(text);
+  }
+
+  /**
+   * The SDK wraps fetch aborts in GoogleGenerativeAIError - restore AbortError
+   */
+  private async generateContent(model: GenerativeModel, request: string | any, signal?: AbortSignal) {
+    try {
+      return await model.generateContent(request, { signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream text parts to onText, then return the aggregated response
+   */
+  private async streamContent(
+    model: GenerativeModel,
+    request: string | any,
+    onText: (delta: string) => void,
+    signal?: AbortSignal
+  ) {
+    try {
+      const result = await model.generateContentStream(request, { signal });
+      for await (const chunk of result.stream) {
+        const parts = chunk.candidates?.[0]?.content?.parts || [];
+        parts.forEach((part: any) => {
+          if (part.text) {
+            onText(part.text);
+          }
+        });
+      }
+      return await result.response;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resolveLLMConfig } from './index';
+
+describe('resolveLLMConfig', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('OPENAI_API_KEY', 'env-openai-key');
+    vi.stubEnv('OPENAI_BASE_URL', '');
+    vi.stubEnv('OLLAMA_BASE_URL', '');
+    vi.stubEnv('LLM_ALLOWED_BASE_URLS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the env key for the default OpenAI endpoint', () => {
+    const config = resolveLLMConfig({ type: 'openai' });
+    expect(config.apiKey).toBe('env-openai-key');
+    expect(config.baseUrl).toBe('https://api.openai.com/v1');
+  });
+
+  it('treats the env endpoint sent back by the client as the env endpoint', () => {
+    const config = resolveLLMConfig({ type: 'openai', baseUrl: 'https://api.openai.com/v1/' });
+    expect(config.apiKey).toBe('env-openai-key');
+  });
+
+  it('accepts a custom base URL with the client key only', () => {
+    const config = resolveLLMConfig({ type: 'openai', baseUrl: 'https://llm.example.com/v1', apiKey: 'client-key' });
+    expect(config).toMatchObject({ apiKey: 'client-key', baseUrl: 'https://llm.example.com/v1' });
+  });
+
+  it('rejects a custom base URL without a client key', () => {
+    expect(() => resolveLLMConfig({ type: 'openai', baseUrl: 'https://attacker.example.com' }))
+      .toThrow('requires your own API key');
+  });
+
+  it('never sends the env key to an allowlisted base URL', () => {
+    vi.stubEnv('LLM_ALLOWED_BASE_URLS', 'https://llm.internal/v1, http://localhost:8000');
+    const config = resolveLLMConfig({ type: 'openai', baseUrl: 'https://llm.internal/v1' });
+    expect(config.baseUrl).toBe('https://llm.internal/v1');
+    expect(config.apiKey).toBeUndefined();
+  });
+
+  it('only accepts configured Ollama base URLs', () => {
+    expect(resolveLLMConfig({ type: 'ollama' }).baseUrl).toBe('http://localhost:11434');
+    expect(resolveLLMConfig({ type: 'ollama', baseUrl: 'http://localhost:11434/' }).baseUrl).toBe('http://localhost:11434/');
+    expect(() => resolveLLMConfig({ type: 'ollama', baseUrl: 'http://169.254.169.254' })).toThrow('not allowed');
+  });
+
+  it('rejects the fake provider in production only', () => {
+    expect(resolveLLMConfig({ type: 'fake' }).type).toBe('fake');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => resolveLLMConfig({ type: 'fake' })).toThrow('not available in production');
+  });
+
+  it('falls back to Gemini for unknown provider types', () => {
+    vi.stubEnv('GEMINI_API_KEY', 'env-gemini-key');
+    const config = resolveLLMConfig({ type: 'unknown' as never });
+    expect(config).toMatchObject({ type: 'gemini', apiKey: 'env-gemini-key' });
+  });
+});
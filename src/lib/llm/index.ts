@@ -0,0 +1,158 @@
+/**
+ * LLM Module - Provider factory and request-level provider resolution
+ *
+ * Every LLM consumer (keyword analysis, bullet optimization, section
+ * classification, placeholder detection, chat) talks to an LLMProvider
+ * instead of constructing a Gemini client directly.
+ */
+
+import { LLMProvider, LLMProviderConfig, LLMProviderType } from './types';
+import { GeminiProvider, GEMINI_DEFAULT_MODEL } from './gemini';
+import { OpenAICompatibleProvider, OPENAI_DEFAULT_BASE_URL } from './openai';
+import { OllamaProvider, OLLAMA_DEFAULT_BASE_URL } from './ollama';
+import { FakeProvider } from './fake';
+
+export * from './types';
+export * from './abort';
+export * from './errors';
+export { GeminiProvider, GEMINI_DEFAULT_MODEL } from './gemini';
+export { OpenAICompatibleProvider } from './openai';
+export { OllamaProvider } from './ollama';
+export { FakeProvider } from './fake';
+
+const PROVIDER_TYPES: LLMProviderType[] = ['gemini', 'openai', 'ollama', 'fake'];
+
+/**
+ * Create a provider instance from config
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  console.info(`[LLM] Creating provider: ${config.type}${config.model ? ` (${config.model})` : ''}`);
+
+  switch (config.type) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey || '', config.model || GEMINI_DEFAULT_MODEL);
+
+    case 'openai':
+      return new OpenAICompatibleProvider(config.apiKey, config.model, config.baseUrl);
+
+    case 'ollama':
+      return new OllamaProvider(config.model, config.baseUrl);
+
+    case 'fake':
+      return new FakeProvider({}, config.model);
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${(config as LLMProviderConfig).type}`);
+  }
+}
+
+/**
+ * Normalized endpoint URL for comparisons (no trailing slashes)
+ */
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Whether a client-chosen endpoint may be fetched by the server: the
+ * configured env endpoint, or one listed in LLM_ALLOWED_BASE_URLS
+ * (comma-separated)
+ */
+function isAllowedBaseUrl(url: string, envBaseUrl?: string): boolean {
+  const allowed = (process.env.LLM_ALLOWED_BASE_URLS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .concat(envBaseUrl ? [envBaseUrl] : [])
+    .map(normalizeBaseUrl);
+  return allowed.includes(normalizeBaseUrl(url));
+}
+
+/**
+ * Merge the provider requested by the client with server defaults (env vars).
+ * Keys sent by the client take precedence over environment keys.
+ *
+ * Server keys are only ever sent to server-configured endpoints: a client
+ * base URL is accepted with the client's own API key, or when it is the env
+ * endpoint or allowlisted in LLM_ALLOWED_BASE_URLS (then without the env key
+ * unless it is the env endpoint). The fake provider cannot be requested by
+ * clients in production.
+ */
+export function resolveLLMConfig(
+  requested?: Partial<LLMProviderConfig> | null,
+  customApiKey?: string
+): LLMProviderConfig {
+  if (requested?.type === 'fake' && process.env.NODE_ENV === 'production') {
+    throw new Error('The fake LLM provider is not available in production');
+  }
+
+  const envType = process.env.LLM_PROVIDER as LLMProviderType | undefined;
+  const requestedType = requested?.type && PROVIDER_TYPES.includes(requested.type) ? requested.type : undefined;
+  const type: LLMProviderType = requestedType
+    || (envType && PROVIDER_TYPES.includes(envType) ? envType : 'gemini');
+
+  switch (type) {
+    case 'gemini':
+      return {
+        type,
+        apiKey: requested?.apiKey || customApiKey || process.env.GEMINI_API_KEY,
+        model: requested?.model || process.env.GEMINI_MODEL || GEMINI_DEFAULT_MODEL
+      };
+
+    case 'openai': {
+      const envBaseUrl = process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL;
+      const requestedBaseUrl = requested?.baseUrl?.trim();
+
+      if (!requestedBaseUrl || normalizeBaseUrl(requestedBaseUrl) === normalizeBaseUrl(envBaseUrl)) {
+        return {
+          type,
+          apiKey: requested?.apiKey || process.env.OPENAI_API_KEY,
+          model: requested?.model || process.env.LLM_MODEL,
+          baseUrl: envBaseUrl
+        };
+      }
+
+      if (!requested?.apiKey && !isAllowedBaseUrl(requestedBaseUrl)) {
+        throw new Error('A custom OpenAI-compatible base URL requires your own API key');
+      }
+
+      return {
+        type,
+        apiKey: requested?.apiKey,
+        model: requested?.model || process.env.LLM_MODEL,
+        baseUrl: requestedBaseUrl
+      };
+    }
+
+    case 'ollama': {
+      const envBaseUrl = process.env.OLLAMA_BASE_URL || OLLAMA_DEFAULT_BASE_URL;
+      const requestedBaseUrl = requested?.baseUrl?.trim();
+
+      if (requestedBaseUrl && !isAllowedBaseUrl(requestedBaseUrl, envBaseUrl)) {
+        throw new Error(
+          `Ollama base URL ${requestedBaseUrl} is not allowed; set OLLAMA_BASE_URL or LLM_ALLOWED_BASE_URLS on the server`
+        );
+      }
+
+      return {
+        type,
+        model: requested?.model || process.env.LLM_MODEL,
+        baseUrl: requestedBaseUrl || envBaseUrl
+      };
+    }
+
+    default:
+      return { type, model: requested?.model };
+  }
+}
+
+/**
+ * Convenience: resolve and create in one step (used by API routes)
+ */
+export function getLLMProvider(
+  requested?: Partial<LLMProviderConfig> | null,
+  customApiKey?: string
+): LLMProvider {
+  return createLLMProvider(resolveLLMConfig(requested, customApiKey));
+}
+
@@ -0,0 +1,134 @@
+/**
+ * Ollama Provider - Local HTTP model server (candidate data never leaves the machine)
+ */
+
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMToolSet,
+  LLMToolResponse,
+  LLMToolTurn,
+  LLMFunctionCall
+} from './types';
+import { toOpenAITools, toOpenAIToolMessages } from './openai';
+import { LLMRequestError } from './errors';
+import { readLines } from './stream';
+
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+
+export class OllamaProvider implements LLMProvider {
+  readonly type = 'ollama' as const;
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(model?: string, baseUrl?: string) {
+    this.model = model || OLLAMA_DEFAULT_MODEL;
+    this.baseUrl = (baseUrl || OLLAMA_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    const message = await this.chat(prompt, undefined, options);
+    return (message.content || '').trim();
+  }
+
+  async generateWithTools(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    return this.generateWithToolTurns(prompt, [], tools, options);
+  }
+
+  async generateWithToolTurns(
+    prompt: string,
+    turns: LLMToolTurn[],
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    const message = await this.chat(prompt, tools, options, turns);
+
+    if (Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+      const functionCalls: LLMFunctionCall[] = message.tool_calls.map((call: any) => ({
+        name: call.function.name,
+        args: call.function.arguments || {}
+      }));
+      return { functionCalls };
+    }
+
+    return { text: message.content || '' };
+  }
+
+  countTokens(text: string): number {
+    return getTokenTracker().estimateTokens(text);
+  }
+
+  private async chat(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions,
+    turns: LLMToolTurn[] = []
+  ): Promise<any> {
+    const body: any = {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }, ...toOpenAIToolMessages(turns)],
+      stream: !!options?.onText,
+      options: {
+        temperature: options?.temperature,
+        num_predict: options?.maxOutputTokens
+      }
+    };
+    if (tools && tools.length > 0) body.tools = toOpenAITools(tools);
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: options?.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new LLMRequestError(
+        `Ollama request failed (${response.status}): ${errorText.substring(0, 300)}`,
+        response.status
+      );
+    }
+
+    if (options?.onText) {
+      return readStreamedMessage(response, options.onText);
+    }
+
+    const data = await response.json();
+    if (!data.message) {
+      throw new Error('Empty response from Ollama');
+    }
+
+    return data.message;
+  }
+}
+
+/**
+ * Assemble a message from NDJSON chunks (content deltas go to onText)
+ */
+async function readStreamedMessage(response: Response, onText: (delta: string) => void): Promise<any> {
+  let content = '';
+  const toolCalls: any[] = [];
+
+  await readLines(response, line => {
+    const chunk = JSON.parse(line);
+    if (chunk.error) {
+      throw new Error(`Ollama stream failed: ${chunk.error}`);
+    }
+    if (chunk.message?.content) {
+      content += chunk.message.content;
+      onText(chunk.message.content);
+    }
+    if (Array.isArray(chunk.message?.tool_calls)) {
+      toolCalls.push(...chunk.message.tool_calls);
+    }
+  });
+
+  return { content, tool_calls: toolCalls };
+}
@@ -0,0 +1,224 @@
+/**
+ * OpenAI-Compatible Provider - Any /v1/chat/completions endpoint
+ * (OpenAI, Azure OpenAI proxies, vLLM, LM Studio, OpenRouter, ...)
+ */
+
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import {
+  LLMProvider,
+  LLMGenerateOptions,
+  LLMToolSet,
+  LLMToolResponse,
+  LLMToolTurn,
+  LLMFunctionCall
+} from './types';
+import { LLMRequestError } from './errors';
+import { readLines } from './stream';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Convert Gemini-style function declarations into OpenAI tool definitions
+ */
+export function toOpenAITools(tools: LLMToolSet[]): any[] {
+  return tools.flatMap(toolSet =>
+    toolSet.functionDeclarations.map(declaration => ({
+      type: 'function',
+      function: {
+        name: declaration.name,
+        description: declaration.description,
+        parameters: normalizeSchema(declaration.parameters)
+      }
+    }))
+  );
+}
+
+/**
+ * Replay tool turns as assistant tool_calls followed by one tool message per
+ * call (shared with Ollama, which accepts the same shape)
+ */
+export function toOpenAIToolMessages(turns: LLMToolTurn[]): any[] {
+  return turns.flatMap((turn, turnIndex) => {
+    const ids = turn.functionCalls.map((_, callIndex) => `call_${turnIndex}_${callIndex}`);
+    return [
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: turn.functionCalls.map((call, callIndex) => ({
+          id: ids[callIndex],
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) }
+        }))
+      },
+      ...turn.responses.map((response, callIndex) => ({
+        role: 'tool',
+        tool_call_id: ids[callIndex],
+        tool_name: response.name,
+        content: JSON.stringify(response.response)
+      }))
+    ];
+  });
+}
+
+/**
+ * JSON schema requires lowercase type names; Gemini enums may be uppercase
+ */
+function normalizeSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(normalizeSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const normalized: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    normalized[key] = key === 'type' && typeof value === 'string'
+      ? value.toLowerCase()
+      : normalizeSchema(value);
+  }
+  return normalized;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'openai' as const;
+  readonly model: string;
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string | undefined, model?: string, baseUrl?: string) {
+    this.apiKey = apiKey;
+    this.model = model || OPENAI_DEFAULT_MODEL;
+    this.baseUrl = (baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    const message = await this.complete(prompt, undefined, options);
+    return (message.content || '').trim();
+  }
+
+  async generateWithTools(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    return this.generateWithToolTurns(prompt, [], tools, options);
+  }
+
+  async generateWithToolTurns(
+    prompt: string,
+    turns: LLMToolTurn[],
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse> {
+    const message = await this.complete(prompt, tools, options, turns);
+
+    if (Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+      const functionCalls: LLMFunctionCall[] = message.tool_calls.map((call: any) => ({
+        name: call.function.name,
+        args: parseArguments(call.function.arguments)
+      }));
+      return { functionCalls };
+    }
+
+    return { text: message.content || '' };
+  }
+
+  countTokens(text: string): number {
+    return getTokenTracker().estimateTokens(text);
+  }
+
+  private async complete(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions,
+    turns: LLMToolTurn[] = []
+  ): Promise<any> {
+    const body: any = {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }, ...toOpenAIToolMessages(turns)]
+    };
+    if (options?.temperature !== undefined) body.temperature = options.temperature;
+    if (options?.maxOutputTokens !== undefined) body.max_tokens = options.maxOutputTokens;
+    if (tools && tools.length > 0) body.tools = toOpenAITools(tools);
+    if (options?.onText) body.stream = true;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: options?.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new LLMRequestError(
+        `OpenAI-compatible request failed (${response.status}): ${errorText.substring(0, 300)}`,
+        response.status
+      );
+    }
+
+    if (options?.onText) {
+      return readStreamedMessage(response, options.onText);
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('Empty response from OpenAI-compatible endpoint');
+    }
+
+    return message;
+  }
+}
+
+/**
+ * Assemble a message from SSE chunks: content deltas go to onText, tool call
+ * fragments are joined by index
+ */
+async function readStreamedMessage(response: Response, onText: (delta: string) => void): Promise<any> {
+  let content = '';
+  const toolCalls: any[] = [];
+
+  await readLines(response, line => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') return;
+
+    const delta = JSON.parse(data).choices?.[0]?.delta;
+    if (!delta) return;
+
+    if (delta.content) {
+      content += delta.content;
+      onText(delta.content);
+    }
+    (delta.tool_calls || []).forEach((fragment: any) => {
+      const index = fragment.index ?? toolCalls.length;
+      if (!toolCalls[index]) {
+        toolCalls[index] = { function: { name: '', arguments: '' } };
+      }
+      const call = toolCalls[index];
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+    });
+  });
+
+  return { content, tool_calls: toolCalls.filter(Boolean) };
+}
+
+function parseArguments(raw: unknown): any {
+  if (typeof raw !== 'string') {
+    return raw || {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
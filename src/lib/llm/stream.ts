@@ -0,0 +1,32 @@
+/**
+ * Streaming helpers - streamed HTTP bodies (SSE for OpenAI-compatible
+ * endpoints, NDJSON for Ollama) are read one line at a time
+ */
+
+/**
+ * Call onLine for every non-empty line of the response body
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.filter(line => line.trim()).forEach(onLine);
+  }
+
+  const rest = buffer + decoder.decode();
+  if (rest.trim()) {
+    onLine(rest);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * LLM Provider Types - Shared contract for all model backends
+ */
+
+export type LLMProviderType = 'gemini' | 'openai' | 'ollama' | 'fake';
+
+/**
+ * Provider selection sent by the client (settings modal) or read from env
+ */
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;           // OpenAI-compatible / Ollama endpoint
+}
+
+/**
+ * Tool declarations use the Gemini function-calling shape
+ * ({ functionDeclarations: [...] }); other providers convert from it.
+ */
+export interface LLMFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: any;            // JSON schema (lowercase types)
+}
+
+export interface LLMToolSet {
+  functionDeclarations: LLMFunctionDeclaration[];
+}
+
+export interface LLMFunctionCall {
+  name: string;
+  args: any;
+}
+
+export interface LLMToolResponse {
+  text?: string;
+  functionCalls?: LLMFunctionCall[];
+}
+
+/**
+ * Output of one executed function call, sent back to the model
+ */
+export interface LLMFunctionResponse {
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/**
+ * One completed round of function calling: what the model called and what
+ * the tools returned (same order). Multi-step agents replay these turns after
+ * the prompt so the model sees its earlier calls and their results.
+ */
+export interface LLMToolTurn {
+  functionCalls: LLMFunctionCall[];
+  responses: LLMFunctionResponse[];
+}
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;       // Aborts the in-flight request (rejects with AbortError)
+  onText?: (delta: string) => void;  // Streams response text as it is generated (tool-calling methods)
+}
+
+/**
+ * Common interface implemented by every provider
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+
+  /** Single-prompt text generation */
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+
+  /** Generation with function calling; returns either text or function calls */
+  generateWithTools(
+    prompt: string,
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse>;
+
+  /** Function calling continued after earlier tool turns (prompt, then each call/response pair) */
+  generateWithToolTurns(
+    prompt: string,
+    turns: LLMToolTurn[],
+    tools?: LLMToolSet[],
+    options?: LLMGenerateOptions
+  ): Promise<LLMToolResponse>;
+
+  /** Token count used for tracking (estimate where the backend has no tokenizer) */
+  countTokens(text: string): number;
+}
@@ -46,3 +46,29 @@ export function renderMarkdownSafe(markdown: string): string {
   const html = renderMarkdown(markdown);
   return sanitizeHtml(html);
 }
+
+/**
+ * Close markdown left open in a message that is still streaming, so it
+ * renders like the finished message: an open code fence, inline code span
+ * or bold marker
+ */
+export function closePartialMarkdown(markdown: string): string {
+  // Everything after an open fence is code
+  if ((markdown.match(/^\s*```/gm) || []).length % 2 === 1) {
+    return `${markdown}\n\`\`\``;
+  }
+
+  let closed = markdown;
+  const prose = markdown.replace(/```[\s\S]*?```/g, '');
+
+  if ((prose.match(/`/g) || []).length % 2 === 1) {
+    closed += '`';
+  }
+
+  const outsideCode = prose.replace(/`[^`]*`?/g, '');
+  if ((outsideCode.match(/\*\*/g) || []).length % 2 === 1) {
+    closed += '**';
+  }
+
+  return closed;
+}
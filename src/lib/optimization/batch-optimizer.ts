@@ -0,0 +1,184 @@
+/**
+ * Batch Resume Tailoring
+ *
+ * Tailor one base resume against many job descriptions:
+ * - parse the resume and extract its keywords ONCE for all jobs
+ * - run steps 2-9 of the optimization pipeline per job description
+ * - bullet optimizations of all jobs share one concurrency limiter, and at
+ *   most MAX_CONCURRENT_JOBS job pipelines run at a time
+ * - each job gets its own token session so cost can be compared per posting
+ *
+ * A failing job does not stop the batch; its row is reported as failed.
+ */
+
+import pLimit from 'p-limit';
+import {
+  BatchJobDescription,
+  BatchJobSummary,
+  BatchVariant,
+  BatchOptimizationResult,
+  BatchProgressEvent
+} from '@/lib/parsers/types';
+import {
+  runResumeOptimization,
+  parseResumeInput,
+  OptimizationPipelineInput,
+  OptimizationPipelineError,
+  DEFAULT_OPTIMIZATION_CONFIG
+} from './optimization-pipeline';
+import { createKeywordAnalyzer } from './keyword-analyzer';
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { LLMProvider, isAbortError } from '@/lib/llm';
+
+export const MAX_BATCH_JOBS = 30;
+const MAX_CONCURRENT_JOBS = 3;
+
+export interface BatchOptimizationInput extends Omit<OptimizationPipelineInput, 'jobDescription'> {
+  jobDescriptions: BatchJobDescription[];
+}
+
+export interface BatchOptimizationOptions {
+  onEvent?: (event: BatchProgressEvent) => void;
+  signal?: AbortSignal;       // Cancels every job; finished variants are still returned
+}
+
+/**
+ * Run the batch: one tailored variant per job description
+ */
+export async function runBatchOptimization(
+  llm: LLMProvider,
+  input: BatchOptimizationInput,
+  options: BatchOptimizationOptions = {}
+): Promise<BatchOptimizationResult> {
+  const startTime = Date.now();
+  const { onEvent, signal } = options;
+  const { sessionId, jobDescriptions } = input;
+
+  if (jobDescriptions.length === 0) {
+    throw new OptimizationPipelineError('At least one job description is required', 400);
+  }
+  if (jobDescriptions.length > MAX_BATCH_JOBS) {
+    throw new OptimizationPipelineError(`A batch can hold at most ${MAX_BATCH_JOBS} job descriptions`, 400);
+  }
+
+  const tracker = getTokenTracker();
+  tracker.initSession(sessionId);
+  const tokensBefore = tracker.getSessionUsage(sessionId)?.totalTokens || 0;
+  const costBefore = tracker.getSessionUsage(sessionId)?.estimatedCost || 0;
+
+  const config = input.config || DEFAULT_OPTIMIZATION_CONFIG;
+  console.info(`[BATCH_OPTIMIZER] Tailoring resume for ${jobDescriptions.length} job descriptions`);
+
+  // Shared: parse the resume once
+  onEvent?.({ type: 'shared', message: 'Parsing resume' });
+  const resumeDocument = await parseResumeInput(input);
+
+  // Shared: extract resume keywords once
+  onEvent?.({ type: 'shared', message: 'Extracting resume keywords' });
+  let resumeKeywords: string[];
+  try {
+    resumeKeywords = await createKeywordAnalyzer(llm, sessionId, signal).extractResumeKeywords(resumeDocument);
+    console.info(`[BATCH_OPTIMIZER] Extracted ${resumeKeywords.length} keywords from resume (shared)`);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new OptimizationPipelineError('Optimization cancelled', 499);
+    }
+    console.error('[BATCH_OPTIMIZER] Resume keyword extraction failed:', error);
+    throw new OptimizationPipelineError(
+      'Failed to extract keywords from resume',
+      500,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+
+  const sharedUsage = tracker.getSessionUsage(sessionId);
+  const sharedTokensUsed = (sharedUsage?.totalTokens || 0) - tokensBefore;
+  const sharedCost = (sharedUsage?.estimatedCost || 0) - costBefore;
+
+  const bulletLimit = pLimit(config.maxConcurrentCalls);
+  const jobLimit = pLimit(Math.min(MAX_CONCURRENT_JOBS, config.maxConcurrentCalls));
+
+  const runJob = async (job: BatchJobDescription): Promise<BatchVariant> => {
+    const jobStart = Date.now();
+    // Unique per run so reruns of the same posting are costed separately
+    const jobSessionId = `${sessionId}:batch-${startTime}:${job.id}`;
+    const summary: BatchJobSummary = {
+      jobId: job.id,
+      title: job.title,
+      status: 'cancelled',
+      bulletsOptimized: 0,
+      tokensUsed: 0,
+      estimatedCost: 0,
+      processingTimeMs: 0
+    };
+
+    if (signal?.aborted) {
+      onEvent?.({ type: 'job_complete', summary });
+      return { summary };
+    }
+
+    let variant: BatchVariant;
+    try {
+      console.info(`[BATCH_OPTIMIZER] Starting job "${job.title}"`);
+      const result = await runResumeOptimization(
+        llm,
+        { ...input, jobDescription: job.content, config, sessionId: jobSessionId },
+        {
+          signal,
+          resumeDocument,
+          resumeKeywords,
+          limit: bulletLimit,
+          onEvent: event => {
+            if (event.type === 'result' || event.type === 'error') return;
+            onEvent?.({ type: 'job', jobId: job.id, event });
+          }
+        }
+      );
+
+      summary.status = result.cancelled ? 'cancelled' : 'completed';
+      summary.coverageBefore = result.initialCoverage;
+      summary.coverageAfter = result.keywordAnalysis.coverage;
+      summary.bulletsOptimized = result.changes.length;
+      summary.tokensUsed = result.totalTokensUsed;
+      summary.estimatedCost = result.estimatedCost || 0;
+      variant = { summary, result };
+    } catch (error) {
+      const wasCancelled = error instanceof OptimizationPipelineError && error.status === 499;
+      const usage = tracker.getSessionUsage(jobSessionId);
+
+      summary.status = wasCancelled ? 'cancelled' : 'failed';
+      summary.tokensUsed = usage?.totalTokens || 0;
+      summary.estimatedCost = usage?.estimatedCost || 0;
+      if (!wasCancelled) {
+        console.error(`[BATCH_OPTIMIZER] Job "${job.title}" failed:`, error);
+        summary.error = error instanceof OptimizationPipelineError && error.details
+          ? `${error.message}: ${error.details}`
+          : error instanceof Error ? error.message : 'Unknown error';
+      }
+      variant = { summary };
+    }
+
+    summary.processingTimeMs = Date.now() - jobStart;
+    onEvent?.({ type: 'job_complete', summary });
+    return variant;
+  };
+
+  const variants = await Promise.all(jobDescriptions.map(job => jobLimit(() => runJob(job))));
+
+  const totalTokensUsed = sharedTokensUsed + variants.reduce((sum, v) => sum + v.summary.tokensUsed, 0);
+  const totalCost = sharedCost + variants.reduce((sum, v) => sum + v.summary.estimatedCost, 0);
+  const completed = variants.filter(v => v.summary.status === 'completed').length;
+
+  console.info(`[BATCH_OPTIMIZER] Batch finished: ${completed}/${variants.length} completed, ${totalTokensUsed} tokens in ${Date.now() - startTime}ms`);
+
+  return {
+    variants,
+    resumeKeywords,
+    sharedTokensUsed,
+    sharedCost,
+    totalTokensUsed,
+    totalCost,
+    processingTimeMs: Date.now() - startTime,
+    ...(signal?.aborted ? { cancelled: true } : {})
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Fact Grounding
+ *
+ * Guards optimized bullets against fabricated claims. Numbers (metrics, team
+ * sizes, money), named technologies and other proper nouns are extracted from
+ * the rewrite, and each must appear in the original bullet, elsewhere in the
+ * resume, or in the projects/portfolio context files:
+ * - numbers compare by value ("1,000,000" / "1M", "40%" / "40 percent")
+ * - technologies compare through the keyword normalizer ("k8s" / "Kubernetes")
+ * - the bullet's target keywords are exempt (keyword mapping assigned them)
+ *
+ * Heuristic and dependency-free: lowercase words are only checked when they
+ * are known technologies from the alias dictionary.
+ */
+
+import type { UnsupportedClaim } from '@/lib/parsers/types';
+import { KeywordNormalizer, createKeywordNormalizer } from './keyword-normalizer';
+
+// Capitalized words that are not claims (sentence starts are skipped separately)
+const NON_ENTITY_WORDS = new Set([
+  'I', 'A', 'An', 'The', 'And', 'Or', 'Of', 'For', 'To', 'In', 'On', 'With', 'By', 'At',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December',
+  'Jan', 'Feb', 'Mar', 'Apr', 'Jun', 'Jul', 'Aug', 'Sep', 'Sept', 'Oct', 'Nov', 'Dec',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'
+]);
+
+const NUMBER_MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, million: 1e6, mm: 1e6,
+  b: 1e9, billion: 1e9, bn: 1e9
+};
+
+// 40%, 40\%, $1.2M, 1,000,000, 3 million, 10x, 50+
+const NUMBER_PATTERN = /(?<![A-Za-z0-9.])[$€£]?\d+(?:[.,]\d+)*(?:\s?(?:\\?%|percent\b|(?:k|m|mm|b|bn|thousand|million|billion)\b|x\b))?\+?/gi;
+
+// Words with technology punctuation: Node.js, .NET, C++, C#, CI/CD parts
+const WORD_PATTERN = /\.?[A-Za-z][A-Za-z0-9]*(?:[.+#\-'][A-Za-z0-9+#]*)*/g;
+
+interface Candidate {
+  text: string;
+  type: UnsupportedClaim['type'];
+  start: number;
+  end: number;
+}
+
+/**
+ * Fact Grounding Checker class
+ */
+export class FactGroundingChecker {
+  private sourceText: string;
+  private sourceNumbers: Set<number>;
+  private normalizer: KeywordNormalizer;
+
+  /**
+   * @param sources Supporting material: resume text and projects/portfolio content
+   */
+  constructor(sources: string[], normalizer?: KeywordNormalizer) {
+    this.sourceText = stripLatex(sources.filter(Boolean).join('\n'));
+    this.sourceNumbers = new Set(extractNumbers(this.sourceText).map(n => n.value));
+    this.normalizer = normalizer || createKeywordNormalizer();
+  }
+
+  /**
+   * Claims in `optimized` that no source supports (offsets into `optimized`)
+   */
+  check(original: string, optimized: string, exemptKeywords: string[] = []): UnsupportedClaim[] {
+    const originalText = stripLatex(original);
+    const originalNumbers = new Set(extractNumbers(originalText).map(n => n.value));
+    const unsupported: UnsupportedClaim[] = [];
+
+    extractNumbers(optimized).forEach(number => {
+      if (!originalNumbers.has(number.value) && !this.sourceNumbers.has(number.value)) {
+        unsupported.push({ text: number.text, type: 'number', start: number.start, end: number.end });
+      }
+    });
+
+    const isSupported = (term: string) =>
+      exemptKeywords.some(keyword => this.normalizer.matches(keyword, term) || this.normalizer.containsKeyword(term, keyword)) ||
+      this.normalizer.containsKeyword(originalText, term) ||
+      this.normalizer.containsKeyword(this.sourceText, term);
+
+    this.extractTermRuns(optimized).forEach(run => {
+      // A multi-word name is supported as a whole ("Google Cloud" / GCP) or word by word
+      if (run.length > 1 && isSupported(optimized.slice(run[0].start, run[run.length - 1].end))) return;
+
+      let pending: Candidate | null = null;
+      const flush = () => {
+        if (pending) unsupported.push(pending);
+        pending = null;
+      };
+      run.forEach(candidate => {
+        if (isSupported(candidate.text)) {
+          flush();
+          return;
+        }
+        pending = pending
+          ? {
+            text: optimized.slice(pending.start, candidate.end),
+            type: pending.type === 'technology' || candidate.type === 'technology' ? 'technology' : 'entity',
+            start: pending.start,
+            end: candidate.end
+          }
+          : candidate;
+      });
+      flush();
+    });
+
+    // One report per claim text, in reading order
+    const seen = new Set<string>();
+    return unsupported
+      .sort((a, b) => a.start - b.start)
+      .filter(claim => {
+        const key = claim.text.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Technology/name candidates, grouped into runs of adjacent words
+   * ("Apache Kafka Streams" is one run)
+   */
+  private extractTermRuns(text: string): Candidate[][] {
+    const runs: Candidate[][] = [];
+    let run: Candidate[] = [];
+    let previousEnd = -1;
+
+    for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+      const start = match.index!;
+      const word = match[0].replace(/[.\-']+$/, '');
+      const end = start + word.length;
+      const before = text.slice(0, start);
+
+      const isCommand = before.endsWith('\\');
+      const isSentenceStart = /^\s*(?:\\item\s*)?[•●◦▪▫‣\-*]?\s*$/.test(before) || /[.!?:;]\s+$/.test(before);
+      const type = isCommand || isSentenceStart ? undefined : this.classifyWord(word);
+
+      if (!type) {
+        if (run.length > 0) runs.push(run);
+        run = [];
+        continue;
+      }
+
+      // Words separated by anything but a single space start a new run
+      if (run.length > 0 && text.slice(previousEnd, start) !== ' ') {
+        runs.push(run);
+        run = [];
+      }
+      run.push({ text: word, type, start, end });
+      previousEnd = end;
+    }
+    if (run.length > 0) runs.push(run);
+
+    return runs;
+  }
+
+  private classifyWord(word: string): Candidate['type'] | undefined {
+    if (word.length < 2 || NON_ENTITY_WORDS.has(word)) return undefined;
+
+    const looksTechnical = /[A-Z]/.test(word.slice(1)) ||      // AWS, GraphQL, iOS
+      (/\d/.test(word) && /[A-Za-z]/.test(word)) ||           // EC2, S3
+      /[+#]/.test(word) ||                                    // C++, C#
+      /^\.|\.[A-Za-z]/.test(word);                            // .NET, Node.js
+
+    if (looksTechnical || this.normalizer.isKnownKeyword(word)) return 'technology';
+    if (/^[A-Z]/.test(word)) return 'entity';
+    return undefined;
+  }
+}
+
+/**
+ * Numbers with their value (multipliers applied, currency and % dropped)
+ */
+function extractNumbers(text: string): Array<{ text: string; value: number; start: number; end: number }> {
+  return Array.from(text.matchAll(NUMBER_PATTERN)).map(match => {
+    const raw = match[0];
+    const digits = raw.match(/\d+(?:[.,]\d+)*/)![0];
+    // "1,000" is a thousands separator, "1,5" and "1.5" are decimals
+    const normalized = /,\d{3}(?!\d)/.test(digits) ? digits.replace(/,/g, '') : digits.replace(',', '.');
+    const suffix = raw.slice(raw.indexOf(digits) + digits.length).replace(/[\s+]/g, '').toLowerCase();
+    const value = parseFloat(normalized) * (NUMBER_MULTIPLIERS[suffix] || 1);
+
+    const text = raw.replace(/\s+$/, '');
+    return { text, value, start: match.index!, end: match.index! + text.length };
+  });
+}
+
+/**
+ * Drop LaTeX commands but keep their arguments and escaped characters
+ */
+function stripLatex(text: string): string {
+  return text
+    .replace(/\\([#$%&_{}])/g, '$1')
+    .replace(/\\[a-zA-Z]+\*?(?:\[[^\]]*\])?/g, ' ')
+    .replace(/[{}]/g, '');
+}
+
+/**
+ * Create fact grounding checker instance
+ */
+export function createFactGroundingChecker(sources: string[], normalizer?: KeywordNormalizer): FactGroundingChecker {
+  return new FactGroundingChecker(sources, normalizer);
+}
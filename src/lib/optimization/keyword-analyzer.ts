@@ -4,26 +4,55 @@
  * Extract and analyze keywords from job descriptions and resumes
  * - Extract technical keywords from JD
  * - Extract keywords from resume
- * - Perform gap analysis
+ * - Weigh JD keywords (required / preferred / bonus, JD frequency)
+ * - Perform gap analysis (aliases, synonyms and acronyms count as present)
  * - Map keywords to relevant bullet points
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Resume, ResumeLine, KeywordAnalysis, KeywordMapping } from '@/lib/parsers/types';
+import {
+  ResumeDocument,
+  ResumeLine,
+  KeywordAnalysis,
+  KeywordMapping,
+  KeywordAliasMap,
+  KeywordCategory,
+  KeywordImportance
+} from '@/lib/parsers/types';
 import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { LLMProvider, isAbortError } from '@/lib/llm';
+import { KeywordNormalizer, createKeywordNormalizer } from './keyword-normalizer';
 
-const MODEL_NAME = 'gemini-2.0-flash-exp';
+/**
+ * Base weight per category; repeated mentions add FREQUENCY_BONUS each
+ * (up to MAX_FREQUENCY_BONUSES)
+ */
+export const KEYWORD_CATEGORY_WEIGHTS: Record<KeywordCategory, number> = {
+  required: 3,
+  preferred: 2,
+  bonus: 1
+};
+const FREQUENCY_BONUS = 0.5;
+const MAX_FREQUENCY_BONUSES = 2;
+
+// JD wording that marks a sentence or section as required / preferred / bonus
+const REQUIRED_CUES = /\b(required|requirements?|must|minimum qualifications|basic qualifications|essential|mandatory|proficien(t|cy)|expertise|expert|strong|solid|\d+\+?\s*(years?|yrs))\b/i;
+const PREFERRED_CUES = /\b(preferred|preferably|preferred qualifications|nice[- ]to[- ]have|good[- ]to[- ]have|desired|desirable|ideally|familiarity|exposure)\b/i;
+const BONUS_CUES = /\b(bonus|a plus|plus if|extra credit)\b/i;
 
 /**
  * Keyword Analyzer class
  */
 export class KeywordAnalyzer {
-  private genAI: GoogleGenerativeAI;
+  private llm: LLMProvider;
   private sessionId: string;
+  private signal?: AbortSignal;
+  private normalizer: KeywordNormalizer;
 
-  constructor(apiKey: string, sessionId: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+  constructor(llm: LLMProvider, sessionId: string, signal?: AbortSignal, keywordAliases?: KeywordAliasMap) {
+    this.llm = llm;
     this.sessionId = sessionId;
+    this.signal = signal;
+    this.normalizer = createKeywordNormalizer(keywordAliases);
   }
 
   /**
@@ -79,24 +108,19 @@ ${jdContent}
 Technical Keywords:`;
 
     try {
-      const estimatedPromptTokens = tracker.estimateTokens(prompt);
-
-      // Get the generative model
-      const model = this.genAI.getGenerativeModel({ model: MODEL_NAME });
+      const estimatedPromptTokens = this.llm.countTokens(prompt);
 
       // Generate content
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text().trim();
+      const text = await this.llm.generate(prompt, { signal: this.signal });
 
-      const estimatedCompletionTokens = tracker.estimateTokens(text);
+      const estimatedCompletionTokens = this.llm.countTokens(text);
       const durationMs = Date.now() - startTime;
 
       // Track tokens
       tracker.recordLLMCall(
         this.sessionId,
         'extract_jd_keywords',
-        MODEL_NAME,
+        this.llm.model,
         estimatedPromptTokens,
         estimatedCompletionTokens,
         durationMs,
@@ -114,12 +138,18 @@ Technical Keywords:`;
       return keywords;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        console.info('[KEYWORD_ANALYZER] extract_jd_keywords aborted');
+        tracker.recordAbortedLLMCall(this.sessionId, 'extract_jd_keywords', this.llm.model, this.llm.countTokens(prompt), Date.now() - startTime);
+        throw error;
+      }
+
       console.error('[KEYWORD_ANALYZER] Error extracting JD keywords:', error);
 
       tracker.recordLLMCall(
         this.sessionId,
         'extract_jd_keywords',
-        MODEL_NAME,
+        this.llm.model,
         0,
         0,
         Date.now() - startTime,
@@ -131,10 +161,83 @@ Technical Keywords:`;
     }
   }
 
+  /**
+   * Weigh JD keywords by how the job description asks for them.
+   * Local (no model call): each sentence is classified by its own wording,
+   * falling back to the heading it sits under ("Requirements:", "Nice to have:").
+   * A keyword takes the strongest category among the sentences mentioning it;
+   * keywords the JD never spells out count as bonus.
+   */
+  weighJDKeywords(jdContent: string, jdKeywords: string[]): KeywordImportance[] {
+    const sentences: Array<{ text: string; category?: KeywordCategory }> = [];
+    let sectionCategory: KeywordCategory | undefined;
+    let afterBlankLine = true;
+
+    jdContent.split('\n').forEach(rawLine => {
+      const isBullet = /^\s*[-*•·◦▪]/.test(rawLine);
+      const line = rawLine.replace(/^[\s\-*•·◦▪]+/, '').trim();
+      if (!line) {
+        afterBlankLine = true;
+        return;
+      }
+
+      // Headings: "Requirements:" or a short cue-only line ("Nice to have")
+      const isHeading = !isBullet && line.length < 60 && (
+        line.endsWith(':') ||
+        (line.split(/\s+/).length <= 4 && !/[.!?;,]/.test(line) && this.categorize(line) !== undefined)
+      );
+      if (isHeading) {
+        sectionCategory = this.categorize(line);
+      } else if (!isBullet && afterBlankLine && /[.!?]$/.test(line)) {
+        // A new prose paragraph ends the previous section
+        sectionCategory = undefined;
+      }
+      afterBlankLine = false;
+
+      line.split(/(?<=[.!?;])\s+/).forEach(text => {
+        sentences.push({ text, category: this.categorize(text) || sectionCategory });
+      });
+    });
+
+    const rank = (category?: KeywordCategory) => (category ? KEYWORD_CATEGORY_WEIGHTS[category] : 0);
+
+    return jdKeywords.map(keyword => {
+      const mentions = sentences.filter(sentence => this.normalizer.containsKeyword(sentence.text, keyword));
+      const strongest = mentions.reduce<typeof mentions[number] | undefined>(
+        (best, sentence) => (!best || rank(sentence.category) > rank(best.category) ? sentence : best),
+        undefined
+      );
+
+      const category = strongest?.category || 'bonus';
+      const frequency = mentions.length;
+      const weight = KEYWORD_CATEGORY_WEIGHTS[category] +
+        FREQUENCY_BONUS * Math.min(Math.max(frequency - 1, 0), MAX_FREQUENCY_BONUSES);
+
+      return {
+        keyword,
+        category,
+        weight,
+        frequency,
+        sourceSentence: strongest?.text.substring(0, 200)
+      };
+    });
+  }
+
+  /**
+   * Category signalled by a sentence's wording (preferred/bonus wording wins:
+   * "strong Go experience is a plus" is not a requirement)
+   */
+  private categorize(text: string): KeywordCategory | undefined {
+    if (BONUS_CUES.test(text)) return 'bonus';
+    if (PREFERRED_CUES.test(text)) return 'preferred';
+    if (REQUIRED_CUES.test(text)) return 'required';
+    return undefined;
+  }
+
   /**
    * Extract keywords from resume
    */
-  async extractResumeKeywords(resume: Resume): Promise<string[]> {
+  async extractResumeKeywords(resume: ResumeDocument): Promise<string[]> {
     console.info('[KEYWORD_ANALYZER] Extracting keywords from resume');
 
     const startTime = Date.now();
@@ -163,24 +266,19 @@ ${resumeText}
 Keywords:`;
 
     try {
-      const estimatedPromptTokens = tracker.estimateTokens(prompt);
-
-      // Get the generative model
-      const model = this.genAI.getGenerativeModel({ model: MODEL_NAME });
+      const estimatedPromptTokens = this.llm.countTokens(prompt);
 
       // Generate content
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text().trim();
+      const text = await this.llm.generate(prompt, { signal: this.signal });
 
-      const estimatedCompletionTokens = tracker.estimateTokens(text);
+      const estimatedCompletionTokens = this.llm.countTokens(text);
       const durationMs = Date.now() - startTime;
 
       // Track tokens
       tracker.recordLLMCall(
         this.sessionId,
         'extract_resume_keywords',
-        MODEL_NAME,
+        this.llm.model,
         estimatedPromptTokens,
         estimatedCompletionTokens,
         durationMs,
@@ -198,12 +296,18 @@ Keywords:`;
       return keywords;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        console.info('[KEYWORD_ANALYZER] extract_resume_keywords aborted');
+        tracker.recordAbortedLLMCall(this.sessionId, 'extract_resume_keywords', this.llm.model, this.llm.countTokens(prompt), Date.now() - startTime);
+        throw error;
+      }
+
       console.error('[KEYWORD_ANALYZER] Error extracting resume keywords:', error);
 
       tracker.recordLLMCall(
         this.sessionId,
         'extract_resume_keywords',
-        MODEL_NAME,
+        this.llm.model,
         0,
         0,
         Date.now() - startTime,
@@ -217,18 +321,24 @@ Keywords:`;
 
   /**
    * Analyze keyword gap between JD and resume
+   * With importance, coverage is weighted and missing keywords are sorted by weight
    */
-  analyzeKeywordGap(jdKeywords: string[], resumeKeywords: string[]): KeywordAnalysis {
+  analyzeKeywordGap(
+    jdKeywords: string[],
+    resumeKeywords: string[],
+    importance?: KeywordImportance[]
+  ): KeywordAnalysis {
     console.info('[KEYWORD_ANALYZER] Analyzing keyword gap');
 
-    // Normalize keywords for comparison (case-insensitive)
-    const jdNormalized = jdKeywords.map(k => k.toLowerCase());
-    const resumeNormalized = resumeKeywords.map(k => k.toLowerCase());
+    // Compare canonical forms ("JS" matches "JavaScript")
+    const isPresent = (keyword: string) => this.normalizer.findMatch(keyword, resumeKeywords) !== undefined;
+    const weightOf = (keyword: string) =>
+      importance?.find(item => item.keyword === keyword)?.weight ?? KEYWORD_CATEGORY_WEIGHTS.bonus;
 
-    // Find missing keywords
-    const missingKeywords = jdKeywords.filter(
-      keyword => !resumeNormalized.includes(keyword.toLowerCase())
-    );
+    // Find missing keywords (stable sort keeps JD order within equal weights)
+    const missingKeywords = jdKeywords
+      .filter(keyword => !isPresent(keyword))
+      .sort((a, b) => (importance ? weightOf(b) - weightOf(a) : 0));
 
     // Calculate keyword frequency
     const keywordFrequency = new Map<string, number>();
@@ -238,20 +348,24 @@ Keywords:`;
     });
 
     // Calculate coverage
-    const matchedCount = jdKeywords.filter(
-      keyword => resumeNormalized.includes(keyword.toLowerCase())
-    ).length;
-    const coverage = (matchedCount / jdKeywords.length) * 100;
+    const matchedCount = jdKeywords.length - missingKeywords.length;
+    const unweightedCoverage = (matchedCount / jdKeywords.length) * 100;
+
+    const totalWeight = jdKeywords.reduce((sum, keyword) => sum + weightOf(keyword), 0);
+    const missingWeight = missingKeywords.reduce((sum, keyword) => sum + weightOf(keyword), 0);
+    const coverage = importance ? ((totalWeight - missingWeight) / totalWeight) * 100 : unweightedCoverage;
 
     const analysis: KeywordAnalysis = {
       jdKeywords,
       resumeKeywords,
       missingKeywords,
       keywordFrequency,
-      coverage: Math.round(coverage * 10) / 10 // Round to 1 decimal
+      coverage: Math.round(coverage * 10) / 10, // Round to 1 decimal
+      unweightedCoverage: Math.round(unweightedCoverage * 10) / 10,
+      keywordImportance: importance
     };
 
-    console.info(`[KEYWORD_ANALYZER] Keyword coverage: ${analysis.coverage}%`);
+    console.info(`[KEYWORD_ANALYZER] Keyword coverage: ${analysis.coverage}%${importance ? ` (weighted; unweighted ${analysis.unweightedCoverage}%)` : ''}`);
     console.info(`[KEYWORD_ANALYZER] Missing keywords: ${missingKeywords.length}`);
 
     return analysis;
@@ -263,9 +377,10 @@ Keywords:`;
    */
   async mapKeywordsToBullets(
     missingKeywords: string[],
-    resume: Resume,
+    resume: ResumeDocument,
     portfolioContent?: string,
-    projectsContent?: string
+    projectsContent?: string,
+    importance?: KeywordImportance[]
   ): Promise<KeywordMapping[]> {
     console.info('[KEYWORD_ANALYZER] Mapping keywords to bullet points');
 
@@ -292,11 +407,15 @@ Keywords:`;
       additionalContext.push(`Projects:\n${projectsContent.substring(0, 2000)}`);
     }
 
+    const requiredKeywords = missingKeywords.filter(keyword =>
+      importance?.find(item => item.keyword === keyword)?.category === 'required'
+    );
+
     const prompt = `You are a resume optimization expert. Your task is to map missing technical keywords to the most relevant bullet points in a resume.
 
 MISSING KEYWORDS (need to add):
 ${missingKeywords.join(', ')}
-
+${requiredKeywords.length > 0 ? `\nREQUIRED BY THE JOB (map these first, to the strongest bullets):\n${requiredKeywords.join(', ')}\n` : ''}
 RESUME BULLET POINTS:
 ${bulletsText}
 
@@ -311,6 +430,7 @@ RULES:
 3. Each bullet should receive 1-2 new keywords maximum
 4. Consider the section type (experience, projects, skills)
 5. Prefer bullet points that already mention related technologies
+6. Keywords are listed most important first; when bullets run out, drop the last ones
 
 Return ONLY a JSON array in this exact format:
 [
@@ -329,24 +449,19 @@ Return ONLY a JSON array in this exact format:
 JSON:`;
 
     try {
-      const estimatedPromptTokens = tracker.estimateTokens(prompt);
-
-      // Get the generative model
-      const model = this.genAI.getGenerativeModel({ model: MODEL_NAME });
+      const estimatedPromptTokens = this.llm.countTokens(prompt);
 
       // Generate content
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text().trim();
+      const text = await this.llm.generate(prompt, { signal: this.signal });
 
-      const estimatedCompletionTokens = tracker.estimateTokens(text);
+      const estimatedCompletionTokens = this.llm.countTokens(text);
       const durationMs = Date.now() - startTime;
 
       // Track tokens
       tracker.recordLLMCall(
         this.sessionId,
         'map_keywords_to_bullets',
-        MODEL_NAME,
+        this.llm.model,
         estimatedPromptTokens,
         estimatedCompletionTokens,
         durationMs,
@@ -365,24 +480,33 @@ JSON:`;
         reason: string;
       }> = JSON.parse(jsonMatch[0]);
 
-      // Convert to KeywordMapping format
-      const keywordMappings: KeywordMapping[] = mappings.map(m => ({
-        keyword: m.keyword,
-        targetLines: m.targetLines,
-        contextScore: 0.8 // Default high confidence from LLM
-      }));
+      // Convert to KeywordMapping format, using the JD's spelling of each keyword
+      const keywordMappings = this.mergeMappings(
+        missingKeywords,
+        mappings.map(m => ({
+          keyword: m.keyword,
+          targetLines: m.targetLines,
+          contextScore: 0.8 // Default high confidence from LLM
+        }))
+      );
 
       console.info(`[KEYWORD_ANALYZER] Mapped ${keywordMappings.length} keywords to bullets`);
 
       return keywordMappings;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        console.info('[KEYWORD_ANALYZER] map_keywords_to_bullets aborted');
+        tracker.recordAbortedLLMCall(this.sessionId, 'map_keywords_to_bullets', this.llm.model, this.llm.countTokens(prompt), Date.now() - startTime);
+        throw error;
+      }
+
       console.error('[KEYWORD_ANALYZER] Error mapping keywords:', error);
 
       tracker.recordLLMCall(
         this.sessionId,
         'map_keywords_to_bullets',
-        MODEL_NAME,
+        this.llm.model,
         0,
         0,
         Date.now() - startTime,
@@ -395,6 +519,33 @@ JSON:`;
     }
   }
 
+  /**
+   * Resolve model-returned keywords to the requested missing keywords
+   * (the model may answer "k8s" for "Kubernetes"), dropping keywords that
+   * were not requested and merging aliases of the same keyword
+   */
+  private mergeMappings(missingKeywords: string[], mappings: KeywordMapping[]): KeywordMapping[] {
+    const merged = new Map<string, KeywordMapping>();
+
+    mappings.forEach(mapping => {
+      const keyword = this.normalizer.findMatch(mapping.keyword, missingKeywords);
+      if (!keyword) {
+        console.warn(`[KEYWORD_ANALYZER] Ignoring mapping for unrequested keyword "${mapping.keyword}"`);
+        return;
+      }
+
+      const canonical = this.normalizer.canonicalize(keyword);
+      const existing = merged.get(canonical);
+      if (existing) {
+        existing.targetLines = Array.from(new Set([...existing.targetLines, ...mapping.targetLines]));
+      } else {
+        merged.set(canonical, { ...mapping, keyword, canonical });
+      }
+    });
+
+    return Array.from(merged.values());
+  }
+
   /**
    * Fallback keyword mapping (simple distribution)
    */
@@ -418,7 +569,8 @@ JSON:`;
       mappings.push({
         keyword,
         targetLines,
-        contextScore: 0.5 // Lower confidence for fallback
+        contextScore: 0.5, // Lower confidence for fallback
+        canonical: this.normalizer.canonicalize(keyword)
       });
 
       bulletIndex += 2;
@@ -455,23 +607,18 @@ Return a brief list (3-5 sentences max) of relevant projects or experiences that
 If none found, return "None".`;
 
     try {
-      const estimatedPromptTokens = tracker.estimateTokens(prompt);
-
-      // Get the generative model
-      const model = this.genAI.getGenerativeModel({ model: MODEL_NAME });
+      const estimatedPromptTokens = this.llm.countTokens(prompt);
 
       // Generate content
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text().trim();
+      const text = await this.llm.generate(prompt, { signal: this.signal });
 
-      const estimatedCompletionTokens = tracker.estimateTokens(text);
+      const estimatedCompletionTokens = this.llm.countTokens(text);
       const durationMs = Date.now() - startTime;
 
       tracker.recordLLMCall(
         this.sessionId,
         'find_relevant_projects',
-        MODEL_NAME,
+        this.llm.model,
         estimatedPromptTokens,
         estimatedCompletionTokens,
         durationMs,
@@ -485,6 +632,11 @@ If none found, return "None".`;
       return [text];
 
     } catch (error) {
+      if (isAbortError(error)) {
+        tracker.recordAbortedLLMCall(this.sessionId, 'find_relevant_projects', this.llm.model, this.llm.countTokens(prompt), Date.now() - startTime);
+        throw error;
+      }
+
       console.error('[KEYWORD_ANALYZER] Error finding relevant projects:', error);
       return [];
     }
@@ -494,6 +646,11 @@ If none found, return "None".`;
 /**
  * Create keyword analyzer instance
  */
-export function createKeywordAnalyzer(apiKey: string, sessionId: string): KeywordAnalyzer {
-  return new KeywordAnalyzer(apiKey, sessionId);
+export function createKeywordAnalyzer(
+  llm: LLMProvider,
+  sessionId: string,
+  signal?: AbortSignal,
+  keywordAliases?: KeywordAliasMap
+): KeywordAnalyzer {
+  return new KeywordAnalyzer(llm, sessionId, signal, keywordAliases);
 }
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { createKeywordNormalizer } from './keyword-normalizer';
+
+describe('KeywordNormalizer.containsKeyword', () => {
+  const normalizer = createKeywordNormalizer();
+
+  it('matches aliases and spelling variants', () => {
+    expect(normalizer.containsKeyword('Ran services on k8s', 'Kubernetes')).toBe(true);
+    expect(normalizer.containsKeyword('Built NodeJS APIs', 'Node.js')).toBe(true);
+    expect(normalizer.containsKeyword('Designed RESTful services', 'REST API')).toBe(true);
+    expect(normalizer.containsKeyword('Exposed a rest api to partners', 'REST API')).toBe(true);
+  });
+
+  it('matches all-caps acronym forms case-sensitively', () => {
+    expect(normalizer.containsKeyword('Designed REST endpoints', 'REST API')).toBe(true);
+    expect(normalizer.containsKeyword('Covered the rest of the on-call rotation', 'REST API')).toBe(false);
+    expect(normalizer.containsKeyword('Eager to go the extra mile', 'Golang')).toBe(false);
+    expect(normalizer.containsKeyword('Wrote services in Go', 'Golang')).toBe(true);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Keyword Normalizer
+ *
+ * Canonicalize keywords so spelling variants, synonyms and acronyms match:
+ * - "JS" / "JavaScript", "k8s" / "Kubernetes", "Postgres" / "PostgreSQL"
+ * - "Node" / "Node.js" / "NodeJS" (punctuation and spacing are ignored)
+ * - "Amazon Web Services (AWS)" matches either form
+ * - multi-word phrases match their acronym ("Infrastructure as Code" / "IaC")
+ * - simple plurals ("APIs" / "API")
+ *
+ * Pure and dependency-free so gap analysis, keyword mapping, bullet
+ * validation and the keyword panel all share one definition of "present".
+ */
+
+import type { KeywordAliasMap } from '@/lib/parsers/types';
+
+/**
+ * Built-in alias dictionary: canonical keyword -> variants
+ */
+export const DEFAULT_KEYWORD_ALIASES: KeywordAliasMap = {
+  'JavaScript': ['JS', 'ECMAScript'],
+  'TypeScript': ['TS'],
+  'Node.js': ['Node', 'NodeJS'],
+  'React': ['React.js', 'ReactJS'],
+  'Vue.js': ['Vue', 'VueJS'],
+  'Angular': ['AngularJS'],
+  'Next.js': ['NextJS'],
+  'Express.js': ['Express', 'ExpressJS'],
+  'Golang': ['Go'],
+  'C#': ['CSharp', 'C Sharp'],
+  'C++': ['CPP'],
+  '.NET': ['dotnet', '.NET Core'],
+  'Python': ['Python3'],
+  'Kubernetes': ['k8s', 'kube'],
+  'PostgreSQL': ['Postgres', 'psql'],
+  'MongoDB': ['Mongo'],
+  'Elasticsearch': ['Elastic Search'],
+  'Amazon Web Services': ['AWS'],
+  'Google Cloud Platform': ['GCP', 'Google Cloud'],
+  'Microsoft Azure': ['Azure'],
+  'CI/CD': ['CICD', 'Continuous Integration', 'Continuous Delivery', 'Continuous Deployment'],
+  'REST API': ['REST', 'RESTful', 'RESTful API'],
+  'GraphQL': ['GQL'],
+  'Machine Learning': ['ML'],
+  'Artificial Intelligence': ['AI'],
+  'Natural Language Processing': ['NLP'],
+  'Large Language Models': ['LLM'],
+  'Scikit-learn': ['sklearn'],
+  'Object-Oriented Programming': ['OOP'],
+  'Test-Driven Development': ['TDD'],
+  'Site Reliability Engineering': ['SRE'],
+  'Software Development Life Cycle': ['SDLC'],
+  'Extract, Transform, Load': ['ETL'],
+  'User Experience': ['UX'],
+  'User Interface': ['UI'],
+  'Search Engine Optimization': ['SEO'],
+  'Tailwind CSS': ['Tailwind', 'TailwindCSS'],
+  'Microservices': ['Microservice Architecture']
+};
+
+// Shortest acronym derived from a phrase
+const MIN_ACRONYM_LENGTH = 2;
+
+// Longest single-word all-caps form matched case-sensitively ("SDLC")
+const MAX_ACRONYM_LENGTH = 5;
+
+/**
+ * Keyword Normalizer class
+ */
+export class KeywordNormalizer {
+  private canonicalByKey = new Map<string, string>();   // normalized key -> canonical name
+  private formsByCanonical = new Map<string, string[]>(); // canonical name -> surface forms
+
+  constructor(customAliases?: KeywordAliasMap) {
+    this.addAliases(DEFAULT_KEYWORD_ALIASES);
+    if (customAliases) {
+      this.addAliases(customAliases);
+    }
+  }
+
+  /**
+   * Canonical display form ("k8s" -> "Kubernetes"); unknown keywords are
+   * returned trimmed
+   */
+  canonicalize(keyword: string): string {
+    for (const part of this.splitParenthetical(keyword)) {
+      const canonical = this.canonicalByKey.get(normalizeKeyword(part));
+      if (canonical) return canonical;
+    }
+    return keyword.trim();
+  }
+
+  /**
+   * Whether two keywords name the same thing. Acronyms only match the
+   * spelled-out phrase, never another phrase with the same acronym
+   * ("Project Management" vs "Product Management")
+   */
+  matches(a: string, b: string): boolean {
+    const keysA = this.keysOf(a);
+    const keysB = this.keysOf(b);
+    return Array.from(keysA.primary).some(key => keysB.all.has(key)) ||
+      Array.from(keysB.primary).some(key => keysA.all.has(key));
+  }
+
+  /**
+   * The candidate that matches `keyword` (exact case-insensitive match
+   * preferred over an alias match)
+   */
+  findMatch(keyword: string, candidates: string[]): string | undefined {
+    const lower = keyword.trim().toLowerCase();
+    return candidates.find(c => c.trim().toLowerCase() === lower) ||
+      candidates.find(c => this.matches(keyword, c));
+  }
+
+  /**
+   * Every accepted surface form of a keyword (original, dictionary variants,
+   * parenthetical parts, acronym)
+   */
+  variantsOf(keyword: string): string[] {
+    const forms = new Set<string>([keyword.trim()]);
+
+    for (const part of this.splitParenthetical(keyword)) {
+      forms.add(part);
+      const canonical = this.canonicalByKey.get(normalizeKeyword(part));
+      if (canonical) {
+        this.formsByCanonical.get(canonical)!.forEach(form => forms.add(form));
+      }
+      const acronym = toAcronym(part);
+      if (acronym) forms.add(acronym);
+    }
+
+    return Array.from(forms);
+  }
+
+  /**
+   * Whether the keyword (in any form) is in the alias dictionary
+   */
+  isKnownKeyword(keyword: string): boolean {
+    return this.splitParenthetical(keyword).some(part => this.canonicalByKey.has(normalizeKeyword(part)));
+  }
+
+  /**
+   * Whether `text` mentions the keyword in any accepted form (whole words,
+   * LaTeX escapes ignored)
+   */
+  containsKeyword(text: string, keyword: string): boolean {
+    const plainText = text.replace(/\\([#$%&_{}])/g, '$1');
+    return this.variantsOf(keyword).some(form => {
+      const pattern = toTextPattern(form);
+      return pattern ? pattern.test(plainText) : false;
+    });
+  }
+
+  /**
+   * Register alias groups; a group that shares any form with an existing
+   * group is merged into it
+   */
+  private addAliases(aliases: KeywordAliasMap): void {
+    Object.entries(aliases).forEach(([canonicalName, variants]) => {
+      const name = canonicalName.trim();
+      if (!name) return;
+
+      const forms = [name, ...variants.map(v => v.trim()).filter(v => v.length > 0)];
+      const existing = forms
+        .map(form => this.canonicalByKey.get(normalizeKeyword(form)))
+        .find((canonical): canonical is string => canonical !== undefined);
+      const canonical = existing || name;
+
+      const groupForms = this.formsByCanonical.get(canonical) || [];
+      forms.forEach(form => {
+        if (!groupForms.includes(form)) groupForms.push(form);
+        this.canonicalByKey.set(normalizeKeyword(form), canonical);
+      });
+      this.formsByCanonical.set(canonical, groupForms);
+    });
+  }
+
+  /**
+   * Comparison keys: canonical keys of the keyword and its parenthetical
+   * parts (primary), plus the keys of their acronyms (all)
+   */
+  private keysOf(keyword: string): { primary: Set<string>; all: Set<string> } {
+    const primary = new Set<string>();
+    const all = new Set<string>();
+    const canonicalKey = (form: string) => {
+      const key = normalizeKeyword(form);
+      const canonical = this.canonicalByKey.get(key);
+      return canonical ? normalizeKeyword(canonical) : key;
+    };
+
+    for (const part of this.splitParenthetical(keyword)) {
+      const key = canonicalKey(part);
+      if (!key) continue;
+      primary.add(key);
+      all.add(key);
+
+      const acronym = toAcronym(part);
+      if (acronym) all.add(canonicalKey(acronym));
+    }
+
+    return { primary, all };
+  }
+
+  /**
+   * "Amazon Web Services (AWS)" -> ["Amazon Web Services (AWS)", "Amazon Web Services", "AWS"]
+   */
+  private splitParenthetical(keyword: string): string[] {
+    const trimmed = keyword.trim();
+    const match = trimmed.match(/^(.+?)\s*\(([^)]+)\)$/);
+    return match ? [trimmed, match[1].trim(), match[2].trim()] : [trimmed];
+  }
+}
+
+/**
+ * Comparison key: lowercase, punctuation and spacing removed (keeping + and #),
+ * trailing plural "s" dropped
+ */
+export function normalizeKeyword(keyword: string): string {
+  const key = keyword
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9+#]/g, '');
+
+  return key.length > 3 && key.endsWith('s') && !key.endsWith('ss')
+    ? key.slice(0, -1)
+    : key;
+}
+
+/**
+ * Acronym of a multi-word phrase ("Infrastructure as Code" -> "IaC");
+ * undefined for single words and phrases already made of acronyms ("CI/CD")
+ */
+function toAcronym(phrase: string): string | undefined {
+  const words = phrase.split(/[\s\-/,]+/).filter(w => w.length > 0);
+  if (words.length < 2) return undefined;
+  if (words.some(w => !/^[A-Za-z]+$/.test(w) || (w.length > 1 && w === w.toUpperCase()))) {
+    return undefined;
+  }
+
+  const acronym = words
+    .map(w => (w === w.toLowerCase() && w.length <= 3 ? w[0] : w[0].toUpperCase()))
+    .join('');
+  return acronym.length >= MIN_ACRONYM_LENGTH ? acronym : undefined;
+}
+
+/**
+ * Whole-word pattern for a surface form; separators between tokens are
+ * optional ("Node.js" matches "NodeJS", "Node JS"). Short forms with capitals
+ * ("JS", "Go") and all-caps acronyms ("REST", "SDLC") are matched
+ * case-sensitively so ordinary words ("go", "rest") do not count.
+ */
+function toTextPattern(form: string): RegExp | undefined {
+  const tokens = form.split(/[\s.\-/,]+/).filter(t => t.length > 0);
+  if (tokens.length === 0) return undefined;
+
+  const body = tokens
+    .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s.\\-/]*');
+  const compact = tokens.join('');
+  const acronym = tokens.length === 1 && compact.length <= MAX_ACRONYM_LENGTH && compact === compact.toUpperCase();
+  const caseSensitive = /[A-Z]/.test(compact) && (compact.length <= 3 || acronym);
+
+  return new RegExp(`(?<![A-Za-z0-9])${body}(?:e?s)?(?![A-Za-z0-9+#])`, caseSensitive ? '' : 'i');
+}
+
+/**
+ * Create keyword normalizer instance
+ */
+export function createKeywordNormalizer(customAliases?: KeywordAliasMap): KeywordNormalizer {
+  return new KeywordNormalizer(customAliases);
+}
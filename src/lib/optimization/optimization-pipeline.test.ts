@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { runResumeOptimization } from './optimization-pipeline';
+import { FakeProvider } from '@/lib/llm';
+import { OptimizationProgressEvent } from '@/lib/parsers/types';
+
+const RESUME = [
+  '\\documentclass{article}',
+  '\\begin{document}',
+  '\\section{Experience}',
+  '\\begin{itemize}',
+  '\\item Built a web service in Python for internal analytics dashboards and reporting.',
+  '\\item Deployed backend jobs that processed customer data every night.',
+  '\\end{itemize}',
+  '\\end{document}'
+].join('\n');
+
+const JOB_DESCRIPTION = 'We need Python, Docker and Kubernetes experience.';
+
+describe('runResumeOptimization with the fake provider', () => {
+  it('runs every step offline and applies the optimized bullets', async () => {
+    const events: OptimizationProgressEvent[] = [];
+    const result = await runResumeOptimization(
+      new FakeProvider(),
+      { resumeContent: RESUME, resumeFormat: 'latex', fileName: 'resume.tex', jobDescription: JOB_DESCRIPTION, sessionId: 'pipeline-test' },
+      { onEvent: event => events.push(event) }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.changes.map(change => change.addedKeywords)).toEqual([['Docker'], ['Kubernetes']]);
+    result.changes.forEach(change => {
+      const line = result.optimizedResume.lines.find(l => l.lineNumber === change.lineNumber);
+      expect(line?.text).toBe(change.optimizedText);
+    });
+
+    expect(result.initialCoverage).toBeLessThan(100);
+    expect(result.keywordAnalysis.missingKeywords).toEqual([]);
+    expect(result.keywordAnalysis.coverage).toBe(100);
+
+    const steps = events.flatMap(event => (event.type === 'step' ? [event] : []));
+    expect(steps.map(event => event.step)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(steps.every(event => event.totalSteps === 9)).toBe(true);
+    expect(events.filter(event => event.type === 'bullet')).toHaveLength(2);
+  });
+
+  it('ends review runs at step 8 of 8 without applying the bullets', async () => {
+    const events: OptimizationProgressEvent[] = [];
+    const result = await runResumeOptimization(
+      new FakeProvider(),
+      { resumeContent: RESUME, resumeFormat: 'latex', fileName: 'resume.tex', jobDescription: JOB_DESCRIPTION, sessionId: 'pipeline-review-test', review: true },
+      { onEvent: event => events.push(event) }
+    );
+
+    expect(result.review).toBe(true);
+    expect(result.changes).toHaveLength(2);
+    expect(result.optimizedResume.lines.map(line => line.text).join('\n')).not.toContain('Kubernetes');
+
+    const steps = events.flatMap(event => (event.type === 'step' ? [event] : []));
+    expect(steps[steps.length - 1]).toMatchObject({ step: 8, totalSteps: 8 });
+  });
+});
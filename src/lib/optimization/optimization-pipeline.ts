@@ -0,0 +1,423 @@
+/**
+ * Resume Optimization Pipeline
+ *
+ * The nine-step optimize workflow shared by the JSON and streaming modes of
+ * /api/optimize-resume:
+ * 1. Parse resume (LaTeX/DOCX), or take the line view of an already-parsed Resume
+ * 2. Extract keywords from job description
+ * 3. Extract keywords from resume
+ * 4. Analyze keyword gap
+ * 5. Map keywords to bullet points
+ * 6. Build optimization plan
+ * 7. Optimize bullets in parallel
+ * 8. Apply changes
+ * 9. Re-analyze keywords
+ *
+ * With config.maxPages a page-fitting step runs between 8 and 9: the LaTeX
+ * is compiled and the lowest-value bullets are condensed until the resume
+ * fits (see page-fitter). The result's pageFit reports what was trimmed.
+ *
+ * In review mode step 8 leaves the resume unchanged and is the last step
+ * (progress reports 8 steps): the bullet optimizations are returned as
+ * proposals for the user to accept or reject one by one.
+ *
+ * Progress (step transitions, per-bullet results, token deltas) is reported
+ * through an optional event callback. The optional AbortSignal reaches every
+ * model call; aborting during or after bullet optimization returns the
+ * bullets finished so far with `cancelled: true`.
+ */
+
+import {
+  ResumeDocument,
+  ResumeOptimizationResult,
+  OptimizationConfig,
+  OptimizationProgressEvent,
+  OptimizationStepName,
+  BulletOptimization,
+  KeywordMapping,
+  PageFitResult
+} from '@/lib/parsers/types';
+import type { Resume } from '@/types/resume';
+import { parseLatexResume } from '@/lib/parsers/latex';
+import { promoteDocxLinesToResume, docxTextToLines } from '@/lib/parsers/docx-resume';
+import { toResumeDocument, syncResumeWithLines } from '@/lib/resume-model';
+import { createKeywordAnalyzer } from './keyword-analyzer';
+import { createParallelOptimizer, ParallelOptimizer } from './parallel-optimizer';
+import { createPageFitter } from './page-fitter';
+import { createKeywordNormalizer } from './keyword-normalizer';
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { LLMProvider, isAbortError } from '@/lib/llm';
+import type { LimitFunction } from 'p-limit';
+
+const TOTAL_STEPS = 9;
+
+export const DEFAULT_OPTIMIZATION_CONFIG: OptimizationConfig = {
+  mode: 'targeted',
+  maxConcurrentCalls: 5,
+  preserveLength: true,
+  maintainTone: true,
+  maxKeywordsPerBullet: 2,
+  minConfidenceScore: 0.6
+};
+
+export interface OptimizationPipelineInput {
+  resume?: Resume;            // Canonical resume from /api/parse; skips re-parsing resumeContent
+  resumeContent: string;
+  resumeFormat: string;
+  fileName?: string;
+  jobDescription: string;
+  jobField?: string;
+  projects?: string;
+  portfolio?: string;
+  customInstructions?: string;
+  config?: OptimizationConfig;
+  sessionId: string;
+  review?: boolean;           // Return changes as proposals without applying them
+}
+
+export interface OptimizationPipelineOptions {
+  onEvent?: (event: OptimizationProgressEvent) => void;
+  signal?: AbortSignal;       // Cancels in-flight model calls and remaining steps
+
+  // Shared work for batch runs (one resume, many job descriptions)
+  resumeDocument?: ResumeDocument; // Already-parsed resume; step 1 does no parsing
+  resumeKeywords?: string[];       // Already-extracted resume keywords; step 3 makes no model call
+  limit?: LimitFunction;           // Bullet concurrency limiter shared across runs
+}
+
+/**
+ * Pipeline failure with the HTTP status the API should respond with
+ */
+export class OptimizationPipelineError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details?: string
+  ) {
+    super(message);
+    this.name = 'OptimizationPipelineError';
+  }
+}
+
+/**
+ * Run the full optimization workflow
+ */
+export async function runResumeOptimization(
+  llm: LLMProvider,
+  input: OptimizationPipelineInput,
+  options: OptimizationPipelineOptions = {}
+): Promise<ResumeOptimizationResult> {
+  const startTime = Date.now();
+  const { onEvent, signal } = options;
+  const { sessionId, jobDescription, jobField, projects, portfolio, customInstructions } = input;
+
+  const tracker = getTokenTracker();
+  tracker.initSession(sessionId);
+
+  const optimizationConfig = input.config || DEFAULT_OPTIMIZATION_CONFIG;
+  const fitPages = !input.review && !!optimizationConfig.maxPages && optimizationConfig.maxPages > 0;
+  // Review mode ends after step 8; page fitting adds a step
+  const totalSteps = input.review ? TOTAL_STEPS - 1 : fitPages ? TOTAL_STEPS + 1 : TOTAL_STEPS;
+
+  // Token deltas are computed against the last reported session totals
+  let lastTokens = tracker.getSessionUsage(sessionId)?.totalTokens || 0;
+  let lastCost = tracker.getSessionUsage(sessionId)?.estimatedCost || 0;
+  const emitTokenUsage = () => {
+    const usage = tracker.getSessionUsage(sessionId);
+    if (!onEvent || !usage || usage.totalTokens === lastTokens) return;
+
+    onEvent({
+      type: 'tokens',
+      deltaTokens: usage.totalTokens - lastTokens,
+      deltaCost: usage.estimatedCost - lastCost,
+      usage
+    });
+    lastTokens = usage.totalTokens;
+    lastCost = usage.estimatedCost;
+  };
+
+  let step = 0;
+  let initialCoverage: number | undefined;
+  let pageFit: PageFitResult | undefined;
+  const cancelled = () => new OptimizationPipelineError('Optimization cancelled', 499);
+
+  const beginStep = (name: OptimizationStepName, message: string) => {
+    if (signal?.aborted) {
+      throw cancelled();
+    }
+
+    emitTokenUsage();
+    step++;
+    console.info(`[OPTIMIZE_PIPELINE] Step ${step}: ${message}`);
+    onEvent?.({ type: 'step', step, totalSteps, name, message });
+  };
+
+  const buildResult = (
+    optimizedResume: ResumeDocument,
+    changes: BulletOptimization[],
+    keywordAnalysis: ResumeOptimizationResult['keywordAnalysis'],
+    wasCancelled: boolean = false
+  ): ResumeOptimizationResult => {
+    emitTokenUsage();
+    const tokenUsage = tracker.getSessionUsage(sessionId);
+
+    return {
+      optimizedResume,
+      changes,
+      keywordAnalysis,
+      initialCoverage,
+      totalTokensUsed: tokenUsage?.totalTokens || 0,
+      estimatedCost: tokenUsage?.estimatedCost || 0,
+      processingTimeMs: Date.now() - startTime,
+      success: true,
+      ...(input.resume ? { resume: syncResumeWithLines(input.resume, optimizedResume.lines) } : {}),
+      ...(pageFit ? { pageFit } : {}),
+      ...(wasCancelled ? { cancelled: true } : {}),
+      ...(input.review ? { review: true } : {})
+    };
+  };
+
+  // Step 1: Parse resume based on format
+  beginStep('parse_resume', 'Parsing resume');
+  const resume = options.resumeDocument || await parseResumeInput(input);
+
+  // Step 2: Extract keywords from job description
+  beginStep('extract_jd_keywords', 'Extracting JD keywords');
+  const keywordAnalyzer = createKeywordAnalyzer(llm, sessionId, signal, optimizationConfig.keywordAliases);
+
+  let jdKeywords: string[];
+  try {
+    jdKeywords = await keywordAnalyzer.extractJDKeywords(jobDescription, jobField);
+    console.info(`[OPTIMIZE_PIPELINE] Extracted ${jdKeywords.length} keywords from JD`);
+  } catch (error) {
+    if (isAbortError(error)) throw cancelled();
+    console.error('[OPTIMIZE_PIPELINE] JD keyword extraction failed:', error);
+    throw new OptimizationPipelineError('Failed to extract keywords from job description', 500, errorDetails(error));
+  }
+
+  const jdImportance = keywordAnalyzer.weighJDKeywords(jobDescription, jdKeywords);
+
+  // Step 3: Extract keywords from resume
+  beginStep('extract_resume_keywords', 'Extracting resume keywords');
+  let resumeKeywords: string[];
+  try {
+    resumeKeywords = options.resumeKeywords || await keywordAnalyzer.extractResumeKeywords(resume);
+    console.info(`[OPTIMIZE_PIPELINE] Extracted ${resumeKeywords.length} keywords from resume`);
+  } catch (error) {
+    if (isAbortError(error)) throw cancelled();
+    console.error('[OPTIMIZE_PIPELINE] Resume keyword extraction failed:', error);
+    throw new OptimizationPipelineError('Failed to extract keywords from resume', 500, errorDetails(error));
+  }
+
+  // Step 4: Analyze keyword gap
+  beginStep('analyze_gap', 'Analyzing keyword gap');
+  const keywordAnalysis = keywordAnalyzer.analyzeKeywordGap(jdKeywords, resumeKeywords, jdImportance);
+  initialCoverage = keywordAnalysis.coverage;
+  console.info(`[OPTIMIZE_PIPELINE] Coverage: ${keywordAnalysis.coverage}%, Missing: ${keywordAnalysis.missingKeywords.length}`);
+
+  // If coverage is already high, return early
+  if (keywordAnalysis.coverage >= 95) {
+    console.info('[OPTIMIZE_PIPELINE] Coverage already excellent (>=95%), skipping optimization');
+    return buildResult(resume, [], keywordAnalysis);
+  }
+
+  // Step 5: Map keywords to bullet points
+  beginStep('map_keywords', 'Mapping keywords to bullets');
+  let keywordMappings: KeywordMapping[];
+  try {
+    keywordMappings = await keywordAnalyzer.mapKeywordsToBullets(
+      keywordAnalysis.missingKeywords,
+      resume,
+      portfolio,
+      projects,
+      jdImportance
+    );
+    console.info(`[OPTIMIZE_PIPELINE] Mapped ${keywordMappings.length} keywords to bullets`);
+  } catch (error) {
+    if (isAbortError(error)) throw cancelled();
+    console.error('[OPTIMIZE_PIPELINE] Keyword mapping failed:', error);
+    throw new OptimizationPipelineError('Failed to map keywords to bullet points', 500, errorDetails(error));
+  }
+
+  if (keywordMappings.length === 0) {
+    console.info('[OPTIMIZE_PIPELINE] No keyword mappings generated, skipping optimization');
+    return buildResult(resume, [], keywordAnalysis);
+  }
+
+  // Step 6: Build optimization plan
+  beginStep('build_plan', 'Building optimization plan');
+  const optimizationPlan = ParallelOptimizer.buildOptimizationPlan(
+    resume,
+    keywordMappings,
+    jdImportance,
+    optimizationConfig.maxKeywordsPerBullet
+  );
+  console.info(`[OPTIMIZE_PIPELINE] Plan includes ${optimizationPlan.length} bullets to optimize`);
+
+  // Step 7: Optimize bullets in parallel
+  beginStep('optimize_bullets', `Optimizing ${optimizationPlan.length} bullets`);
+  const optimizer = createParallelOptimizer(llm, sessionId, optimizationConfig, signal, options.limit);
+
+  let bulletOptimizations: BulletOptimization[];
+  try {
+    bulletOptimizations = await optimizer.optimizeBulletsParallel(
+      optimizationPlan,
+      {
+        resume,
+        projects: projects ? {
+          id: 'projects',
+          type: 'projects',
+          fileName: 'projects.txt',
+          fileSize: projects.length,
+          content: projects,
+          uploadedAt: new Date()
+        } : undefined,
+        portfolio: portfolio ? {
+          id: 'portfolio',
+          type: 'portfolio',
+          fileName: 'portfolio.txt',
+          fileSize: portfolio.length,
+          content: portfolio,
+          uploadedAt: new Date()
+        } : undefined,
+        jobDescription: {
+          id: 'jd',
+          type: 'job_description',
+          fileName: 'job_description.txt',
+          fileSize: jobDescription.length,
+          content: jobDescription,
+          uploadedAt: new Date()
+        },
+        customInstructions
+      },
+      (line, optimization, completed, total) => {
+        onEvent?.({ type: 'bullet', lineNumber: line.lineNumber, optimization, completed, total });
+        emitTokenUsage();
+      }
+    );
+    console.info(`[OPTIMIZE_PIPELINE] Successfully optimized ${bulletOptimizations.length} bullets`);
+  } catch (error) {
+    console.error('[OPTIMIZE_PIPELINE] Parallel optimization failed:', error);
+    throw new OptimizationPipelineError('Failed to optimize bullet points', 500, errorDetails(error));
+  }
+
+  // Cancelled mid-run: return the bullets that finished (skip re-analysis)
+  if (signal?.aborted) {
+    console.info(`[OPTIMIZE_PIPELINE] Cancelled - returning ${bulletOptimizations.length} partial results`);
+    const partialResume = input.review ? resume : applyBulletOptimizations(resume, bulletOptimizations);
+    return buildResult(partialResume, bulletOptimizations, keywordAnalysis, true);
+  }
+
+  // Review mode: hand the optimizations back as proposals, resume unchanged
+  if (input.review) {
+    beginStep('apply_changes', `Returning ${bulletOptimizations.length} proposals for review`);
+    return buildResult(resume, bulletOptimizations, keywordAnalysis);
+  }
+
+  // Step 8: Apply optimizations to resume
+  beginStep('apply_changes', 'Applying optimizations to resume');
+  let optimizedResume = applyBulletOptimizations(resume, bulletOptimizations);
+
+  // Optional: condense low-value bullets until the compiled resume fits the page limit
+  if (fitPages) {
+    const targetPages = optimizationConfig.maxPages!;
+    beginStep('fit_pages', `Fitting resume to ${targetPages} page${targetPages === 1 ? '' : 's'}`);
+    const fitter = createPageFitter(llm, sessionId, signal, createKeywordNormalizer(optimizationConfig.keywordAliases));
+    const fitted = await fitter.fit({
+      resume: optimizedResume,
+      targetPages,
+      jdKeywords,
+      supportingText: [projects || '', portfolio || '']
+    });
+    optimizedResume = fitted.resume;
+    pageFit = fitted.pageFit;
+
+    if (signal?.aborted) {
+      return buildResult(optimizedResume, bulletOptimizations, keywordAnalysis, true);
+    }
+  }
+
+  // Step 9: Re-analyze keywords after optimization
+  beginStep('reanalyze', 'Re-analyzing keywords after optimization');
+  let optimizedResumeKeywords: string[];
+  try {
+    optimizedResumeKeywords = await keywordAnalyzer.extractResumeKeywords(optimizedResume);
+  } catch (error) {
+    if (isAbortError(error)) {
+      return buildResult(optimizedResume, bulletOptimizations, keywordAnalysis, true);
+    }
+    throw error;
+  }
+  const finalAnalysis = keywordAnalyzer.analyzeKeywordGap(jdKeywords, optimizedResumeKeywords, jdImportance);
+  console.info(`[OPTIMIZE_PIPELINE] Final coverage: ${finalAnalysis.coverage}%`);
+
+  const result = buildResult(optimizedResume, bulletOptimizations, finalAnalysis);
+
+  console.info(`[OPTIMIZE_PIPELINE] Optimization complete in ${result.processingTimeMs}ms`);
+  console.info(`[OPTIMIZE_PIPELINE] Total tokens used: ${result.totalTokensUsed}`);
+
+  return result;
+}
+
+/**
+ * Step 1: resolve the line view for the request - the canonical resume when
+ * one was sent, otherwise parse resumeContent
+ */
+export async function parseResumeInput(
+  input: Pick<OptimizationPipelineInput, 'resume' | 'resumeContent' | 'resumeFormat' | 'fileName'>
+): Promise<ResumeDocument> {
+  if (input.resume) {
+    return toResumeDocument(input.resume);
+  }
+
+  if (input.resumeFormat !== 'latex' && input.resumeFormat !== 'docx') {
+    throw new OptimizationPipelineError('Only LaTeX and DOCX formats are currently supported', 400);
+  }
+
+  try {
+    const resume = input.resumeFormat === 'latex'
+      ? await parseLatexResume(input.resumeContent, input.fileName)
+      // resumeContent holds the parseDocx paragraphs (one per line), so line
+      // numbers stay aligned with the original file for format-preserving export
+      : promoteDocxLinesToResume(docxTextToLines(input.resumeContent), input.fileName);
+
+    console.info(`[OPTIMIZE_PIPELINE] Resume parsed: ${resume.lines.length} lines, ${resume.sections.length} sections`);
+    return resume;
+  } catch (error) {
+    console.error('[OPTIMIZE_PIPELINE] Resume parsing failed:', error);
+    throw new OptimizationPipelineError('Failed to parse resume', 400, errorDetails(error));
+  }
+}
+
+/**
+ * Write bullet optimizations into the resume lines and section content
+ */
+export function applyBulletOptimizations(
+  resume: ResumeDocument,
+  bulletOptimizations: BulletOptimization[]
+): ResumeDocument {
+  const applyToLine = <T extends ResumeDocument['lines'][number]>(line: T): T => {
+    const optimization = bulletOptimizations.find(opt => opt.lineNumber === line.lineNumber);
+    if (!optimization) {
+      return line;
+    }
+    return {
+      ...line,
+      text: optimization.optimizedText,
+      keywords: [...(line.keywords || []), ...optimization.addedKeywords]
+    };
+  };
+
+  return {
+    ...resume,
+    lines: resume.lines.map(applyToLine),
+    sections: resume.sections.map(section => ({
+      ...section,
+      content: section.content.map(applyToLine)
+    }))
+  };
+}
+
+function errorDetails(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -0,0 +1,405 @@
+/**
+ * Page Fitter
+ *
+ * Keeps an optimized LaTeX resume within a page limit. The resume is
+ * compiled and its pages counted; while it overflows, the lowest-value
+ * bullets are condensed by the model and the resume is compiled again.
+ *
+ * Bullet value (trim priority = lowest value first):
+ * - JD keywords: bullets matching fewer job description keywords go first
+ * - role age: within experience/projects, later roles (older jobs) go first
+ * - length: longer bullets go first, they have the most to give
+ *
+ * Condensed bullets keep the JD keywords they matched and may not add facts
+ * (checked with the fact-grounding guard). Each bullet is condensed at most
+ * once; fitting stops when the resume fits, the bullets run out or after
+ * MAX_ROUNDS compiles.
+ */
+
+import pdf from 'pdf-parse';
+import {
+  ResumeDocument,
+  ResumeLine,
+  PageFitResult,
+  TrimmedBullet
+} from '@/lib/parsers/types';
+import type { LatexCompilationResult } from '@/types/resume';
+import { exportToLatex } from '@/lib/parsers/latex';
+import { stripLatex } from '@/lib/resume-model';
+import { compileLatex } from '@/lib/latex-compiler';
+import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { LLMProvider, isAbortError } from '@/lib/llm';
+import { KeywordNormalizer, createKeywordNormalizer } from './keyword-normalizer';
+import { FactGroundingChecker, createFactGroundingChecker } from './fact-grounding';
+
+const MAX_ROUNDS = 4;
+const BULLETS_PER_PAGE = 4;     // Bullets condensed per round, per page of overflow
+const TARGET_REDUCTION = 0.7;   // Condensed bullet: at most 70% of the original words
+
+// Trim priority weights (sum to 1)
+const KEYWORD_WEIGHT = 0.5;
+const AGE_WEIGHT = 0.25;
+const LENGTH_WEIGHT = 0.25;
+
+export interface PageFitInput {
+  resume: ResumeDocument;     // Optimized line view with latexSource
+  targetPages: number;
+  jdKeywords: string[];
+  supportingText?: string[];  // Projects/portfolio content for the fact check
+}
+
+interface TrimCandidate {
+  line: ResumeLine;
+  keywords: string[];         // JD keywords the bullet matches
+  score: number;
+  reason: string;
+}
+
+/**
+ * Page Fitter class
+ */
+export class PageFitter {
+  private llm: LLMProvider;
+  private sessionId: string;
+  private signal?: AbortSignal;
+  private normalizer: KeywordNormalizer;
+  private compile: (latexSource: string) => Promise<LatexCompilationResult>;
+
+  constructor(
+    llm: LLMProvider,
+    sessionId: string,
+    signal?: AbortSignal,
+    normalizer?: KeywordNormalizer,
+    compile: (latexSource: string) => Promise<LatexCompilationResult> = source => compileLatex(source)
+  ) {
+    this.llm = llm;
+    this.sessionId = sessionId;
+    this.signal = signal;
+    this.normalizer = normalizer || createKeywordNormalizer();
+    this.compile = compile;
+  }
+
+  /**
+   * Condense bullets until the resume fits targetPages
+   */
+  async fit(input: PageFitInput): Promise<{ resume: ResumeDocument; pageFit: PageFitResult }> {
+    const { targetPages } = input;
+    let resume = input.resume;
+    const trimmed: TrimmedBullet[] = [];
+
+    if (!resume.latexSource) {
+      console.info('[PAGE_FITTER] Skipped: resume has no LaTeX source');
+      return { resume, pageFit: { targetPages, fits: false, trimmed, skipped: 'Page fitting needs a LaTeX resume' } };
+    }
+
+    const initial = await this.countPages(resume);
+    if ('error' in initial) {
+      return { resume, pageFit: { targetPages, fits: false, trimmed, skipped: initial.error } };
+    }
+
+    const pagesBefore = initial.pages;
+    let pages = pagesBefore;
+    console.info(`[PAGE_FITTER] ${pages} page(s), target ${targetPages}`);
+
+    const candidates = this.rankBullets(resume, input.jdKeywords);
+    const grounding = createFactGroundingChecker(
+      [resume.lines.map(line => line.text).join('\n'), ...(input.supportingText || [])],
+      this.normalizer
+    );
+
+    for (let round = 1; round <= MAX_ROUNDS && pages > targetPages && candidates.length > 0; round++) {
+      if (this.signal?.aborted) break;
+
+      const batch = candidates.splice(0, BULLETS_PER_PAGE * (pages - targetPages));
+      console.info(`[PAGE_FITTER] Round ${round}: condensing ${batch.length} bullets`);
+
+      const results = await Promise.all(batch.map(candidate => this.condenseBullet(candidate, grounding)));
+      const edits = results.filter((result): result is TrimmedBullet => result !== null);
+      if (edits.length === 0) continue;
+
+      resume = applyTrims(resume, edits);
+      trimmed.push(...edits);
+
+      const count = await this.countPages(resume);
+      if ('error' in count) {
+        // The previous version compiled; an edit broke the build, so undo this round
+        console.warn(`[PAGE_FITTER] Compile failed after round ${round}, reverting: ${count.error}`);
+        resume = applyTrims(resume, edits.map(edit => ({ ...edit, trimmedText: edit.originalText })));
+        trimmed.splice(trimmed.length - edits.length, edits.length);
+        continue;
+      }
+      pages = count.pages;
+      console.info(`[PAGE_FITTER] Round ${round}: ${pages} page(s)`);
+    }
+
+    const fits = pages <= targetPages;
+    console.info(`[PAGE_FITTER] ${fits ? 'Fits' : 'Still over'} at ${pages} page(s) after trimming ${trimmed.length} bullets`);
+
+    return {
+      resume,
+      pageFit: { targetPages, pagesBefore, pagesAfter: pages, fits, trimmed }
+    };
+  }
+
+  /**
+   * Editable bullets ordered by trim priority (lowest value first)
+   */
+  rankBullets(resume: ResumeDocument, jdKeywords: string[]): TrimCandidate[] {
+    // Role index per bullet: any other line after a run of bullets (list end,
+    // next title/company/dates) starts the next role in the section
+    const roles = new Map<number, { index: number; count: number; section: string }>();
+    resume.sections.forEach(section => {
+      let index = 0;
+      let sawBullet = false;
+      const bullets: number[] = [];
+      // Classification flags live on resume.lines; section.content only holds the range
+      resume.lines
+        .filter(line => line.lineNumber >= section.startLine && line.lineNumber <= section.endLine)
+        .forEach(line => {
+          if (line.isEditable) {
+            sawBullet = true;
+            bullets.push(line.lineNumber);
+            roles.set(line.lineNumber, { index, count: 0, section: section.type });
+          } else if (sawBullet) {
+            index++;
+            sawBullet = false;
+          }
+        });
+      const count = bullets.length > 0 ? roles.get(bullets[bullets.length - 1])!.index + 1 : 0;
+      bullets.forEach(lineNumber => {
+        roles.get(lineNumber)!.count = count;
+      });
+    });
+
+    const bullets = resume.lines
+      .filter(line => line.isEditable)
+      .map(line => {
+        const text = stripLatex(line.text);
+        return {
+          line,
+          length: text.length,
+          keywords: jdKeywords.filter(keyword => this.normalizer.containsKeyword(text, keyword))
+        };
+      })
+      .filter(bullet => this.countWords(bullet.line.text) >= 8);
+
+    const maxKeywords = Math.max(0, ...bullets.map(bullet => bullet.keywords.length));
+    const maxLength = Math.max(1, ...bullets.map(bullet => bullet.length));
+
+    return bullets
+      .map(({ line, length, keywords }) => {
+        const role = roles.get(line.lineNumber);
+        const datedSection = role && (role.section === 'experience' || role.section === 'projects');
+        const keywordScore = maxKeywords > 0 ? 1 - keywords.length / maxKeywords : 1;
+        const ageScore = datedSection && role.count > 1 ? role.index / (role.count - 1) : 0;
+        const lengthScore = length / maxLength;
+        const score = KEYWORD_WEIGHT * keywordScore + AGE_WEIGHT * ageScore + LENGTH_WEIGHT * lengthScore;
+
+        const reason = [
+          `${keywords.length} JD keyword${keywords.length === 1 ? '' : 's'}`,
+          datedSection && role.count > 1 ? `role ${role.index + 1} of ${role.count}` : '',
+          `${length} characters`
+        ].filter(Boolean).join(', ');
+
+        return { line, keywords, score: Math.round(score * 100) / 100, reason };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Ask the model for a shorter version of one bullet (null = rejected or failed)
+   */
+  private async condenseBullet(
+    candidate: TrimCandidate,
+    grounding: FactGroundingChecker
+  ): Promise<TrimmedBullet | null> {
+    const { line, keywords } = candidate;
+    const parts = splitBullet(line.text);
+    const originalWords = this.countWords(parts.body);
+    const maxWords = Math.max(5, Math.floor(originalWords * TARGET_REDUCTION));
+
+    const prompt = `You are an expert resume editor. The resume is over its page limit: shorten this bullet point.
+
+BULLET TO CONDENSE:
+${parts.body}
+
+MAX WORDS: ${maxWords} (original: ${originalWords} words)
+KEEP THESE KEYWORDS: ${keywords.join(', ') || 'none'}
+
+REQUIREMENTS:
+1. Keep the core achievement and its numbers
+2. Keep every listed keyword
+3. Drop filler, secondary details and repeated context
+4. Never add facts, metrics, tools or names that are not in the bullet
+5. Keep any LaTeX commands and escapes (\\textbf{}, \\%) intact
+
+Return ONLY the condensed bullet text. No explanations, no markdown.
+
+CONDENSED BULLET:`;
+
+    const tracker = getTokenTracker();
+    const startTime = Date.now();
+    const promptTokens = this.llm.countTokens(prompt);
+
+    let response: string;
+    try {
+      response = await this.llm.generate(prompt, { signal: this.signal, temperature: 0.3 });
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.info(`[PAGE_FITTER] Line ${line.lineNumber} aborted`);
+        tracker.recordAbortedLLMCall(this.sessionId, 'page_fit', this.llm.model, promptTokens, Date.now() - startTime);
+        return null;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[PAGE_FITTER] Error condensing line ${line.lineNumber}:`, error);
+      tracker.recordLLMCall(this.sessionId, 'page_fit', this.llm.model, 0, 0, Date.now() - startTime, false, message);
+      return null;
+    }
+
+    const condensed = response
+      .replace(/^```.*$/gm, '')
+      .replace(/^\s*(?:[•\-*]|\\item)\s*/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const rejection = this.validateCondensed(parts.body, condensed, keywords, grounding);
+    tracker.recordLLMCall(
+      this.sessionId,
+      'page_fit',
+      this.llm.model,
+      promptTokens,
+      this.llm.countTokens(response),
+      Date.now() - startTime,
+      !rejection,
+      rejection
+    );
+
+    if (rejection) {
+      console.warn(`[PAGE_FITTER] Line ${line.lineNumber} rejected: ${rejection}`);
+      return null;
+    }
+
+    return {
+      lineNumber: line.lineNumber,
+      originalText: line.text,
+      trimmedText: `${parts.prefix}${condensed}${parts.suffix}`,
+      score: candidate.score,
+      reason: candidate.reason
+    };
+  }
+
+  /**
+   * Reason the condensed bullet can't be used (undefined = accepted)
+   */
+  private validateCondensed(
+    original: string,
+    condensed: string,
+    keywords: string[],
+    grounding: FactGroundingChecker
+  ): string | undefined {
+    if (stripLatex(condensed).length >= stripLatex(original).length) {
+      return 'Not shorter than the original';
+    }
+    if (this.countWords(condensed) < 4) {
+      return 'Condensed text too short';
+    }
+    if (!hasBalancedBraces(condensed)) {
+      return 'Unbalanced LaTeX braces';
+    }
+
+    const dropped = keywords.filter(keyword => !this.normalizer.containsKeyword(condensed, keyword));
+    if (dropped.length > 0) {
+      return `Dropped keywords: ${dropped.join(', ')}`;
+    }
+
+    const claims = grounding.check(original, condensed, keywords);
+    if (claims.length > 0) {
+      return `Unsupported claims: ${claims.map(claim => claim.text).join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compile the resume and count PDF pages
+   */
+  private async countPages(resume: ResumeDocument): Promise<{ pages: number } | { error: string }> {
+    try {
+      const result = await this.compile(exportToLatex(resume));
+      if (!result.success || !result.pdfBlob) {
+        return { error: `LaTeX compilation failed: ${result.error || 'no PDF produced'}` };
+      }
+
+      // pdf.js needs a plain Uint8Array (see ats/extract)
+      const buffer = new Uint8Array(await result.pdfBlob.arrayBuffer());
+      const data = await pdf(buffer as Buffer, { max: 1 });
+      return { pages: data.numpages };
+    } catch (error) {
+      console.error('[PAGE_FITTER] Page count failed:', error);
+      return { error: `Could not count pages: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+
+  private countWords(text: string): number {
+    return stripLatex(text).split(/\s+/).filter(word => word.length > 0).length;
+  }
+}
+
+/**
+ * Split a LaTeX bullet into markup and text: "  \item Built X" or
+ * "\resumeItem{Built X}" - only the text is sent to the model
+ */
+function splitBullet(text: string): { prefix: string; body: string; suffix: string } {
+  const wrapped = text.match(/^(\s*\\[a-zA-Z]+\*?\{)([\s\S]*)(\}\s*)$/);
+  if (wrapped && hasBalancedBraces(wrapped[2])) {
+    return { prefix: wrapped[1], body: wrapped[2], suffix: wrapped[3] };
+  }
+
+  const item = text.match(/^(\s*(?:\\item\s*|[•●◦▪▫‣]\s*)?)([\s\S]*)$/)!;
+  return { prefix: item[1], body: item[2], suffix: '' };
+}
+
+function hasBalancedBraces(text: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++; // Escaped character (\{, \})
+    } else if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}' && --depth < 0) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+/**
+ * Write trimmed bullets into the resume lines and section content
+ */
+function applyTrims(resume: ResumeDocument, trims: TrimmedBullet[]): ResumeDocument {
+  const byLine = new Map(trims.map(trim => [trim.lineNumber, trim.trimmedText]));
+  const applyToLine = <T extends ResumeLine>(line: T): T =>
+    byLine.has(line.lineNumber) ? { ...line, text: byLine.get(line.lineNumber)! } : line;
+
+  return {
+    ...resume,
+    lines: resume.lines.map(applyToLine),
+    sections: resume.sections.map(section => ({
+      ...section,
+      content: section.content.map(applyToLine)
+    }))
+  };
+}
+
+/**
+ * Create page fitter instance
+ */
+export function createPageFitter(
+  llm: LLMProvider,
+  sessionId: string,
+  signal?: AbortSignal,
+  normalizer?: KeywordNormalizer
+): PageFitter {
+  return new PageFitter(llm, sessionId, signal, normalizer);
+}
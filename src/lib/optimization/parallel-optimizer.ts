@@ -5,58 +5,108 @@
  * - Use keyword mappings to assign keywords to bullets
  * - Optimize each bullet with assigned keywords
  * - Run multiple LLM calls concurrently (max 5)
+ * - Retry rejected bullets with validation feedback, back off on 429/5xx
+ * - Reject (or flag) rewrites with numbers/technologies the candidate's material does not support
  * - Preserve bullet length and tone
  * - Track all tokens used
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import pLimit from 'p-limit';
+import pLimit, { LimitFunction } from 'p-limit';
 import {
-  Resume,
+  ResumeDocument,
   ResumeLine,
   BulletOptimization,
+  BulletOptimizationAttempt,
   OptimizationContext,
   OptimizationConfig,
-  KeywordMapping
+  OptimizationRetryPolicy,
+  KeywordMapping,
+  KeywordImportance
 } from '@/lib/parsers/types';
 import { getTokenTracker } from '@/lib/tracking/token-tracker';
+import { LLMProvider, isAbortError, isRetryableLLMError, abortableDelay } from '@/lib/llm';
+import { KeywordNormalizer, createKeywordNormalizer } from './keyword-normalizer';
+import { createFactGroundingChecker } from './fact-grounding';
 
-const MODEL_NAME = 'gemini-2.0-flash-exp';
+export const DEFAULT_RETRY_POLICY: OptimizationRetryPolicy = {
+  maxValidationRetries: 2,
+  maxTransientRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000
+};
+
+/**
+ * Called when a single bullet finishes (result is null if it was rejected)
+ */
+export type BulletCompleteCallback = (
+  line: ResumeLine,
+  result: BulletOptimization | null,
+  completed: number,
+  total: number
+) => void;
 
 /**
  * Parallel Optimizer class
  */
 export class ParallelOptimizer {
-  private genAI: GoogleGenerativeAI;
+  private llm: LLMProvider;
   private sessionId: string;
   private config: OptimizationConfig;
+  private signal?: AbortSignal;
+  private limit?: LimitFunction;
+  private normalizer: KeywordNormalizer;
 
+  /**
+   * @param limit Shared concurrency limiter (e.g. across batch jobs); defaults
+   *              to a per-run limiter of config.maxConcurrentCalls
+   */
   constructor(
-    apiKey: string,
+    llm: LLMProvider,
     sessionId: string,
-    config: OptimizationConfig
+    config: OptimizationConfig,
+    signal?: AbortSignal,
+    limit?: LimitFunction
   ) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.llm = llm;
     this.sessionId = sessionId;
     this.config = config;
+    this.signal = signal;
+    this.limit = limit;
+    this.normalizer = createKeywordNormalizer(config.keywordAliases);
   }
 
   /**
    * Optimize multiple bullets in parallel
+   * onBulletComplete fires as each bullet resolves (in completion order).
+   * After the signal aborts, queued bullets are skipped and in-flight calls
+   * are cancelled; the bullets finished so far are returned.
    */
   async optimizeBulletsParallel(
     bullets: Array<{ line: ResumeLine; keywords: string[] }>,
-    context: OptimizationContext
+    context: OptimizationContext,
+    onBulletComplete?: BulletCompleteCallback
   ): Promise<BulletOptimization[]> {
     console.info(`[PARALLEL_OPTIMIZER] Optimizing ${bullets.length} bullets in parallel`);
-    console.info(`[PARALLEL_OPTIMIZER] Max concurrency: ${this.config.maxConcurrentCalls}`);
+    console.info(`[PARALLEL_OPTIMIZER] Max concurrency: ${this.limit ? 'shared' : this.config.maxConcurrentCalls}`);
 
-    // Create concurrency limiter
-    const limit = pLimit(this.config.maxConcurrentCalls);
+    // Create concurrency limiter (unless one is shared across runs)
+    const limit = this.limit || pLimit(this.config.maxConcurrentCalls);
 
     // Create optimization tasks
+    let completed = 0;
+    let skipped = 0;
     const tasks = bullets.map(({ line, keywords }) =>
-      limit(() => this.optimizeSingleBullet(line, keywords, context))
+      limit(async () => {
+        if (this.signal?.aborted) {
+          skipped++;
+          return null;
+        }
+
+        const result = await this.optimizeSingleBullet(line, keywords, context);
+        completed++;
+        onBulletComplete?.(line, result, completed, bullets.length);
+        return result;
+      })
     );
 
     // Execute all tasks in parallel (with concurrency limit)
@@ -67,6 +117,10 @@ export class ParallelOptimizer {
     // Filter out failed optimizations
     const successful = results.filter(r => r !== null) as BulletOptimization[];
 
+    if (this.signal?.aborted) {
+      console.info(`[PARALLEL_OPTIMIZER] Aborted: ${skipped} queued bullets skipped`);
+    }
+
     console.info(`[PARALLEL_OPTIMIZER] Completed in ${durationMs}ms`);
     console.info(`[PARALLEL_OPTIMIZER] Successful: ${successful.length}/${bullets.length}`);
 
@@ -75,6 +129,11 @@ export class ParallelOptimizer {
 
   /**
    * Optimize a single bullet point
+   * Rejected outputs are re-prompted with the validation failures and
+   * transient (429/5xx) errors are retried with exponential backoff,
+   * following the configured retry policy. Claims not found in the resume
+   * or context files count as validation failures; in 'flag' mode the last
+   * attempt is accepted with its unsupportedClaims instead of dropped.
    */
   async optimizeSingleBullet(
     line: ResumeLine,
@@ -87,8 +146,9 @@ export class ParallelOptimizer {
 
     console.info(`[PARALLEL_OPTIMIZER] Optimizing line ${line.lineNumber} with keywords: ${targetKeywords.join(', ')}`);
 
-    const startTime = Date.now();
     const tracker = getTokenTracker();
+    const retryPolicy = this.getRetryPolicy();
+    const operation = `optimize_bullet_line_${line.lineNumber}`;
 
     // Count words in original
     const originalWords = this.countWords(line.text);
@@ -97,7 +157,7 @@ export class ParallelOptimizer {
       : originalWords + 10;
 
     // Build context from portfolio/projects if available
-    const additionalContext = [];
+    const additionalContext: string[] = [];
     if (context.portfolio) {
       additionalContext.push(`Portfolio excerpt:\n${context.portfolio.content.substring(0, 1000)}`);
     }
@@ -105,7 +165,18 @@ export class ParallelOptimizer {
       additionalContext.push(`Projects excerpt:\n${context.projects.content.substring(0, 1000)}`);
     }
 
-    const prompt = `You are an expert resume writer specializing in ATS optimization.
+    // Facts in the rewrite must come from the candidate's own material
+    const groundingMode = this.config.factGrounding || 'reject';
+    const grounding = groundingMode === 'off' ? undefined : createFactGroundingChecker(
+      [
+        context.resume.lines.map(l => l.text).join('\n'),
+        context.projects?.content || '',
+        context.portfolio?.content || ''
+      ],
+      this.normalizer
+    );
+
+    const buildPrompt = (retryFeedback: string) => `You are an expert resume writer specializing in ATS optimization.
 
 TASK: Rewrite this resume bullet point to naturally integrate the specified keywords while maintaining professional tone and impact.
 
@@ -128,101 +199,159 @@ REQUIREMENTS:
 4. Use strong action verbs
 5. Maintain professional tone
 6. Ensure ATS-friendly formatting (no special characters)
-7. Focus on quantifiable results if possible
+7. Keep the numbers and results from the original; never invent metrics, team sizes, tools or company names
 8. The keywords should flow naturally, not feel forced
 
 EXAMPLES OF GOOD INTEGRATION:
 - "Built web application" → "Built scalable web application using React and Node.js"
 - "Deployed system" → "Deployed containerized system using Docker and AWS"
 - "Developed models" → "Developed machine learning models with PyTorch achieving 95% accuracy"
-
+${retryFeedback}
 Return ONLY the optimized bullet point text. No explanations, no markdown, no extra formatting.
 
 OPTIMIZED BULLET:`;
 
-    try {
-      const estimatedPromptTokens = tracker.estimateTokens(prompt);
+    const attempts: BulletOptimizationAttempt[] = [];
+    let retryFeedback = '';
+    let validationRetries = 0;
+    let transientRetries = 0;
+
+    while (true) {
+      const attempt = attempts.length + 1;
+      const prompt = buildPrompt(retryFeedback);
+      const estimatedPromptTokens = this.llm.countTokens(prompt);
+      const startTime = Date.now();
+
+      let optimizedText: string;
+      try {
+        // Generate content
+        optimizedText = await this.llm.generate(prompt, { signal: this.signal });
+      } catch (error) {
+        const durationMs = Date.now() - startTime;
+
+        if (isAbortError(error)) {
+          console.info(`[PARALLEL_OPTIMIZER] Line ${line.lineNumber} aborted`);
+          tracker.recordAbortedLLMCall(this.sessionId, operation, this.llm.model, estimatedPromptTokens, durationMs);
+          return null;
+        }
 
-      // Get the generative model
-      const model = this.genAI.getGenerativeModel({ model: MODEL_NAME });
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        tracker.recordLLMCall(this.sessionId, operation, this.llm.model, 0, 0, durationMs, false, message);
+
+        if (isRetryableLLMError(error) && transientRetries < retryPolicy.maxTransientRetries) {
+          transientRetries++;
+          const retryDelayMs = this.getBackoffDelay(transientRetries, retryPolicy);
+          attempts.push({ attempt, outcome: 'error', reason: message, tokensUsed: 0, durationMs, retryDelayMs });
+
+          console.warn(
+            `[PARALLEL_OPTIMIZER] Line ${line.lineNumber}: transient error, retry ${transientRetries}/${retryPolicy.maxTransientRetries} in ${retryDelayMs}ms`
+          );
+
+          try {
+            await abortableDelay(retryDelayMs, this.signal);
+          } catch {
+            console.info(`[PARALLEL_OPTIMIZER] Line ${line.lineNumber} aborted during backoff`);
+            return null;
+          }
+          continue;
+        }
 
-      // Generate content
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      let optimizedText = response.text().trim();
+        attempts.push({ attempt, outcome: 'error', reason: message, tokensUsed: 0, durationMs });
+        console.error(`[PARALLEL_OPTIMIZER] Error optimizing line ${line.lineNumber}:`, error);
+        return null;
+      }
 
-      const estimatedCompletionTokens = tracker.estimateTokens(optimizedText);
+      const estimatedCompletionTokens = this.llm.countTokens(optimizedText);
       const durationMs = Date.now() - startTime;
+      const tokensUsed = estimatedPromptTokens + estimatedCompletionTokens;
 
       // Clean up response
       optimizedText = this.cleanOptimizedText(optimizedText, line.text);
 
-      // Validate optimization
-      const validation = this.validateOptimization(
+      // Validate optimization, then check its facts against the candidate's material
+      let validation = this.validateOptimization(
         line.text,
         optimizedText,
         targetKeywords,
         maxWords
       );
 
+      const unsupportedClaims = validation.isValid && grounding
+        ? grounding.check(line.text, optimizedText, targetKeywords)
+        : [];
+      const acceptFlagged = groundingMode === 'flag' && validationRetries >= retryPolicy.maxValidationRetries;
+      if (unsupportedClaims.length > 0 && !acceptFlagged) {
+        const claims = unsupportedClaims.map(claim => claim.text).join(', ');
+        validation = {
+          isValid: false,
+          reason: `Unsupported claims: ${claims}`,
+          feedback: [`you added claims the resume and context do not support (${claims}); only use numbers, technologies and names from the original bullet or the context`],
+          confidence: 0
+        };
+      }
+
       if (!validation.isValid) {
-        console.warn(`[PARALLEL_OPTIMIZER] Validation failed for line ${line.lineNumber}: ${validation.reason}`);
+        console.warn(`[PARALLEL_OPTIMIZER] Validation failed for line ${line.lineNumber} (attempt ${attempt}): ${validation.reason}`);
 
         // Track failed attempt
         tracker.recordLLMCall(
           this.sessionId,
-          `optimize_bullet_line_${line.lineNumber}`,
-          MODEL_NAME,
+          operation,
+          this.llm.model,
           estimatedPromptTokens,
           estimatedCompletionTokens,
           durationMs,
           false,
           validation.reason
         );
+        attempts.push({ attempt, outcome: 'validation_failed', reason: validation.reason, text: optimizedText, tokensUsed, durationMs });
+
+        if (validationRetries < retryPolicy.maxValidationRetries && validation.feedback.length > 0) {
+          validationRetries++;
+          retryFeedback = `
+PREVIOUS ATTEMPT (rejected):
+${optimizedText}
 
+FIX THESE PROBLEMS: ${validation.feedback.join('; ')}
+`;
+          continue;
+        }
+
+        console.warn(`[PARALLEL_OPTIMIZER] Giving up on line ${line.lineNumber} after ${attempts.length} attempts`);
         return null;
       }
 
       // Track successful optimization
       tracker.recordLLMCall(
         this.sessionId,
-        `optimize_bullet_line_${line.lineNumber}`,
-        MODEL_NAME,
+        operation,
+        this.llm.model,
         estimatedPromptTokens,
         estimatedCompletionTokens,
         durationMs,
         true
       );
+      attempts.push({ attempt, outcome: 'accepted', text: optimizedText, tokensUsed, durationMs });
 
       const optimization: BulletOptimization = {
         lineNumber: line.lineNumber,
         originalText: line.text,
         optimizedText,
         addedKeywords: targetKeywords,
-        tokensUsed: estimatedPromptTokens + estimatedCompletionTokens,
+        tokensUsed: attempts.reduce((sum, a) => sum + a.tokensUsed, 0),
         confidence: validation.confidence,
-        timestamp: new Date()
+        timestamp: new Date(),
+        attempts,
+        ...(unsupportedClaims.length > 0 ? { unsupportedClaims } : {})
       };
 
-      console.info(`[PARALLEL_OPTIMIZER] ✓ Line ${line.lineNumber} optimized successfully`);
-
-      return optimization;
-
-    } catch (error) {
-      console.error(`[PARALLEL_OPTIMIZER] Error optimizing line ${line.lineNumber}:`, error);
+      if (unsupportedClaims.length > 0) {
+        console.warn(`[PARALLEL_OPTIMIZER] Line ${line.lineNumber} accepted with ${unsupportedClaims.length} flagged claims`);
+      }
 
-      tracker.recordLLMCall(
-        this.sessionId,
-        `optimize_bullet_line_${line.lineNumber}`,
-        MODEL_NAME,
-        0,
-        0,
-        Date.now() - startTime,
-        false,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+      console.info(`[PARALLEL_OPTIMIZER] ✓ Line ${line.lineNumber} optimized successfully (attempt ${attempt})`);
 
-      return null;
+      return optimization;
     }
   }
 
@@ -244,46 +373,59 @@ OPTIMIZED BULLET:`;
       cleaned = `\\item ${cleaned}`;
     }
 
+    // Preserve literal bullet glyphs typed into DOCX paragraphs
+    const glyphMatch = original.match(/^\s*([•●◦▪▫‣])\s*/);
+    if (glyphMatch) {
+      cleaned = `${glyphMatch[1]} ${cleaned}`;
+    }
+
     return cleaned;
   }
 
   /**
    * Validate optimization
+   * Returns every failure, with model-facing feedback for the retry prompt
    */
   private validateOptimization(
     original: string,
     optimized: string,
     targetKeywords: string[],
     maxWords: number
-  ): { isValid: boolean; reason?: string; confidence: number } {
+  ): { isValid: boolean; reason?: string; feedback: string[]; confidence: number } {
+    const reasons: string[] = [];
+    const feedback: string[] = [];
+
     // Check if optimized text is too similar to original
     if (optimized.toLowerCase() === original.toLowerCase()) {
-      return { isValid: false, reason: 'No changes made', confidence: 0 };
+      reasons.push('No changes made');
+      feedback.push('you returned the original bullet unchanged');
     }
 
     // Check word count
     const wordCount = this.countWords(optimized);
     if (wordCount > maxWords) {
-      return { isValid: false, reason: `Exceeds word limit (${wordCount} > ${maxWords})`, confidence: 0 };
+      reasons.push(`Exceeds word limit (${wordCount} > ${maxWords})`);
+      feedback.push(`you used ${wordCount} words, max ${maxWords}`);
     }
 
-    // Check if keywords are present
-    const optimizedLower = optimized.toLowerCase();
+    // Check if keywords are present (any alias or acronym form counts)
     const missingKeywords = targetKeywords.filter(
-      keyword => !optimizedLower.includes(keyword.toLowerCase())
+      keyword => !this.normalizer.containsKeyword(optimized, keyword)
     );
 
     if (missingKeywords.length > 0) {
-      return {
-        isValid: false,
-        reason: `Missing keywords: ${missingKeywords.join(', ')}`,
-        confidence: 0
-      };
+      reasons.push(`Missing keywords: ${missingKeywords.join(', ')}`);
+      feedback.push(`you omitted ${missingKeywords.join(', ')}`);
     }
 
     // Check if too short (probably incomplete)
     if (wordCount < 5) {
-      return { isValid: false, reason: 'Optimized text too short', confidence: 0 };
+      reasons.push('Optimized text too short');
+      feedback.push(`you used only ${wordCount} words; keep the original achievement`);
+    }
+
+    if (reasons.length > 0) {
+      return { isValid: false, reason: reasons.join('; '), feedback, confidence: 0 };
     }
 
     // Calculate confidence based on keyword integration
@@ -296,12 +438,30 @@ OPTIMIZED BULLET:`;
     if (lengthAppropriate) confidence += 0.1;
     if (notTooShort) confidence += 0.1;
 
+    const isValid = confidence >= this.config.minConfidenceScore;
     return {
-      isValid: confidence >= this.config.minConfidenceScore,
+      isValid,
+      reason: isValid ? undefined : `Low confidence (${confidence.toFixed(2)})`,
+      feedback: isValid ? [] : ['you dropped too much of the original content'],
       confidence
     };
   }
 
+  /**
+   * Resolve the retry policy (config overrides on top of defaults)
+   */
+  private getRetryPolicy(): OptimizationRetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...this.config.retryPolicy };
+  }
+
+  /**
+   * Exponential backoff with ±20% jitter
+   */
+  private getBackoffDelay(retry: number, policy: OptimizationRetryPolicy): number {
+    const delay = Math.min(policy.baseDelayMs * Math.pow(2, retry - 1), policy.maxDelayMs);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
   /**
    * Count words in text
    */
@@ -317,10 +477,14 @@ OPTIMIZED BULLET:`;
 
   /**
    * Build bullet optimization plan from keyword mappings
+   * With importance, each bullet gets its heaviest keywords first and at most
+   * maxKeywordsPerBullet of them
    */
   static buildOptimizationPlan(
-    resume: Resume,
-    keywordMappings: KeywordMapping[]
+    resume: ResumeDocument,
+    keywordMappings: KeywordMapping[],
+    importance?: KeywordImportance[],
+    maxKeywordsPerBullet?: number
   ): Array<{ line: ResumeLine; keywords: string[] }> {
     const plan = new Map<number, string[]>();
 
@@ -337,10 +501,16 @@ OPTIMIZED BULLET:`;
     // Build final plan with line objects
     const optimizationPlan: Array<{ line: ResumeLine; keywords: string[] }> = [];
 
+    const weightOf = (keyword: string) => importance?.find(item => item.keyword === keyword)?.weight ?? 0;
+
     plan.forEach((keywords, lineNum) => {
       const line = resume.lines.find(l => l.lineNumber === lineNum);
       if (line && line.isEditable) {
-        optimizationPlan.push({ line, keywords });
+        const prioritized = [...keywords].sort((a, b) => weightOf(b) - weightOf(a));
+        optimizationPlan.push({
+          line,
+          keywords: maxKeywordsPerBullet ? prioritized.slice(0, maxKeywordsPerBullet) : prioritized
+        });
       }
     });
 
@@ -352,9 +522,11 @@ OPTIMIZED BULLET:`;
  * Create parallel optimizer instance
  */
 export function createParallelOptimizer(
-  apiKey: string,
+  llm: LLMProvider,
   sessionId: string,
-  config: OptimizationConfig
+  config: OptimizationConfig,
+  signal?: AbortSignal,
+  limit?: LimitFunction
 ): ParallelOptimizer {
-  return new ParallelOptimizer(apiKey, sessionId, config);
+  return new ParallelOptimizer(llm, sessionId, config, signal, limit);
 }
@@ -0,0 +1,210 @@
+/**
+ * DOCX Resume Parser
+ *
+ * Promote parseDocx output (flat paragraphs) into the Resume/ResumeLine model
+ * - Identify sections from plain-text headers (no \section commands in Word)
+ * - Classify lines as editable (bullets, prose) vs structural (titles, dates)
+ * - Keep line numbers 1:1 with parseDocx paragraphs so edits can be written
+ *   back through the format-preserving DOCX exporter
+ */
+
+import { Line, ResumeLine, ResumeDocumentSection, ResumeDocument, ResumeDocumentMetadata } from './types';
+import { parseDocx } from './docx';
+import { classifyLineType } from './resume-classifier';
+
+const SECTION_PATTERNS: Array<{ pattern: RegExp; type: ResumeDocumentSection['type'] }> = [
+  { pattern: /\b(experience|employment|work history)\b/i, type: 'experience' },
+  { pattern: /\beducation\b/i, type: 'education' },
+  { pattern: /\b(skills?|technologies|tech stack|competencies)\b/i, type: 'skills' },
+  { pattern: /\b(projects?|portfolio)\b/i, type: 'projects' },
+  { pattern: /\b(summary|objective|profile|about)\b/i, type: 'summary' },
+  { pattern: /\b(certifications?|awards?|honors?|publications?|activities|leadership|volunteer)\b/i, type: 'other' }
+];
+
+const BULLET_MARKER = /^[•●◦▪▫‣∙·\-–*]\s*/;
+const MIN_PROSE_WORDS = 8;
+
+/**
+ * Parse a DOCX buffer directly into a Resume
+ */
+export async function parseDocxResume(
+  buffer: Buffer,
+  fileName: string = 'resume.docx'
+): Promise<ResumeDocument> {
+  const lines = await parseDocx(buffer);
+  return promoteDocxLinesToResume(lines, fileName, buffer.length);
+}
+
+/**
+ * Promote already-parsed DOCX lines (e.g. the Document held by the client)
+ * into a structured Resume
+ */
+export function promoteDocxLinesToResume(
+  lines: Line[],
+  fileName: string = 'resume.docx',
+  fileSize?: number
+): ResumeDocument {
+  console.info('[DOCX_RESUME] Promoting DOCX lines to resume structure');
+
+  const sections = detectDocxSections(lines);
+  const classifiedLines = classifyDocxLines(lines, sections);
+
+  // Point section content at the classified lines
+  sections.forEach(section => {
+    section.content = classifiedLines.filter(
+      l => l.lineNumber > section.startLine && l.lineNumber <= section.endLine
+    );
+  });
+
+  const metadata: ResumeDocumentMetadata = {
+    totalLines: classifiedLines.length,
+    totalPages: Math.max(...classifiedLines.map(l => l.pageNumber), 1),
+    format: 'docx' as const,
+    fileName,
+    fileSize,
+    uploadedAt: new Date(),
+    sectionsDetected: sections.length,
+    bulletPointsCount: classifiedLines.filter(l => l.bulletLevel && l.bulletLevel > 0).length,
+    editableLinesCount: classifiedLines.filter(l => l.isEditable).length,
+    structuralLinesCount: classifiedLines.filter(l => l.isStructural).length,
+    keywordDensity: 0
+  };
+
+  const resume: ResumeDocument = {
+    id: `resume-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    lines: classifiedLines,
+    metadata,
+    sections,
+    detectedKeywords: [],
+    format: 'docx'
+  };
+
+  console.info(`[DOCX_RESUME] Parsed resume: ${sections.length} sections, ${classifiedLines.length} lines`);
+  console.info(`[DOCX_RESUME] Editable: ${metadata.editableLinesCount}, Structural: ${metadata.structuralLinesCount}`);
+
+  return resume;
+}
+
+/**
+ * Build Line objects from plain text (one paragraph per line), matching parseDocx numbering.
+ * Empty lines are kept so numbering stays aligned with the client's document.
+ */
+export function docxTextToLines(content: string): Line[] {
+  return content
+    .split('\n')
+    .map(text => text.trim())
+    .map((text, index) => ({
+      lineNumber: index + 1,
+      text,
+      pageNumber: Math.ceil((index + 1) / 40),
+      isLocked: false,
+      isPlaceholder: false
+    }));
+}
+
+/**
+ * Detect whether a paragraph is a section header and of which type
+ */
+function detectSectionHeader(line: Line): ResumeDocumentSection['type'] | null {
+  const text = line.text.trim();
+  const words = text.split(/\s+/).length;
+
+  if (BULLET_MARKER.test(text) || words > 4 || text.length > 40 || /[.,;]$/.test(text)) {
+    return null;
+  }
+
+  for (const { pattern, type } of SECTION_PATTERNS) {
+    if (pattern.test(text)) {
+      return type;
+    }
+  }
+
+  // Unknown all-caps heading (e.g. "LANGUAGES")
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  if (letters.length >= 4 && letters === letters.toUpperCase()) {
+    return 'other';
+  }
+
+  return null;
+}
+
+/**
+ * Detect resume sections from paragraph headers
+ */
+function detectDocxSections(lines: Line[]): ResumeDocumentSection[] {
+  const sections: ResumeDocumentSection[] = [];
+  let currentSection: ResumeDocumentSection | null = null;
+
+  lines.forEach(line => {
+    const type = detectSectionHeader(line);
+    if (!type) return;
+
+    if (currentSection) {
+      currentSection.endLine = line.lineNumber - 1;
+      sections.push(currentSection);
+    }
+
+    currentSection = {
+      type,
+      title: line.text.trim(),
+      startLine: line.lineNumber,
+      endLine: lines.length > 0 ? lines[lines.length - 1].lineNumber : line.lineNumber,
+      content: []
+    };
+  });
+
+  if (currentSection) {
+    sections.push(currentSection);
+  }
+
+  return sections;
+}
+
+/**
+ * Classify paragraphs as editable vs structural
+ */
+function classifyDocxLines(lines: Line[], sections: ResumeDocumentSection[]): ResumeLine[] {
+  return lines.map(line => {
+    const text = line.text.trim();
+    const section = sections.find(
+      s => line.lineNumber >= s.startLine && line.lineNumber <= s.endLine
+    );
+    const sectionType = section?.type;
+    const isSectionHeader = section?.startLine === line.lineNumber;
+
+    const hasBulletMarker = BULLET_MARKER.test(text);
+    const wordCount = text.replace(BULLET_MARKER, '').split(/\s+/).filter(Boolean).length;
+    const lineType = classifyLineType(text);
+    const isDateOrLocation = lineType === 'date' || lineType === 'location';
+    const isSeparated = /\s[|•·]\s/.test(text); // "Company | Role | 2020"
+    const isProse = wordCount >= MIN_PROSE_WORDS && !isDateOrLocation && !isSeparated;
+
+    let isEditable = false;
+    let bulletLevel = 0;
+
+    if (!section || isSectionHeader || text.length === 0) {
+      // Header block (name, contact), section headings and blank paragraphs are never edited
+      isEditable = false;
+    } else if (hasBulletMarker) {
+      isEditable = true;
+      bulletLevel = 1;
+    } else if (sectionType === 'skills') {
+      // Skill lists can absorb keywords but are not bullets
+      isEditable = !isDateOrLocation;
+    } else if (sectionType === 'experience' || sectionType === 'projects' || sectionType === 'other') {
+      // Word list items lose their markers in parseDocx - long prose lines are bullets
+      isEditable = isProse;
+      bulletLevel = isProse ? 1 : 0;
+    } else if (sectionType === 'summary') {
+      isEditable = isProse;
+    }
+
+    return {
+      ...line,
+      isEditable,
+      isStructural: !isEditable,
+      sectionType,
+      bulletLevel
+    };
+  });
+}
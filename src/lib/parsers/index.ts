@@ -2,10 +2,11 @@
  * Main Parser Router - Detects format and routes to appropriate parser
  */
 
-import { parseDocx, isValidDocx } from './docx';
+import { isValidDocx } from './docx';
 import { parsePdfSimple, isValidPdf } from './pdf';
 import { parseMarkdownBuffer } from './markdown';
-import { parseLatexResume } from './latex';
+import { parseResumeSource } from '@/lib/resume-model/parse';
+import type { Resume } from '@/types/resume';
 import { Document, DocumentFormat, Line, ParseResult } from './types';
 import { randomUUID } from 'crypto';
 
@@ -111,12 +112,15 @@ export async function parseDocument(
 
     // Parse based on format
     let lines: Line[] = [];
+    let resume: Resume | undefined;
 
     try {
       switch (format) {
         case 'docx':
           console.info('[PARSER] Routing to DOCX parser');
-          lines = await parseDocx(buffer);
+          // Resume structure is detected once here; lines match parseDocx 1:1
+          resume = await parseResumeSource(buffer, 'docx', fileName);
+          lines = resume.lines;
           break;
 
         case 'pdf':
@@ -126,8 +130,7 @@ export async function parseDocument(
 
         case 'latex':
           console.info('[PARSER] Routing to LaTeX parser');
-          const latexContent = buffer.toString('utf-8');
-          const resume = await parseLatexResume(latexContent, fileName);
+          resume = await parseResumeSource(buffer, 'latex', fileName);
           lines = resume.lines;
           break;
 
@@ -144,9 +147,9 @@ export async function parseDocument(
       throw parseError;
     }
 
-    // Create document object
+    // Create document object (shares the resume id so the two stay paired)
     const document: Document = {
-      id: randomUUID(),
+      id: resume?.id || randomUUID(),
       lines,
       metadata: {
         totalLines: lines.length,
@@ -162,7 +165,7 @@ export async function parseDocument(
       `[PARSER] Successfully parsed document: ${lines.length} lines, ${document.metadata.totalPages} pages`
     );
 
-    return { document };
+    return { document, resume };
 
   } catch (error) {
     console.error('[PARSER] Error parsing document:', error);
@@ -1,99 +1,72 @@
 /**
  * Simplified LaTeX Resume Parser (No AST parsing)
- * Just preserves the source and provides minimal structure for the editor
+ * Extracts the preamble formatting and contact details the canonical Resume
+ * keeps alongside the source; sections come from the line-based parser
  */
 
 import type {
-  Resume,
-  ResumeParseResult,
+  ResumeMetadata,
   LatexFormattingMetadata,
   LatexPackage,
 } from '@/types/resume';
 
 /**
- * Main parsing function: LaTeX source → Resume with source preservation
+ * Extract document class, packages and preamble for format preservation
  */
-export async function parseLatexToResume(
-  latexSource: string,
-  fileName: string
-): Promise<ResumeParseResult> {
-  try {
-    console.log('[LATEX-PARSER-SIMPLE] Starting LaTeX parsing...');
+export function extractLatexFormatting(latexSource: string): LatexFormattingMetadata {
+  // Extract preamble
+  const beginDocMatch = latexSource.match(/\\begin\{document\}/);
+  const preamble = beginDocMatch ? latexSource.substring(0, beginDocMatch.index) : '';
 
-    // Extract preamble
-    const beginDocMatch = latexSource.match(/\\begin\{document\}/);
-    const preamble = beginDocMatch ? latexSource.substring(0, beginDocMatch.index) : '';
-
-    // Extract packages using regex
-    const packages: LatexPackage[] = [];
-    const packageRegex = /\\usepackage(?:\[([^\]]*)\])?\{([^}]+)\}/g;
-    let match;
-    while ((match = packageRegex.exec(preamble)) !== null) {
-      packages.push({
-        name: match[2],
-        options: match[1] ? match[1].split(',').map(s => s.trim()) : [],
-      });
-    }
-
-    // Extract document class
-    const documentClassMatch = preamble.match(/\\documentclass(?:\[([^\]]*)\])?\{([^}]+)\}/);
-    const documentClass = documentClassMatch ? documentClassMatch[2] : 'article';
-    const documentClassOptions = documentClassMatch && documentClassMatch[1]
-      ? documentClassMatch[1].split(',').map(s => s.trim())
-      : [];
-
-    const latexFormatting: LatexFormattingMetadata = {
-      documentClass,
-      documentClassOptions,
-      packages,
-      customCommands: {},
-      customEnvironments: {},
-      preamble,
-      fontCommands: [],
-      colorCommands: {},
-      spacingCommands: [],
-      otherPreambleCommands: [],
-    };
+  // Extract packages using regex
+  const packages: LatexPackage[] = [];
+  const packageRegex = /\\usepackage(?:\[([^\]]*)\])?\{([^}]+)\}/g;
+  let match;
+  while ((match = packageRegex.exec(preamble)) !== null) {
+    packages.push({
+      name: match[2],
+      options: match[1] ? match[1].split(',').map(s => s.trim()) : [],
+    });
+  }
 
-    // Extract contact metadata (basic regex)
-    const metadata = {
-      name: extractLatexCommand(latexSource, 'name') || '',
-      email: extractLatexCommand(latexSource, 'email'),
-      phone: extractLatexCommand(latexSource, 'phone'),
-      linkedin: extractLatexCommand(latexSource, 'linkedin'),
-      github: extractLatexCommand(latexSource, 'github'),
-      website: extractLatexCommand(latexSource, 'url') || extractLatexCommand(latexSource, 'homepage'),
-    };
+  // Extract document class
+  const documentClassMatch = preamble.match(/\\documentclass(?:\[([^\]]*)\])?\{([^}]+)\}/);
+  const documentClass = documentClassMatch ? documentClassMatch[2] : 'article';
+  const documentClassOptions = documentClassMatch && documentClassMatch[1]
+    ? documentClassMatch[1].split(',').map(s => s.trim())
+    : [];
 
-    const resume: Resume = {
-      id: crypto.randomUUID(),
-      sourceFormat: 'latex',
-      fileName,
-      metadata,
-      sections: [], // Empty sections - editor will work with raw source
-      rawSource: latexSource,
-      latexFormatting,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  console.log('[LATEX-PARSER-SIMPLE] Formatting extracted:', {
+    documentClass,
+    packagesFound: packages.length,
+  });
 
-    console.log('[LATEX-PARSER-SIMPLE] Parsing complete:', {
-      packagesFound: packages.length,
-      hasName: !!metadata.name,
-    });
+  return {
+    documentClass,
+    documentClassOptions,
+    packages,
+    customCommands: {},
+    customEnvironments: {},
+    preamble,
+    fontCommands: [],
+    colorCommands: {},
+    spacingCommands: [],
+    otherPreambleCommands: [],
+  };
+}
 
-    return {
-      success: true,
-      resume,
-      warnings: [],
-    };
-  } catch (error) {
-    console.error('[LATEX-PARSER-SIMPLE] Parsing failed:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown parsing error',
-    };
-  }
+/**
+ * Extract contact metadata from resume-class commands (\name, \email, ...)
+ */
+export function extractLatexContactInfo(latexSource: string): ResumeMetadata {
+  return {
+    name: extractLatexCommand(latexSource, 'name') || '',
+    email: extractLatexCommand(latexSource, 'email'),
+    phone: extractLatexCommand(latexSource, 'phone'),
+    linkedin: extractLatexCommand(latexSource, 'linkedin'),
+    github: extractLatexCommand(latexSource, 'github'),
+    website: extractLatexCommand(latexSource, 'url') || extractLatexCommand(latexSource, 'homepage'),
+  };
 }
 
 /**
@@ -43,6 +43,8 @@ export async function parseLatexToResume(
       metadata,
       sections,
       rawSource: latexSource,
+      lines: [],
+      detectedKeywords: [],
       latexFormatting,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -8,7 +8,7 @@
  * - Extract preamble, document class, and body
  */
 
-import { ParsedLaTeX, ResumeLine, ResumeSection, Resume, ResumeMetadata } from './types';
+import { ParsedLaTeX, ResumeLine, ResumeDocumentSection, ResumeDocument, ResumeDocumentMetadata } from './types';
 
 /**
  * Parse LaTeX resume
@@ -16,7 +16,7 @@ import { ParsedLaTeX, ResumeLine, ResumeSection, Resume, ResumeMetadata } from '
 export async function parseLatexResume(
   latexContent: string,
   fileName: string = 'resume.tex'
-): Promise<Resume> {
+): Promise<ResumeDocument> {
   console.info('[LATEX_PARSER] Starting LaTeX resume parsing');
 
   // Extract LaTeX structure
@@ -32,7 +32,7 @@ export async function parseLatexResume(
   const detectedKeywords = extractKeywordsFromLines(classifiedLines);
 
   // Build metadata
-  const metadata: ResumeMetadata = {
+  const metadata: ResumeDocumentMetadata = {
     totalLines: classifiedLines.length,
     totalPages: Math.max(...classifiedLines.map(l => l.pageNumber), 1),
     format: 'latex' as const,
@@ -46,7 +46,7 @@ export async function parseLatexResume(
     keywordDensity: calculateKeywordDensity(detectedKeywords, classifiedLines)
   };
 
-  const resume: Resume = {
+  const resume: ResumeDocument = {
     id: `resume-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
     lines: classifiedLines,
     metadata,
@@ -134,9 +134,9 @@ function parseLatexStructure(latexContent: string): ParsedLaTeX {
 /**
  * Detect resume sections from lines
  */
-function detectResumeSections(lines: ResumeLine[]): ResumeSection[] {
-  const sections: ResumeSection[] = [];
-  let currentSection: ResumeSection | null = null;
+function detectResumeSections(lines: ResumeLine[]): ResumeDocumentSection[] {
+  const sections: ResumeDocumentSection[] = [];
+  let currentSection: ResumeDocumentSection | null = null;
 
   // Common resume section headers (case-insensitive)
   const sectionPatterns = [
@@ -150,7 +150,7 @@ function detectResumeSections(lines: ResumeLine[]): ResumeSection[] {
   lines.forEach((line, idx) => {
     // Check if this line is a section header
     let isSectionHeader = false;
-    let sectionType: ResumeSection['type'] = 'other';
+    let sectionType: ResumeDocumentSection['type'] = 'other';
 
     for (const { pattern, type } of sectionPatterns) {
       if (pattern.test(line.text)) {
@@ -206,7 +206,7 @@ function detectResumeSections(lines: ResumeLine[]): ResumeSection[] {
  */
 function classifyResumeLines(
   lines: ResumeLine[],
-  sections: ResumeSection[]
+  sections: ResumeDocumentSection[]
 ): ResumeLine[] {
   return lines.map(line => {
     const text = line.text;
@@ -399,7 +399,7 @@ export function applyEditsToLatex(
 /**
  * Export resume to LaTeX
  */
-export function exportToLatex(resume: Resume): string {
+export function exportToLatex(resume: ResumeDocument): string {
   if (resume.latexSource) {
     // Apply any edits to original source
     const edits = resume.lines.map(line => ({
@@ -417,7 +417,7 @@ export function exportToLatex(resume: Resume): string {
 /**
  * Generate LaTeX from resume structure
  */
-function generateLatexFromResume(resume: Resume): string {
+function generateLatexFromResume(resume: ResumeDocument): string {
   let latex = `\\documentclass{article}
 \\usepackage{geometry}
 \\geometry{letterpaper, margin=0.75in}
@@ -1,9 +1,9 @@
 /**
  * LLM-Based Placeholder Detection Service
- * Uses Gemini Flash to intelligently detect placeholders in document lines
+ * Uses the configured LLM provider to intelligently detect placeholders in document lines
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider } from '@/lib/llm';
 
 export interface LLMPlaceholderResult {
   lineNumber: number;
@@ -13,18 +13,16 @@ export interface LLMPlaceholderResult {
 }
 
 /**
- * Detect placeholders in a batch of lines using Gemini
+ * Detect placeholders in a batch of lines using the LLM provider
  * @param lines - Array of text lines with their line numbers
- * @param apiKey - Gemini API key
+ * @param llm - LLM provider
  * @returns Array of detection results
  */
 export async function detectPlaceholdersWithLLM(
   lines: Array<{ lineNumber: number; text: string }>,
-  apiKey: string
+  llm: LLMProvider
 ): Promise<LLMPlaceholderResult[]> {
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-
     // Build prompt with all lines
     const linesText = lines
       .map(l => `Line ${l.lineNumber}: ${l.text}`)
@@ -55,13 +53,8 @@ Respond with ONLY a JSON array, no other text. Format:
 
 JSON response:`;
 
-    // Get the generative model
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
     // Generate content
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const responseText = response.text().trim();
+    const responseText = await llm.generate(prompt);
 
     // Extract JSON from response (handle cases where LLM adds explanation)
     const jsonMatch = responseText.match(/\[[\s\S]*\]/);
@@ -88,13 +81,13 @@ JSON response:`;
 /**
  * Batch process lines in parallel with LLM detection
  * @param lines - All document lines with line numbers
- * @param apiKey - Gemini API key
+ * @param llm - LLM provider
  * @param batchSize - Lines per batch (default 15)
  * @param maxParallel - Max parallel calls (default 5)
  */
 export async function batchDetectPlaceholders(
   lines: Array<{ lineNumber: number; text: string }>,
-  apiKey: string,
+  llm: LLMProvider,
   batchSize: number = 15,
   maxParallel: number = 5
 ): Promise<Map<number, LLMPlaceholderResult>> {
@@ -116,7 +109,7 @@ export async function batchDetectPlaceholders(
 
     console.info(`[LLM_DETECTOR] Processing batches ${i + 1}-${Math.min(i + maxParallel, batches.length)} of ${batches.length}`);
 
-    const promises = batchGroup.map(batch => detectPlaceholdersWithLLM(batch, apiKey));
+    const promises = batchGroup.map(batch => detectPlaceholdersWithLLM(batch, llm));
     const batchResults = await Promise.all(promises);
 
     // Merge results
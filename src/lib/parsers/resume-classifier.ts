@@ -1,9 +1,9 @@
 /**
  * Resume Section Classifier with LLM Intelligence
- * Uses Gemini to accurately classify resume sections and detect tech stacks
+ * Uses the configured LLM provider to classify resume sections and detect tech stacks
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LLMProvider, getLLMProvider } from '@/lib/llm';
 import type { ResumeSectionType } from '@/types/resume';
 
 /**
@@ -12,11 +12,10 @@ import type { ResumeSectionType } from '@/types/resume';
 export async function classifyResumeSection(
   sectionTitle: string,
   sectionContent: string,
-  apiKey?: string
+  llm?: LLMProvider
 ): Promise<ResumeSectionType> {
   try {
-    const genAI = new GoogleGenerativeAI(apiKey || process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    const provider = llm || getLLMProvider();
 
     const prompt = `You are a resume parsing expert. Classify this resume section into ONE of these exact categories:
 
@@ -43,8 +42,7 @@ Instructions:
 
 Response:`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text().trim().toLowerCase();
+    const response = (await provider.generate(prompt)).toLowerCase();
 
     // Validate response
     const validTypes: ResumeSectionType[] = [
@@ -112,13 +110,12 @@ function classifySectionBasic(title: string): ResumeSectionType {
  */
 export async function detectTechStack(
   bulletPoints: string[],
-  apiKey?: string
+  llm?: LLMProvider
 ): Promise<string[]> {
   if (bulletPoints.length === 0) return [];
 
   try {
-    const genAI = new GoogleGenerativeAI(apiKey || process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    const provider = llm || getLLMProvider();
 
     const allText = bulletPoints.join('\n');
 
@@ -139,8 +136,7 @@ Example: React, TypeScript, AWS, Docker, PostgreSQL
 
 Response:`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text().trim();
+    const response = await provider.generate(prompt);
 
     // Parse comma-separated list
     const keywords = response
@@ -221,10 +217,10 @@ function detectTechStackRegex(text: string): string[] {
  */
 export async function classifyMultipleSections(
   sections: Array<{ title: string; content: string }>,
-  apiKey?: string
+  llm?: LLMProvider
 ): Promise<ResumeSectionType[]> {
   const promises = sections.map((section) =>
-    classifyResumeSection(section.title, section.content, apiKey)
+    classifyResumeSection(section.title, section.content, llm)
   );
 
   return Promise.all(promises);
@@ -236,7 +232,7 @@ export async function classifyMultipleSections(
  */
 export async function parseExperienceItem(
   itemText: string,
-  apiKey?: string
+  llm?: LLMProvider
 ): Promise<{
   title?: string;
   subtitle?: string;
@@ -244,8 +240,7 @@ export async function parseExperienceItem(
   location?: string;
 }> {
   try {
-    const genAI = new GoogleGenerativeAI(apiKey || process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    const provider = llm || getLLMProvider();
 
     const prompt = `Extract structured information from this resume experience entry.
 
@@ -268,8 +263,7 @@ Respond in JSON format ONLY:
 
 Response:`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text().trim();
+    const response = await provider.generate(prompt);
 
     // Parse JSON response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -0,0 +1,148 @@
+/**
+ * Document Structure - Sections, items and bullets of a line-view document
+ *
+ * Works on the plain line view the chat tools and citations see, so it needs
+ * no parsed Resume: sections start at heading lines, and within a section
+ * each run of header lines followed by bullets is one item (a role, degree
+ * or project). Lines without visible text (LaTeX list environments,
+ * comments, blank lines) belong to the surrounding item but never start one.
+ */
+
+import { Document, DocumentOutlineItem, DocumentOutlineSection, Line } from './types';
+import { stripLatex } from '../resume-model/builder';
+
+const LATEX_BULLET = /^\s*\\(?:item|resumeItem|cvitem)\b/;
+const TEXT_BULLET = /^\s*(?:[•●◦▪▫‣∙·\-–*]|\d+[.)])\s+/;
+const KNOWN_SECTIONS = /\b(experience|employment|education|skills|projects?|summary|objective|profile|certifications?|awards|publications|leadership|volunteer)\b/i;
+
+/**
+ * Heading text of a section header line, or null for other lines:
+ * LaTeX \section{...}, Markdown #/##/###, or a short plain-text heading
+ * (known section name or ALL CAPS) in DOCX/PDF/text documents
+ */
+export function getSectionHeading(line: Line, format: Document['metadata']['format']): string | null {
+  const text = line.text.trim();
+
+  if (format === 'latex') {
+    return text.match(/^\\section\*?\{([^}]*)\}/)?.[1].trim() ?? null;
+  }
+
+  const markdown = text.match(/^#{1,3}\s+(.+)$/);
+  if (markdown) {
+    return markdown[1].trim();
+  }
+
+  if (!text || text.length > 40 || text.split(/\s+/).length > 4 || /[.,;:]$/.test(text) || /^[•●▪\-–*]/.test(text)) {
+    return null;
+  }
+
+  if (KNOWN_SECTIONS.test(text)) {
+    return text;
+  }
+
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  return letters.length >= 4 && letters === letters.toUpperCase() ? text : null;
+}
+
+/**
+ * Bullet line: \item / \resumeItem in LaTeX, a bullet or list marker otherwise
+ */
+export function isBulletLine(line: Line, format: Document['metadata']['format']): boolean {
+  return format === 'latex' ? LATEX_BULLET.test(line.text) : TEXT_BULLET.test(line.text);
+}
+
+/**
+ * Visible text of a line ('' for markup-only lines)
+ */
+function visibleText(line: Line, format: Document['metadata']['format']): string {
+  const text = line.text.trim();
+  if (format !== 'latex') {
+    return text.replace(TEXT_BULLET, '').trim();
+  }
+  if (text.startsWith('%') || /^\\(?:begin|end)\{/.test(text)) {
+    return '';
+  }
+  return stripLatex(text.replace(/\}\s*\{/g, '} {'));
+}
+
+/**
+ * Split a section body into items
+ */
+function buildItems(lines: Line[], format: Document['metadata']['format'], endLine: number): DocumentOutlineItem[] {
+  const items: DocumentOutlineItem[] = [];
+  let current: DocumentOutlineItem | null = null;
+  let afterBullet = false;
+
+  lines.forEach(line => {
+    const text = visibleText(line, format);
+    if (!text) return;
+
+    const bullet = isBulletLine(line, format);
+    if (!current || (!bullet && afterBullet)) {
+      if (current) {
+        current.endLine = line.lineNumber - 1;
+      }
+      current = {
+        title: bullet ? '' : text.substring(0, 80),
+        startLine: line.lineNumber,
+        endLine,
+        bulletLines: []
+      };
+      items.push(current);
+    }
+
+    if (bullet) {
+      current.bulletLines.push(line.lineNumber);
+    }
+    afterBullet = bullet;
+  });
+
+  return items;
+}
+
+/**
+ * Every section in document order, each spanning from its heading to the
+ * line before the next heading, with its items
+ */
+export function getDocumentOutline(document: Document): DocumentOutlineSection[] {
+  const format = document.metadata.format;
+  const headings = document.lines
+    .map(line => ({ line, title: getSectionHeading(line, format) }))
+    .filter((h): h is { line: Line; title: string } => h.title !== null);
+
+  return headings.map((heading, index) => {
+    const startLine = heading.line.lineNumber;
+    let endLine = index + 1 < headings.length
+      ? headings[index + 1].line.lineNumber - 1
+      : document.lines[document.lines.length - 1].lineNumber;
+
+    // The last LaTeX section stops before \end{document}
+    const documentEnd = document.lines.find(
+      l => l.lineNumber > startLine && l.lineNumber <= endLine && /^\s*\\end\{document\}/.test(l.text)
+    );
+    if (documentEnd) {
+      endLine = documentEnd.lineNumber - 1;
+    }
+
+    const body = document.lines.filter(l => l.lineNumber > startLine && l.lineNumber <= endLine);
+    return { title: heading.title, startLine, endLine, items: buildItems(body, format, endLine) };
+  });
+}
+
+/**
+ * Find a section by heading (exact match first, then partial)
+ */
+export function findSection(document: Document, name: string): DocumentOutlineSection | null {
+  return matchSection(getDocumentOutline(document), name);
+}
+
+/**
+ * findSection on an outline that is already built
+ */
+export function matchSection(sections: DocumentOutlineSection[], name: string): DocumentOutlineSection | null {
+  const wanted = name.trim().toLowerCase();
+
+  return sections.find(s => s.title.toLowerCase() === wanted)
+    ?? sections.find(s => s.title.toLowerCase().includes(wanted))
+    ?? null;
+}
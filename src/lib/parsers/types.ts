@@ -2,6 +2,8 @@
  * Core type definitions for the document editor
  */
 
+import type { Resume } from '@/types/resume';
+
 export interface LineFormatting {
   bold?: boolean;
   italic?: boolean;
@@ -39,14 +41,32 @@ export interface Document {
 }
 
 export interface Citation {
-  type: 'line' | 'page' | 'range';
+  type: 'line' | 'page' | 'range' | 'section' | 'item' | 'bullets' | 'keyword';
   reference: string;
   lineNumbers: number[];
   resolvedContent: string;
+  target?: string;            // Section name or keyword of structural citations
+  itemIndex?: number;         // 1-based item within the section (@item)
+}
+
+// Line-view outline (parsers/structure): sections found from their headings,
+// each split into items - a role, degree or project: header lines, then bullets
+export interface DocumentOutlineItem {
+  title: string;              // First header line, markup stripped
+  startLine: number;
+  endLine: number;
+  bulletLines: number[];
+}
+
+export interface DocumentOutlineSection {
+  title: string;
+  startLine: number;          // Heading line
+  endLine: number;
+  items: DocumentOutlineItem[];
 }
 
 export interface Action {
-  type: 'search' | 'read' | 'edit';
+  type: 'search' | 'read' | 'edit' | 'suggest';
   success: boolean;
   details: any;
   timestamp?: Date;
@@ -59,6 +79,8 @@ export interface Message {
   timestamp: Date;
   citations?: Citation[];
   actions?: Action[];
+  transactionId?: string;     // Edit transaction made by this assistant turn (undo/revert)
+  suggestionIds?: string[];   // Suggestions proposed by this assistant turn (suggest mode)
 }
 
 export interface Chat {
@@ -86,6 +108,7 @@ export type DocumentFormat = 'docx' | 'pdf' | 'markdown' | 'latex';
 
 export interface ParseResult {
   document: Document;
+  resume?: Resume;            // Canonical resume (LaTeX and DOCX uploads)
   error?: string;
 }
 
@@ -110,6 +133,9 @@ export interface SearchResult {
   lineNumber: number;
   text: string;
   score: number;
+  section?: string;           // Heading of the section the line is in
+  item?: string;              // Title of the role/project/degree the line belongs to
+  matchedTerms?: string[];    // Document terms that matched (stems, typo and alias matches)
 }
 
 export interface ReadParams {
@@ -132,6 +158,151 @@ export interface EditResult {
   error?: string;
 }
 
+export interface FindReplaceParams {
+  pattern: string;
+  replacement: string;
+  regex?: boolean;            // Treat pattern as a (restricted) regex instead of plain text
+  wholeWord?: boolean;        // Plain text only: match whole words
+  caseSensitive?: boolean;    // Default: false
+  lines?: number[];           // Restrict to these lines (default: whole document)
+  preview?: boolean;          // List the matches without changing anything
+}
+
+export interface FindReplaceMatch {
+  lineNumber: number;
+  before: string;
+  after: string;
+  count: number;              // Matches on this line
+}
+
+export interface FindReplaceResult {
+  success: boolean;
+  preview: boolean;
+  matches: FindReplaceMatch[];
+  modifiedLines: number[];    // Empty for a preview
+  lockedLines: number[];      // Matching lines left alone because they are locked
+  error?: string;
+}
+
+export interface MoveBlockParams {
+  startLine?: number;         // Block to move: a line range...
+  endLine?: number;
+  section?: string;           // ...or a whole section by its heading
+  afterLine?: number;         // Destination: after this line (0 = top)...
+  beforeSection?: string;     // ...or before/after another section
+  afterSection?: string;
+}
+
+export interface MoveBlockResult {
+  success: boolean;
+  movedLines: number[];       // New line numbers of the moved block
+  error?: string;
+}
+
+export interface BatchEditParams {
+  edits: EditParams[];        // Line numbers refer to the document before the batch
+}
+
+export interface BatchEditResult {
+  success: boolean;
+  applied: number;            // Edits applied (all or none)
+  modifiedLines: number[];    // Original line numbers touched
+  error?: string;
+}
+
+// Why the chat agent loop ended: it answered, hit its step budget, or kept repeating calls
+export type ChatStopReason = 'done' | 'max_steps' | 'loop';
+
+// Result of one /api/chat turn
+export interface ChatTurnResult {
+  success: boolean;
+  message: string;
+  citations?: Citation[];
+  actions?: Action[];
+  suggestions?: EditSuggestion[];
+  document?: Document;        // Set when an edit succeeded
+  steps: number;              // Agent steps with tool calls
+  stopReason: ChatStopReason;
+}
+
+// Streaming /api/chat (NDJSON): one event per line, ending with result or error
+export type ChatProgressEvent =
+  | {
+      type: 'citations';
+      citations: Citation[];  // Citations in the message, resolved before the model runs
+    }
+  | {
+      type: 'text';
+      delta: string;          // Model text as generated; a tool_start discards the text so far
+    }
+  | {
+      type: 'tool_start';
+      step: number;
+      tool: string;           // doc_edit is reported as doc_propose_edit in suggest mode
+      args: any;
+    }
+  | {
+      type: 'tool_end';
+      step: number;
+      tool: string;
+      success: boolean;
+      action?: Action;        // Action recorded for the call
+    }
+  | {
+      type: 'step';
+      step: number;           // 1-based agent step
+      maxSteps: number;
+      actions: Action[];      // Actions recorded during this step
+    }
+  | {
+      type: 'result';
+      result: ChatTurnResult;
+    }
+  | {
+      type: 'error';
+      error: string;
+      details?: string;
+    };
+
+// One tool call of the streaming chat turn, as shown in the chat while it runs
+export interface ChatToolActivity {
+  id: string;
+  step: number;
+  tool: string;
+  args: any;
+  status: 'running' | 'done' | 'failed';
+}
+
+// Streaming chat turn in progress (chat page state)
+export interface ChatLiveTurn {
+  text: string;               // Model text so far
+  activity: ChatToolActivity[];
+  step: number;
+  maxSteps?: number;
+  citations?: Citation[];
+}
+
+// Chat mode: 'edit' applies doc_edit immediately, 'suggest' only proposes (doc_propose_edit)
+export type ChatEditMode = 'edit' | 'suggest';
+
+// Edit proposed in suggest mode - one per line, applied only when the user accepts it
+export interface EditSuggestion {
+  id: string;
+  operation: 'replace' | 'insert' | 'delete';
+  lineNumber: number;         // Line to replace/delete, or the line to insert after
+  originalText: string;       // That line's text when proposed (detects later edits)
+  newText?: string;           // Replacement or inserted text
+  reason?: string;            // Assistant's explanation
+  messageId?: string;         // Assistant message that proposed it
+  createdAt: Date;
+}
+
+export interface ProposeEditResult {
+  success: boolean;
+  suggestions: EditSuggestion[];
+  error?: string;
+}
+
 // Edit tracking for format-preserving export
 export interface LineEdit {
   lineNumber: number;
@@ -139,6 +310,8 @@ export interface LineEdit {
   newText: string;
   timestamp: Date;
   operation: 'replace' | 'insert' | 'delete';
+  anchorLineNumber?: number;  // Inserts: line the new line follows (0 = top of the document)
+  anchorText?: string;        // Inserts: text of that line when the edit was made
 }
 
 export interface EditHistory {
@@ -161,6 +334,66 @@ export interface DocumentWithHistory extends Document {
   originalFileId?: string;
 }
 
+// Undoable edit log: each assistant turn's doc_edit calls form one transaction
+export interface EditTransaction {
+  id: string;
+  messageId?: string;         // Assistant message whose tool calls made the edits
+  description: string;
+  before: Line[];
+  after: Line[];
+  edits: LineEdit[];          // Line-level changes from before to after
+  timestamp: Date;
+}
+
+export interface EditLog {
+  documentId: string;
+  transactions: EditTransaction[];  // Applied transactions, oldest first (undo stack)
+  redoStack: EditTransaction[];     // Reverted transactions, most recent last
+}
+
+// Named resume versions (snapshots of one uploaded document)
+export interface ResumeVersion {
+  id: string;
+  documentId: string;         // Uploaded document all versions derive from
+  name: string;               // "Base", "Stripe SRE", ...
+  parentId?: string;          // Version this one was branched from
+  lines: Line[];
+  edits: LineEdit[];          // Edit history at snapshot time (format-preserving export)
+  rawSource?: string;         // LaTeX source at snapshot time
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ResumeVersionHistory {
+  documentId: string;
+  versions: ResumeVersion[];
+  activeVersionId?: string;   // Version the working copy was saved as / restored from
+}
+
+export interface WordDiffSegment {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export interface LineDiff {
+  type: 'unchanged' | 'added' | 'removed' | 'modified';
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  oldText?: string;
+  newText?: string;
+  words?: WordDiffSegment[];  // Word-level changes of a modified line
+}
+
+export interface VersionDiff {
+  lines: LineDiff[];
+  stats: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+}
+
 // ============================================
 // RESUME OPTIMIZATION TYPES
 // ============================================
@@ -178,9 +411,9 @@ export interface ResumeLine extends Line {
 }
 
 /**
- * Resume section structure
+ * Section of the line view (line range + lines)
  */
-export interface ResumeSection {
+export interface ResumeDocumentSection {
   type: 'experience' | 'education' | 'skills' | 'projects' | 'summary' | 'other';
   title: string;              // Section header text
   startLine: number;
@@ -190,10 +423,12 @@ export interface ResumeSection {
 }
 
 /**
- * Resume document with structure detection
+ * Line-oriented view of a resume, as used by keyword analysis and optimization.
+ * The canonical model is Resume in @/types/resume; convert between the two
+ * with the adapters in @/lib/resume-model.
  */
-export interface Resume extends Document {
-  sections: ResumeSection[];
+export interface ResumeDocument extends Document {
+  sections: ResumeDocumentSection[];
   detectedKeywords: string[];
   format: 'latex' | 'docx' | 'pdf' | 'markdown';
   latexSource?: string;       // Original LaTeX source if applicable
@@ -216,7 +451,7 @@ export interface ContextFile {
  * Complete optimization context
  */
 export interface OptimizationContext {
-  resume: Resume;
+  resume: ResumeDocument;
   projects?: ContextFile;
   portfolio?: ContextFile;
   jobDescription?: ContextFile;
@@ -229,9 +464,27 @@ export interface OptimizationContext {
 export interface KeywordAnalysis {
   jdKeywords: string[];                    // From job description
   resumeKeywords: string[];                // Currently in resume
-  missingKeywords: string[];               // Need to add
+  missingKeywords: string[];               // Need to add (most important first)
   keywordFrequency: Map<string, number>;   // keyword -> count in resume
-  coverage: number;                        // Percentage (0-100)
+  coverage: number;                        // Percentage (0-100), weighted by importance when known
+  unweightedCoverage?: number;             // Share of JD keywords present, ignoring weights
+  keywordImportance?: KeywordImportance[]; // Per-JD-keyword weight, in jdKeywords order
+}
+
+/**
+ * How strongly a job description asks for a keyword
+ */
+export type KeywordCategory = 'required' | 'preferred' | 'bonus';
+
+/**
+ * Importance of one JD keyword
+ */
+export interface KeywordImportance {
+  keyword: string;
+  category: KeywordCategory;
+  weight: number;             // Relative weight used for coverage and prioritization
+  frequency: number;          // JD sentences mentioning the keyword (any alias form)
+  sourceSentence?: string;    // JD sentence that decided the category
 }
 
 /**
@@ -241,6 +494,26 @@ export interface KeywordMapping {
   keyword: string;
   targetLines: number[];      // Line numbers where keyword should be added
   contextScore: number;       // Relevance score (0-1)
+  canonical?: string;         // Canonical form (see keyword-normalizer)
+}
+
+/**
+ * User keyword aliases: canonical keyword -> alternative spellings,
+ * synonyms and acronyms (e.g. { "Kubernetes": ["k8s", "kube"] })
+ */
+export type KeywordAliasMap = Record<string, string[]>;
+
+/**
+ * One model call made while optimizing a bullet
+ */
+export interface BulletOptimizationAttempt {
+  attempt: number;            // 1-based
+  outcome: 'accepted' | 'validation_failed' | 'error' | 'aborted';
+  reason?: string;            // Validation failure or error message
+  text?: string;              // Cleaned model output (when one was produced)
+  tokensUsed: number;
+  durationMs: number;
+  retryDelayMs?: number;      // Backoff applied before the next attempt
 }
 
 /**
@@ -255,21 +528,226 @@ export interface BulletOptimization {
   tokensUsed: number;
   confidence: number;         // 0-1, how confident the optimization is
   timestamp: Date;
+  attempts?: BulletOptimizationAttempt[];  // Full attempt history (last one accepted)
+  unsupportedClaims?: UnsupportedClaim[];  // Facts not found in the resume or context files (flag mode)
+}
+
+/**
+ * Number, technology or name in an optimized bullet that neither the original
+ * bullet, the rest of the resume nor the projects/portfolio context mentions
+ */
+export interface UnsupportedClaim {
+  text: string;
+  type: 'number' | 'technology' | 'entity';
+  start: number;              // Offset in optimizedText
+  end: number;
 }
 
 /**
  * Full resume optimization result
  */
 export interface ResumeOptimizationResult {
-  optimizedResume: Resume;
+  optimizedResume: ResumeDocument;
+  resume?: Resume;            // Canonical resume with the changes applied (when the request sent one)
   changes: BulletOptimization[];
   keywordAnalysis: KeywordAnalysis;
+  initialCoverage?: number;   // Coverage (%) before optimization
   totalTokensUsed: number;
+  estimatedCost?: number;     // USD, for the run's token session
   processingTimeMs: number;
   success: boolean;
+  cancelled?: boolean;        // Run was aborted - changes hold the bullets finished before the abort
+  review?: boolean;           // Review mode - changes are proposals, not applied to optimizedResume
+  pageFit?: PageFitResult;    // Page-limit fitting report (config.maxPages)
+  error?: string;
+}
+
+/**
+ * Bullet shortened to bring the resume within the page limit
+ */
+export interface TrimmedBullet {
+  lineNumber: number;
+  originalText: string;
+  trimmedText: string;
+  score: number;              // Trim priority (0-1, higher = lower value)
+  reason: string;             // Why it was picked (JD keywords, role age, length)
+}
+
+/**
+ * Outcome of fitting the optimized resume to config.maxPages
+ */
+export interface PageFitResult {
+  targetPages: number;
+  pagesBefore?: number;       // Pages after optimization, before trimming
+  pagesAfter?: number;        // Pages after trimming
+  fits: boolean;
+  trimmed: TrimmedBullet[];
+  skipped?: string;           // Why no page count was possible (DOCX, no compiler, compile error)
+}
+
+/**
+ * Optimization pipeline steps (in execution order)
+ */
+export type OptimizationStepName =
+  | 'parse_resume'
+  | 'extract_jd_keywords'
+  | 'extract_resume_keywords'
+  | 'analyze_gap'
+  | 'map_keywords'
+  | 'build_plan'
+  | 'optimize_bullets'
+  | 'apply_changes'
+  | 'fit_pages'
+  | 'reanalyze';
+
+/**
+ * Progress event emitted by the optimization pipeline
+ * (streamed to the client as NDJSON by /api/optimize-resume)
+ */
+export type OptimizationProgressEvent =
+  | {
+      type: 'step';
+      step: number;               // 1-based step index
+      totalSteps: number;
+      name: OptimizationStepName;
+      message: string;
+    }
+  | {
+      type: 'bullet';
+      lineNumber: number;
+      optimization: BulletOptimization | null;  // null = bullet failed validation
+      completed: number;
+      total: number;
+    }
+  | {
+      type: 'tokens';
+      deltaTokens: number;        // Tokens used since the previous tokens event
+      deltaCost: number;
+      usage: TokenUsage;          // Session totals
+    }
+  | {
+      type: 'result';
+      result: ResumeOptimizationResult;
+    }
+  | {
+      type: 'error';
+      error: string;
+      details?: string;
+    };
+
+/**
+ * Job description in a batch tailoring run
+ */
+export interface BatchJobDescription {
+  id: string;
+  title: string;              // Shown in the comparison table (e.g. "Acme - Backend Engineer")
+  content: string;
+}
+
+/**
+ * Comparison row for one job description in a batch run
+ */
+export interface BatchJobSummary {
+  jobId: string;
+  title: string;
+  status: 'completed' | 'cancelled' | 'failed';
+  coverageBefore?: number;    // Keyword coverage (%) of the base resume
+  coverageAfter?: number;     // Keyword coverage (%) of the tailored variant
+  bulletsOptimized: number;
+  tokensUsed: number;         // Tokens spent on this job (excludes the shared resume pass)
+  estimatedCost: number;
+  processingTimeMs: number;
   error?: string;
 }
 
+/**
+ * Tailored variant for one job description
+ */
+export interface BatchVariant {
+  summary: BatchJobSummary;
+  result?: ResumeOptimizationResult; // Missing when the job failed
+}
+
+/**
+ * Batch tailoring result: one variant per job description
+ */
+export interface BatchOptimizationResult {
+  variants: BatchVariant[];
+  resumeKeywords: string[];   // From the single shared resume pass
+  sharedTokensUsed: number;   // Resume keyword extraction (once for all jobs)
+  sharedCost: number;
+  totalTokensUsed: number;
+  totalCost: number;
+  processingTimeMs: number;
+  cancelled?: boolean;
+}
+
+/**
+ * Progress event emitted by a batch run
+ * (streamed to the client as NDJSON by /api/optimize-batch)
+ */
+export type BatchProgressEvent =
+  | {
+      type: 'shared';
+      message: string;            // Shared steps (resume parsing, resume keywords)
+    }
+  | {
+      type: 'job';
+      jobId: string;
+      event: Exclude<OptimizationProgressEvent, { type: 'result' | 'error' }>;
+    }
+  | {
+      type: 'job_complete';
+      summary: BatchJobSummary;
+    }
+  | {
+      type: 'result';
+      result: BatchOptimizationResult;
+    }
+  | {
+      type: 'error';
+      error: string;
+      details?: string;
+    };
+
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'conversational';
+
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+
+/**
+ * Options chosen by the user when drafting a cover letter
+ */
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  companyName?: string;       // Detected from the job description when omitted
+  roleTitle?: string;
+  hiringManager?: string;     // "Dear <name>," instead of "Dear Hiring Manager,"
+  customInstructions?: string;
+}
+
+/**
+ * Drafted cover letter (editable in the app, exported in the resume's format)
+ */
+export interface CoverLetter {
+  id: string;
+  documentId?: string;        // Resume the letter was drafted from
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  companyName?: string;
+  roleTitle?: string;
+  senderName: string;
+  senderContact: string[];    // Email, phone, links (from the resume header)
+  date: string;               // As printed, e.g. "March 3, 2025"
+  recipient: string[];        // Address block: hiring manager, company
+  salutation: string;         // "Dear Hiring Manager,"
+  paragraphs: string[];
+  closing: string;            // "Sincerely,"
+  keywordsUsed: string[];     // JD keywords the body mentions
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Token usage tracking per session
  */
@@ -286,9 +764,15 @@ export interface TokenUsage {
     tokensUsed: number;
     promptTokens: number;
     completionTokens: number;
+    status?: LLMCallStatus;
   }>;
 }
 
+/**
+ * Outcome of a tracked LLM call ('aborted' = cancelled by the client)
+ */
+export type LLMCallStatus = 'success' | 'failed' | 'aborted';
+
 /**
  * LLM call record for tracking
  */
@@ -303,6 +787,7 @@ export interface LLMCallRecord {
   cost: number;
   durationMs: number;
   success: boolean;
+  status?: LLMCallStatus;
   error?: string;
 }
 
@@ -316,13 +801,27 @@ export interface OptimizationConfig {
   maintainTone: boolean;      // Maintain professional tone
   maxKeywordsPerBullet: number; // Default: 2-3
   minConfidenceScore: number; // Minimum confidence to accept optimization (0-1)
+  retryPolicy?: Partial<OptimizationRetryPolicy>;  // Defaults in ParallelOptimizer
+  keywordAliases?: KeywordAliasMap; // User aliases on top of the built-in dictionary
+  factGrounding?: 'reject' | 'flag' | 'off'; // Rewrites with unsupported claims (default: reject)
+  maxPages?: number;          // Condense low-value bullets until the compiled LaTeX fits (off when unset)
+}
+
+/**
+ * Per-bullet retry behaviour
+ */
+export interface OptimizationRetryPolicy {
+  maxValidationRetries: number; // Re-prompts with validation feedback (default: 2)
+  maxTransientRetries: number;  // Retries for 429/5xx errors (default: 3)
+  baseDelayMs: number;          // First backoff delay, doubled each retry (default: 1000)
+  maxDelayMs: number;           // Backoff cap (default: 8000)
 }
 
 /**
  * Resume optimization request
  */
 export interface OptimizeResumeRequest {
-  resume: Resume;
+  resume: ResumeDocument;
   jobDescription: string;
   projects?: string;
   portfolio?: string;
@@ -337,7 +836,7 @@ export interface OptimizeResumeRequest {
 export interface ParsedLaTeX {
   source: string;             // Original LaTeX source
   lines: ResumeLine[];
-  sections: ResumeSection[];
+  sections: ResumeDocumentSection[];
   commands: Array<{           // LaTeX commands found
     command: string;
     lineNumber: number;
@@ -360,9 +859,9 @@ export interface FileSizeConfig {
 }
 
 /**
- * Resume metadata extended
+ * Document metadata extended with line view statistics
  */
-export interface ResumeMetadata extends DocumentMetadata {
+export interface ResumeDocumentMetadata extends DocumentMetadata {
   format: 'latex' | 'docx' | 'pdf' | 'markdown';
   sectionsDetected: number;
   bulletPointsCount: number;
@@ -0,0 +1,184 @@
+/**
+ * Resume Model Adapters
+ *
+ * Convert between the canonical Resume and the line views used elsewhere:
+ * - toResumeDocument: ResumeDocument for keyword analysis and optimization
+ * - syncResumeWithLines: fold edited document lines (chat edits, applied
+ *   optimizations) back into the canonical Resume
+ */
+
+import type { Resume, ResumeSectionType } from '@/types/resume';
+import type {
+  Line,
+  ResumeLine,
+  ResumeDocument,
+  ResumeDocumentSection,
+  ResumeDocumentMetadata
+} from '@/lib/parsers/types';
+import { buildResume } from './builder';
+
+/**
+ * Line view of a canonical Resume (no re-parsing)
+ */
+export function toResumeDocument(resume: Resume): ResumeDocument {
+  const lines = resume.lines;
+
+  const sections: ResumeDocumentSection[] = resume.sections
+    .filter(section => section.startLine !== undefined && section.endLine !== undefined)
+    .map(section => ({
+      type: toLineSectionType(section.type),
+      title: section.title,
+      startLine: section.startLine!,
+      endLine: section.endLine!,
+      content: lines.filter(l => l.lineNumber > section.startLine! && l.lineNumber <= section.endLine!)
+    }));
+
+  const metadata: ResumeDocumentMetadata = {
+    totalLines: lines.length,
+    totalPages: Math.max(...lines.map(l => l.pageNumber), 1),
+    format: resume.sourceFormat,
+    fileName: resume.fileName,
+    fileSize: resume.rawSource.length,
+    uploadedAt: resume.createdAt,
+    sectionsDetected: sections.length,
+    bulletPointsCount: lines.filter(l => l.bulletLevel && l.bulletLevel > 0).length,
+    editableLinesCount: lines.filter(l => l.isEditable).length,
+    structuralLinesCount: lines.filter(l => l.isStructural).length,
+    keywordDensity: 0
+  };
+
+  return {
+    id: resume.id,
+    lines,
+    metadata,
+    sections,
+    detectedKeywords: resume.detectedKeywords,
+    format: resume.sourceFormat,
+    latexSource: resume.sourceFormat === 'latex' ? resume.rawSource : undefined
+  };
+}
+
+/**
+ * Rebuild the canonical Resume around an edited copy of its lines.
+ *
+ * Lines keep their classification by line number; when lines were inserted or
+ * deleted, classification is matched by text and new lines inherit it from
+ * the line above. Bullets whose text changed keep their original text.
+ */
+export function syncResumeWithLines(resume: Resume, lines: Line[]): Resume {
+  const sameNumbering = lines.length === resume.lines.length &&
+    lines.every((line, index) => line.lineNumber === resume.lines[index].lineNumber);
+
+  const byNumber = new Map(resume.lines.map(l => [l.lineNumber, l]));
+  const byText = new Map(resume.lines.map(l => [l.text, l]));
+
+  let previousLine: ResumeLine | undefined;
+  const syncedLines: ResumeLine[] = lines.map(line => {
+    const prior = sameNumbering ? byNumber.get(line.lineNumber) : byText.get(line.text) || previousLine;
+    const synced: ResumeLine = {
+      isEditable: prior?.isEditable ?? false,
+      isStructural: prior?.isStructural ?? false,
+      sectionType: prior?.sectionType,
+      bulletLevel: prior?.bulletLevel,
+      ...line
+    };
+    previousLine = synced;
+    return synced;
+  });
+
+  const sections = relocateSections(resume, syncedLines, sameNumbering);
+  const rebuilt = buildResume(
+    {
+      ...toResumeDocument(resume),
+      lines: syncedLines,
+      sections
+    },
+    {
+      sourceFormat: resume.sourceFormat,
+      fileName: resume.fileName,
+      rawSource: resume.rawSource,
+      latexFormatting: resume.latexFormatting,
+      contact: resume.metadata
+    }
+  );
+
+  // Carry optimization state over from the previous bullets
+  const originalTexts = new Map<number, string>();
+  resume.sections.forEach(section => section.items.forEach(item => item.bullets.forEach(bullet => {
+    if (bullet.lineNumber !== undefined) {
+      originalTexts.set(bullet.lineNumber, bullet.originalText ?? bullet.text);
+    }
+  })));
+
+  rebuilt.sections.forEach(section => section.items.forEach(item => item.bullets.forEach(bullet => {
+    const originalText = sameNumbering && bullet.lineNumber !== undefined
+      ? originalTexts.get(bullet.lineNumber)
+      : undefined;
+    if (originalText !== undefined && originalText !== bullet.text) {
+      bullet.originalText = originalText;
+      bullet.optimized = true;
+    }
+  })));
+
+  return {
+    ...rebuilt,
+    id: resume.id,
+    docxFormatting: resume.docxFormatting,
+    createdAt: resume.createdAt,
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Section line ranges for the synced lines (headers are found again by text
+ * when the numbering changed)
+ */
+function relocateSections(
+  resume: Resume,
+  lines: ResumeLine[],
+  sameNumbering: boolean
+): ResumeDocumentSection[] {
+  const lastLine = lines.length > 0 ? lines[lines.length - 1].lineNumber : 0;
+  const byNumber = new Map(resume.lines.map(l => [l.lineNumber, l]));
+
+  const starts: Array<{ type: ResumeDocumentSection['type']; title: string; startLine: number }> = [];
+  let searchFrom = 0;
+
+  for (const section of resume.sections) {
+    if (section.startLine === undefined) continue;
+
+    let startLine = section.startLine;
+    if (!sameNumbering) {
+      const headerText = byNumber.get(section.startLine)?.text;
+      const found = lines.findIndex((l, index) => index >= searchFrom && l.text === headerText);
+      if (found === -1) continue; // Header was deleted
+      startLine = lines[found].lineNumber;
+      searchFrom = found + 1;
+    }
+
+    starts.push({
+      type: toLineSectionType(section.type),
+      title: section.title,
+      startLine
+    });
+  }
+
+  return starts.map((start, index) => ({
+    ...start,
+    endLine: index + 1 < starts.length ? starts[index + 1].startLine - 1 : lastLine,
+    content: []
+  }));
+}
+
+function toLineSectionType(type: ResumeSectionType): ResumeDocumentSection['type'] {
+  switch (type) {
+    case 'experience':
+    case 'education':
+    case 'skills':
+    case 'projects':
+    case 'summary':
+      return type;
+    default:
+      return 'other';
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Resume Model Builder
+ *
+ * Promote a classified line view (ResumeDocument from the LaTeX/DOCX line
+ * parsers) into the canonical Resume:
+ * - sections keep their line ranges and header command
+ * - structural lines start items (title, subtitle, date, location)
+ * - editable lines become bullets that point back at their line number
+ */
+
+import type {
+  Resume,
+  ResumeMetadata,
+  ResumeSection,
+  ResumeSectionItem,
+  ResumeSectionType,
+  ResumeBullet,
+  InlineFormatting,
+  LatexFormattingMetadata,
+} from '@/types/resume';
+import type { ResumeDocument, ResumeDocumentSection, ResumeLine } from '@/lib/parsers/types';
+
+/**
+ * Source details the line view does not carry
+ */
+export interface ResumeSourceInfo {
+  sourceFormat: 'latex' | 'docx';
+  fileName: string;
+  rawSource: string;
+  latexFormatting?: LatexFormattingMetadata;
+  contact?: ResumeMetadata;   // Contact info from source commands (e.g. \name, \email)
+}
+
+const MONTH = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?';
+const DATE_POINT = `(?:(?:${MONTH}\\s+)?(?:19|20)\\d{2}|\\d{1,2}/(?:19|20)\\d{2}|Present|Current|Now)`;
+const DATE_PATTERN = new RegExp(`\\b${DATE_POINT}(?:\\s*(?:-{1,3}|–|—|to)\\s*${DATE_POINT})?\\b`, 'i');
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/;
+const HEADER_SEPARATORS = /\s*(?:\\hfill|\\\\|&|\s\|\s|\s[•·]\s|\s--\s)\s*/;
+const BULLET_MARKER = /^[•●◦▪▫‣∙·\-–*]\s*/;
+const LOCATION_PATTERN = /^(?:[A-Z][a-zA-Z .]+,\s*[A-Z]{2}(?:,?\s*[A-Z][a-zA-Z]+)?|[A-Z][a-zA-Z .]+,\s*[A-Z][a-zA-Z]+|Remote|Hybrid)$/;
+
+/**
+ * Build the canonical Resume from a classified line view
+ */
+export function buildResume(document: ResumeDocument, source: ResumeSourceInfo): Resume {
+  const sections = document.sections.map((section, index) =>
+    buildSection(section, document.lines, index, source.sourceFormat)
+  );
+
+  const firstSectionLine = document.sections.length > 0
+    ? Math.min(...document.sections.map(s => s.startLine))
+    : Number.POSITIVE_INFINITY;
+  const headerLines = document.lines.filter(l => l.lineNumber < firstSectionLine);
+  const metadata = mergeContactInfo(source.contact, detectContactInfo(headerLines));
+
+  const now = new Date();
+  const resume: Resume = {
+    id: document.id,
+    sourceFormat: source.sourceFormat,
+    fileName: source.fileName,
+    metadata,
+    sections,
+    rawSource: source.rawSource,
+    lines: document.lines,
+    detectedKeywords: document.detectedKeywords,
+    latexFormatting: source.latexFormatting,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const itemCount = sections.reduce((sum, s) => sum + s.items.length, 0);
+  const bulletCount = sections.reduce(
+    (sum, s) => sum + s.items.reduce((n, item) => n + item.bullets.length, 0),
+    0
+  );
+  console.info(`[RESUME_MODEL] Built resume: ${sections.length} sections, ${itemCount} items, ${bulletCount} bullets`);
+
+  return resume;
+}
+
+/**
+ * Strip LaTeX markup from a line, keeping the visible text
+ */
+export function stripLatex(text: string): string {
+  let result = text;
+  let previous;
+
+  // Unwrap \command[opt]{content} from the inside out; two-argument commands
+  // (\href{url}{text}, \textcolor{color}{text}) keep the visible argument
+  do {
+    previous = result;
+    result = result
+      .replace(/\\[a-zA-Z]+\*?\{[^{}]*\}\{([^{}]*)\}/g, '$1')
+      .replace(/\\[a-zA-Z]+\*?(?:\[[^\]]*\])?\{([^{}]*)\}/g, '$1');
+  } while (result !== previous);
+
+  return result
+    .replace(/(^|[^\\])\$/g, '$1') // Math-mode delimiters ($|$)
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/\\\\/g, ' ')
+    .replace(/\\[a-zA-Z]+\*?/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/---?/g, '–')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build one section with its items and bullets
+ */
+function buildSection(
+  section: ResumeDocumentSection,
+  lines: ResumeLine[],
+  index: number,
+  sourceFormat: Resume['sourceFormat']
+): ResumeSection {
+  const sectionId = `section-${index + 1}`;
+  const headerLine = lines.find(l => l.lineNumber === section.startLine);
+  const title = sourceFormat === 'latex' ? stripLatex(section.title) : section.title.trim();
+  const latexCommand = headerLine?.text.match(/^\\(?:sub)*section\*?/)?.[0];
+
+  const items: ResumeSectionItem[] = [];
+  let current: ResumeSectionItem | null = null;
+
+  const startItem = (line: ResumeLine): ResumeSectionItem => {
+    const item: ResumeSectionItem = {
+      id: `${sectionId}-item-${items.length + 1}`,
+      bullets: [],
+      editable: false,
+      startLine: line.lineNumber,
+      endLine: line.lineNumber,
+    };
+    items.push(item);
+    return item;
+  };
+
+  for (const line of lines) {
+    if (line.lineNumber <= section.startLine || line.lineNumber > section.endLine) continue;
+    const text = line.text.trim();
+    if (!text || isLatexScaffolding(text)) continue;
+
+    if (line.isEditable) {
+      if (!current) current = startItem(line);
+      current.bullets.push(buildBullet(line, sourceFormat));
+      current.editable = true;
+    } else {
+      // A structural line after bullets starts the next entry
+      if (!current || current.bullets.length > 0) current = startItem(line);
+      applyHeaderLine(current, line, sourceFormat);
+    }
+
+    current.endLine = line.lineNumber;
+  }
+
+  return {
+    id: sectionId,
+    type: toCanonicalSectionType(section.type, title),
+    title,
+    locked: true,
+    startLine: section.startLine,
+    endLine: section.endLine,
+    formatting: {
+      latexCommand,
+      font: headerLine?.formatting && Object.keys(headerLine.formatting).length > 0 ? toFont(headerLine) : undefined,
+    },
+    items,
+  };
+}
+
+/**
+ * Fill in item title/subtitle/date/location from a structural line
+ */
+function applyHeaderLine(
+  item: ResumeSectionItem,
+  line: ResumeLine,
+  sourceFormat: Resume['sourceFormat']
+): void {
+  const segments = splitHeaderSegments(line.text.trim(), sourceFormat);
+  const formatting = toInlineFormatting(line, sourceFormat);
+
+  for (let segment of segments) {
+    const dateMatch = segment.match(DATE_PATTERN);
+    if (dateMatch && !item.date) {
+      item.date = dateMatch[0].trim();
+      item.dateFormatting = formatting;
+      segment = segment.replace(dateMatch[0], '').replace(/^[\s,|–-]+|[\s,|–-]+$/g, '');
+    }
+    if (!segment) continue;
+
+    if (LOCATION_PATTERN.test(segment) && !item.location) {
+      item.location = segment;
+      item.locationFormatting = formatting;
+    } else if (!item.title) {
+      item.title = segment;
+      item.titleFormatting = formatting;
+    } else if (!item.subtitle) {
+      item.subtitle = segment;
+      item.subtitleFormatting = formatting;
+    }
+  }
+}
+
+/**
+ * Split a header line into visible fields
+ * e.g. \resumeSubheading{Acme}{2020 -- 2022}{Engineer}{Remote}
+ *   or "Acme Corp | Engineer | Jan 2020 - Present"
+ */
+function splitHeaderSegments(text: string, sourceFormat: Resume['sourceFormat']): string[] {
+  if (sourceFormat === 'latex') {
+    const macroArgs = extractMacroArguments(text);
+    const parts = macroArgs.length >= 2 ? macroArgs : text.split(HEADER_SEPARATORS);
+    return parts.map(stripLatex).filter(Boolean);
+  }
+
+  return text.split(HEADER_SEPARATORS).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Brace-balanced arguments of a leading macro call (\cmd{a}{b}...)
+ */
+function extractMacroArguments(text: string): string[] {
+  const commandMatch = text.match(/^\\[a-zA-Z]+\*?\s*/);
+  if (!commandMatch) return [];
+
+  const args: string[] = [];
+  let position = commandMatch[0].length;
+
+  while (text[position] === '{') {
+    let depth = 0;
+    let end = position;
+    for (; end < text.length; end++) {
+      if (text[end] === '{' && text[end - 1] !== '\\') depth++;
+      if (text[end] === '}' && text[end - 1] !== '\\') depth--;
+      if (depth === 0) break;
+    }
+    if (depth !== 0) break;
+
+    args.push(text.substring(position + 1, end));
+    position = end + 1;
+    while (text[position] === ' ') position++;
+  }
+
+  return args;
+}
+
+function buildBullet(line: ResumeLine, sourceFormat: Resume['sourceFormat']): ResumeBullet {
+  const text = line.text.trim();
+  const itemCommand = sourceFormat === 'latex' ? text.match(/^\\(?:item|bull)\b|^\\[a-zA-Z]*[Ii]tem\b/)?.[0] : undefined;
+  const bulletChar = sourceFormat === 'docx' ? text.match(BULLET_MARKER)?.[0].trim() : undefined;
+
+  return {
+    id: `bullet-${line.lineNumber}`,
+    text,
+    keywords: line.keywords,
+    optimized: false,
+    lineNumber: line.lineNumber,
+    formatting: {
+      bulletChar,
+      level: line.bulletLevel || 0,
+      indent: 0,
+      textFormatting: toInlineFormatting(line, sourceFormat),
+      latexItemCommand: itemCommand,
+    },
+  };
+}
+
+function toInlineFormatting(line: ResumeLine, sourceFormat: Resume['sourceFormat']): InlineFormatting | undefined {
+  const latexCommands = sourceFormat === 'latex'
+    ? Array.from(new Set(line.text.match(/\\[a-zA-Z]+/g) || []))
+    : undefined;
+
+  const hasFont = !!line.formatting && Object.keys(line.formatting).length > 0;
+  if (!hasFont && !latexCommands?.length) return undefined;
+
+  return {
+    font: hasFont ? toFont(line) : undefined,
+    latexCommands: latexCommands?.length ? latexCommands : undefined,
+  };
+}
+
+function toFont(line: ResumeLine): InlineFormatting['font'] {
+  const { bold, italic, underline, fontSize, fontFamily, color } = line.formatting || {};
+  return { bold, italic, underline, size: fontSize, family: fontFamily, color };
+}
+
+/**
+ * Environment and list-macro lines that carry no content
+ */
+function isLatexScaffolding(text: string): boolean {
+  return /^\\(?:begin|end)\{[^}]*\}(?:\[[^\]]*\])?\s*$/.test(text) ||
+    /^\\[a-zA-Z]*(?:Start|End)\s*$/.test(text) ||
+    /^\\(?:vspace|hspace|smallskip|medskip|bigskip|hrule|noindent)\b[^a-zA-Z]*$/.test(text);
+}
+
+function toCanonicalSectionType(type: ResumeDocumentSection['type'], title: string): ResumeSectionType {
+  if (type !== 'other') return type;
+  if (/certif/i.test(title)) return 'certifications';
+  if (/award|honou?r/i.test(title)) return 'awards';
+  if (/publication/i.test(title)) return 'publications';
+  return 'custom';
+}
+
+/**
+ * Best-effort contact details from the lines above the first section
+ */
+function detectContactInfo(headerLines: ResumeLine[]): ResumeMetadata {
+  const texts = headerLines
+    .filter(l => !isLatexScaffolding(l.text.trim()))
+    .map(l => stripLatex(l.text))
+    .filter(text => text.length > 0);
+  const joined = texts.join(' | ');
+
+  const name = texts.find(text => !EMAIL_PATTERN.test(text) && !PHONE_PATTERN.test(text) && text.split(/\s+/).length <= 5);
+
+  return {
+    name: name || '',
+    email: joined.match(EMAIL_PATTERN)?.[0],
+    phone: joined.match(PHONE_PATTERN)?.[0].trim(),
+    linkedin: joined.match(/(?:https?:\/\/)?(?:www\.)?linkedin\.com\/[^\s|}]+/i)?.[0],
+    github: joined.match(/(?:https?:\/\/)?(?:www\.)?github\.com\/[^\s|}]+/i)?.[0],
+  };
+}
+
+function mergeContactInfo(explicit: ResumeMetadata | undefined, detected: ResumeMetadata): ResumeMetadata {
+  if (!explicit) return detected;
+
+  const merged: ResumeMetadata = { ...detected };
+  (Object.keys(explicit) as Array<keyof ResumeMetadata>).forEach(key => {
+    if (explicit[key]) merged[key] = explicit[key] as string;
+  });
+  return merged;
+}
@@ -0,0 +1,9 @@
+/**
+ * Resume Model - Canonical Resume builder and line view adapters
+ *
+ * Client-safe; file parsing lives in ./parse (server-only).
+ */
+
+export { buildResume, stripLatex } from './builder';
+export type { ResumeSourceInfo } from './builder';
+export { toResumeDocument, syncResumeWithLines } from './adapters';
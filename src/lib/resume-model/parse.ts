@@ -0,0 +1,46 @@
+/**
+ * Resume Source Parser (server-only)
+ *
+ * Single entry point that turns an uploaded LaTeX/DOCX file into the
+ * canonical Resume. Structure is detected here once; later steps work from
+ * the Resume (or its line view) instead of re-parsing the file.
+ */
+
+import type { Resume } from '@/types/resume';
+import { parseLatexResume } from '@/lib/parsers/latex';
+import { parseDocxResume } from '@/lib/parsers/docx-resume';
+import { extractLatexFormatting, extractLatexContactInfo } from '@/lib/parsers/latex-parser-simple';
+import { buildResume } from './builder';
+
+/**
+ * Parse a resume file into the canonical model
+ */
+export async function parseResumeSource(
+  buffer: Buffer,
+  format: Resume['sourceFormat'],
+  fileName: string
+): Promise<Resume> {
+  console.info(`[RESUME_MODEL] Parsing ${format} resume: ${fileName}`);
+
+  if (format === 'latex') {
+    const latexSource = buffer.toString('utf-8');
+    const document = await parseLatexResume(latexSource, fileName);
+
+    return buildResume(document, {
+      sourceFormat: 'latex',
+      fileName,
+      rawSource: latexSource,
+      latexFormatting: extractLatexFormatting(latexSource),
+      contact: extractLatexContactInfo(latexSource)
+    });
+  }
+
+  const document = await parseDocxResume(buffer, fileName);
+
+  return buildResume(document, {
+    sourceFormat: 'docx',
+    fileName,
+    // Paragraph text, one per line (the format docxTextToLines reads back)
+    rawSource: document.lines.map(l => l.text).join('\n')
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createDocumentSearchIndex } from './document-index';
+import { Document } from '../parsers/types';
+
+function makeDocument(texts: string[], lockedLines: number[] = []): Document {
+  return {
+    id: 'doc-1',
+    lines: texts.map((text, i) => ({
+      lineNumber: i + 1,
+      text,
+      pageNumber: 1,
+      isLocked: lockedLines.includes(i + 1),
+      isPlaceholder: false
+    })),
+    metadata: { format: 'docx', totalLines: texts.length, totalPages: 1 }
+  };
+}
+
+const TEXTS = [
+  'EXPERIENCE',
+  'Managed Kubernetes clusters for payments',
+  '',
+  'Built data pipelines in Python',
+  '----',
+  'SKILLS',
+  'Python, Go, Terraform'
+];
+
+describe('DocumentSearchIndex.sync', () => {
+  it('indexes every line once, including lines without words', () => {
+    const index = createDocumentSearchIndex();
+    expect(index.sync(makeDocument(TEXTS))).toBe(TEXTS.length);
+    expect(index.sync(makeDocument(TEXTS))).toBe(0);
+  });
+
+  it('re-tokenizes only changed lines', () => {
+    const index = createDocumentSearchIndex();
+    index.sync(makeDocument(TEXTS));
+
+    const edited = [...TEXTS];
+    edited[3] = 'Built streaming pipelines in Scala';
+    edited[2] = 'Mentored two engineers';
+    expect(index.sync(makeDocument(edited))).toBe(2);
+    expect(index.search('scala').map(r => r.lineNumber)).toEqual([4]);
+    expect(index.search('mentoring').map(r => r.lineNumber)).toEqual([3]);
+  });
+
+  it('reuses terms of lines that only moved', () => {
+    const index = createDocumentSearchIndex();
+    index.sync(makeDocument(TEXTS));
+
+    expect(index.sync(makeDocument(['Jane Doe', ...TEXTS]))).toBe(1);
+    expect(index.search('kubernetes').map(r => r.lineNumber)).toEqual([3]);
+  });
+
+  it('drops lines that become locked', () => {
+    const index = createDocumentSearchIndex();
+    index.sync(makeDocument(TEXTS));
+    expect(index.search('kubernetes')).toHaveLength(1);
+
+    index.sync(makeDocument(TEXTS, [2]));
+    expect(index.search('kubernetes')).toEqual([]);
+  });
+
+  it('reports the section of each result', () => {
+    const index = createDocumentSearchIndex();
+    index.sync(makeDocument(TEXTS));
+    expect(index.search('python experience')[0]).toMatchObject({ lineNumber: 4, section: 'EXPERIENCE' });
+  });
+});
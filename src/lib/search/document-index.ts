@@ -0,0 +1,294 @@
+/**
+ * Document Search Index - BM25 ranking of document lines for doc_search
+ *
+ * Each unlocked line is one BM25 document. Queries are stemmed like the
+ * lines, expanded with the keyword alias dictionary ("k8s" -> "Kubernetes"),
+ * and query terms the document does not contain fall back to prefix and
+ * typo matches ("kube", "kuberntes") at a lower weight. A query word that
+ * names a section ("python experience") boosts the lines of that section
+ * instead of matching on its own, unless the query is only section names
+ * ("skills"). Every result carries its section and item for context.
+ *
+ * Indexes are cached per document id and synced before each search: only
+ * lines whose text changed are re-tokenized, and lines that merely moved
+ * (after an insert or delete) reuse their terms, so searching between edits
+ * in one agent turn stays cheap. Locked lines are never indexed, so their
+ * text never reaches the model through search.
+ */
+
+import { Document, SearchResult } from '../parsers/types';
+import { getDocumentOutline } from '../parsers/structure';
+import { createKeywordNormalizer } from '../optimization/keyword-normalizer';
+import { editDistance, splitWords, stem, tokenize } from './tokenizer';
+
+// BM25 parameters (standard values; lines are short, so length matters little)
+const K1 = 1.2;
+const B = 0.75;
+
+// Query term weights by how the term was found
+const ALIAS_WEIGHT = 0.8;
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.6;
+
+// Score multiplier for lines in a section whose heading matches the query
+const SECTION_BOOST = 1.5;
+
+// Most results one search returns
+const MAX_RESULTS = 20;
+
+// Indexes kept in memory (least recently searched dropped first)
+const MAX_CACHED_INDEXES = 20;
+
+interface IndexedLine {
+  lineNumber: number;
+  text: string;
+  terms: Map<string, number>;     // stem -> count in the line
+  surface: Map<string, string>;   // stem -> first word it came from
+  length: number;
+  section?: string;
+  sectionTerms: Set<string>;
+  item?: string;
+}
+
+const normalizer = createKeywordNormalizer();
+
+/**
+ * Document Search Index class
+ */
+export class DocumentSearchIndex {
+  private lines = new Map<number, IndexedLine>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+  private headingTerms = new Set<string>();   // Terms of any section heading
+  private emptyLines = new Map<number, string>(); // Lines with no words (blank, rules): line number -> text
+
+  /**
+   * Bring the index up to date with the document; returns how many lines
+   * had to be re-tokenized
+   */
+  sync(document: Document): number {
+    const current = new Map(
+      document.lines.filter(line => !line.isLocked).map(line => [line.lineNumber, line.text])
+    );
+
+    // Drop lines that are gone, locked or changed; keep their terms for lines that only moved
+    const moved = new Map<string, IndexedLine>();
+    Array.from(this.lines.values()).forEach(entry => {
+      if (current.get(entry.lineNumber) === entry.text) return;
+      moved.set(entry.text, entry);
+      this.remove(entry);
+    });
+
+    // Lines seen without words stay out of the index until their text changes
+    const movedEmpty = new Set<string>();
+    Array.from(this.emptyLines.entries()).forEach(([lineNumber, text]) => {
+      if (current.get(lineNumber) === text) return;
+      movedEmpty.add(text);
+      this.emptyLines.delete(lineNumber);
+    });
+
+    let reindexed = 0;
+    current.forEach((text, lineNumber) => {
+      if (this.lines.has(lineNumber) || this.emptyLines.has(lineNumber)) return;
+
+      const previous = moved.get(text);
+      if (previous) {
+        this.add({ ...previous, lineNumber });
+        return;
+      }
+      if (movedEmpty.has(text)) {
+        this.emptyLines.set(lineNumber, text);
+        return;
+      }
+
+      reindexed++;
+      const terms = new Map<string, number>();
+      const surface = new Map<string, string>();
+      const words = splitWords(text);
+      words.forEach(word => {
+        const term = stem(word);
+        terms.set(term, (terms.get(term) || 0) + 1);
+        if (!surface.has(term)) surface.set(term, word);
+      });
+      if (words.length > 0) {
+        this.add({ lineNumber, text, terms, surface, length: words.length, sectionTerms: new Set() });
+      } else {
+        this.emptyLines.set(lineNumber, text);
+      }
+    });
+
+    this.assignSections(document);
+    return reindexed;
+  }
+
+  /**
+   * Top lines for a query, best first
+   */
+  search(query: string, limit: number = 5): SearchResult[] {
+    const queryTerms = this.expandQuery(query);
+    if (queryTerms.size === 0 || this.lines.size === 0) {
+      return [];
+    }
+
+    // Section names only boost when the query has other words to match
+    const sectionQueryTerms = Array.from(queryTerms.keys()).filter(term => this.headingTerms.has(term));
+    if (sectionQueryTerms.length < queryTerms.size) {
+      sectionQueryTerms.forEach(term => queryTerms.delete(term));
+    }
+
+    const lineCount = this.lines.size;
+    const averageLength = this.totalLength / lineCount;
+    const results: SearchResult[] = [];
+
+    this.lines.forEach(entry => {
+      let score = 0;
+      const matchedTerms: string[] = [];
+
+      queryTerms.forEach((weight, term) => {
+        const frequency = entry.terms.get(term);
+        if (!frequency) return;
+
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (lineCount - df + 0.5) / (df + 0.5));
+        score += weight * idf * (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * entry.length / averageLength));
+        matchedTerms.push(entry.surface.get(term) || term);
+      });
+
+      if (score === 0) return;
+
+      if (sectionQueryTerms.some(term => entry.sectionTerms.has(term))) {
+        score *= SECTION_BOOST;
+      }
+
+      results.push({
+        lineNumber: entry.lineNumber,
+        text: entry.text,
+        score: Math.round(score * 100) / 100,
+        section: entry.section,
+        item: entry.item,
+        matchedTerms
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || a.lineNumber - b.lineNumber)
+      .slice(0, Math.max(1, Math.min(limit, MAX_RESULTS)));
+  }
+
+  /**
+   * Weighted query terms: the query's stems, alias forms of known keywords,
+   * and prefix / typo matches for stems the document does not contain
+   */
+  private expandQuery(query: string): Map<string, number> {
+    const weights = new Map<string, number>();
+    const add = (term: string, weight: number) => {
+      if ((weights.get(term) || 0) < weight) weights.set(term, weight);
+    };
+
+    const words = splitWords(query);
+    words.forEach(word => add(stem(word), 1));
+
+    // "k8s" -> "kubernetes", "machine learning" -> "ml"; a multi-word alias shares the weight
+    [query, ...words].filter(form => normalizer.isKnownKeyword(form)).forEach(form => {
+      normalizer.variantsOf(form).forEach(variant => {
+        const terms = tokenize(variant);
+        terms.forEach(term => add(term, ALIAS_WEIGHT / terms.length));
+      });
+    });
+
+    words.map(stem).filter(term => !this.documentFrequency.has(term)).forEach(term => {
+      const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+      this.documentFrequency.forEach((_, candidate) => {
+        if (term.length >= 3 && candidate.startsWith(term)) {
+          add(candidate, PREFIX_WEIGHT);
+        } else if (maxEdits > 0 && editDistance(term, candidate, maxEdits) <= maxEdits) {
+          add(candidate, FUZZY_WEIGHT);
+        }
+      });
+    });
+
+    return weights;
+  }
+
+  /**
+   * Section heading, heading terms and item title of every indexed line
+   */
+  private assignSections(document: Document): void {
+    this.lines.forEach(entry => {
+      entry.section = undefined;
+      entry.sectionTerms = new Set();
+      entry.item = undefined;
+    });
+
+    this.headingTerms = new Set();
+
+    getDocumentOutline(document).forEach(section => {
+      const sectionTerms = new Set(tokenize(section.title));
+      sectionTerms.forEach(term => this.headingTerms.add(term));
+      for (let lineNumber = section.startLine; lineNumber <= section.endLine; lineNumber++) {
+        const entry = this.lines.get(lineNumber);
+        if (!entry) continue;
+        entry.section = section.title;
+        entry.sectionTerms = sectionTerms;
+        entry.item = section.items.find(
+          item => item.title && item.startLine < lineNumber && lineNumber <= item.endLine
+        )?.title;
+      }
+    });
+  }
+
+  private add(entry: IndexedLine): void {
+    this.lines.set(entry.lineNumber, entry);
+    this.totalLength += entry.length;
+    entry.terms.forEach((_, term) => {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    });
+  }
+
+  private remove(entry: IndexedLine): void {
+    this.lines.delete(entry.lineNumber);
+    this.totalLength -= entry.length;
+    entry.terms.forEach((_, term) => {
+      const df = (this.documentFrequency.get(term) || 0) - 1;
+      if (df > 0) {
+        this.documentFrequency.set(term, df);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    });
+  }
+}
+
+/**
+ * Create document search index instance
+ */
+export function createDocumentSearchIndex(): DocumentSearchIndex {
+  return new DocumentSearchIndex();
+}
+
+// Indexes of recently searched documents, by document id
+const indexCache = new Map<string, DocumentSearchIndex>();
+
+/**
+ * Cached index of a document, synced with its current lines
+ */
+export function getDocumentSearchIndex(document: Document): DocumentSearchIndex {
+  let index = indexCache.get(document.id);
+  if (index) {
+    indexCache.delete(document.id);
+  } else {
+    index = createDocumentSearchIndex();
+  }
+  indexCache.set(document.id, index);
+
+  if (indexCache.size > MAX_CACHED_INDEXES) {
+    indexCache.delete(Array.from(indexCache.keys())[0]);
+  }
+
+  const reindexed = index.sync(document);
+  if (reindexed > 0) {
+    console.info(`[SEARCH] Indexed ${reindexed} line(s) of document ${document.id}`);
+  }
+  return index;
+}
@@ -0,0 +1,10 @@
+/**
+ * Search Module - Ranked local search over document lines
+ */
+
+export {
+  DocumentSearchIndex,
+  createDocumentSearchIndex,
+  getDocumentSearchIndex
+} from './document-index';
+export { tokenize, stem } from './tokenizer';
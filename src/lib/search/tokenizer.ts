@@ -0,0 +1,121 @@
+/**
+ * Search Tokenizer - Terms of a line for the document search index
+ *
+ * Lowercases, drops LaTeX command names and punctuation, and reduces each
+ * word to a stem so inflections match ("managed" / "managing" / "management",
+ * "optimize" / "optimization", "APIs" / "API"). The stemmer is a small
+ * suffix stripper tuned for resume vocabulary, not a full Porter stemmer:
+ * over-merging a few words costs less here than missing a match.
+ */
+
+// Words too common to rank on
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'was', 'were', 'with', 'my', 'our'
+]);
+
+// Suffixes stripped (or rewritten) in order; the first that fits wins
+const SUFFIXES: Array<[string, string]> = [
+  ['ization', 'iz'],
+  ['ation', 'at'],
+  ['ement', 'e'],
+  ['ment', ''],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', '']
+];
+
+// Shortest stem left after stripping a suffix
+const MIN_STEM_LENGTH = 4;
+
+/**
+ * Stem of one lowercase word
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /[^a-z]/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Plurals
+  if (w.endsWith('ies') && w.length > 4) {
+    w = `${w.slice(0, -3)}y`;
+  } else if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !/(?:ss|us)$/.test(w) && !(w.endsWith('is') && w.length > 4)) {
+    w = w.slice(0, -1);
+  }
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const stripped = w.slice(0, -suffix.length) + replacement;
+      if (stripped.length >= MIN_STEM_LENGTH) {
+        w = stripped;
+      }
+      break;
+    }
+  }
+
+  // "planned" -> "plann" -> "plan"
+  if (/([b-df-hj-km-np-rtv-y])\1$/.test(w) && w.length > MIN_STEM_LENGTH) {
+    w = w.slice(0, -1);
+  }
+
+  // "optimize" / "optimiz" / "automat" -> "optim" / "autom"
+  if (w.endsWith('e') && w.length > MIN_STEM_LENGTH) {
+    w = w.slice(0, -1);
+  }
+  if (/(?:iz|at)$/.test(w) && w.length - 2 >= MIN_STEM_LENGTH) {
+    w = w.slice(0, -2);
+  }
+
+  return w;
+}
+
+/**
+ * Lowercase words of a line, LaTeX commands and punctuation removed
+ * (keeps "c++", "c#", "node.js" style tokens whole)
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .replace(/\\[a-zA-Z]+\*?/g, ' ')
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Stemmed terms of a line, in order (repeats kept for term frequency)
+ */
+export function tokenize(text: string): string[] {
+  return splitWords(text).map(stem);
+}
+
+/**
+ * Edit distance between two terms, giving up (returning max + 1) once it
+ * exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
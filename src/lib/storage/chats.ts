@@ -3,12 +3,16 @@
  * Includes IndexedDB for original file storage (format preservation)
  */
 
-import { Chat, Message, Document, OriginalDocument, EditHistory } from '../parsers/types';
+import { Chat, Message, Document, OriginalDocument, EditHistory, EditLog, ResumeVersionHistory, CoverLetter, EditSuggestion } from '../parsers/types';
 import { randomUUID } from 'crypto';
 
 const STORAGE_KEY = 'resume-craft-pro-chats';
 const DOCUMENT_STORAGE_KEY = 'resume-craft-pro-documents';
 const EDIT_HISTORY_KEY = 'resume-craft-pro-edit-history';
+const VERSIONS_KEY = 'resume-craft-pro-versions';
+const EDIT_LOG_KEY = 'resume-craft-pro-edit-log';
+const COVER_LETTERS_KEY = 'resume-craft-pro-cover-letters';
+const SUGGESTIONS_KEY = 'resume-craft-pro-suggestions';
 const INDEXEDDB_NAME = 'ResumeCraftPro';
 const ORIGINAL_FILES_STORE = 'original-files';
 
@@ -292,6 +296,9 @@ export function clearAllStorage(): boolean {
     localStorage.removeItem(STORAGE_KEY);
     localStorage.removeItem(DOCUMENT_STORAGE_KEY);
     localStorage.removeItem(EDIT_HISTORY_KEY);
+    localStorage.removeItem(VERSIONS_KEY);
+    localStorage.removeItem(EDIT_LOG_KEY);
+    localStorage.removeItem(SUGGESTIONS_KEY);
 
     console.info('[STORAGE] Cleared all storage');
 
@@ -369,6 +376,247 @@ export function loadEditHistory(documentId: string): EditHistory | null {
   }
 }
 
+// ========== RESUME VERSIONS ==========
+
+/**
+ * Save the named versions of a document
+ */
+export function saveVersionHistory(history: ResumeVersionHistory): boolean {
+  try {
+    if (!isLocalStorageAvailable()) {
+      console.warn('[STORAGE] localStorage not available');
+      return false;
+    }
+
+    const stored = localStorage.getItem(VERSIONS_KEY);
+    const histories: Record<string, ResumeVersionHistory> = stored ? JSON.parse(stored) : {};
+
+    histories[history.documentId] = history;
+
+    localStorage.setItem(VERSIONS_KEY, JSON.stringify(histories));
+
+    console.info(`[STORAGE] Saved ${history.versions.length} versions for document ${history.documentId}`);
+
+    return true;
+
+  } catch (error) {
+    // Most likely the localStorage quota (many large versions)
+    console.error('[STORAGE] Error saving versions:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the named versions of a document
+ */
+export function loadVersionHistory(documentId: string): ResumeVersionHistory {
+  try {
+    if (!isLocalStorageAvailable()) {
+      return { documentId, versions: [] };
+    }
+
+    const stored = localStorage.getItem(VERSIONS_KEY);
+    const histories: Record<string, ResumeVersionHistory> = stored ? JSON.parse(stored) : {};
+    const history = histories[documentId];
+
+    if (!history) {
+      return { documentId, versions: [] };
+    }
+
+    // Convert date strings back to Date objects
+    history.versions.forEach(version => {
+      version.createdAt = new Date(version.createdAt);
+      version.updatedAt = new Date(version.updatedAt);
+      version.edits.forEach(edit => {
+        edit.timestamp = new Date(edit.timestamp);
+      });
+    });
+
+    console.info(`[STORAGE] Loaded ${history.versions.length} versions for document ${documentId}`);
+
+    return history;
+
+  } catch (error) {
+    console.error('[STORAGE] Error loading versions:', error);
+    return { documentId, versions: [] };
+  }
+}
+
+// ========== EDIT LOG (UNDO/REDO) ==========
+
+/**
+ * Save the undo/redo log of a document
+ */
+export function saveEditLog(log: EditLog): boolean {
+  try {
+    if (!isLocalStorageAvailable()) {
+      console.warn('[STORAGE] localStorage not available');
+      return false;
+    }
+
+    const stored = localStorage.getItem(EDIT_LOG_KEY);
+    const logs: Record<string, EditLog> = stored ? JSON.parse(stored) : {};
+
+    logs[log.documentId] = log;
+
+    localStorage.setItem(EDIT_LOG_KEY, JSON.stringify(logs));
+
+    console.info(`[STORAGE] Saved edit log for document ${log.documentId} (${log.transactions.length} transactions)`);
+
+    return true;
+
+  } catch (error) {
+    console.error('[STORAGE] Error saving edit log:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the undo/redo log of a document
+ */
+export function loadEditLog(documentId: string): EditLog {
+  try {
+    if (!isLocalStorageAvailable()) {
+      return { documentId, transactions: [], redoStack: [] };
+    }
+
+    const stored = localStorage.getItem(EDIT_LOG_KEY);
+    const logs: Record<string, EditLog> = stored ? JSON.parse(stored) : {};
+    const log = logs[documentId];
+
+    if (!log) {
+      return { documentId, transactions: [], redoStack: [] };
+    }
+
+    // Convert date strings back to Date objects
+    [...log.transactions, ...log.redoStack].forEach(transaction => {
+      transaction.timestamp = new Date(transaction.timestamp);
+      transaction.edits.forEach(edit => {
+        edit.timestamp = new Date(edit.timestamp);
+      });
+    });
+
+    return log;
+
+  } catch (error) {
+    console.error('[STORAGE] Error loading edit log:', error);
+    return { documentId, transactions: [], redoStack: [] };
+  }
+}
+
+// ========== COVER LETTERS ==========
+
+/**
+ * Save the cover letter draft of a document (one draft per resume)
+ */
+export function saveCoverLetter(documentId: string, letter: CoverLetter): boolean {
+  try {
+    if (!isLocalStorageAvailable()) {
+      console.warn('[STORAGE] localStorage not available');
+      return false;
+    }
+
+    const stored = localStorage.getItem(COVER_LETTERS_KEY);
+    const letters: Record<string, CoverLetter> = stored ? JSON.parse(stored) : {};
+
+    letters[documentId] = letter;
+
+    localStorage.setItem(COVER_LETTERS_KEY, JSON.stringify(letters));
+
+    console.info(`[STORAGE] Saved cover letter for document ${documentId}`);
+
+    return true;
+
+  } catch (error) {
+    console.error('[STORAGE] Error saving cover letter:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the cover letter draft of a document
+ */
+export function loadCoverLetter(documentId: string): CoverLetter | null {
+  try {
+    if (!isLocalStorageAvailable()) {
+      return null;
+    }
+
+    const stored = localStorage.getItem(COVER_LETTERS_KEY);
+    const letters: Record<string, CoverLetter> = stored ? JSON.parse(stored) : {};
+    const letter = letters[documentId];
+
+    if (!letter) {
+      return null;
+    }
+
+    // Convert date strings back to Date objects
+    letter.createdAt = new Date(letter.createdAt);
+    letter.updatedAt = new Date(letter.updatedAt);
+
+    return letter;
+
+  } catch (error) {
+    console.error('[STORAGE] Error loading cover letter:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the pending chat suggestions of a document (an empty list removes the entry)
+ */
+export function saveSuggestions(documentId: string, suggestions: EditSuggestion[]): boolean {
+  try {
+    if (!isLocalStorageAvailable()) {
+      console.warn('[STORAGE] localStorage not available');
+      return false;
+    }
+
+    const stored = localStorage.getItem(SUGGESTIONS_KEY);
+    const all: Record<string, EditSuggestion[]> = stored ? JSON.parse(stored) : {};
+
+    if (suggestions.length > 0) {
+      all[documentId] = suggestions;
+    } else {
+      delete all[documentId];
+    }
+
+    localStorage.setItem(SUGGESTIONS_KEY, JSON.stringify(all));
+
+    console.info(`[STORAGE] Saved ${suggestions.length} suggestions for document ${documentId}`);
+
+    return true;
+
+  } catch (error) {
+    console.error('[STORAGE] Error saving suggestions:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the pending chat suggestions of a document
+ */
+export function loadSuggestions(documentId: string): EditSuggestion[] {
+  try {
+    if (!isLocalStorageAvailable()) {
+      return [];
+    }
+
+    const stored = localStorage.getItem(SUGGESTIONS_KEY);
+    const all: Record<string, EditSuggestion[]> = stored ? JSON.parse(stored) : {};
+
+    // Convert date strings back to Date objects
+    return (all[documentId] || []).map(suggestion => ({
+      ...suggestion,
+      createdAt: new Date(suggestion.createdAt)
+    }));
+
+  } catch (error) {
+    console.error('[STORAGE] Error loading suggestions:', error);
+    return [];
+  }
+}
+
 // ========== INDEXEDDB FOR ORIGINAL FILES ==========
 
 /**
@@ -0,0 +1,11 @@
+/**
+ * Suggestions Module - Chat edits proposed in suggest mode
+ */
+
+export {
+  createSuggestions,
+  getSuggestionConflict,
+  applySuggestion,
+  rebaseSuggestions,
+  acceptSuggestions
+} from './suggestions';
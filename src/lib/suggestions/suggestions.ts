@@ -0,0 +1,139 @@
+/**
+ * Edit Suggestions - Proposed chat edits that wait for the user
+ *
+ * In suggest mode the assistant's doc_propose_edit calls become one
+ * suggestion per line instead of changing the document. Accepting applies
+ * the suggestion to the current lines and shifts the line numbers of the
+ * remaining suggestions past any insert or delete; rejecting just drops it.
+ * A suggestion whose line was edited, locked or removed since it was proposed
+ * is a conflict and can only be rejected.
+ */
+
+import { EditParams, EditSuggestion, Line } from '../parsers/types';
+
+/**
+ * One suggestion per target line (locked or missing lines are the caller's check)
+ */
+export function createSuggestions(
+  params: EditParams & { reason?: string },
+  lines: Line[]
+): EditSuggestion[] {
+  const createdAt = new Date();
+
+  return params.lines.map(lineNumber => ({
+    id: `sg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    operation: params.operation,
+    lineNumber,
+    originalText: lines.find(line => line.lineNumber === lineNumber)?.text ?? '',
+    ...(params.operation !== 'delete' ? { newText: params.newText || '' } : {}),
+    ...(params.reason ? { reason: params.reason } : {}),
+    createdAt
+  }));
+}
+
+/**
+ * Why a suggestion can no longer be applied (null = applies cleanly)
+ */
+export function getSuggestionConflict(suggestion: EditSuggestion, lines: Line[]): string | null {
+  const line = lines.find(l => l.lineNumber === suggestion.lineNumber);
+  if (!line) {
+    return `Line ${suggestion.lineNumber} no longer exists`;
+  }
+  if (line.text !== suggestion.originalText) {
+    return `Line ${suggestion.lineNumber} was edited since this was suggested`;
+  }
+  if (line.isLocked && suggestion.operation !== 'insert') {
+    return `Line ${suggestion.lineNumber} is locked`;
+  }
+  return null;
+}
+
+/**
+ * Apply one suggestion to the lines (returns new, renumbered lines)
+ */
+export function applySuggestion(lines: Line[], suggestion: EditSuggestion): Line[] {
+  const conflict = getSuggestionConflict(suggestion, lines);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+
+  const index = lines.findIndex(line => line.lineNumber === suggestion.lineNumber);
+  const updated = lines.map(line => ({ ...line }));
+
+  switch (suggestion.operation) {
+    case 'replace':
+      updated[index].text = suggestion.newText || '';
+      break;
+
+    case 'delete':
+      updated.splice(index, 1);
+      break;
+
+    case 'insert':
+      updated.splice(index + 1, 0, {
+        lineNumber: suggestion.lineNumber + 1,
+        text: suggestion.newText || '',
+        pageNumber: lines[index].pageNumber,
+        isLocked: false,
+        isPlaceholder: false
+      });
+      break;
+  }
+
+  updated.forEach((line, i) => {
+    line.lineNumber = i + 1;
+  });
+
+  console.info(`[SUGGESTIONS] Applied ${suggestion.operation} on line ${suggestion.lineNumber}`);
+  return updated;
+}
+
+/**
+ * Remaining suggestions after `applied` was accepted: line numbers below an
+ * insert or delete shift, and suggestions on a deleted line are dropped
+ */
+export function rebaseSuggestions(pending: EditSuggestion[], applied: EditSuggestion): EditSuggestion[] {
+  const shift = applied.operation === 'insert' ? 1 : applied.operation === 'delete' ? -1 : 0;
+
+  return pending
+    .filter(suggestion => suggestion.id !== applied.id)
+    .filter(suggestion => !(applied.operation === 'delete' && suggestion.lineNumber === applied.lineNumber))
+    .map(suggestion => {
+      if (shift !== 0 && suggestion.lineNumber > applied.lineNumber) {
+        return { ...suggestion, lineNumber: suggestion.lineNumber + shift };
+      }
+      if (applied.operation === 'replace' && suggestion.lineNumber === applied.lineNumber && suggestion.operation === 'insert') {
+        // Inserts anchored to the replaced line still belong after it
+        return { ...suggestion, originalText: applied.newText || '' };
+      }
+      return suggestion;
+    });
+}
+
+/**
+ * Accept several suggestions in order, skipping conflicts
+ */
+export function acceptSuggestions(
+  lines: Line[],
+  pending: EditSuggestion[],
+  ids: string[]
+): { lines: Line[]; pending: EditSuggestion[]; applied: EditSuggestion[]; skipped: number } {
+  const applied: EditSuggestion[] = [];
+  let skipped = 0;
+
+  ids.forEach(id => {
+    const suggestion = pending.find(s => s.id === id);
+    if (!suggestion) return;
+
+    if (getSuggestionConflict(suggestion, lines)) {
+      skipped++;
+      return;
+    }
+
+    lines = applySuggestion(lines, suggestion);
+    pending = rebaseSuggestions(pending, suggestion);
+    applied.push(suggestion);
+  });
+
+  return { lines, pending, applied, skipped };
+}
@@ -8,7 +8,7 @@
  * - localStorage persistence
  */
 
-import { TokenUsage, LLMCallRecord } from '@/lib/parsers/types';
+import { TokenUsage, LLMCallRecord, LLMCallStatus } from '@/lib/parsers/types';
 import { encode } from 'gpt-tokenizer';
 
 // Gemini 2.0 Flash pricing (as of 2025)
@@ -49,6 +49,7 @@ export class TokenTracker {
 
   /**
    * Record an LLM call
+   * status defaults to 'success'/'failed' from the success flag
    */
   recordLLMCall(
     sessionId: string,
@@ -58,7 +59,8 @@ export class TokenTracker {
     completionTokens: number,
     durationMs: number,
     success: boolean = true,
-    error?: string
+    error?: string,
+    status: LLMCallStatus = success ? 'success' : 'failed'
   ): string {
     this.initSession(sessionId);
 
@@ -77,6 +79,7 @@ export class TokenTracker {
       cost,
       durationMs,
       success,
+      status,
       error
     };
 
@@ -96,13 +99,14 @@ export class TokenTracker {
       model,
       tokensUsed: totalTokens,
       promptTokens,
-      completionTokens
+      completionTokens,
+      status
     });
 
     this.saveToStorage();
 
     console.info(
-      `[TOKEN_TRACKER] Recorded LLM call: ${operation} | ` +
+      `[TOKEN_TRACKER] Recorded LLM call: ${operation}${status === 'aborted' ? ' (aborted)' : ''} | ` +
       `Tokens: ${totalTokens} (${promptTokens} prompt + ${completionTokens} completion) | ` +
       `Cost: $${cost.toFixed(6)} | Duration: ${durationMs}ms`
     );
@@ -110,6 +114,19 @@ export class TokenTracker {
     return callRecord.id;
   }
 
+  /**
+   * Record a call cancelled through an AbortSignal
+   */
+  recordAbortedLLMCall(
+    sessionId: string,
+    operation: string,
+    model: string,
+    promptTokens: number,
+    durationMs: number
+  ): string {
+    return this.recordLLMCall(sessionId, operation, model, promptTokens, 0, durationMs, false, 'Aborted', 'aborted');
+  }
+
   /**
    * Get session usage
    */
@@ -156,6 +173,7 @@ export class TokenTracker {
     completionTokens: number;
     estimatedCost: number;
     callCount: number;
+    abortedCount: number;
     averageTokensPerCall: number;
     totalDurationMs: number;
     successRate: number;
@@ -169,6 +187,8 @@ export class TokenTracker {
 
     const totalDurationMs = records.reduce((sum, r) => sum + r.durationMs, 0);
     const successCount = records.filter(r => r.success).length;
+    const abortedCount = records.filter(r => r.status === 'aborted').length;
+    const completedCount = records.length - abortedCount;
 
     return {
       totalTokens: usage.totalTokens,
@@ -176,9 +196,11 @@ export class TokenTracker {
       completionTokens: usage.completionTokens,
       estimatedCost: usage.estimatedCost,
       callCount: records.length,
+      abortedCount,
       averageTokensPerCall: records.length > 0 ? usage.totalTokens / records.length : 0,
       totalDurationMs,
-      successRate: records.length > 0 ? successCount / records.length : 0
+      // Aborted calls are cancellations, not failures
+      successRate: completedCount > 0 ? successCount / completedCount : 0
     };
   }
 
@@ -0,0 +1,157 @@
+/**
+ * Version Diff - Line and word level comparison of two resume versions
+ *
+ * Lines are aligned with a longest-common-subsequence diff; a removed line
+ * followed by a similar added line is reported as one modified line with
+ * word-level segments.
+ */
+
+import { Line, LineDiff, VersionDiff, WordDiffSegment } from '../parsers/types';
+
+// Share of words two lines must have in common to count as one modified line
+const MODIFIED_LINE_SIMILARITY = 0.3;
+
+export type DiffOp = { type: 'unchanged' | 'added' | 'removed'; oldIndex?: number; newIndex?: number };
+
+/**
+ * Diff two versions' lines (compared by text, trailing whitespace ignored)
+ */
+export function diffVersionLines(oldLines: Line[], newLines: Line[]): VersionDiff {
+  const oldTexts = oldLines.map(line => line.text.trimEnd());
+  const newTexts = newLines.map(line => line.text.trimEnd());
+  const ops = diffSequences(oldTexts, newTexts);
+
+  const lines: LineDiff[] = [];
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'unchanged') {
+      const { oldIndex, newIndex } = ops[i];
+      lines.push({
+        type: 'unchanged',
+        oldLineNumber: oldLines[oldIndex!].lineNumber,
+        newLineNumber: newLines[newIndex!].lineNumber,
+        oldText: oldTexts[oldIndex!],
+        newText: newTexts[newIndex!]
+      });
+      i++;
+      continue;
+    }
+
+    // Collect one hunk of removals/additions and pair them up in order
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (i < ops.length && ops[i].type !== 'unchanged') {
+      if (ops[i].type === 'removed') removed.push(ops[i].oldIndex!);
+      else added.push(ops[i].newIndex!);
+      i++;
+    }
+
+    const pairs = Math.min(removed.length, added.length);
+    for (let p = 0; p < Math.max(removed.length, added.length); p++) {
+      const oldIndex = removed[p];
+      const newIndex = added[p];
+      if (p < pairs && wordSimilarity(oldTexts[oldIndex], newTexts[newIndex]) >= MODIFIED_LINE_SIMILARITY) {
+        lines.push({
+          type: 'modified',
+          oldLineNumber: oldLines[oldIndex].lineNumber,
+          newLineNumber: newLines[newIndex].lineNumber,
+          oldText: oldTexts[oldIndex],
+          newText: newTexts[newIndex],
+          words: diffWords(oldTexts[oldIndex], newTexts[newIndex])
+        });
+        continue;
+      }
+      if (oldIndex !== undefined) {
+        lines.push({ type: 'removed', oldLineNumber: oldLines[oldIndex].lineNumber, oldText: oldTexts[oldIndex] });
+      }
+      if (newIndex !== undefined) {
+        lines.push({ type: 'added', newLineNumber: newLines[newIndex].lineNumber, newText: newTexts[newIndex] });
+      }
+    }
+  }
+
+  const stats = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  lines.forEach(line => stats[line.type]++);
+
+  return { lines, stats };
+}
+
+/**
+ * Word-level diff of two strings; whitespace is kept with the preceding word
+ */
+export function diffWords(oldText: string, newText: string): WordDiffSegment[] {
+  const oldTokens = oldText.match(/\S+\s*|\s+/g) || [];
+  const newTokens = newText.match(/\S+\s*|\s+/g) || [];
+  const ops = diffSequences(oldTokens.map(t => t.trim()), newTokens.map(t => t.trim()));
+
+  const segments: WordDiffSegment[] = [];
+  for (const op of ops) {
+    const text = op.type === 'removed' ? oldTokens[op.oldIndex!] : newTokens[op.newIndex!];
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += text;
+    } else {
+      segments.push({ type: op.type, text });
+    }
+  }
+  return segments;
+}
+
+/**
+ * LCS diff of two sequences; the common prefix and suffix are matched
+ * directly so typical small edits stay cheap
+ */
+export function diffSequences(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let k = 0; k < start; k++) ops.push({ type: 'unchanged', oldIndex: k, newIndex: k });
+
+  // LCS lengths of the changed middle part (removals are emitted before additions)
+  const rows = endA - start;
+  const cols = endB - start;
+  const table = new Uint32Array((rows + 1) * (cols + 1));
+  for (let x = rows - 1; x >= 0; x--) {
+    for (let y = cols - 1; y >= 0; y--) {
+      table[x * (cols + 1) + y] = a[start + x] === b[start + y]
+        ? table[(x + 1) * (cols + 1) + y + 1] + 1
+        : Math.max(table[(x + 1) * (cols + 1) + y], table[x * (cols + 1) + y + 1]);
+    }
+  }
+
+  let x = 0;
+  let y = 0;
+  while (x < rows || y < cols) {
+    if (x < rows && y < cols && a[start + x] === b[start + y]) {
+      ops.push({ type: 'unchanged', oldIndex: start + x, newIndex: start + y });
+      x++;
+      y++;
+    } else if (x < rows && (y === cols || table[(x + 1) * (cols + 1) + y] >= table[x * (cols + 1) + y + 1])) {
+      ops.push({ type: 'removed', oldIndex: start + x });
+      x++;
+    } else {
+      ops.push({ type: 'added', newIndex: start + y });
+      y++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    ops.push({ type: 'unchanged', oldIndex: endA + k, newIndex: endB + k });
+  }
+  return ops;
+}
+
+function wordSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().split(/\s+/).filter(Boolean));
+  const wordsB = new Set(b.toLowerCase().split(/\s+/).filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
@@ -0,0 +1,17 @@
+/**
+ * Versioning Module - Named resume versions, branching and diffs
+ */
+
+export {
+  saveVersion,
+  updateVersion,
+  branchVersion,
+  renameVersion,
+  deleteVersion,
+  restoreVersion,
+  hasUnsavedChanges,
+  orderVersionTree
+} from './versions';
+export type { VersionSnapshot } from './versions';
+export { diffVersionLines, diffWords, diffSequences } from './diff';
+export type { DiffOp } from './diff';
@@ -0,0 +1,196 @@
+/**
+ * Resume Versions - Named snapshots of a resume with branching
+ *
+ * The document being edited is the working copy. Saving snapshots it as a
+ * named version (child of the active version); branching copies any version
+ * into a new one and makes it active; restoring loads a version back into the
+ * working copy. Versions form a tree through parentId.
+ */
+
+import { Document, LineEdit, ResumeVersion, ResumeVersionHistory } from '../parsers/types';
+
+export interface VersionSnapshot {
+  document: Document;
+  edits?: LineEdit[];
+  rawSource?: string;
+}
+
+/**
+ * Snapshot the working copy as a new named version (made active)
+ */
+export function saveVersion(
+  history: ResumeVersionHistory,
+  name: string,
+  snapshot: VersionSnapshot
+): { history: ResumeVersionHistory; version: ResumeVersion } {
+  const now = new Date();
+  const version: ResumeVersion = {
+    id: newVersionId(),
+    documentId: history.documentId,
+    name: uniqueName(history, name),
+    parentId: history.activeVersionId,
+    lines: snapshot.document.lines,
+    edits: snapshot.edits || [],
+    rawSource: snapshot.rawSource,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  console.info(`[VERSIONS] Saved version "${version.name}" (${version.lines.length} lines)`);
+
+  return {
+    history: { ...history, versions: [...history.versions, version], activeVersionId: version.id },
+    version
+  };
+}
+
+/**
+ * Overwrite an existing version with the working copy
+ */
+export function updateVersion(
+  history: ResumeVersionHistory,
+  versionId: string,
+  snapshot: VersionSnapshot
+): ResumeVersionHistory {
+  console.info(`[VERSIONS] Updated version ${versionId}`);
+
+  return {
+    ...history,
+    versions: history.versions.map(v => v.id === versionId
+      ? {
+        ...v,
+        lines: snapshot.document.lines,
+        edits: snapshot.edits || [],
+        rawSource: snapshot.rawSource,
+        updatedAt: new Date()
+      }
+      : v),
+    activeVersionId: versionId
+  };
+}
+
+/**
+ * Branch a new version off an existing one (made active)
+ */
+export function branchVersion(
+  history: ResumeVersionHistory,
+  sourceVersionId: string,
+  name: string
+): { history: ResumeVersionHistory; version: ResumeVersion } {
+  const source = history.versions.find(v => v.id === sourceVersionId);
+  if (!source) {
+    throw new Error(`Version not found: ${sourceVersionId}`);
+  }
+
+  const now = new Date();
+  const version: ResumeVersion = {
+    ...source,
+    id: newVersionId(),
+    name: uniqueName(history, name),
+    parentId: source.id,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  console.info(`[VERSIONS] Branched "${version.name}" from "${source.name}"`);
+
+  return {
+    history: { ...history, versions: [...history.versions, version], activeVersionId: version.id },
+    version
+  };
+}
+
+/**
+ * Rename a version (names stay unique)
+ */
+export function renameVersion(
+  history: ResumeVersionHistory,
+  versionId: string,
+  name: string
+): ResumeVersionHistory {
+  const others = { ...history, versions: history.versions.filter(v => v.id !== versionId) };
+  return {
+    ...history,
+    versions: history.versions.map(v => v.id === versionId ? { ...v, name: uniqueName(others, name) } : v)
+  };
+}
+
+/**
+ * Delete a version; its branches are re-attached to its parent
+ */
+export function deleteVersion(history: ResumeVersionHistory, versionId: string): ResumeVersionHistory {
+  const removed = history.versions.find(v => v.id === versionId);
+  if (!removed) return history;
+
+  console.info(`[VERSIONS] Deleted version "${removed.name}"`);
+
+  return {
+    ...history,
+    versions: history.versions
+      .filter(v => v.id !== versionId)
+      .map(v => v.parentId === versionId ? { ...v, parentId: removed.parentId } : v),
+    activeVersionId: history.activeVersionId === versionId ? removed.parentId : history.activeVersionId
+  };
+}
+
+/**
+ * Working copy with the version's lines
+ */
+export function restoreVersion(version: ResumeVersion, document: Document): Document {
+  console.info(`[VERSIONS] Restoring version "${version.name}"`);
+
+  return {
+    ...document,
+    lines: version.lines,
+    metadata: {
+      ...document.metadata,
+      totalLines: version.lines.length,
+      totalPages: version.lines.reduce((max, line) => Math.max(max, line.pageNumber), 1)
+    }
+  };
+}
+
+/**
+ * Whether the working copy differs from a version's text
+ */
+export function hasUnsavedChanges(version: ResumeVersion | undefined, document: Pick<Document, 'lines'>): boolean {
+  if (!version) return true;
+  return version.lines.length !== document.lines.length ||
+    version.lines.some((line, index) => line.text !== document.lines[index].text);
+}
+
+/**
+ * Versions in tree order (each parent followed by its branches), with depth
+ */
+export function orderVersionTree(versions: ResumeVersion[]): Array<{ version: ResumeVersion; depth: number }> {
+  const ids = new Set(versions.map(v => v.id));
+  const childrenOf = (parentId: string | undefined) => versions
+    .filter(v => (parentId === undefined ? !v.parentId || !ids.has(v.parentId) : v.parentId === parentId))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const ordered: Array<{ version: ResumeVersion; depth: number }> = [];
+  const visit = (version: ResumeVersion, depth: number) => {
+    ordered.push({ version, depth });
+    childrenOf(version.id).forEach(child => visit(child, depth + 1));
+  };
+  childrenOf(undefined).forEach(root => visit(root, 0));
+
+  return ordered;
+}
+
+function newVersionId(): string {
+  return `version-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * "Stripe SRE" -> "Stripe SRE (2)" when the name is taken
+ */
+function uniqueName(history: ResumeVersionHistory, name: string): string {
+  const base = name.trim() || 'Untitled';
+  const taken = new Set(history.versions.map(v => v.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base} (${suffix})`.toLowerCase())) suffix++;
+  return `${base} (${suffix})`;
+}
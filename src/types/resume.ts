@@ -1,8 +1,14 @@
 /**
  * Resume data structures with COMPLETE FORMAT PRESERVATION
  * Priority: Preserve original formatting at all costs
+ *
+ * Resume is the canonical model: structure is detected once at parse time and
+ * the same object flows through analysis, optimization, chat editing and export.
+ * Line-based consumers get a ResumeDocument view via @/lib/resume-model.
  */
 
+import type { ResumeLine } from '@/lib/parsers/types';
+
 /**
  * Complete resume structure with metadata, sections, and FORMAT-PRESERVING source
  */
@@ -12,7 +18,12 @@ export interface Resume {
   fileName: string;
   metadata: ResumeMetadata;
   sections: ResumeSection[];
-  rawSource: string; // Original source (LaTeX or DOCX XML)
+  rawSource: string; // Original source (LaTeX, or DOCX paragraph text one per line)
+
+  // Line view shared with the chat editor; sections, items and bullets point
+  // into it by line number
+  lines: ResumeLine[];
+  detectedKeywords: string[];
 
   // FORMAT PRESERVATION: LaTeX-specific
   latexFormatting?: LatexFormattingMetadata;
@@ -338,6 +349,20 @@ export interface LatexCompilationResult {
   pdfUrl?: string;
   error?: string;
   log?: string; // Full compilation log
+  diagnostics?: LatexDiagnostic[]; // Structured errors/warnings parsed from the log
+  backend?: string; // Compiler that produced the result (e.g. 'local:pdflatex', 'latexonline')
+}
+
+/**
+ * Single error or warning parsed from a LaTeX log
+ */
+export interface LatexDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  file?: string; // Source file reported by TeX (main file when omitted)
+  line?: number; // 1-based line in the main .tex source
+  context?: string; // Source excerpt TeX printed after "l.<n>"
+  token?: string; // Offending token (e.g. the undefined control sequence)
 }
 
 /**